@@ -77,6 +77,51 @@ export function getBurnerAddress(): string {
   return getEnv("BURNER_ADDRESS");
 }
 
+// Operational roles default to the admin address
+export function getPauserAddress(): string {
+  return getOptionalEnv("PAUSER_ADDRESS") || getAdminAddress();
+}
+
+export function getReserveUpdaterAddress(): string {
+  return getOptionalEnv("RESERVE_UPDATER_ADDRESS") || getAdminAddress();
+}
+
+export function getPolicyAdminAddress(): string {
+  return getOptionalEnv("POLICY_ADMIN_ADDRESS") || getAdminAddress();
+}
+
+export function getOracleAdminAddress(): string {
+  return getOptionalEnv("ORACLE_ADMIN_ADDRESS") || getAdminAddress();
+}
+
+export function getUpgraderAddress(): string {
+  return getOptionalEnv("UPGRADER_ADDRESS") || getAdminAddress();
+}
+
+// Holders the role audit expects for the roles deploy.ts leaves with the
+// admin; hand them over with scripts/roles.ts and set these to match
+export function getMinterAdminAddress(): string {
+  return getOptionalEnv("MINTER_ADMIN_ADDRESS") || getAdminAddress();
+}
+
+export function getComplianceAddress(): string {
+  return getOptionalEnv("COMPLIANCE_ADDRESS") || getAdminAddress();
+}
+
+// Comma-separated MINT_APPROVER_ROLE holders; unset = no approvers
+export function getMintApproverAddresses(): string[] {
+  const addresses = getOptionalEnv("MINT_APPROVER_ADDRESSES");
+  if (!addresses) return [];
+  return addresses.split(",").map((address) => {
+    if (!/^0x[0-9a-fA-F]{40}$/.test(address.trim())) {
+      throw new Error(
+        `${PREFIX}_MINT_APPROVER_ADDRESSES contains an invalid address: "${address}"`
+      );
+    }
+    return address.trim();
+  });
+}
+
 // Reserve Configuration
 export function getReserveApiUrl(): string {
   const url = process.env.RESERVE_API_URL;
@@ -94,6 +139,12 @@ export function getReserveTTL(): number {
   return parseInt(process.env.RESERVE_TTL_SECONDS || "900");
 }
 
+// Functions source version (functions/reserve.v<N>.js); unset = current version
+export function getReserveSourceVersion(): number | undefined {
+  const version = process.env.RESERVE_SOURCE_VERSION;
+  return version ? parseInt(version) : undefined;
+}
+
 // Policy Configuration
 export function getMintPerTxLimit(): string {
   return process.env.MINT_PER_TX_LIMIT || "0";
@@ -108,6 +159,455 @@ export function getNetworkName(): string {
   return IS_PRODUCTION ? "polygon" : "amoy";
 }
 
+// Deployment Name (selects a named deployment inside deployments/<network>.json)
+export function getDeploymentName(): string {
+  return process.env.DEPLOYMENT_NAME || "default";
+}
+
+// Upgrade Options (scripts/upgrade.ts)
+export function getUpgradeContract(): string {
+  const name = process.env.UPGRADE_CONTRACT;
+  if (!name) {
+    throw new Error("UPGRADE_CONTRACT is required (e.g. UPGRADE_CONTRACT=Vetra)");
+  }
+  return name;
+}
+
+export function isUpgradeDryRun(): boolean {
+  return process.env.UPGRADE_DRY_RUN === "true";
+}
+
+export function getUpgradeCall(): { fn: string; args: unknown[] } | undefined {
+  const fn = process.env.UPGRADE_CALL;
+  if (!fn) return undefined;
+
+  const args = JSON.parse(process.env.UPGRADE_CALL_ARGS || "[]");
+  if (!Array.isArray(args)) {
+    throw new Error("UPGRADE_CALL_ARGS must be a JSON array");
+  }
+  return { fn, args };
+}
+
+// Migration Options (scripts/migrate.ts)
+export function getMigrationComplianceAddress(): string | undefined {
+  return process.env.MIGRATION_COMPLIANCE_ADDRESS || undefined;
+}
+
+// Reserve Update Options (scripts/updateReserve.ts)
+export function isUpdateReserveWait(): boolean {
+  return process.env.UPDATE_RESERVE_WAIT === "true";
+}
+
+export function getUpdateReserveTimeout(): number {
+  return parseInt(process.env.UPDATE_RESERVE_TIMEOUT_SECONDS || "300");
+}
+
+// Reserve Keeper Options (scripts/reserveKeeper.ts)
+export function getKeeperTtlMargin(): number {
+  return parseInt(process.env.KEEPER_TTL_MARGIN_SECONDS || "120");
+}
+
+export function getKeeperFulfillmentTimeout(): number {
+  return parseInt(process.env.KEEPER_FULFILLMENT_TIMEOUT_SECONDS || "300");
+}
+
+export function getKeeperPollInterval(): number {
+  return parseInt(process.env.KEEPER_POLL_INTERVAL_SECONDS || "15");
+}
+
+export function getKeeperRetryBase(): number {
+  return parseInt(process.env.KEEPER_RETRY_BASE_SECONDS || "30");
+}
+
+export function getKeeperRetryMax(): number {
+  return parseInt(process.env.KEEPER_RETRY_MAX_SECONDS || "600");
+}
+
+// Local Reserve API Options (scripts/reserveApi.ts)
+export function getReserveApiPort(): number {
+  return parseInt(process.env.RESERVE_API_PORT || "8787");
+}
+
+export function getReserveApiScenario(): string {
+  return process.env.RESERVE_API_SCENARIO || "fixed";
+}
+
+// Source Approval Options (scripts/approveSource.ts)
+export function getReserveSourceUri(): string {
+  return process.env.RESERVE_SOURCE_URI || "";
+}
+
+// Quarantine Options (scripts/resolveQuarantine.ts)
+export function getQuarantineAction(): "confirm" | "reject" | undefined {
+  const action = process.env.QUARANTINE_ACTION;
+  if (!action) return undefined;
+  if (action !== "confirm" && action !== "reject") {
+    throw new Error(
+      `QUARANTINE_ACTION must be "confirm" or "reject", got "${action}"`
+    );
+  }
+  return action;
+}
+
+// Minter Allowance (scripts/deploy.ts, scripts/roles.ts, scripts/migrate.ts)
+// Amount in VTR; unset = leave allowances unchanged
+export function getMinterAllowance(): string | undefined {
+  return process.env.MINTER_ALLOWANCE || undefined;
+}
+
+// Compliance Options (scripts/compliance.ts)
+export function getComplianceAction():
+  | "block"
+  | "unblock"
+  | "wipe"
+  | undefined {
+  const action = process.env.COMPLIANCE_ACTION;
+  if (!action) return undefined;
+  if (action !== "block" && action !== "unblock" && action !== "wipe") {
+    throw new Error(
+      `COMPLIANCE_ACTION must be "block", "unblock" or "wipe", got "${action}"`
+    );
+  }
+  return action;
+}
+
+export function getComplianceAccount(): string {
+  const account = process.env.COMPLIANCE_ACCOUNT;
+  if (!account) {
+    throw new Error("Missing required environment variable: COMPLIANCE_ACCOUNT");
+  }
+  return account;
+}
+
+// Redemption Options (scripts/redemptions.ts)
+export function getRedemptionAction():
+  | "settle"
+  | "reject"
+  | "wipe"
+  | undefined {
+  const action = process.env.REDEMPTION_ACTION;
+  if (!action) return undefined;
+  if (action !== "settle" && action !== "reject" && action !== "wipe") {
+    throw new Error(
+      `REDEMPTION_ACTION must be "settle", "reject" or "wipe", got "${action}"`
+    );
+  }
+  return action;
+}
+
+// Comma-separated request IDs, or "all" for every pending request
+export function getRedemptionIds(): bigint[] | "all" {
+  const ids = process.env.REDEMPTION_IDS;
+  if (!ids) {
+    throw new Error("Missing required environment variable: REDEMPTION_IDS");
+  }
+  if (ids.trim() === "all") return "all";
+  return ids.split(",").map((id) => {
+    if (!/^\d+$/.test(id.trim())) {
+      throw new Error(`REDEMPTION_IDS contains an invalid ID: "${id}"`);
+    }
+    return BigInt(id.trim());
+  });
+}
+
+export function getRedemptionBatchSize(): number {
+  const size = parseInt(process.env.REDEMPTION_BATCH_SIZE || "25");
+  if (!Number.isInteger(size) || size < 1) {
+    throw new Error("REDEMPTION_BATCH_SIZE must be a positive integer");
+  }
+  return size;
+}
+
+// Mint Approval Options (scripts/deployMintApprovals.ts)
+// Amount in VTR; unset = leave the threshold unchanged
+export function getMintApprovalThreshold(): string | undefined {
+  return process.env.MINT_APPROVAL_THRESHOLD || undefined;
+}
+
+export function getMintProposalTTL(): number {
+  return parseInt(process.env.MINT_PROPOSAL_TTL || "86400"); // 24 hours
+}
+
+// Mint Proposal Options (scripts/mintProposals.ts)
+export function getMintProposalAction():
+  | "propose"
+  | "approve"
+  | "cancel"
+  | undefined {
+  const action = process.env.MINT_PROPOSAL_ACTION;
+  if (!action) return undefined;
+  if (action !== "propose" && action !== "approve" && action !== "cancel") {
+    throw new Error(
+      `MINT_PROPOSAL_ACTION must be "propose", "approve" or "cancel", got "${action}"`
+    );
+  }
+  return action;
+}
+
+export function getMintProposalId(): bigint {
+  const id = process.env.MINT_PROPOSAL_ID;
+  if (!id) {
+    throw new Error("Missing required environment variable: MINT_PROPOSAL_ID");
+  }
+  if (!/^\d+$/.test(id.trim())) {
+    throw new Error(`MINT_PROPOSAL_ID is not a valid ID: "${id}"`);
+  }
+  return BigInt(id.trim());
+}
+
+export function getMintTo(): string {
+  const to = process.env.MINT_TO;
+  if (!to) {
+    throw new Error("Missing required environment variable: MINT_TO");
+  }
+  return to;
+}
+
+// Amount in VTR
+export function getMintAmount(): string {
+  const amount = process.env.MINT_AMOUNT;
+  if (!amount) {
+    throw new Error("Missing required environment variable: MINT_AMOUNT");
+  }
+  return amount;
+}
+
+// Reference to the incoming funds (e.g. a wire ID), stored as bytes32
+export function getMintFundingRef(): string {
+  return process.env.MINT_FUNDING_REF || "";
+}
+
+// Timelock Delay (scripts/deploy.ts); unset or 0 = timelock off
+export function getTimelockDelay(): number {
+  return parseInt(process.env.TIMELOCK_DELAY_SECONDS || "0");
+}
+
+// Timelock Options (scripts/timelock.ts)
+export function getTimelockAction():
+  | "schedule"
+  | "execute"
+  | "cancel"
+  | undefined {
+  const action = process.env.TIMELOCK_ACTION;
+  if (!action) return undefined;
+  if (action !== "schedule" && action !== "execute" && action !== "cancel") {
+    throw new Error(
+      `TIMELOCK_ACTION must be "schedule", "execute" or "cancel", got "${action}"`
+    );
+  }
+  return action;
+}
+
+export function getTimelockCall(): { fn: string; args: unknown[] } {
+  const fn = process.env.TIMELOCK_CALL;
+  if (!fn) {
+    throw new Error(
+      "Missing required environment variable: TIMELOCK_CALL (e.g. TIMELOCK_CALL=setReserveTTL)"
+    );
+  }
+
+  const args = JSON.parse(process.env.TIMELOCK_CALL_ARGS || "[]");
+  if (!Array.isArray(args)) {
+    throw new Error("TIMELOCK_CALL_ARGS must be a JSON array");
+  }
+  return { fn, args };
+}
+
+// Operation ID (bytes32), or "ready" for every operation that is ready
+export function getTimelockOperationId(): string {
+  const id = process.env.TIMELOCK_OPERATION_ID;
+  if (!id) {
+    throw new Error("Missing required environment variable: TIMELOCK_OPERATION_ID");
+  }
+  return id.trim();
+}
+
+// Role Management Options (scripts/roles.ts)
+export function getRoleAction(): "grant" | "revoke" | "renounce" | "rotate" {
+  const action = process.env.ROLE_ACTION;
+  if (
+    action !== "grant" &&
+    action !== "revoke" &&
+    action !== "renounce" &&
+    action !== "rotate"
+  ) {
+    throw new Error(
+      `ROLE_ACTION must be "grant", "revoke", "renounce" or "rotate", got "${action ?? ""}"`
+    );
+  }
+  return action;
+}
+
+export function getRoleName(): string {
+  const name = process.env.ROLE_NAME;
+  if (!name) {
+    throw new Error(
+      "Missing required environment variable: ROLE_NAME (e.g. ROLE_NAME=MINTER_ROLE)"
+    );
+  }
+  return name;
+}
+
+// Account to grant or revoke; the new key when rotating
+export function getRoleAccount(): string {
+  const account = process.env.ROLE_ACCOUNT;
+  if (!account) {
+    throw new Error("Missing required environment variable: ROLE_ACCOUNT");
+  }
+  return account;
+}
+
+// Key that loses the role when rotating
+export function getRoleOldAccount(): string {
+  const account = process.env.ROLE_OLD_ACCOUNT;
+  if (!account) {
+    throw new Error("Missing required environment variable: ROLE_OLD_ACCOUNT");
+  }
+  return account;
+}
+
+export function isRoleDryRun(): boolean {
+  return process.env.ROLE_DRY_RUN === "true";
+}
+
+// Admin Operations (scripts/admin.ts)
+export const ADMIN_COMMANDS = [
+  "pause",
+  "unpause",
+  "setReserveTTL",
+  "setMintPerTxLimit",
+  "setAllowlistEnabled",
+  "setAllowlistAddress",
+  "updateChainlinkConfig",
+] as const;
+
+export type AdminCommand = (typeof ADMIN_COMMANDS)[number];
+
+export function getAdminCommand(): AdminCommand {
+  const command = process.env.ADMIN_COMMAND;
+  if (!command || !(ADMIN_COMMANDS as readonly string[]).includes(command)) {
+    throw new Error(
+      `ADMIN_COMMAND must be one of ${ADMIN_COMMANDS.join(", ")}, got "${command ?? ""}"`
+    );
+  }
+  return command as AdminCommand;
+}
+
+// New value: seconds, VTR or true/false depending on ADMIN_COMMAND
+export function getAdminValue(): string {
+  const value = process.env.ADMIN_VALUE;
+  if (!value) {
+    throw new Error("Missing required environment variable: ADMIN_VALUE");
+  }
+  return value.trim();
+}
+
+export function getAllowlistAccount(): string {
+  const account = process.env.ALLOWLIST_ACCOUNT;
+  if (!account) {
+    throw new Error("Missing required environment variable: ALLOWLIST_ACCOUNT");
+  }
+  return account;
+}
+
+// Chainlink Functions callback gas limit; unset = keep the on-chain value
+export function getFunctionsGasLimit(): number | undefined {
+  const gasLimit = process.env.FUNCTIONS_GAS_LIMIT;
+  return gasLimit ? parseInt(gasLimit) : undefined;
+}
+
+// Default Admin Transfer Options (scripts/adminTransfer.ts)
+export function getAdminTransferAction():
+  | "begin"
+  | "accept"
+  | "cancel"
+  | undefined {
+  const action = process.env.ADMIN_TRANSFER_ACTION;
+  if (!action) return undefined;
+  if (action !== "begin" && action !== "accept" && action !== "cancel") {
+    throw new Error(
+      `ADMIN_TRANSFER_ACTION must be "begin", "accept" or "cancel", got "${action}"`
+    );
+  }
+  return action;
+}
+
+export function getNewAdminAddress(): string {
+  const address = process.env.NEW_ADMIN_ADDRESS;
+  if (!address) {
+    throw new Error("Missing required environment variable: NEW_ADMIN_ADDRESS");
+  }
+  return address;
+}
+
+// Allowlist Import Options (scripts/allowlist.ts)
+// Path to a CSV of address,allowed rows
+export function getAllowlistCsv(): string {
+  const file = process.env.ALLOWLIST_CSV;
+  if (!file) {
+    throw new Error("Missing required environment variable: ALLOWLIST_CSV");
+  }
+  return file;
+}
+
+export function getAllowlistBatchSize(): number {
+  const size = parseInt(process.env.ALLOWLIST_BATCH_SIZE || "100");
+  if (!Number.isInteger(size) || size < 1) {
+    throw new Error("ALLOWLIST_BATCH_SIZE must be a positive integer");
+  }
+  return size;
+}
+
+// Estimated gas a single batch may use
+export function getAllowlistMaxGas(): bigint {
+  const gas = process.env.ALLOWLIST_MAX_GAS || "5000000";
+  if (!/^\d+$/.test(gas) || BigInt(gas) === 0n) {
+    throw new Error("ALLOWLIST_MAX_GAS must be a positive integer");
+  }
+  return BigInt(gas);
+}
+
+// Mint Options (scripts/mint.ts); without MINT_CSV, MINT_TO and MINT_AMOUNT
+// give a single mint
+// Path to a CSV of recipient,amount rows (amounts in VTR)
+export function getMintCsv(): string | undefined {
+  return process.env.MINT_CSV || undefined;
+}
+
+// Where to write the receipt report; unset = reports/mint-<network>-<time>.json
+export function getMintReportPath(): string | undefined {
+  return process.env.MINT_REPORT || undefined;
+}
+
+// Burn Options (scripts/burn.ts); without BURN_CSV, BURN_FROM and BURN_AMOUNT
+// give a single burn
+// Path to a CSV of account,amount rows (amounts in VTR)
+export function getBurnCsv(): string | undefined {
+  return process.env.BURN_CSV || undefined;
+}
+
+// Holder to burn from; unset = the signer's own tokens
+export function getBurnFrom(): string | undefined {
+  return process.env.BURN_FROM || undefined;
+}
+
+export function getBurnAmount(): string {
+  const amount = process.env.BURN_AMOUNT;
+  if (!amount) {
+    throw new Error("Missing required environment variable: BURN_AMOUNT");
+  }
+  return amount;
+}
+
+export function isBurnDryRun(): boolean {
+  return process.env.BURN_DRY_RUN === "true";
+}
+
+// Where to write the receipt report; unset = reports/burn-<network>-<time>.json
+export function getBurnReportPath(): string | undefined {
+  return process.env.BURN_REPORT || undefined;
+}
+
 // Display current config (for debugging)
 export function displayConfig(): void {
   console.log("\n=================================");
@@ -115,11 +615,22 @@ export function displayConfig(): void {
   console.log("=================================");
   console.log(`Environment: ${NODE_ENV}`);
   console.log(`Network: ${getNetworkName()}`);
+  console.log(`Deployment: ${getDeploymentName()}`);
   console.log(`Chain ID: ${getChainId()}`);
   console.log(`RPC URL: ${getRpcUrl()}`);
   console.log(`Admin: ${getAdminAddress()}`);
   console.log(`Minter: ${getMinterAddress()}`);
   console.log(`Burner: ${getBurnerAddress()}`);
+  console.log(`Pauser: ${getPauserAddress()}`);
+  console.log(`Reserve Updater: ${getReserveUpdaterAddress()}`);
+  console.log(`Policy Admin: ${getPolicyAdminAddress()}`);
+  console.log(`Oracle Admin: ${getOracleAdminAddress()}`);
+  console.log(`Upgrader: ${getUpgraderAddress()}`);
+  console.log(`Minter Admin: ${getMinterAdminAddress()}`);
+  console.log(`Compliance: ${getComplianceAddress()}`);
+  console.log(
+    `Mint Approvers: ${getMintApproverAddresses().join(", ") || "(none)"}`
+  );
   console.log(`LINK Token: ${getLinkToken()}`);
   console.log(`Functions Router: ${getFunctionsRouter()}`);
   console.log(`Reserve TTL: ${getReserveTTL()}s`);
@@ -0,0 +1,118 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@chainlink/contracts/src/v0.8/functions/v1_0_0/interfaces/IFunctionsClient.sol";
+
+/**
+ * @title MockFunctionsRouter
+ * @notice Local stand-in for the Chainlink Functions router used in tests
+ * @dev Implements the `sendRequest` entry point of IFunctionsRouter and records
+ *      each request so an off-chain harness can execute the source and call
+ *      `fulfill`. Like the real router, a reverting consumer callback does not
+ *      revert `fulfill`; the outcome is reported in RequestFulfilled.
+ */
+contract MockFunctionsRouter {
+    struct Request {
+        address consumer;
+        uint64 subscriptionId;
+        bytes data;
+        uint16 dataVersion;
+        uint32 callbackGasLimit;
+        bytes32 donId;
+        bool fulfilled;
+    }
+
+    /// @notice Number of requests received (used to derive request IDs)
+    uint256 public requestCount;
+
+    /// @notice Requests by ID
+    mapping(bytes32 => Request) public requests;
+
+    event RequestSent(
+        bytes32 indexed requestId,
+        address indexed consumer,
+        uint64 subscriptionId,
+        bytes data,
+        uint16 dataVersion,
+        uint32 callbackGasLimit,
+        bytes32 donId
+    );
+
+    event RequestFulfilled(
+        bytes32 indexed requestId,
+        bool success,
+        bytes returnData
+    );
+
+    error UnknownRequest(bytes32 requestId);
+    error AlreadyFulfilled(bytes32 requestId);
+
+    /**
+     * @notice Records a Functions request from a consumer
+     * @return requestId Unique ID for the request
+     */
+    function sendRequest(
+        uint64 subscriptionId,
+        bytes calldata data,
+        uint16 dataVersion,
+        uint32 callbackGasLimit,
+        bytes32 donId
+    ) external returns (bytes32 requestId) {
+        requestId = keccak256(
+            abi.encode(address(this), msg.sender, ++requestCount)
+        );
+
+        requests[requestId] = Request({
+            consumer: msg.sender,
+            subscriptionId: subscriptionId,
+            data: data,
+            dataVersion: dataVersion,
+            callbackGasLimit: callbackGasLimit,
+            donId: donId,
+            fulfilled: false
+        });
+
+        emit RequestSent(
+            requestId,
+            msg.sender,
+            subscriptionId,
+            data,
+            dataVersion,
+            callbackGasLimit,
+            donId
+        );
+    }
+
+    /**
+     * @notice Delivers a result to the consumer that made the request
+     * @param requestId The request ID
+     * @param response ABI-encoded response (empty on error)
+     * @param err Error bytes (empty on success)
+     * @return success Whether the consumer callback succeeded
+     */
+    function fulfill(
+        bytes32 requestId,
+        bytes calldata response,
+        bytes calldata err
+    ) external returns (bool success) {
+        Request storage request = requests[requestId];
+        if (request.consumer == address(0)) revert UnknownRequest(requestId);
+        if (request.fulfilled) revert AlreadyFulfilled(requestId);
+
+        request.fulfilled = true;
+
+        bytes memory returnData;
+        (success, returnData) = request.consumer.call{
+            gas: request.callbackGasLimit
+        }(
+            abi.encodeWithSelector(
+                IFunctionsClient.handleOracleFulfillment.selector,
+                requestId,
+                response,
+                err
+            )
+        );
+
+        emit RequestFulfilled(requestId, success, returnData);
+    }
+}
@@ -6,29 +6,63 @@ import "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol"
 import "@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
 import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/cryptography/EIP712Upgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/NoncesUpgradeable.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
 import "@chainlink/contracts/src/v0.8/functions/v1_0_0/libraries/FunctionsRequest.sol";
 import "@chainlink/contracts/src/v0.8/functions/v1_0_0/interfaces/IFunctionsRouter.sol";
+import "./libraries/VetraReserveRequest.sol";
+import "./libraries/VetraMintRateLimits.sol";
+import "./libraries/VetraSignatures.sol";
 
 /**
  * @title Vetra
  * @notice 1:1 USD-backed stablecoin with Chainlink Functions proof-of-reserves
- * @dev Upgradeable ERC20 token with role-based access control and reserve validation
+ * @dev Upgradeable ERC20 token with role-based access control and reserve validation.
+ *      Links the external libraries VetraMintRateLimits, VetraReserveRequest
+ *      and VetraSignatures
  */
 contract Vetra is
     Initializable,
     ERC20Upgradeable,
     AccessControlUpgradeable,
     PausableUpgradeable,
-    UUPSUpgradeable
+    UUPSUpgradeable,
+    EIP712Upgradeable,
+    NoncesUpgradeable,
+    IERC20Permit
 {
-    using FunctionsRequest for FunctionsRequest.Request;
-
     // =============================================================
     //                             ROLES
     // =============================================================
 
     bytes32 public constant MINTER_ROLE = keccak256("MINTER_ROLE");
     bytes32 public constant BURNER_ROLE = keccak256("BURNER_ROLE");
+    bytes32 public constant MINTER_ADMIN_ROLE = keccak256("MINTER_ADMIN_ROLE");
+    bytes32 public constant COMPLIANCE_ROLE = keccak256("COMPLIANCE_ROLE");
+    bytes32 public constant MINT_APPROVER_ROLE = keccak256("MINT_APPROVER_ROLE");
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+    bytes32 public constant RESERVE_UPDATER_ROLE =
+        keccak256("RESERVE_UPDATER_ROLE");
+    bytes32 public constant POLICY_ADMIN_ROLE = keccak256("POLICY_ADMIN_ROLE");
+    bytes32 public constant ORACLE_ADMIN_ROLE = keccak256("ORACLE_ADMIN_ROLE");
+    bytes32 public constant UPGRADER_ROLE = keccak256("UPGRADER_ROLE");
+
+    // =============================================================
+    //                        EIP-2612 PERMIT
+    // =============================================================
+
+    bytes32 private constant PERMIT_TYPEHASH =
+        keccak256(
+            "Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)"
+        );
+
+    /// @notice EIP-712 domain version
+    string public constant PERMIT_VERSION = "1";
+
+    /// @dev Version of the latest reinitializer. initialize sets it, so a
+    ///      new proxy has nothing to migrate
+    uint64 internal constant INITIALIZED_VERSION = 6;
 
     // =============================================================
     //                       RESERVE CONFIGURATION
@@ -66,7 +100,11 @@ contract Vetra is
     bytes32 public donId;
     uint64 public subscriptionId;
     uint32 public gasLimit;
-    string public sourceCode;
+
+    /// @dev Deprecated: the full source was stored on every request. Kept for
+    ///      storage layout compatibility; use approvedSourceHash instead.
+    /// @custom:oz-renamed-from sourceCode
+    string private __deprecatedSourceCode;
 
     /// @notice Mapping of Chainlink Functions request IDs to request metadata
     mapping(bytes32 => RequestMetadata) public requests;
@@ -75,6 +113,7 @@ contract Vetra is
         address requester;
         uint256 timestamp;
         bool fulfilled;
+        bytes failureReason; // DON error or response decoding failure (empty on success)
     }
 
     // =============================================================
@@ -90,6 +129,112 @@ contract Vetra is
     /// @notice Mapping of addresses allowed to receive mints
     mapping(address => bool) public allowlist;
 
+    // =============================================================
+    //                    APPROVED FUNCTIONS SOURCE
+    // =============================================================
+
+    /// @notice keccak256 of the Functions source requests must use (0 = none approved)
+    bytes32 public approvedSourceHash;
+
+    /// @notice Version label of the approved source
+    uint256 public approvedSourceVersion;
+
+    // =============================================================
+    //                  RESERVE DEVIATION BREAKER
+    // =============================================================
+
+    /// @notice Basis points denominator for deviation limits
+    uint256 public constant BPS_DENOMINATOR = 10_000;
+
+    /// @notice Max change between consecutive reserve updates in bps (0 = disabled)
+    uint256 public maxReserveDeviationBps;
+
+    /// @notice Reserve update held back for admin review (timestamp 0 = none)
+    QuarantinedReserve public quarantinedReserve;
+
+    struct QuarantinedReserve {
+        uint256 usdAmount;
+        uint256 nonce;
+        uint256 timestamp;
+        bytes32 requestId;
+    }
+
+    // =============================================================
+    //                       MINT RATE LIMITS
+    // =============================================================
+
+    /// @notice Rate limit window in seconds (0 = rate limits disabled)
+    uint256 public mintRateWindow;
+
+    /// @notice Max tokens minted by all minters per window (0 = no global cap)
+    uint256 public globalMintRateLimit;
+
+    /// @notice Max tokens minted by each minter per window (0 = no per-minter cap)
+    uint256 public minterMintRateLimit;
+
+    /// @dev Minted amounts in the current and previous aligned windows
+    struct MintWindow {
+        uint256 windowStart;
+        uint256 currentAmount;
+        uint256 previousAmount;
+    }
+
+    MintWindow internal _globalMintWindow;
+    mapping(address => MintWindow) internal _minterMintWindows;
+
+    // =============================================================
+    //                      MINTER ALLOWANCES
+    // =============================================================
+
+    /// @notice Amount each minter may still mint; reduced by every mint
+    mapping(address => uint256) public minterAllowance;
+
+    // =============================================================
+    //                     COMPLIANCE BLOCKLIST
+    // =============================================================
+
+    /// @notice Addresses that can neither send, receive, mint to nor burn VTR
+    mapping(address => bool) public blocklist;
+
+    // =============================================================
+    //                        MINT APPROVALS
+    // =============================================================
+
+    /// @notice Contract through which mints above the threshold must go
+    address public mintApprovals;
+
+    /// @notice Largest mint allowed without approval (0 = approval never required)
+    uint256 public mintApprovalThreshold;
+
+    // =============================================================
+    //                           TIMELOCK
+    // =============================================================
+
+    /// @notice Wait between scheduling and executing a timelocked call (0 = off)
+    uint256 public timelockDelay;
+
+    /// @notice Earliest execution time by operation ID (keccak256 of the calldata)
+    mapping(bytes32 => uint256) public timelockReadyAt;
+
+    // =============================================================
+    //                    DEFAULT ADMIN TRANSFER
+    // =============================================================
+
+    /// @notice Wait between beginning an admin transfer and accepting it
+    uint256 public constant DEFAULT_ADMIN_TRANSFER_DELAY = 2 days;
+
+    /// @notice Time after the delay during which the transfer can be accepted
+    uint256 public constant DEFAULT_ADMIN_TRANSFER_WINDOW = 7 days;
+
+    /// @notice The single holder of DEFAULT_ADMIN_ROLE
+    address public defaultAdmin;
+
+    /// @notice Account that may accept DEFAULT_ADMIN_ROLE (zero when none)
+    address public pendingDefaultAdmin;
+
+    /// @notice Earliest time pendingDefaultAdmin can accept
+    uint256 public pendingDefaultAdminSchedule;
+
     // =============================================================
     //                            EVENTS
     // =============================================================
@@ -124,15 +269,73 @@ contract Vetra is
         bytes32 indexed requestId
     );
 
+    event ReserveUpdateFailed(bytes32 indexed requestId, bytes err);
+
+    event ApprovedSourceUpdated(
+        bytes32 indexed sourceHash,
+        uint256 indexed version,
+        string uri
+    );
+
+    event ReserveQuarantined(
+        bytes32 indexed requestId,
+        uint256 usdAmount,
+        uint256 nonce,
+        uint256 previousUsd,
+        uint256 deviationBps
+    );
+
+    event QuarantinedReserveResolved(
+        bytes32 indexed requestId,
+        bool accepted,
+        address indexed admin
+    );
+
+    event MaxReserveDeviationUpdated(uint256 oldBps, uint256 newBps);
+    event MinterConfigured(address indexed minter, uint256 allowance);
+    event MinterAllowanceIncreased(
+        address indexed minter,
+        uint256 increment,
+        uint256 newAllowance
+    );
+    event MintRateWindowUpdated(uint256 oldWindow, uint256 newWindow);
+    event GlobalMintRateLimitUpdated(uint256 oldLimit, uint256 newLimit);
+    event MinterMintRateLimitUpdated(uint256 oldLimit, uint256 newLimit);
+    event MintApprovalsConfigured(address mintApprovals, uint256 threshold);
     event ReserveTTLUpdated(uint256 oldTTL, uint256 newTTL);
     event MintLimitUpdated(uint256 oldLimit, uint256 newLimit);
     event AllowlistStatusUpdated(bool enabled);
     event AllowlistAddressUpdated(address indexed account, bool allowed);
+    event BlocklistUpdated(
+        address indexed account,
+        bool blocked,
+        address indexed operator
+    );
+    event FrozenBalanceWiped(
+        address indexed account,
+        uint256 amount,
+        address indexed operator,
+        uint256 totalSupplyAfter
+    );
     event ChainlinkConfigUpdated(
         address router,
         bytes32 donId,
         uint64 subscriptionId
     );
+    event OperationScheduled(
+        bytes32 indexed operationId,
+        bytes data,
+        uint256 readyAt,
+        address indexed operator
+    );
+    event OperationExecuted(bytes32 indexed operationId);
+    event OperationCancelled(bytes32 indexed operationId, address indexed operator);
+    event TimelockDelayUpdated(uint256 oldDelay, uint256 newDelay);
+    event DefaultAdminTransferScheduled(
+        address indexed newAdmin,
+        uint256 acceptSchedule
+    );
+    event DefaultAdminTransferCancelled(address indexed newAdmin);
 
     // =============================================================
     //                            ERRORS
@@ -142,10 +345,40 @@ contract Vetra is
     error ReserveInsufficient(uint256 required, uint256 available);
     error NonceNotMonotonic(uint256 currentNonce, uint256 newNonce);
     error MintLimitExceeded(uint256 amount, uint256 limit);
+    error MintApprovalRequired(uint256 amount, uint256 threshold);
+    error MinterAllowanceExceeded(
+        address minter,
+        uint256 amount,
+        uint256 allowance
+    );
+    /// @dev account is address(0) when the global limit is exceeded
+    error MintRateLimitExceeded(
+        address account,
+        uint256 amount,
+        uint256 remaining
+    );
     error RecipientNotAllowed(address recipient);
+    error AccountBlocked(address account);
+    error AccountNotBlocked(address account);
+    error PermitExpired(uint256 deadline);
+    error InvalidPermitSignature(address owner);
     error InvalidAddress();
     error InvalidAmount();
     error InvalidConfiguration();
+    error UnknownRequest(bytes32 requestId);
+    error RequestAlreadyFulfilled(bytes32 requestId);
+    error SourceNotApproved(bytes32 sourceHash);
+    error ReserveQuarantineActive(bytes32 requestId);
+    error NoQuarantinedReserve();
+    error OperationNotScheduled(bytes32 operationId);
+    error OperationAlreadyScheduled(bytes32 operationId);
+    error OperationNotReady(bytes32 operationId, uint256 readyAt);
+    error DefaultAdminRulesEnforced();
+    error InvalidDefaultAdmin(address account);
+    error DefaultAdminTransferNotReady(uint256 acceptSchedule);
+    error DefaultAdminTransferExpired(uint256 expiredAt);
+    error RoleNotHeld(bytes32 role, address account);
+    error MigrationOutOfOrder(uint64 step, uint64 initializedVersion);
 
     // =============================================================
     //                          CONSTRUCTOR
@@ -162,7 +395,9 @@ contract Vetra is
 
     /**
      * @notice Initializes the Vetra stablecoin contract
-     * @param _admin Address of the admin (can upgrade and manage config)
+     * @param _admin Address of the admin (manages roles; initially holds every
+     *        operational role, see _grantOperationalRoles). Becomes
+     *        defaultAdmin; later changes go through beginDefaultAdminTransfer
      * @param _minter Address of the minter
      * @param _burner Address of the burner
      * @param _reserveTTL Reserve time-to-live in seconds
@@ -170,6 +405,7 @@ contract Vetra is
      * @param _donId Chainlink DON ID
      * @param _subscriptionId Chainlink subscription ID
      * @param _gasLimit Gas limit for Chainlink Functions callback
+     * @custom:oz-upgrades-validate-as-initializer
      */
     function initialize(
         address _admin,
@@ -180,7 +416,7 @@ contract Vetra is
         bytes32 _donId,
         uint64 _subscriptionId,
         uint32 _gasLimit
-    ) public initializer {
+    ) public reinitializer(INITIALIZED_VERSION) {
         if (
             _admin == address(0) ||
             _minter == address(0) ||
@@ -198,11 +434,16 @@ contract Vetra is
         __AccessControl_init();
         __Pausable_init();
         __UUPSUpgradeable_init();
+        __EIP712_init("Vetra", PERMIT_VERSION);
+        __Nonces_init();
 
         // Grant roles
         _grantRole(DEFAULT_ADMIN_ROLE, _admin);
         _grantRole(MINTER_ROLE, _minter);
         _grantRole(BURNER_ROLE, _burner);
+        _grantRole(MINTER_ADMIN_ROLE, _admin);
+        _grantRole(COMPLIANCE_ROLE, _admin);
+        _grantOperationalRoles(_admin);
 
         // Set reserve config
         reserveTTL = _reserveTTL;
@@ -223,6 +464,116 @@ contract Vetra is
         allowlistEnabled = false;
     }
 
+    /**
+     * @notice Migrates a proxy deployed before the compliance blocklist
+     * @dev Called by the admin after the upgrade (scripts/migrate.ts);
+     *      proxies initialized with this version already grant
+     *      COMPLIANCE_ROLE to the admin. Runs only on a baseline proxy
+     * @param _complianceAdmin Address that manages the blocklist
+     */
+    function initializeCompliance(address _complianceAdmin) external {
+        _beginMigrationStep(2);
+        if (_complianceAdmin == address(0)) revert InvalidAddress();
+        _grantRole(COMPLIANCE_ROLE, _complianceAdmin);
+    }
+
+    /**
+     * @notice Migrates a proxy deployed before permit support
+     * @dev Sets the EIP-712 domain;
+     *      proxies initialized with this version already have the domain set.
+     *      Runs only after initializeCompliance
+     */
+    function initializePermit() external {
+        _checkMigrationStep(3);
+        _initializePermit();
+    }
+
+    /// @dev The EIP-712 initializers only run inside reinitializer
+    function _initializePermit() private reinitializer(3) {
+        __EIP712_init("Vetra", PERMIT_VERSION);
+        __Nonces_init();
+    }
+
+    /**
+     * @notice Migrates a proxy deployed before the fine-grained admin roles
+     * @dev Grants the operational roles to the calling admin, who then hands
+     *      them to separate accounts. Runs only after initializePermit
+     */
+    function initializeRoles() external {
+        _beginMigrationStep(4);
+        _grantOperationalRoles(msg.sender);
+    }
+
+    /**
+     * @notice Migrates a proxy deployed before the two-step admin transfer
+     * @dev Revokes DEFAULT_ADMIN_ROLE from the other holders and records the
+     *      calling admin as defaultAdmin. From then on hasRole only reports
+     *      defaultAdmin for the role, so a holder missing from
+     *      `_otherAdmins` keeps a stale grant with no rights.
+     *      AccessControl cannot list holders; scripts/migrate.ts reads them
+     *      from the role events. Runs only after initializeRoles
+     * @param _otherAdmins Every other DEFAULT_ADMIN_ROLE holder; each must
+     *        hold the role
+     */
+    function initializeDefaultAdmin(address[] calldata _otherAdmins) external {
+        _beginMigrationStep(5);
+        for (uint256 i = 0; i < _otherAdmins.length; i++) {
+            // The caller stays as defaultAdmin
+            if (_otherAdmins[i] == msg.sender) {
+                revert DefaultAdminRulesEnforced();
+            }
+            if (!_revokeRole(DEFAULT_ADMIN_ROLE, _otherAdmins[i])) {
+                revert InvalidDefaultAdmin(_otherAdmins[i]);
+            }
+        }
+        defaultAdmin = msg.sender;
+    }
+
+    /**
+     * @notice Migrates a proxy deployed before minter allowances
+     * @dev Grants MINTER_ADMIN_ROLE to the calling admin, who then configures
+     *      each minter's allowance; until then every allowance is 0 and
+     *      minting reverts. Runs only after initializeDefaultAdmin
+     */
+    function initializeMinterAdmin() external {
+        _beginMigrationStep(6);
+        _grantRole(MINTER_ADMIN_ROLE, msg.sender);
+    }
+
+    /// @dev Checks migration step `step` and records it as run
+    function _beginMigrationStep(uint64 step) private {
+        _checkMigrationStep(step);
+        _setInitializedVersion(step);
+    }
+
+    /**
+     * @dev Lets migration step `step` run only for DEFAULT_ADMIN_ROLE and
+     *      only right after the one before it. reinitializer alone accepts
+     *      any higher version, so calling a later step first would skip the
+     *      earlier ones for good
+     */
+    function _checkMigrationStep(uint64 step) private view {
+        _checkRole(DEFAULT_ADMIN_ROLE);
+        uint64 version = _getInitializedVersion();
+        if (version >= step) revert InvalidInitialization();
+        if (version != step - 1) revert MigrationOutOfOrder(step, version);
+    }
+
+    function _setInitializedVersion(
+        uint64 version
+    ) private reinitializer(version) {}
+
+    /**
+     * @dev Grants the roles split out of DEFAULT_ADMIN_ROLE
+     */
+    function _grantOperationalRoles(address account) private {
+        _grantRole(PAUSER_ROLE, account);
+        _grantRole(RESERVE_UPDATER_ROLE, account);
+        _grantRole(POLICY_ADMIN_ROLE, account);
+        _grantRole(ORACLE_ADMIN_ROLE, account);
+        _grantRole(UPGRADER_ROLE, account);
+    }
+
     // =============================================================
     //                        MINT FUNCTION
     // =============================================================
@@ -239,6 +590,11 @@ contract Vetra is
         if (to == address(0)) revert InvalidAddress();
         if (amount == 0) revert InvalidAmount();
 
+        // Block minting while a reserve update awaits admin review
+        if (quarantinedReserve.timestamp != 0) {
+            revert ReserveQuarantineActive(quarantinedReserve.requestId);
+        }
+
         // Check reserve freshness
         uint256 currentReserveAge = block.timestamp - lastReserveTimestamp;
         if (currentReserveAge > reserveTTL) {
@@ -259,6 +615,33 @@ contract Vetra is
             revert MintLimitExceeded(amount, mintPerTxLimit);
         }
 
+        // Large mints must be proposed and approved through mintApprovals
+        if (
+            mintApprovalThreshold > 0 &&
+            amount > mintApprovalThreshold &&
+            msg.sender != mintApprovals
+        ) {
+            revert MintApprovalRequired(amount, mintApprovalThreshold);
+        }
+
+        // Check and reduce the minter's allowance
+        uint256 allowance = minterAllowance[msg.sender];
+        if (amount > allowance) {
+            revert MinterAllowanceExceeded(msg.sender, amount, allowance);
+        }
+        minterAllowance[msg.sender] = allowance - amount;
+
+        // Check rolling-window rate limits if enabled
+        VetraMintRateLimits.consume(
+            _globalMintWindow,
+            _minterMintWindows[msg.sender],
+            mintRateWindow,
+            globalMintRateLimit,
+            minterMintRateLimit,
+            msg.sender,
+            amount
+        );
+
         // Check allowlist if enabled
         if (allowlistEnabled && !allowlist[to]) {
             revert RecipientNotAllowed(to);
@@ -322,13 +705,96 @@ contract Vetra is
         );
     }
 
+    // =============================================================
+    //                        EIP-2612 PERMIT
+    // =============================================================
+
+    /**
+     * @notice Approves `spender` with an EIP-712 signature from `owner`
+     * @dev Signatures of contract owners are checked with ERC-1271
+     * @param owner Token owner that signed the permit
+     * @param spender Address to approve
+     * @param value Allowance to set
+     * @param deadline Last timestamp the signature is valid
+     */
+    function permit(
+        address owner,
+        address spender,
+        uint256 value,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external {
+        permit(owner, spender, value, deadline, abi.encodePacked(r, s, v));
+    }
+
+    /**
+     * @notice Approves `spender` with a signature of any length from `owner`
+     * @dev For smart-contract wallets whose ERC-1271 signatures do not fit v/r/s
+     * @param owner Token owner that signed the permit
+     * @param spender Address to approve
+     * @param value Allowance to set
+     * @param deadline Last timestamp the signature is valid
+     * @param signature ECDSA signature for EOAs, wallet-specific for contracts
+     */
+    function permit(
+        address owner,
+        address spender,
+        uint256 value,
+        uint256 deadline,
+        bytes memory signature
+    ) public {
+        if (block.timestamp > deadline) revert PermitExpired(deadline);
+
+        bytes32 structHash = keccak256(
+            abi.encode(
+                PERMIT_TYPEHASH,
+                owner,
+                spender,
+                value,
+                _useNonce(owner),
+                deadline
+            )
+        );
+
+        if (
+            !VetraSignatures.isValidSignature(
+                owner,
+                _hashTypedDataV4(structHash),
+                signature
+            )
+        ) {
+            revert InvalidPermitSignature(owner);
+        }
+
+        _approve(owner, spender, value);
+    }
+
+    /**
+     * @notice Returns the permit nonce of an owner
+     */
+    function nonces(
+        address owner
+    ) public view override(IERC20Permit, NoncesUpgradeable) returns (uint256) {
+        return super.nonces(owner);
+    }
+
+    /**
+     * @notice Returns the EIP-712 domain separator used by permit
+     */
+    // solhint-disable-next-line func-name-mixedcase
+    function DOMAIN_SEPARATOR() external view returns (bytes32) {
+        return _domainSeparatorV4();
+    }
+
     // =============================================================
     //                  CHAINLINK FUNCTIONS REQUEST
     // =============================================================
 
     /**
      * @notice Requests reserve update via Chainlink Functions
-     * @param _sourceCode JavaScript source code for Chainlink Functions
+     * @param _sourceCode JavaScript source code (must hash to approvedSourceHash)
      * @param args Arguments for the source code (if any)
      * @return requestId The Chainlink Functions request ID
      */
@@ -338,21 +804,19 @@ contract Vetra is
     )
         external
         payable
-        onlyRole(DEFAULT_ADMIN_ROLE)
+        onlyRole(RESERVE_UPDATER_ROLE)
         returns (bytes32 requestId)
     {
-        FunctionsRequest.Request memory req;
-        req.initializeRequestForInlineJavaScript(_sourceCode);
-
-        if (args.length > 0) {
-            req.setArgs(args);
+        bytes32 sourceHash = keccak256(bytes(_sourceCode));
+        if (approvedSourceHash == bytes32(0) || sourceHash != approvedSourceHash) {
+            revert SourceNotApproved(sourceHash);
         }
 
         // Send request directly to router
         IFunctionsRouter router = IFunctionsRouter(functionsRouter);
         requestId = router.sendRequest(
             subscriptionId,
-            req.encodeCBOR(),
+            VetraReserveRequest.encode(_sourceCode, args),
             FunctionsRequest.REQUEST_DATA_VERSION,
             gasLimit,
             donId
@@ -361,11 +825,10 @@ contract Vetra is
         requests[requestId] = RequestMetadata({
             requester: msg.sender,
             timestamp: block.timestamp,
-            fulfilled: false
+            fulfilled: false,
+            failureReason: ""
         });
 
-        sourceCode = _sourceCode; // Store for reference
-
         emit ReserveUpdateRequested(requestId, msg.sender, block.timestamp);
 
         return requestId;
@@ -380,6 +843,9 @@ contract Vetra is
      * @param requestId The request ID
      * @param response The response data
      * @param err Any error from Chainlink Functions
+     * @dev Reverts for request IDs this contract did not issue or that were
+     *      already fulfilled. DON errors and undecodable responses are recorded
+     *      on the request and reported via ReserveUpdateFailed.
      */
     function handleOracleFulfillment(
         bytes32 requestId,
@@ -392,15 +858,27 @@ contract Vetra is
         }
 
         RequestMetadata storage request = requests[requestId];
+        if (request.requester == address(0)) revert UnknownRequest(requestId);
+        if (request.fulfilled) revert RequestAlreadyFulfilled(requestId);
+
         request.fulfilled = true;
 
         // If there's an error, we don't update reserve
         if (err.length > 0) {
+            request.failureReason = err;
+            emit ReserveUpdateFailed(requestId, err);
+            return;
+        }
+
+        // Response must be exactly an ABI-encoded (uint256, uint256) tuple
+        if (response.length != 64) {
+            bytes memory reason = bytes("Invalid response length");
+            request.failureReason = reason;
+            emit ReserveUpdateFailed(requestId, reason);
             return;
         }
 
         // Decode response: (uint256 usdAmount, uint256 nonce)
-        // Response should be ABI-encoded tuple
         (uint256 usdAmount, uint256 nonce) = abi.decode(
             response,
             (uint256, uint256)
@@ -411,6 +889,28 @@ contract Vetra is
             revert NonceNotMonotonic(lastReserveNonce, nonce);
         }
 
+        // Hold back updates that move the reserve too far for admin review
+        uint256 deviationBps = _reserveDeviationBps(usdAmount);
+        if (
+            maxReserveDeviationBps > 0 &&
+            deviationBps > maxReserveDeviationBps
+        ) {
+            quarantinedReserve = QuarantinedReserve({
+                usdAmount: usdAmount,
+                nonce: nonce,
+                timestamp: block.timestamp,
+                requestId: requestId
+            });
+            emit ReserveQuarantined(
+                requestId,
+                usdAmount,
+                nonce,
+                lastReserveUsd,
+                deviationBps
+            );
+            return;
+        }
+
         // Update reserve data
         lastReserveUsd = usdAmount;
         lastReserveTimestamp = block.timestamp;
@@ -423,13 +923,84 @@ contract Vetra is
     //                     ADMIN FUNCTIONS
     // =============================================================
 
+    /**
+     * @notice Approves the Functions source that reserve requests must use
+     * @param _sourceHash keccak256 of the exact source string
+     * @param _version Version label of the source (e.g. functions/reserve.v<N>.js)
+     * @param _uri Optional off-chain location of the source (emitted, not stored)
+     */
+    function setApprovedSource(
+        bytes32 _sourceHash,
+        uint256 _version,
+        string calldata _uri
+    ) external onlyRole(ORACLE_ADMIN_ROLE) timelocked {
+        if (_sourceHash == bytes32(0) || _version == 0) {
+            revert InvalidConfiguration();
+        }
+        approvedSourceHash = _sourceHash;
+        approvedSourceVersion = _version;
+        emit ApprovedSourceUpdated(_sourceHash, _version, _uri);
+    }
+
+    /**
+     * @notice Sets the maximum change between consecutive reserve updates
+     * @param _newBps Limit in basis points of the last reserve (0 to disable)
+     */
+    function setMaxReserveDeviationBps(
+        uint256 _newBps
+    ) external onlyRole(ORACLE_ADMIN_ROLE) timelocked {
+        uint256 oldBps = maxReserveDeviationBps;
+        maxReserveDeviationBps = _newBps;
+        emit MaxReserveDeviationUpdated(oldBps, _newBps);
+    }
+
+    /**
+     * @notice Applies the quarantined reserve update and re-enables minting
+     * @dev Keeps the fulfilment timestamp, so a late confirmation can still
+     *      leave the reserve stale
+     */
+    function confirmQuarantinedReserve() external onlyRole(ORACLE_ADMIN_ROLE) {
+        QuarantinedReserve memory pending = quarantinedReserve;
+        if (pending.timestamp == 0) revert NoQuarantinedReserve();
+        if (pending.nonce <= lastReserveNonce) {
+            revert NonceNotMonotonic(lastReserveNonce, pending.nonce);
+        }
+
+        delete quarantinedReserve;
+
+        lastReserveUsd = pending.usdAmount;
+        lastReserveTimestamp = pending.timestamp;
+        lastReserveNonce = pending.nonce;
+
+        emit QuarantinedReserveResolved(pending.requestId, true, msg.sender);
+        emit ReserveUpdated(
+            pending.usdAmount,
+            pending.nonce,
+            pending.timestamp,
+            pending.requestId
+        );
+    }
+
+    /**
+     * @notice Discards the quarantined reserve update and re-enables minting
+     *         against the last applied reserve
+     */
+    function rejectQuarantinedReserve() external onlyRole(ORACLE_ADMIN_ROLE) {
+        QuarantinedReserve memory pending = quarantinedReserve;
+        if (pending.timestamp == 0) revert NoQuarantinedReserve();
+
+        delete quarantinedReserve;
+
+        emit QuarantinedReserveResolved(pending.requestId, false, msg.sender);
+    }
+
     /**
      * @notice Updates the reserve TTL
      * @param _newTTL New TTL in seconds
      */
     function setReserveTTL(
         uint256 _newTTL
-    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+    ) external onlyRole(POLICY_ADMIN_ROLE) timelocked {
         if (_newTTL == 0) revert InvalidConfiguration();
         uint256 oldTTL = reserveTTL;
         reserveTTL = _newTTL;
@@ -442,19 +1013,86 @@ contract Vetra is
      */
     function setMintPerTxLimit(
         uint256 _newLimit
-    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+    ) external onlyRole(POLICY_ADMIN_ROLE) timelocked {
         uint256 oldLimit = mintPerTxLimit;
         mintPerTxLimit = _newLimit;
         emit MintLimitUpdated(oldLimit, _newLimit);
     }
 
+    /**
+     * @notice Sets the mint approval contract and threshold
+     * @dev The approval contract also needs MINTER_ROLE and an allowance
+     * @param _mintApprovals VetraMintApprovals address (0 to clear)
+     * @param _threshold Largest direct mint (0 disables the requirement)
+     */
+    function configureMintApprovals(
+        address _mintApprovals,
+        uint256 _threshold
+    ) external onlyRole(POLICY_ADMIN_ROLE) timelocked {
+        if (_threshold > 0 && _mintApprovals == address(0)) {
+            revert InvalidConfiguration();
+        }
+        mintApprovals = _mintApprovals;
+        mintApprovalThreshold = _threshold;
+        emit MintApprovalsConfigured(_mintApprovals, _threshold);
+    }
+
+    /**
+     * @notice Sets the mint rate limit window
+     * @dev Changing the window starts all windows afresh
+     * @param _newWindow Window length in seconds (0 disables rate limits)
+     */
+    function setMintRateWindow(
+        uint256 _newWindow
+    ) external onlyRole(POLICY_ADMIN_ROLE) timelocked {
+        if (
+            _newWindow == 0 &&
+            (globalMintRateLimit > 0 || minterMintRateLimit > 0)
+        ) {
+            revert InvalidConfiguration();
+        }
+        uint256 oldWindow = mintRateWindow;
+        mintRateWindow = _newWindow;
+        emit MintRateWindowUpdated(oldWindow, _newWindow);
+    }
+
+    /**
+     * @notice Sets the max amount all minters together can mint per window
+     * @param _newLimit New limit (0 to disable)
+     */
+    function setGlobalMintRateLimit(
+        uint256 _newLimit
+    ) external onlyRole(POLICY_ADMIN_ROLE) timelocked {
+        if (_newLimit > 0 && mintRateWindow == 0) {
+            revert InvalidConfiguration();
+        }
+        uint256 oldLimit = globalMintRateLimit;
+        globalMintRateLimit = _newLimit;
+        emit GlobalMintRateLimitUpdated(oldLimit, _newLimit);
+    }
+
+    /**
+     * @notice Sets the max amount each minter can mint per window
+     * @param _newLimit New limit (0 to disable)
+     */
+    function setMinterMintRateLimit(
+        uint256 _newLimit
+    ) external onlyRole(POLICY_ADMIN_ROLE) timelocked {
+        if (_newLimit > 0 && mintRateWindow == 0) {
+            revert InvalidConfiguration();
+        }
+        uint256 oldLimit = minterMintRateLimit;
+        minterMintRateLimit = _newLimit;
+        emit MinterMintRateLimitUpdated(oldLimit, _newLimit);
+    }
+
     /**
      * @notice Enables or disables the allowlist
      * @param _enabled Whether allowlist is enabled
      */
     function setAllowlistEnabled(
         bool _enabled
-    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+    ) external onlyRole(POLICY_ADMIN_ROLE) timelocked {
         allowlistEnabled = _enabled;
         emit AllowlistStatusUpdated(_enabled);
     }
@@ -467,7 +1105,7 @@ contract Vetra is
     function setAllowlistAddress(
         address account,
         bool allowed
-    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+    ) external onlyRole(POLICY_ADMIN_ROLE) {
         if (account == address(0)) revert InvalidAddress();
         allowlist[account] = allowed;
         emit AllowlistAddressUpdated(account, allowed);
@@ -485,7 +1123,7 @@ contract Vetra is
         bytes32 _donId,
         uint64 _subscriptionId,
         uint32 _gasLimit
-    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+    ) external onlyRole(ORACLE_ADMIN_ROLE) timelocked {
         if (_router == address(0)) revert InvalidAddress();
         if (_gasLimit == 0) revert InvalidConfiguration();
 
@@ -497,20 +1135,228 @@ contract Vetra is
         emit ChainlinkConfigUpdated(_router, _donId, _subscriptionId);
     }
 
+    // =============================================================
+    //                           TIMELOCK
+    // =============================================================
+
+    /**
+     * @notice Schedules a timelocked call for execution after timelockDelay
+     * @dev Execute by making exactly this call once it is ready, from an
+     *      account holding the role the call requires. Operations keep the
+     *      delay in force when they were scheduled.
+     * @param data Calldata of the call, e.g. setReserveTTL(1800) or
+     *        upgradeToAndCall(implementation, initData)
+     * @return operationId keccak256 of the calldata
+     */
+    function scheduleOperation(
+        bytes calldata data
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) returns (bytes32 operationId) {
+        operationId = keccak256(data);
+        if (timelockReadyAt[operationId] != 0) {
+            revert OperationAlreadyScheduled(operationId);
+        }
+        uint256 readyAt = block.timestamp + timelockDelay;
+        timelockReadyAt[operationId] = readyAt;
+        emit OperationScheduled(operationId, data, readyAt, msg.sender);
+    }
+
+    /**
+     * @notice Cancels a scheduled operation
+     * @param operationId Operation to cancel
+     */
+    function cancelOperation(
+        bytes32 operationId
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (timelockReadyAt[operationId] == 0) {
+            revert OperationNotScheduled(operationId);
+        }
+        delete timelockReadyAt[operationId];
+        emit OperationCancelled(operationId, msg.sender);
+    }
+
+    /**
+     * @notice Updates the timelock delay
+     * @dev Timelocked itself once the delay is non-zero
+     * @param _newDelay New delay in seconds (0 disables the timelock)
+     */
+    function setTimelockDelay(
+        uint256 _newDelay
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) timelocked {
+        uint256 oldDelay = timelockDelay;
+        timelockDelay = _newDelay;
+        emit TimelockDelayUpdated(oldDelay, _newDelay);
+    }
+
+    // =============================================================
+    //                         ROLE ROTATION
+    // =============================================================
+
+    /**
+     * @notice Moves a role from one key to another in one transaction
+     * @dev Grants before revoking, so the role never lacks a holder and a
+     *      revert leaves `from` holding it. DEFAULT_ADMIN_ROLE reverts with
+     *      DefaultAdminRulesEnforced; it moves with beginDefaultAdminTransfer
+     * @param role Role to move
+     * @param from Current holder, which loses the role
+     * @param to New holder
+     */
+    function rotateRole(
+        bytes32 role,
+        address from,
+        address to
+    ) external onlyRole(getRoleAdmin(role)) {
+        if (to == address(0) || to == from) revert InvalidAddress();
+        _grantRole(role, to);
+        if (!_revokeRole(role, from)) revert RoleNotHeld(role, from);
+    }
+
+    // =============================================================
+    //                    DEFAULT ADMIN TRANSFER
+    // =============================================================
+
+    /**
+     * @notice Starts handing DEFAULT_ADMIN_ROLE to `newAdmin`
+     * @dev Replaces any pending transfer. `newAdmin` accepts between
+     *      DEFAULT_ADMIN_TRANSFER_DELAY and the end of
+     *      DEFAULT_ADMIN_TRANSFER_WINDOW after that
+     * @param newAdmin Account that will become the admin
+     */
+    function beginDefaultAdminTransfer(
+        address newAdmin
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (newAdmin == address(0)) revert InvalidAddress();
+        uint256 acceptSchedule = block.timestamp + DEFAULT_ADMIN_TRANSFER_DELAY;
+        pendingDefaultAdmin = newAdmin;
+        pendingDefaultAdminSchedule = acceptSchedule;
+        emit DefaultAdminTransferScheduled(newAdmin, acceptSchedule);
+    }
+
+    /**
+     * @notice Cancels the pending admin transfer, if any
+     */
+    function cancelDefaultAdminTransfer()
+        external
+        onlyRole(DEFAULT_ADMIN_ROLE)
+    {
+        emit DefaultAdminTransferCancelled(pendingDefaultAdmin);
+        delete pendingDefaultAdmin;
+        delete pendingDefaultAdminSchedule;
+    }
+
+    /**
+     * @notice Completes the pending transfer; called by the new admin
+     * @dev Moves DEFAULT_ADMIN_ROLE only. Operational roles held by the old
+     *      admin stay until the new admin revokes them
+     */
+    function acceptDefaultAdminTransfer() external {
+        if (msg.sender != pendingDefaultAdmin) {
+            revert InvalidDefaultAdmin(msg.sender);
+        }
+        uint256 acceptSchedule = pendingDefaultAdminSchedule;
+        if (block.timestamp < acceptSchedule) {
+            revert DefaultAdminTransferNotReady(acceptSchedule);
+        }
+        if (block.timestamp > acceptSchedule + DEFAULT_ADMIN_TRANSFER_WINDOW) {
+            revert DefaultAdminTransferExpired(
+                acceptSchedule + DEFAULT_ADMIN_TRANSFER_WINDOW
+            );
+        }
+
+        address oldAdmin = defaultAdmin;
+        delete defaultAdmin;
+        delete pendingDefaultAdmin;
+        delete pendingDefaultAdminSchedule;
+        _revokeRole(DEFAULT_ADMIN_ROLE, oldAdmin);
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+    }
+
     /**
      * @notice Pauses the contract
+     * @dev Never timelocked, so an emergency stop takes effect immediately
      */
-    function pause() external onlyRole(DEFAULT_ADMIN_ROLE) {
+    function pause() external onlyRole(PAUSER_ROLE) {
         _pause();
     }
 
     /**
      * @notice Unpauses the contract
      */
-    function unpause() external onlyRole(DEFAULT_ADMIN_ROLE) {
+    function unpause() external onlyRole(PAUSER_ROLE) {
         _unpause();
     }
 
+    // =============================================================
+    //                      MINTER ALLOWANCES
+    // =============================================================
+
+    /**
+     * @notice Sets a minter's allowance, replacing the current one
+     * @dev Does not grant MINTER_ROLE; set the allowance to 0 to stop a minter
+     * @param _minter Minter address
+     * @param _allowance Amount the minter may mint from now on
+     */
+    function configureMinter(
+        address _minter,
+        uint256 _allowance
+    ) external onlyRole(MINTER_ADMIN_ROLE) {
+        if (_minter == address(0)) revert InvalidAddress();
+        minterAllowance[_minter] = _allowance;
+        emit MinterConfigured(_minter, _allowance);
+    }
+
+    /**
+     * @notice Increases a minter's allowance
+     * @param _minter Minter address
+     * @param _increment Amount added to the current allowance
+     */
+    function increaseMinterAllowance(
+        address _minter,
+        uint256 _increment
+    ) external onlyRole(MINTER_ADMIN_ROLE) {
+        if (_minter == address(0)) revert InvalidAddress();
+        if (_increment == 0) revert InvalidAmount();
+        uint256 newAllowance = minterAllowance[_minter] + _increment;
+        minterAllowance[_minter] = newAllowance;
+        emit MinterAllowanceIncreased(_minter, _increment, newAllowance);
+    }
+
+    // =============================================================
+    //                     COMPLIANCE BLOCKLIST
+    // =============================================================
+
+    /**
+     * @notice Adds or removes an address from the blocklist
+     * @dev A blocked address cannot transfer, receive, be minted to or burn
+     * @param account Address to update
+     * @param blocked Whether the address is blocked
+     */
+    function setBlocklistAddress(
+        address account,
+        bool blocked
+    ) external onlyRole(COMPLIANCE_ROLE) {
+        if (account == address(0)) revert InvalidAddress();
+        blocklist[account] = blocked;
+        emit BlocklistUpdated(account, blocked, msg.sender);
+    }
+
+    /**
+     * @notice Destroys the entire balance of a blocked account
+     * @dev Reduces totalSupply; bypasses the blocklist check in _update
+     * @param account Blocked account to wipe
+     */
+    function wipeFrozenBalance(
+        address account
+    ) external onlyRole(COMPLIANCE_ROLE) {
+        if (!blocklist[account]) revert AccountNotBlocked(account);
+
+        uint256 amount = balanceOf(account);
+        if (amount == 0) revert InvalidAmount();
+
+        super._update(account, address(0), amount);
+
+        emit FrozenBalanceWiped(account, amount, msg.sender, totalSupply());
+    }
+
     // =============================================================
     //                        VIEW FUNCTIONS
     // =============================================================
@@ -546,24 +1392,174 @@ contract Vetra is
     }
 
     /**
-     * @notice Returns available minting capacity
+     * @notice Returns whether a reserve update is awaiting admin review
+     */
+    function hasQuarantinedReserve() external view returns (bool) {
+        return quarantinedReserve.timestamp != 0;
+    }
+
+    /**
+     * @notice Returns available minting capacity (0 while a reserve update
+     *         is quarantined)
      */
     function availableMintCapacity() external view returns (uint256) {
+        if (quarantinedReserve.timestamp != 0) return 0;
         uint256 reserveScaled = lastReserveUsd * RESERVE_TO_TOKEN_SCALE;
         uint256 supply = totalSupply();
         if (reserveScaled <= supply) return 0;
         return reserveScaled - supply;
     }
 
+    /**
+     * @notice Returns how much all minters can still mint in the current
+     *         window (max uint256 when there is no global limit)
+     */
+    function globalMintRateRemaining() external view returns (uint256) {
+        return
+            VetraMintRateLimits.remaining(
+                _globalMintWindow,
+                mintRateWindow,
+                globalMintRateLimit
+            );
+    }
+
+    /**
+     * @notice Returns how much a minter can still mint in the current window
+     *         under the per-minter limit (max uint256 when there is none)
+     */
+    function minterMintRateRemaining(
+        address minter
+    ) external view returns (uint256) {
+        return
+            VetraMintRateLimits.remaining(
+                _minterMintWindows[minter],
+                mintRateWindow,
+                minterMintRateLimit
+            );
+    }
+
+    // =============================================================
+    //                       INTERNAL HELPERS
+    // =============================================================
+
+    /**
+     * @dev Change from the last applied reserve in bps. The first update is
+     *      never a deviation; any move away from a zero reserve is unbounded.
+     */
+    function _reserveDeviationBps(
+        uint256 usdAmount
+    ) internal view returns (uint256) {
+        if (lastReserveTimestamp == 0) return 0;
+        if (lastReserveUsd == 0) {
+            return usdAmount == 0 ? 0 : type(uint256).max;
+        }
+
+        uint256 diff = usdAmount > lastReserveUsd
+            ? usdAmount - lastReserveUsd
+            : lastReserveUsd - usdAmount;
+        return (diff * BPS_DENOMINATOR) / lastReserveUsd;
+    }
+
+    /// @dev Restricts a function to calls scheduled with scheduleOperation
+    modifier timelocked() {
+        _consumeOperation();
+        _;
+    }
+
+    /// @dev Consumes the operation matching this call's calldata, if the timelock is on
+    function _consumeOperation() internal {
+        if (timelockDelay == 0) return;
+
+        bytes32 operationId = keccak256(msg.data);
+        uint256 readyAt = timelockReadyAt[operationId];
+        if (readyAt == 0) revert OperationNotScheduled(operationId);
+        if (block.timestamp < readyAt) {
+            revert OperationNotReady(operationId, readyAt);
+        }
+        delete timelockReadyAt[operationId];
+        emit OperationExecuted(operationId);
+    }
+
+    // =============================================================
+    //                     ADMIN ROLE ENFORCEMENT
+    // =============================================================
+
+    /**
+     * @dev Once there is a defaultAdmin it is the only DEFAULT_ADMIN_ROLE
+     *      holder; grants a migrated proxy still stores for other accounts
+     *      carry no rights
+     */
+    function hasRole(
+        bytes32 role,
+        address account
+    ) public view override returns (bool) {
+        if (role == DEFAULT_ADMIN_ROLE && defaultAdmin != address(0)) {
+            return account == defaultAdmin && super.hasRole(role, account);
+        }
+        return super.hasRole(role, account);
+    }
+
+    /**
+     * @dev DEFAULT_ADMIN_ROLE is only granted while there is no defaultAdmin:
+     *      in initialize and when accepting a transfer. A proxy that has not
+     *      run initializeDefaultAdmin has no defaultAdmin yet, so it grants
+     *      none
+     */
+    function _grantRole(
+        bytes32 role,
+        address account
+    ) internal override returns (bool) {
+        if (role == DEFAULT_ADMIN_ROLE) {
+            if (defaultAdmin != address(0) || _getInitializedVersion() < 5) {
+                revert DefaultAdminRulesEnforced();
+            }
+            defaultAdmin = account;
+        }
+        return super._grantRole(role, account);
+    }
+
+    /**
+     * @dev defaultAdmin cannot be revoked or renounce; the role only moves
+     *      through acceptDefaultAdminTransfer
+     */
+    function _revokeRole(
+        bytes32 role,
+        address account
+    ) internal override returns (bool) {
+        if (role == DEFAULT_ADMIN_ROLE && account == defaultAdmin) {
+            revert DefaultAdminRulesEnforced();
+        }
+        return super._revokeRole(role, account);
+    }
+
+    // =============================================================
+    //                        TRANSFER HOOK
+    // =============================================================
+
+    /**
+     * @dev Rejects every balance change touching a blocked address: transfers
+     *      from or to it, mints to it and its own burns
+     */
+    function _update(
+        address from,
+        address to,
+        uint256 value
+    ) internal override {
+        if (from != address(0) && blocklist[from]) revert AccountBlocked(from);
+        if (to != address(0) && blocklist[to]) revert AccountBlocked(to);
+        super._update(from, to, value);
+    }
+
     // =============================================================
     //                    UPGRADE AUTHORIZATION
     // =============================================================
 
     /**
      * @notice Authorizes upgrade to new implementation
-     * @dev Only callable by admin
+     * @dev Only callable by UPGRADER_ROLE; the whole upgradeToAndCall call is
+     *      the timelocked operation
      */
     function _authorizeUpgrade(
         address newImplementation
-    ) internal override onlyRole(DEFAULT_ADMIN_ROLE) {}
+    ) internal override onlyRole(UPGRADER_ROLE) timelocked {}
 }
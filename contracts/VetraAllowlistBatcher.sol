@@ -0,0 +1,73 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "./Vetra.sol";
+
+/**
+ * @title VetraAllowlistBatcher
+ * @notice Sets many Vetra allowlist entries in one transaction
+ * @dev Calls Vetra.setAllowlistAddress for each entry, so Vetra emits
+ *      AllowlistAddressUpdated for every address and applies its usual
+ *      checks. Needs POLICY_ADMIN_ROLE on Vetra and only accepts calls from
+ *      POLICY_ADMIN_ROLE holders. Roles are read from Vetra; kept outside
+ *      Vetra because of the contract size limit.
+ */
+contract VetraAllowlistBatcher {
+    // =============================================================
+    //                            STATE
+    // =============================================================
+
+    /// @notice Token whose allowlist is updated
+    Vetra public immutable vetra;
+
+    // =============================================================
+    //                            ERRORS
+    // =============================================================
+
+    error InvalidAddress();
+    error InvalidConfiguration();
+    error AccessControlUnauthorizedAccount(address account, bytes32 role);
+
+    // =============================================================
+    //                          CONSTRUCTOR
+    // =============================================================
+
+    /**
+     * @param _vetra Vetra proxy address
+     */
+    constructor(address _vetra) {
+        if (_vetra == address(0)) revert InvalidAddress();
+        vetra = Vetra(_vetra);
+    }
+
+    // =============================================================
+    //                           ALLOWLIST
+    // =============================================================
+
+    /**
+     * @notice Adds or removes several addresses on the Vetra allowlist
+     * @dev Reverts as a whole if any entry is rejected (e.g. the zero address)
+     * @param accounts Addresses to update
+     * @param allowed Whether each address is allowed, by index
+     */
+    function setAllowlistAddresses(
+        address[] calldata accounts,
+        bool[] calldata allowed
+    ) external onlyVetraRole(vetra.POLICY_ADMIN_ROLE()) {
+        if (accounts.length != allowed.length) revert InvalidConfiguration();
+        for (uint256 i = 0; i < accounts.length; i++) {
+            vetra.setAllowlistAddress(accounts[i], allowed[i]);
+        }
+    }
+
+    // =============================================================
+    //                       INTERNAL FUNCTIONS
+    // =============================================================
+
+    modifier onlyVetraRole(bytes32 role) {
+        if (!vetra.hasRole(role, msg.sender)) {
+            revert AccessControlUnauthorizedAccount(msg.sender, role);
+        }
+        _;
+    }
+}
@@ -0,0 +1,285 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "./Vetra.sol";
+
+/**
+ * @title VetraMintApprovals
+ * @notice Two-person proposal and approval workflow for Vetra mints
+ * @dev A MINTER_ROLE holder proposes a mint; a MINT_APPROVER_ROLE holder other
+ *      than the proposer approves it, which executes Vetra.mint from this
+ *      contract. The mint therefore goes through every Vetra check (reserve,
+ *      freshness, limits, allowlist) and spends this contract's minter
+ *      allowance. Vetra.configureMintApprovals makes this the only route for
+ *      mints above the threshold. Roles are read from Vetra; kept outside
+ *      Vetra because of the contract size limit.
+ */
+contract VetraMintApprovals {
+    // =============================================================
+    //                            TYPES
+    // =============================================================
+
+    enum ProposalStatus {
+        None,
+        Pending,
+        Executed,
+        Cancelled
+    }
+
+    struct MintProposal {
+        address to;
+        uint256 amount;
+        bytes32 fundingRef;
+        address proposer;
+        uint256 expiresAt;
+        ProposalStatus status;
+    }
+
+    // =============================================================
+    //                            STATE
+    // =============================================================
+
+    /// @notice Token being minted
+    Vetra public immutable vetra;
+
+    /// @notice How long a proposal can be approved after it is made
+    uint256 public proposalTTL;
+
+    /// @notice ID assigned to the next proposal (IDs start at 1)
+    uint256 public nextProposalId = 1;
+
+    /// @notice All proposals by ID
+    mapping(uint256 => MintProposal) public proposals;
+
+    /// @dev Pending proposal IDs (unordered) and their index + 1 in the array
+    uint256[] private _pendingIds;
+    mapping(uint256 => uint256) private _pendingIndex;
+
+    // =============================================================
+    //                            EVENTS
+    // =============================================================
+
+    event MintProposed(
+        uint256 indexed proposalId,
+        address indexed proposer,
+        address indexed to,
+        uint256 amount,
+        bytes32 fundingRef,
+        uint256 expiresAt
+    );
+
+    event MintProposalApproved(
+        uint256 indexed proposalId,
+        address indexed approver,
+        address indexed to,
+        uint256 amount
+    );
+
+    event MintProposalCancelled(
+        uint256 indexed proposalId,
+        address indexed operator
+    );
+
+    event ProposalTTLUpdated(uint256 oldTTL, uint256 newTTL);
+
+    // =============================================================
+    //                            ERRORS
+    // =============================================================
+
+    error InvalidAddress();
+    error InvalidAmount();
+    error InvalidConfiguration();
+    error ProposalNotPending(uint256 proposalId);
+    error ProposalExpired(uint256 proposalId, uint256 expiresAt);
+    error SelfApproval(uint256 proposalId);
+    error AccessControlUnauthorizedAccount(address account, bytes32 role);
+
+    // =============================================================
+    //                          CONSTRUCTOR
+    // =============================================================
+
+    /**
+     * @param _vetra Vetra proxy address
+     * @param _proposalTTL Seconds a proposal stays approvable
+     */
+    constructor(address _vetra, uint256 _proposalTTL) {
+        if (_vetra == address(0)) revert InvalidAddress();
+        if (_proposalTTL == 0) revert InvalidConfiguration();
+        vetra = Vetra(_vetra);
+        proposalTTL = _proposalTTL;
+    }
+
+    // =============================================================
+    //                           PROPOSALS
+    // =============================================================
+
+    /**
+     * @notice Proposes a mint for approval
+     * @param to Recipient address
+     * @param amount Amount to mint (18 decimals)
+     * @param fundingRef Reference to the incoming funds (e.g. the wire ID)
+     * @return proposalId ID of the new proposal
+     */
+    function proposeMint(
+        address to,
+        uint256 amount,
+        bytes32 fundingRef
+    ) external onlyVetraRole(vetra.MINTER_ROLE()) returns (uint256 proposalId) {
+        if (to == address(0)) revert InvalidAddress();
+        if (amount == 0) revert InvalidAmount();
+
+        uint256 expiresAt = block.timestamp + proposalTTL;
+        proposalId = nextProposalId++;
+        proposals[proposalId] = MintProposal({
+            to: to,
+            amount: amount,
+            fundingRef: fundingRef,
+            proposer: msg.sender,
+            expiresAt: expiresAt,
+            status: ProposalStatus.Pending
+        });
+        _pendingIds.push(proposalId);
+        _pendingIndex[proposalId] = _pendingIds.length;
+
+        emit MintProposed(
+            proposalId,
+            msg.sender,
+            to,
+            amount,
+            fundingRef,
+            expiresAt
+        );
+    }
+
+    /**
+     * @notice Approves a proposal and executes the mint
+     * @dev Reverts (leaving the proposal pending) if Vetra rejects the mint
+     * @param proposalId Proposal to approve
+     */
+    function approveMint(
+        uint256 proposalId
+    ) external onlyVetraRole(vetra.MINT_APPROVER_ROLE()) {
+        MintProposal storage proposal = proposals[proposalId];
+        if (proposal.status != ProposalStatus.Pending) {
+            revert ProposalNotPending(proposalId);
+        }
+        if (block.timestamp > proposal.expiresAt) {
+            revert ProposalExpired(proposalId, proposal.expiresAt);
+        }
+        if (msg.sender == proposal.proposer) revert SelfApproval(proposalId);
+
+        _removePending(proposalId);
+        proposal.status = ProposalStatus.Executed;
+
+        vetra.mint(proposal.to, proposal.amount);
+
+        emit MintProposalApproved(
+            proposalId,
+            msg.sender,
+            proposal.to,
+            proposal.amount
+        );
+    }
+
+    /**
+     * @notice Cancels a pending or expired proposal
+     * @dev Callable by the proposer or any MINT_APPROVER_ROLE holder
+     * @param proposalId Proposal to cancel
+     */
+    function cancelMintProposal(uint256 proposalId) external {
+        MintProposal storage proposal = proposals[proposalId];
+        if (proposal.status != ProposalStatus.Pending) {
+            revert ProposalNotPending(proposalId);
+        }
+
+        bytes32 approverRole = vetra.MINT_APPROVER_ROLE();
+        if (
+            msg.sender != proposal.proposer &&
+            !vetra.hasRole(approverRole, msg.sender)
+        ) {
+            revert AccessControlUnauthorizedAccount(msg.sender, approverRole);
+        }
+
+        _removePending(proposalId);
+        proposal.status = ProposalStatus.Cancelled;
+
+        emit MintProposalCancelled(proposalId, msg.sender);
+    }
+
+    // =============================================================
+    //                     ADMIN FUNCTIONS
+    // =============================================================
+
+    /**
+     * @notice Updates how long new proposals stay approvable
+     * @param _newTTL New TTL in seconds
+     */
+    function setProposalTTL(
+        uint256 _newTTL
+    ) external onlyVetraRole(vetra.DEFAULT_ADMIN_ROLE()) {
+        if (_newTTL == 0) revert InvalidConfiguration();
+        uint256 oldTTL = proposalTTL;
+        proposalTTL = _newTTL;
+        emit ProposalTTLUpdated(oldTTL, _newTTL);
+    }
+
+    // =============================================================
+    //                        VIEW FUNCTIONS
+    // =============================================================
+
+    /**
+     * @notice Returns whether a proposal can still be approved
+     */
+    function isApprovable(uint256 proposalId) external view returns (bool) {
+        MintProposal storage proposal = proposals[proposalId];
+        return
+            proposal.status == ProposalStatus.Pending &&
+            block.timestamp <= proposal.expiresAt;
+    }
+
+    /**
+     * @notice Returns the number of pending proposals (including expired ones)
+     */
+    function pendingProposalCount() external view returns (uint256) {
+        return _pendingIds.length;
+    }
+
+    /**
+     * @notice Returns a page of pending proposal IDs (unordered)
+     * @param offset Index of the first ID to return
+     * @param limit Maximum number of IDs to return
+     */
+    function getPendingProposalIds(
+        uint256 offset,
+        uint256 limit
+    ) external view returns (uint256[] memory ids) {
+        uint256 total = _pendingIds.length;
+        if (offset >= total) return new uint256[](0);
+
+        uint256 end = limit > total - offset ? total : offset + limit;
+        ids = new uint256[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            ids[i - offset] = _pendingIds[i];
+        }
+    }
+
+    // =============================================================
+    //                       INTERNAL FUNCTIONS
+    // =============================================================
+
+    modifier onlyVetraRole(bytes32 role) {
+        if (!vetra.hasRole(role, msg.sender)) {
+            revert AccessControlUnauthorizedAccount(msg.sender, role);
+        }
+        _;
+    }
+
+    function _removePending(uint256 proposalId) private {
+        uint256 index = _pendingIndex[proposalId] - 1;
+        uint256 lastId = _pendingIds[_pendingIds.length - 1];
+        _pendingIds[index] = lastId;
+        _pendingIndex[lastId] = index + 1;
+        _pendingIds.pop();
+        delete _pendingIndex[proposalId];
+    }
+}
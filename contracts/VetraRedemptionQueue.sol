@@ -0,0 +1,307 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "./Vetra.sol";
+
+/**
+ * @title VetraRedemptionQueue
+ * @notice Escrow queue for fiat redemptions of VTR
+ * @dev Holders escrow tokens with a reference to their off-chain payout
+ *      instructions. A Vetra BURNER_ROLE holder settles a request by burning
+ *      the escrow once the fiat is paid, or rejects it and returns the tokens.
+ *      A COMPLIANCE_ROLE holder destroys the escrow of an account blocked
+ *      after requesting, which can be neither paid out nor returned.
+ *      Roles are read from the Vetra contract so there is a single role
+ *      registry. Kept outside Vetra because of the contract size limit; the
+ *      queue is not upgradeable: drain it and deploy a new one to replace it.
+ */
+contract VetraRedemptionQueue {
+    // =============================================================
+    //                            TYPES
+    // =============================================================
+
+    enum RedemptionStatus {
+        None,
+        Pending,
+        Settled,
+        Rejected,
+        Wiped
+    }
+
+    struct Redemption {
+        address account;
+        uint256 amount;
+        bytes32 payoutRef;
+        uint256 requestedAt;
+        RedemptionStatus status;
+    }
+
+    // =============================================================
+    //                            STATE
+    // =============================================================
+
+    /// @notice Token being redeemed
+    Vetra public immutable vetra;
+
+    /// @notice ID assigned to the next request (IDs start at 1)
+    uint256 public nextRedemptionId = 1;
+
+    /// @notice Tokens held in escrow for pending requests
+    uint256 public totalEscrowed;
+
+    /// @notice All requests by ID
+    mapping(uint256 => Redemption) public redemptions;
+
+    /// @dev Pending request IDs (unordered) and their index + 1 in the array
+    uint256[] private _pendingIds;
+    mapping(uint256 => uint256) private _pendingIndex;
+
+    // =============================================================
+    //                            EVENTS
+    // =============================================================
+
+    event RedemptionRequested(
+        uint256 indexed redemptionId,
+        address indexed account,
+        uint256 amount,
+        bytes32 payoutRef
+    );
+
+    event RedemptionSettled(
+        uint256 indexed redemptionId,
+        address indexed account,
+        uint256 amount,
+        bytes32 payoutRef,
+        address indexed operator
+    );
+
+    event RedemptionRejected(
+        uint256 indexed redemptionId,
+        address indexed account,
+        uint256 amount,
+        address indexed operator
+    );
+
+    event RedemptionWiped(
+        uint256 indexed redemptionId,
+        address indexed account,
+        uint256 amount,
+        address indexed operator
+    );
+
+    // =============================================================
+    //                            ERRORS
+    // =============================================================
+
+    error InvalidAddress();
+    error InvalidAmount();
+    error InvalidPayoutRef();
+    error RedemptionNotPending(uint256 redemptionId);
+    error AccountBlocked(address account);
+    error AccountNotBlocked(address account);
+    error AccessControlUnauthorizedAccount(address account, bytes32 role);
+
+    // =============================================================
+    //                          CONSTRUCTOR
+    // =============================================================
+
+    /**
+     * @param _vetra Vetra proxy address
+     */
+    constructor(address _vetra) {
+        if (_vetra == address(0)) revert InvalidAddress();
+        vetra = Vetra(_vetra);
+    }
+
+    // =============================================================
+    //                           REQUESTS
+    // =============================================================
+
+    /**
+     * @notice Escrows tokens for redemption
+     * @dev Requires an allowance for this contract (approve or permit)
+     * @param amount Amount to redeem (18 decimals)
+     * @param payoutRef Reference to the off-chain payout instructions
+     * @return redemptionId ID of the new request
+     */
+    function requestRedemption(
+        uint256 amount,
+        bytes32 payoutRef
+    ) external returns (uint256 redemptionId) {
+        if (amount == 0) revert InvalidAmount();
+        if (payoutRef == bytes32(0)) revert InvalidPayoutRef();
+
+        vetra.transferFrom(msg.sender, address(this), amount);
+
+        redemptionId = nextRedemptionId++;
+        redemptions[redemptionId] = Redemption({
+            account: msg.sender,
+            amount: amount,
+            payoutRef: payoutRef,
+            requestedAt: block.timestamp,
+            status: RedemptionStatus.Pending
+        });
+        _pendingIds.push(redemptionId);
+        _pendingIndex[redemptionId] = _pendingIds.length;
+        totalEscrowed += amount;
+
+        emit RedemptionRequested(redemptionId, msg.sender, amount, payoutRef);
+    }
+
+    // =============================================================
+    //                          SETTLEMENT
+    // =============================================================
+
+    /**
+     * @notice Burns the escrow of a paid-out request
+     * @param redemptionId Request to settle
+     */
+    function settleRedemption(uint256 redemptionId) external onlyBurner {
+        _settle(redemptionId);
+    }
+
+    /**
+     * @notice Burns the escrow of several paid-out requests
+     * @dev Reverts as a whole if any request is not pending
+     * @param redemptionIds Requests to settle
+     */
+    function settleRedemptions(
+        uint256[] calldata redemptionIds
+    ) external onlyBurner {
+        for (uint256 i = 0; i < redemptionIds.length; i++) {
+            _settle(redemptionIds[i]);
+        }
+    }
+
+    /**
+     * @notice Returns the escrow of a request to its account
+     * @param redemptionId Request to reject
+     */
+    function rejectRedemption(uint256 redemptionId) external onlyBurner {
+        Redemption storage redemption = _takePending(redemptionId);
+        redemption.status = RedemptionStatus.Rejected;
+
+        vetra.transfer(redemption.account, redemption.amount);
+
+        emit RedemptionRejected(
+            redemptionId,
+            redemption.account,
+            redemption.amount,
+            msg.sender
+        );
+    }
+
+    /**
+     * @notice Destroys the escrow of a blocked account's request
+     * @dev The queue burns its own tokens, so the blocklist does not stop
+     *      it; reduces totalSupply like Vetra's wipeFrozenBalance
+     * @param redemptionId Pending request of a blocked account
+     */
+    function wipeBlockedRedemption(
+        uint256 redemptionId
+    ) external onlyCompliance {
+        Redemption storage redemption = _takePending(redemptionId);
+        if (!vetra.blocklist(redemption.account)) {
+            revert AccountNotBlocked(redemption.account);
+        }
+        redemption.status = RedemptionStatus.Wiped;
+
+        vetra.burn(redemption.amount);
+
+        emit RedemptionWiped(
+            redemptionId,
+            redemption.account,
+            redemption.amount,
+            msg.sender
+        );
+    }
+
+    // =============================================================
+    //                        VIEW FUNCTIONS
+    // =============================================================
+
+    /**
+     * @notice Returns the number of pending requests
+     */
+    function pendingRedemptionCount() external view returns (uint256) {
+        return _pendingIds.length;
+    }
+
+    /**
+     * @notice Returns a page of pending request IDs (unordered)
+     * @param offset Index of the first ID to return
+     * @param limit Maximum number of IDs to return
+     */
+    function getPendingRedemptionIds(
+        uint256 offset,
+        uint256 limit
+    ) external view returns (uint256[] memory ids) {
+        uint256 total = _pendingIds.length;
+        if (offset >= total) return new uint256[](0);
+
+        uint256 end = limit > total - offset ? total : offset + limit;
+        ids = new uint256[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            ids[i - offset] = _pendingIds[i];
+        }
+    }
+
+    // =============================================================
+    //                       INTERNAL FUNCTIONS
+    // =============================================================
+
+    modifier onlyBurner() {
+        bytes32 role = vetra.BURNER_ROLE();
+        if (!vetra.hasRole(role, msg.sender)) {
+            revert AccessControlUnauthorizedAccount(msg.sender, role);
+        }
+        _;
+    }
+
+    modifier onlyCompliance() {
+        bytes32 role = vetra.COMPLIANCE_ROLE();
+        if (!vetra.hasRole(role, msg.sender)) {
+            revert AccessControlUnauthorizedAccount(msg.sender, role);
+        }
+        _;
+    }
+
+    function _settle(uint256 redemptionId) private {
+        Redemption storage redemption = _takePending(redemptionId);
+
+        // Never pay out a holder blocked after requesting
+        if (vetra.blocklist(redemption.account)) {
+            revert AccountBlocked(redemption.account);
+        }
+        redemption.status = RedemptionStatus.Settled;
+
+        vetra.burn(redemption.amount);
+
+        emit RedemptionSettled(
+            redemptionId,
+            redemption.account,
+            redemption.amount,
+            redemption.payoutRef,
+            msg.sender
+        );
+    }
+
+    /// @dev Removes a pending request from the queue and releases its escrow
+    function _takePending(
+        uint256 redemptionId
+    ) private returns (Redemption storage redemption) {
+        redemption = redemptions[redemptionId];
+        if (redemption.status != RedemptionStatus.Pending) {
+            revert RedemptionNotPending(redemptionId);
+        }
+
+        uint256 index = _pendingIndex[redemptionId] - 1;
+        uint256 lastId = _pendingIds[_pendingIds.length - 1];
+        _pendingIds[index] = lastId;
+        _pendingIndex[lastId] = index + 1;
+        _pendingIds.pop();
+        delete _pendingIndex[redemptionId];
+
+        totalEscrowed -= redemption.amount;
+    }
+}
@@ -16,7 +16,7 @@ contract VetraV2 is Vetra {
      * @notice Initialize V2 specific features
      * @dev Called after upgrade to set V2-specific state
      */
-    function initializeV2() public reinitializer(2) {
+    function initializeV2() public reinitializer(INITIALIZED_VERSION + 1) {
         version = "2.0.0";
     }
 
@@ -0,0 +1,93 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "../Vetra.sol";
+
+/**
+ * @title VetraMintRateLimits
+ * @notice Rolling-window accounting behind Vetra's mint rate limits
+ * @dev Deployed separately and linked into Vetra to keep it under the
+ *      contract size limit. Works on Vetra's own MintWindow storage
+ */
+library VetraMintRateLimits {
+    /**
+     * @notice Checks and records a mint against the global and per-minter
+     *         limits
+     * @dev Mints are recorded whenever a window is set, so a limit enabled
+     *      mid-window already sees recent minting
+     * @param globalWindow Minting by all minters
+     * @param minterWindow Minting by `minter`
+     * @param window Window length in seconds (0 = no rate limits)
+     * @param globalLimit Max minted by all minters per window (0 = none)
+     * @param minterLimit Max minted by each minter per window (0 = none)
+     * @param minter Minter, reported when its own limit is exceeded
+     * @param amount Amount being minted
+     */
+    function consume(
+        Vetra.MintWindow storage globalWindow,
+        Vetra.MintWindow storage minterWindow,
+        uint256 window,
+        uint256 globalLimit,
+        uint256 minterLimit,
+        address minter,
+        uint256 amount
+    ) external {
+        if (window == 0) return;
+
+        uint256 left = remaining(globalWindow, window, globalLimit);
+        if (amount > left) {
+            revert Vetra.MintRateLimitExceeded(address(0), amount, left);
+        }
+        left = remaining(minterWindow, window, minterLimit);
+        if (amount > left) {
+            revert Vetra.MintRateLimitExceeded(minter, amount, left);
+        }
+
+        _record(globalWindow, window, amount);
+        _record(minterWindow, window, amount);
+    }
+
+    /**
+     * @notice Remaining amount under `limit` (max uint256 when unlimited)
+     * @dev Usage is a sliding-window estimate: the current aligned window plus
+     *      the previous one weighted by how much of it still overlaps the
+     *      trailing window
+     */
+    function remaining(
+        Vetra.MintWindow storage w,
+        uint256 window,
+        uint256 limit
+    ) public view returns (uint256) {
+        if (window == 0 || limit == 0) return type(uint256).max;
+
+        uint256 start = block.timestamp - (block.timestamp % window);
+        uint256 current;
+        uint256 previous;
+        if (w.windowStart == start) {
+            current = w.currentAmount;
+            previous = w.previousAmount;
+        } else if (w.windowStart + window == start) {
+            previous = w.currentAmount;
+        }
+
+        uint256 overlap = window - (block.timestamp - start);
+        uint256 used = current + (previous * overlap) / window;
+        return used >= limit ? 0 : limit - used;
+    }
+
+    function _record(
+        Vetra.MintWindow storage w,
+        uint256 window,
+        uint256 amount
+    ) private {
+        uint256 start = block.timestamp - (block.timestamp % window);
+        if (w.windowStart != start) {
+            w.previousAmount = w.windowStart + window == start
+                ? w.currentAmount
+                : 0;
+            w.currentAmount = 0;
+            w.windowStart = start;
+        }
+        w.currentAmount += amount;
+    }
+}
@@ -0,0 +1,34 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@chainlink/contracts/src/v0.8/functions/v1_0_0/libraries/FunctionsRequest.sol";
+
+/**
+ * @title VetraReserveRequest
+ * @notice Builds the Chainlink Functions request behind a reserve update
+ * @dev Deployed separately and linked into Vetra so the CBOR encoder does
+ *      not count towards Vetra's contract size
+ */
+library VetraReserveRequest {
+    using FunctionsRequest for FunctionsRequest.Request;
+
+    /**
+     * @notice CBOR-encodes an inline JavaScript request
+     * @param source JavaScript source code
+     * @param args Arguments for the source code (if any)
+     * @return CBOR request data for IFunctionsRouter.sendRequest
+     */
+    function encode(
+        string calldata source,
+        string[] calldata args
+    ) external pure returns (bytes memory) {
+        FunctionsRequest.Request memory req;
+        req.initializeRequestForInlineJavaScript(source);
+
+        if (args.length > 0) {
+            req.setArgs(args);
+        }
+
+        return req.encodeCBOR();
+    }
+}
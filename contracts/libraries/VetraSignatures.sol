@@ -0,0 +1,43 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/interfaces/IERC1271.sol";
+
+/**
+ * @title VetraSignatures
+ * @notice Signature check behind Vetra's permit
+ * @dev Deployed separately and linked into Vetra to keep it under the
+ *      contract size limit. SignatureChecker is not used as it requires the
+ *      cancun EVM target
+ */
+library VetraSignatures {
+    /**
+     * @notice ECDSA recovery for EOAs, ERC-1271 isValidSignature for contracts
+     * @param signer Expected signer
+     * @param hash Signed digest
+     * @param signature ECDSA signature for EOAs, wallet-specific for contracts
+     */
+    function isValidSignature(
+        address signer,
+        bytes32 hash,
+        bytes memory signature
+    ) external view returns (bool) {
+        if (signer.code.length == 0) {
+            (address recovered, ECDSA.RecoverError err, ) = ECDSA.tryRecover(
+                hash,
+                signature
+            );
+            return err == ECDSA.RecoverError.NoError && recovered == signer;
+        }
+
+        (bool success, bytes memory result) = signer.staticcall(
+            abi.encodeCall(IERC1271.isValidSignature, (hash, signature))
+        );
+        return
+            success &&
+            result.length >= 32 &&
+            abi.decode(result, (bytes32)) ==
+            bytes32(IERC1271.isValidSignature.selector);
+    }
+}
@@ -0,0 +1,57 @@
+// Chainlink Functions source code for Vetra reserve update
+const apiUrl = args[0];
+
+// Make HTTP request to FT Asset Management API
+const response = await Functions.makeHttpRequest({
+  url: apiUrl,
+  method: "GET",
+  timeout: 9000
+});
+
+if (response.error) {
+  throw new Error("API request failed: " + response.error);
+}
+
+// Parse FT Asset Management API response
+// Expected format: { "StatementSummary": { "TotalBalance": "100000000.00", ... } }
+const data = response.data;
+
+if (!data || typeof data !== 'object') {
+  throw new Error("Invalid API response: expected object");
+}
+
+if (!data.StatementSummary || typeof data.StatementSummary !== 'object') {
+  throw new Error("Invalid API response: missing StatementSummary");
+}
+
+const totalBalance = data.StatementSummary.TotalBalance;
+
+if (!totalBalance || typeof totalBalance !== 'string') {
+  throw new Error("Invalid API response: missing or invalid TotalBalance");
+}
+
+// Parse balance string (e.g., "100000000.00") to float
+const usdBalance = parseFloat(totalBalance);
+
+if (isNaN(usdBalance) || usdBalance < 0) {
+  throw new Error("Invalid balance value: " + totalBalance);
+}
+
+// Convert to 8 decimals (contract expects USD with 8 decimals)
+// Example: $100,000,000.00 -> 10000000000000000 (10^16)
+const usdWith8Decimals = Math.floor(usdBalance * 100000000);
+
+// Generate monotonic nonce (timestamp in milliseconds)
+const nonce = Date.now();
+
+// ABI-encode response as (uint256, uint256) tuple
+// The contract uses abi.decode(response, (uint256, uint256))
+// So we must return properly ABI-encoded data
+const abiCoder = ethers.utils.defaultAbiCoder;
+const encoded = abiCoder.encode(
+  ['uint256', 'uint256'],
+  [usdWith8Decimals, nonce]
+);
+
+// Functions runtime requires raw bytes, not a hex string
+return ethers.utils.arrayify(encoded);
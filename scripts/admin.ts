@@ -0,0 +1,311 @@
+import { ethers } from "hardhat";
+import { Interface } from "ethers";
+import {
+  AdminCommand,
+  getNetworkName,
+  getAdminCommand,
+  getAdminValue,
+  getAllowlistAccount,
+  getFunctionsRouter,
+  getDonId,
+  getSubscriptionId,
+  getFunctionsGasLimit,
+  displayConfig,
+} from "../config/env";
+import { Vetra } from "../typechain-types";
+import { getDeployment } from "./lib/deployments";
+import { preflight } from "./lib/errors";
+import { VetraRoleName, getRoleId } from "./lib/roles";
+import { assertTimelockReady } from "./lib/timelock";
+import { confirm } from "./lib/prompt";
+
+/**
+ * Admin Operations
+ *
+ * Runs one of Vetra's pause and policy setters. Prints the current on-chain
+ * value, checks the signer's role and shows the change before sending, asks
+ * for confirmation on polygon, and prints the emitted events.
+ *
+ * With the timelock on, every setter here except setAllowlistAddress only
+ * runs once the exact call has been scheduled with scripts/timelock.ts and
+ * its delay has passed; running this command then executes it.
+ *
+ * Options (environment):
+ *   ADMIN_COMMAND        pause, unpause, setReserveTTL, setMintPerTxLimit,
+ *                        setAllowlistEnabled, setAllowlistAddress or
+ *                        updateChainlinkConfig
+ *   ADMIN_VALUE          New value: seconds (setReserveTTL), VTR with 0 = no
+ *                        limit (setMintPerTxLimit), true/false
+ *                        (setAllowlistEnabled, setAllowlistAddress)
+ *   ALLOWLIST_ACCOUNT    Account to allow or disallow (setAllowlistAddress)
+ *   FUNCTIONS_GAS_LIMIT  Callback gas limit (updateChainlinkConfig; unset =
+ *                        keep the current one). Router, DON ID and
+ *                        subscription come from the network configuration
+ */
+
+const COMMAND_ROLES: Record<AdminCommand, VetraRoleName> = {
+  pause: "PAUSER_ROLE",
+  unpause: "PAUSER_ROLE",
+  setReserveTTL: "POLICY_ADMIN_ROLE",
+  setMintPerTxLimit: "POLICY_ADMIN_ROLE",
+  setAllowlistEnabled: "POLICY_ADMIN_ROLE",
+  setAllowlistAddress: "POLICY_ADMIN_ROLE",
+  updateChainlinkConfig: "ORACLE_ADMIN_ROLE",
+};
+
+interface AdminChange {
+  /** Current on-chain values, as label/value pairs */
+  current: [string, string][];
+  /** Changes the call makes, e.g. "reserveTTL: 900s -> 1800s" */
+  changes: string[];
+  args: unknown[];
+}
+
+function parseBool(value: string): boolean {
+  if (value !== "true" && value !== "false") {
+    throw new Error(`ADMIN_VALUE must be "true" or "false", got "${value}"`);
+  }
+  return value === "true";
+}
+
+function formatDonId(donId: string): string {
+  try {
+    return `${ethers.decodeBytes32String(donId)} (${donId})`;
+  } catch {
+    return donId;
+  }
+}
+
+function formatLimit(limit: bigint): string {
+  return limit === 0n ? "no limit" : `${ethers.formatEther(limit)} VTR`;
+}
+
+/**
+ * Reads the current value and works out the arguments for the call
+ */
+async function planChange(
+  vetra: Vetra,
+  command: AdminCommand
+): Promise<AdminChange> {
+  switch (command) {
+    case "pause":
+    case "unpause": {
+      const paused = await vetra.paused();
+      const wantPaused = command === "pause";
+      return {
+        current: [["paused", String(paused)]],
+        changes:
+          paused === wantPaused ? [] : [`paused: ${paused} -> ${wantPaused}`],
+        args: [],
+      };
+    }
+
+    case "setReserveTTL": {
+      const current = await vetra.reserveTTL();
+      const next = BigInt(getAdminValue());
+      if (next === 0n) throw new Error("Reserve TTL must be greater than 0.");
+      return {
+        current: [["reserveTTL", `${current}s`]],
+        changes:
+          next === current ? [] : [`reserveTTL: ${current}s -> ${next}s`],
+        args: [next],
+      };
+    }
+
+    case "setMintPerTxLimit": {
+      const current = await vetra.mintPerTxLimit();
+      const next = ethers.parseEther(getAdminValue());
+      return {
+        current: [["mintPerTxLimit", formatLimit(current)]],
+        changes:
+          next === current
+            ? []
+            : [
+                `mintPerTxLimit: ${formatLimit(current)} -> ${formatLimit(next)}`,
+              ],
+        args: [next],
+      };
+    }
+
+    case "setAllowlistEnabled": {
+      const current = await vetra.allowlistEnabled();
+      const next = parseBool(getAdminValue());
+      return {
+        current: [["allowlistEnabled", String(current)]],
+        changes:
+          next === current ? [] : [`allowlistEnabled: ${current} -> ${next}`],
+        args: [next],
+      };
+    }
+
+    case "setAllowlistAddress": {
+      const account = getAllowlistAccount();
+      if (!ethers.isAddress(account)) {
+        throw new Error(`Invalid ALLOWLIST_ACCOUNT: ${account}`);
+      }
+      const current = await vetra.allowlist(account);
+      const next = parseBool(getAdminValue());
+      return {
+        current: [
+          ["allowlistEnabled", String(await vetra.allowlistEnabled())],
+          [`allowlist[${account}]`, String(current)],
+        ],
+        changes:
+          next === current
+            ? []
+            : [`allowlist[${account}]: ${current} -> ${next}`],
+        args: [account, next],
+      };
+    }
+
+    case "updateChainlinkConfig": {
+      const current = {
+        router: await vetra.functionsRouter(),
+        donId: await vetra.donId(),
+        subscriptionId: await vetra.subscriptionId(),
+        gasLimit: await vetra.gasLimit(),
+      };
+      const next = {
+        router: getFunctionsRouter(),
+        donId: getDonId(),
+        subscriptionId: BigInt(getSubscriptionId()),
+        gasLimit: BigInt(getFunctionsGasLimit() ?? current.gasLimit),
+      };
+      if (!ethers.isAddress(next.router)) {
+        throw new Error(`Invalid FUNCTIONS_ROUTER: ${next.router}`);
+      }
+
+      const changes: string[] = [];
+      if (next.router.toLowerCase() !== current.router.toLowerCase()) {
+        changes.push(`functionsRouter: ${current.router} -> ${next.router}`);
+      }
+      if (next.donId.toLowerCase() !== current.donId.toLowerCase()) {
+        changes.push(
+          `donId: ${formatDonId(current.donId)} -> ${formatDonId(next.donId)}`
+        );
+      }
+      if (next.subscriptionId !== current.subscriptionId) {
+        changes.push(
+          `subscriptionId: ${current.subscriptionId} -> ${next.subscriptionId}`
+        );
+      }
+      if (next.gasLimit !== current.gasLimit) {
+        changes.push(`gasLimit: ${current.gasLimit} -> ${next.gasLimit}`);
+      }
+
+      return {
+        current: [
+          ["functionsRouter", current.router],
+          ["donId", formatDonId(current.donId)],
+          ["subscriptionId", String(current.subscriptionId)],
+          ["gasLimit", String(current.gasLimit)],
+        ],
+        changes,
+        args: [next.router, next.donId, next.subscriptionId, next.gasLimit],
+      };
+    }
+  }
+}
+
+async function main() {
+  console.log("\n========================================");
+  console.log("ADMIN OPERATIONS");
+  console.log("========================================\n");
+
+  displayConfig();
+
+  const networkName = getNetworkName();
+  const [signer] = await ethers.getSigners();
+  const command = getAdminCommand();
+
+  console.log("Operator account:", signer.address);
+
+  // Load deployment info
+  const deployment = getDeployment(networkName);
+  const proxyAddress = deployment.proxy;
+
+  console.log("Vetra contract:", proxyAddress);
+  console.log("Command:", command);
+  console.log("");
+
+  const vetra = (await ethers.getContractAt(
+    "Vetra",
+    proxyAddress
+  )) as unknown as Vetra;
+
+  const plan = await planChange(vetra, command);
+
+  console.log("========================================");
+  console.log("CURRENT VALUE");
+  console.log("========================================");
+  for (const [label, value] of plan.current) {
+    console.log(`${label}: ${value}`);
+  }
+  console.log("");
+
+  if (plan.changes.length === 0) {
+    console.log("✅ Nothing to do: the on-chain value already matches.\n");
+    return;
+  }
+
+  // Check role
+  const roleName = COMMAND_ROLES[command];
+  if (!(await vetra.hasRole(getRoleId(roleName), signer.address))) {
+    throw new Error(
+      `Account ${signer.address} does not have ${roleName}, which ${command} requires.`
+    );
+  }
+  console.log(`✅ Caller has ${roleName}\n`);
+
+  // Timelocked calls must have been scheduled and be ready
+  await assertTimelockReady(vetra, command, plan.args, networkName);
+  const vetraInterface: Interface = vetra.interface;
+  const data = vetraInterface.encodeFunctionData(command, plan.args);
+
+  console.log("========================================");
+  console.log("CHANGE");
+  console.log("========================================");
+  for (const change of plan.changes) {
+    console.log(change);
+  }
+  console.log("");
+
+  await preflight(command, networkName, () =>
+    signer.call({ to: proxyAddress, data })
+  );
+
+  if (networkName === "polygon") {
+    if (!(await confirm(`Send ${command} on polygon?`))) {
+      console.log("Aborted; nothing was sent.\n");
+      return;
+    }
+  }
+
+  console.log(`Sending ${command}...`);
+  const tx = await signer.sendTransaction({ to: proxyAddress, data });
+  console.log("Transaction hash:", tx.hash);
+  const receipt = await tx.wait();
+  console.log("✅ Confirmed in block:", receipt?.blockNumber);
+  console.log("");
+
+  console.log("========================================");
+  console.log("EVENTS");
+  console.log("========================================");
+  for (const log of receipt?.logs ?? []) {
+    const event = vetraInterface.parseLog(log);
+    if (!event) continue;
+    const args = event.fragment.inputs.map(
+      (input, i) => `${input.name}: ${String(event.args[i])}`
+    );
+    console.log(`${event.name}(${args.join(", ")})`);
+  }
+  console.log("Network:", networkName);
+  console.log("========================================\n");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
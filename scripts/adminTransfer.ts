@@ -0,0 +1,181 @@
+import { ethers } from "hardhat";
+import {
+  getNetworkName,
+  getAdminTransferAction,
+  getNewAdminAddress,
+  displayConfig,
+} from "../config/env";
+import { Vetra } from "../typechain-types";
+import { getDeployment } from "./lib/deployments";
+import { preflight } from "./lib/errors";
+
+/**
+ * Default Admin Transfer
+ *
+ * Shows the current default admin and any pending transfer and, with
+ * ADMIN_TRANSFER_ACTION set, begins, accepts or cancels a transfer.
+ * DEFAULT_ADMIN_ROLE moves in two steps: the current admin begins the
+ * transfer, and the new admin accepts it between DEFAULT_ADMIN_TRANSFER_DELAY
+ * and the end of DEFAULT_ADMIN_TRANSFER_WINDOW after that.
+ *
+ * Options (environment):
+ *   ADMIN_TRANSFER_ACTION  "begin", "accept" or "cancel" (unset = only show)
+ *   NEW_ADMIN_ADDRESS      Account to hand the admin role to (begin only)
+ */
+
+function formatTime(timestamp: bigint): string {
+  return new Date(Number(timestamp) * 1000).toISOString();
+}
+
+async function main() {
+  console.log("\n========================================");
+  console.log("DEFAULT ADMIN TRANSFER");
+  console.log("========================================\n");
+
+  displayConfig();
+
+  const networkName = getNetworkName();
+  const [signer] = await ethers.getSigners();
+  const action = getAdminTransferAction();
+
+  console.log("Operator account:", signer.address);
+
+  // Load deployment info
+  const deployment = getDeployment(networkName);
+  const proxyAddress = deployment.proxy;
+
+  console.log("Vetra contract:", proxyAddress);
+  console.log("");
+
+  const vetra = (await ethers.getContractAt(
+    "Vetra",
+    proxyAddress
+  )) as unknown as Vetra;
+
+  const defaultAdmin = await vetra.defaultAdmin();
+  if (defaultAdmin === ethers.ZeroAddress) {
+    throw new Error(
+      `No default admin recorded. Migrate first: npm run migrate:${networkName}`
+    );
+  }
+
+  const window = await vetra.DEFAULT_ADMIN_TRANSFER_WINDOW();
+  const pendingAdmin = await vetra.pendingDefaultAdmin();
+  const acceptSchedule = await vetra.pendingDefaultAdminSchedule();
+  const now = BigInt((await ethers.provider.getBlock("latest"))!.timestamp);
+
+  console.log("Default admin:", defaultAdmin);
+  if (pendingAdmin === ethers.ZeroAddress) {
+    console.log("Pending transfer: (none)");
+  } else {
+    const expiresAt = acceptSchedule + window;
+    const status =
+      now < acceptSchedule
+        ? "⏳ waiting"
+        : now > expiresAt
+          ? "❌ expired"
+          : "✅ READY";
+    console.log(`Pending transfer: ${pendingAdmin}  ${status}`);
+    console.log(`     Accept from: ${formatTime(acceptSchedule)}`);
+    console.log(`     Expires at:  ${formatTime(expiresAt)}`);
+  }
+  console.log("");
+
+  if (!action) return;
+
+  if (action === "begin" || action === "cancel") {
+    if (signer.address.toLowerCase() !== defaultAdmin.toLowerCase()) {
+      throw new Error(
+        `Account ${signer.address} is not the default admin. Only admin can ${action} a transfer.`
+      );
+    }
+  }
+
+  if (action === "begin") {
+    const newAdmin = getNewAdminAddress();
+    if (!ethers.isAddress(newAdmin)) {
+      throw new Error(`Invalid NEW_ADMIN_ADDRESS: ${newAdmin}`);
+    }
+
+    await preflight("beginDefaultAdminTransfer", networkName, () =>
+      vetra.beginDefaultAdminTransfer.staticCall(newAdmin)
+    );
+
+    console.log(`Beginning transfer to ${newAdmin}...`);
+    const tx = await vetra.beginDefaultAdminTransfer(newAdmin);
+    console.log("Transaction hash:", tx.hash);
+    const receipt = await tx.wait();
+    console.log("✅ Confirmed in block:", receipt?.blockNumber);
+
+    const schedule = await vetra.pendingDefaultAdminSchedule();
+    console.log("Accept from:", formatTime(schedule));
+    console.log("Expires at:", formatTime(schedule + window));
+    console.log(
+      `\n   The new admin accepts with: ADMIN_TRANSFER_ACTION=accept npm run admin-transfer:${networkName}\n`
+    );
+    return;
+  }
+
+  if (action === "cancel") {
+    if (pendingAdmin === ethers.ZeroAddress) {
+      throw new Error("There is no pending transfer to cancel.");
+    }
+    await preflight("cancelDefaultAdminTransfer", networkName, () =>
+      vetra.cancelDefaultAdminTransfer.staticCall()
+    );
+
+    console.log(`Cancelling transfer to ${pendingAdmin}...`);
+    const tx = await vetra.cancelDefaultAdminTransfer();
+    console.log("Transaction hash:", tx.hash);
+    const receipt = await tx.wait();
+    console.log("✅ Confirmed in block:", receipt?.blockNumber);
+    console.log("");
+    return;
+  }
+
+  // accept
+  if (signer.address.toLowerCase() !== pendingAdmin.toLowerCase()) {
+    throw new Error(
+      `Account ${signer.address} is not the pending admin (${pendingAdmin}).`
+    );
+  }
+  if (now < acceptSchedule) {
+    throw new Error(
+      `Transfer cannot be accepted until ${formatTime(acceptSchedule)}.`
+    );
+  }
+  if (now > acceptSchedule + window) {
+    throw new Error(
+      `Transfer expired at ${formatTime(acceptSchedule + window)}. The admin must begin it again.`
+    );
+  }
+
+  await preflight("acceptDefaultAdminTransfer", networkName, () =>
+    vetra.acceptDefaultAdminTransfer.staticCall()
+  );
+
+  console.log("Accepting transfer...");
+  const tx = await vetra.acceptDefaultAdminTransfer();
+  console.log("Transaction hash:", tx.hash);
+  const receipt = await tx.wait();
+  console.log("✅ Confirmed in block:", receipt?.blockNumber);
+
+  console.log("\n========================================");
+  console.log("ADMIN TRANSFER SUMMARY");
+  console.log("========================================");
+  console.log("Old admin:", defaultAdmin);
+  console.log("New admin:", await vetra.defaultAdmin());
+  console.log("Network:", networkName);
+  console.log("========================================\n");
+  console.log(
+    "⚠️  Operational roles held by the old admin were not moved; review them with the new admin."
+  );
+  console.log("");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
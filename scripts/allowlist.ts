@@ -0,0 +1,197 @@
+import { ethers } from "hardhat";
+import {
+  getNetworkName,
+  getAllowlistCsv,
+  getAllowlistBatchSize,
+  getAllowlistMaxGas,
+  displayConfig,
+} from "../config/env";
+import { Vetra, VetraAllowlistBatcher } from "../typechain-types";
+import { getContractRecord, getDeployment } from "./lib/deployments";
+import {
+  AllowlistEntry,
+  chunkByGas,
+  filterAllowlistChanges,
+  parseAllowlistRows,
+} from "./lib/allowlist";
+import { readCsv } from "./lib/csv";
+import { preflight, printError } from "./lib/errors";
+import { getRoleId } from "./lib/roles";
+import { confirm } from "./lib/prompt";
+
+/**
+ * Allowlist Import
+ *
+ * Applies a CSV of address,allowed rows to the Vetra allowlist through
+ * VetraAllowlistBatcher. Rows already in the desired state are skipped, and
+ * the rest are sent in batches whose estimated gas stays under
+ * ALLOWLIST_MAX_GAS. Every batch is estimated (and so checked) before the
+ * first one is sent; on polygon the plan is confirmed first. A failed run
+ * can be rerun with the same file: applied rows are skipped.
+ *
+ * CSV format (header row optional, "#" starts a comment line):
+ *   address,allowed
+ *   0x1234...,true
+ *   0x5678...,false
+ *
+ * Options (environment):
+ *   ALLOWLIST_CSV         Path to the CSV file
+ *   ALLOWLIST_BATCH_SIZE  Maximum entries per transaction (default: 100)
+ *   ALLOWLIST_MAX_GAS     Maximum estimated gas per transaction (default: 5000000)
+ */
+
+async function main() {
+  console.log("\n========================================");
+  console.log("ALLOWLIST IMPORT");
+  console.log("========================================\n");
+
+  displayConfig();
+
+  const networkName = getNetworkName();
+  const [signer] = await ethers.getSigners();
+  const csvPath = getAllowlistCsv();
+  const batchSize = getAllowlistBatchSize();
+  const maxGas = getAllowlistMaxGas();
+
+  console.log("Operator account:", signer.address);
+
+  // Load deployment info
+  const deployment = getDeployment(networkName);
+  const batcherRecord = getContractRecord(
+    deployment,
+    "VetraAllowlistBatcher",
+    `npm run deploy-allowlist-batcher:${networkName}`
+  );
+
+  console.log("Vetra contract:", deployment.proxy);
+  console.log("Allowlist batcher:", batcherRecord.address);
+  console.log("CSV file:", csvPath);
+  console.log("");
+
+  const vetra = (await ethers.getContractAt(
+    "Vetra",
+    deployment.proxy
+  )) as unknown as Vetra;
+  const batcher = (await ethers.getContractAt(
+    "VetraAllowlistBatcher",
+    batcherRecord.address
+  )) as unknown as VetraAllowlistBatcher;
+
+  const entries = parseAllowlistRows(readCsv(csvPath, "address"));
+  const { changes, unchanged } = await filterAllowlistChanges(vetra, entries);
+
+  console.log("========================================");
+  console.log("CHANGES");
+  console.log("========================================");
+  for (const entry of changes) {
+    console.log(
+      `${entry.allowed ? "+ allow   " : "- disallow"} ${entry.account}  (line ${entry.line})`
+    );
+  }
+  console.log("");
+  console.log("Rows:", entries.length);
+  console.log("Already in the desired state:", unchanged.length);
+  console.log("To update:", changes.length);
+  console.log(
+    "Allowlist enforcement:",
+    (await vetra.allowlistEnabled()) ? "enabled" : "disabled"
+  );
+  console.log("");
+
+  if (changes.length === 0) {
+    console.log("✅ Nothing to do: the allowlist already matches the file.\n");
+    return;
+  }
+
+  // Check roles
+  const POLICY_ADMIN_ROLE = getRoleId("POLICY_ADMIN_ROLE");
+  if (!(await vetra.hasRole(POLICY_ADMIN_ROLE, signer.address))) {
+    throw new Error(
+      `Account ${signer.address} does not have POLICY_ADMIN_ROLE, which the allowlist batcher requires.`
+    );
+  }
+  if (!(await vetra.hasRole(POLICY_ADMIN_ROLE, batcherRecord.address))) {
+    throw new Error(
+      `The allowlist batcher ${batcherRecord.address} does not have POLICY_ADMIN_ROLE on Vetra. ` +
+        `Grant it with: ROLE_ACTION=grant ROLE_NAME=POLICY_ADMIN_ROLE ` +
+        `ROLE_ACCOUNT=${batcherRecord.address} npm run roles:${networkName}`
+    );
+  }
+  console.log("✅ Caller and batcher have POLICY_ADMIN_ROLE\n");
+
+  // Size the batches, pre-flighting each one before estimating it
+  const estimate = async (batch: AllowlistEntry[]) => {
+    const accounts = batch.map((e) => e.account);
+    const allowed = batch.map((e) => e.allowed);
+    await preflight(
+      `Batch of lines ${batch[0].line}-${batch[batch.length - 1].line}`,
+      networkName,
+      () => batcher.setAllowlistAddresses.staticCall(accounts, allowed)
+    );
+    return batcher.setAllowlistAddresses.estimateGas(accounts, allowed, {
+      from: signer.address,
+    });
+  };
+  const batches = await chunkByGas(changes, batchSize, maxGas, estimate);
+
+  console.log(
+    `Sending ${changes.length} update(s) in ${batches.length} transaction(s) ` +
+      `(up to ${batchSize} entries, ${maxGas} gas each)`
+  );
+
+  if (networkName === "polygon") {
+    const question = `Update ${changes.length} allowlist entries on polygon?`;
+    if (!(await confirm(question))) {
+      console.log("Aborted; nothing was sent.\n");
+      return;
+    }
+  }
+  console.log("");
+
+  let updated = 0;
+  for (const [i, batch] of batches.entries()) {
+    console.log(
+      `Batch ${i + 1}/${batches.length}: lines ${batch[0].line}-${batch[batch.length - 1].line} (${batch.length} entries)...`
+    );
+    try {
+      const tx = await batcher.setAllowlistAddresses(
+        batch.map((e) => e.account),
+        batch.map((e) => e.allowed)
+      );
+      console.log("Transaction hash:", tx.hash);
+      const receipt = await tx.wait();
+
+      const events = (receipt?.logs ?? []).filter(
+        (log) => vetra.interface.parseLog(log)?.name === "AllowlistAddressUpdated"
+      );
+      console.log(
+        `✅ Confirmed in block ${receipt?.blockNumber}: ${events.length} AllowlistAddressUpdated event(s)`
+      );
+      updated += batch.length;
+    } catch (error: any) {
+      console.error(`\n❌ Batch ${i + 1} failed:`);
+      printError(error, networkName);
+      console.error(
+        `   ${updated} of ${changes.length} entries were updated. Rerun with the same file to apply the rest.`
+      );
+      throw error;
+    }
+  }
+
+  console.log("\n========================================");
+  console.log("ALLOWLIST SUMMARY");
+  console.log("========================================");
+  console.log("Rows:", entries.length);
+  console.log("Skipped (unchanged):", unchanged.length);
+  console.log("Updated:", updated);
+  console.log("Transactions:", batches.length);
+  console.log("Network:", networkName);
+  console.log("========================================\n");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,133 @@
+import { ethers } from "hardhat";
+import {
+  getNetworkName,
+  getReserveSourceUri,
+  getReserveSourceVersion,
+  displayConfig,
+} from "../config/env";
+import { Vetra } from "../typechain-types";
+import { getDeployment } from "./lib/deployments";
+import { preflight, printError } from "./lib/errors";
+import { loadReserveSource } from "./lib/reserveSource";
+import { assertTimelockReady } from "./lib/timelock";
+
+/**
+ * Approve Functions Source
+ *
+ * Pins the hash of a versioned reserve source (functions/reserve.v<N>.js) on
+ * the contract. requestReserveUpdate rejects any source whose keccak256 does
+ * not match the approved hash. Only the hash and version are stored; the
+ * optional URI is emitted in ApprovedSourceUpdated for reference.
+ *
+ * With the timelock on, the approval only runs once the exact call has been
+ * scheduled with scripts/timelock.ts and its delay has passed; running this
+ * command then executes it.
+ *
+ * Options (environment):
+ *   RESERVE_SOURCE_VERSION  Source file version to approve (default: current)
+ *   RESERVE_SOURCE_URI      Where reviewers can find the source (optional)
+ */
+
+async function main() {
+  console.log("\n========================================");
+  console.log("APPROVE FUNCTIONS SOURCE");
+  console.log("========================================\n");
+
+  displayConfig();
+
+  const networkName = getNetworkName();
+  const [signer] = await ethers.getSigners();
+
+  console.log("Admin account:", signer.address);
+
+  // Load deployment info
+  const deployment = getDeployment(networkName);
+  const proxyAddress = deployment.proxy;
+
+  console.log("Vetra contract:", proxyAddress);
+  console.log("");
+
+  const vetra = (await ethers.getContractAt(
+    "Vetra",
+    proxyAddress
+  )) as unknown as Vetra;
+
+  // Check oracle admin role
+  const ORACLE_ADMIN_ROLE = await vetra.ORACLE_ADMIN_ROLE();
+  const hasOracleAdminRole = await vetra.hasRole(
+    ORACLE_ADMIN_ROLE,
+    signer.address
+  );
+
+  if (!hasOracleAdminRole) {
+    throw new Error(
+      `Account ${signer.address} does not have ORACLE_ADMIN_ROLE.`
+    );
+  }
+
+  const source = loadReserveSource(getReserveSourceVersion());
+  const uri = getReserveSourceUri();
+
+  const currentHash = await vetra.approvedSourceHash();
+  const currentVersion = await vetra.approvedSourceVersion();
+
+  console.log("Currently approved:");
+  console.log("- Version:", currentVersion.toString());
+  console.log("- Hash:", currentHash);
+  console.log("");
+  console.log("Source to approve:");
+  console.log("- File:", source.path);
+  console.log("- Version:", source.version);
+  console.log("- Hash:", source.hash);
+  console.log("- URI:", uri || "(none)");
+  console.log("");
+
+  if (
+    currentHash === source.hash &&
+    currentVersion === BigInt(source.version)
+  ) {
+    console.log("✅ This source is already approved.");
+    console.log("   No action needed.\n");
+    return;
+  }
+
+  await assertTimelockReady(
+    vetra,
+    "setApprovedSource",
+    [source.hash, source.version, uri],
+    networkName
+  );
+
+  await preflight("setApprovedSource", networkName, () =>
+    vetra.setApprovedSource.staticCall(source.hash, source.version, uri)
+  );
+
+  try {
+    const tx = await vetra.setApprovedSource(source.hash, source.version, uri);
+    console.log("Transaction hash:", tx.hash);
+    console.log("Waiting for confirmation...");
+
+    const receipt = await tx.wait();
+    console.log("✅ Transaction confirmed in block:", receipt?.blockNumber);
+
+    console.log("\n========================================");
+    console.log("SOURCE APPROVAL SUMMARY");
+    console.log("========================================");
+    console.log("Approved version:", (await vetra.approvedSourceVersion()).toString());
+    console.log("Approved hash:", await vetra.approvedSourceHash());
+    console.log("Transaction:", tx.hash);
+    console.log("Network:", networkName);
+    console.log("========================================\n");
+  } catch (error: any) {
+    console.error("\n❌ Failed to approve source:");
+    printError(error, networkName);
+    throw error;
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,129 @@
+import { ethers } from "hardhat";
+import {
+  getNetworkName,
+  getAdminAddress,
+  getMinterAddress,
+  getBurnerAddress,
+  getPauserAddress,
+  getReserveUpdaterAddress,
+  getPolicyAdminAddress,
+  getOracleAdminAddress,
+  getUpgraderAddress,
+  getMinterAdminAddress,
+  getComplianceAddress,
+  getMintApproverAddresses,
+  displayConfig,
+} from "../config/env";
+import { Vetra } from "../typechain-types";
+import { getDeployment } from "./lib/deployments";
+import {
+  VetraRoleName,
+  findRoleDrift,
+  loadRoleHolders,
+  withCompanionHolders,
+} from "./lib/roles";
+
+/**
+ * Role Holder Audit
+ *
+ * Rebuilds the holders of every Vetra role from the deployment block onward
+ * and compares them with the addresses in the environment (ADMIN_ADDRESS,
+ * MINTER_ADDRESS, BURNER_ADDRESS, the operational role addresses,
+ * MINTER_ADMIN_ADDRESS, COMPLIANCE_ADDRESS and MINT_APPROVER_ADDRESSES) plus
+ * the companion contracts in the deployment registry that need a role. Exits
+ * non-zero if any role has an unexpected holder or lacks its configured one.
+ */
+
+async function main() {
+  console.log("\n========================================");
+  console.log("ROLE HOLDER AUDIT");
+  console.log("========================================\n");
+
+  displayConfig();
+
+  const networkName = getNetworkName();
+
+  // Load deployment info
+  const deployment = getDeployment(networkName);
+  const proxyAddress = deployment.proxy;
+  const fromBlock = deployment.deployBlock ?? 0;
+
+  console.log("Vetra contract:", proxyAddress);
+  console.log("Searching from block:", fromBlock);
+  console.log("");
+
+  const vetra = (await ethers.getContractAt(
+    "Vetra",
+    proxyAddress
+  )) as unknown as Vetra;
+
+  const configured: Record<VetraRoleName, string[]> = {
+    DEFAULT_ADMIN_ROLE: [getAdminAddress()],
+    MINTER_ROLE: [getMinterAddress()],
+    BURNER_ROLE: [getBurnerAddress()],
+    PAUSER_ROLE: [getPauserAddress()],
+    RESERVE_UPDATER_ROLE: [getReserveUpdaterAddress()],
+    POLICY_ADMIN_ROLE: [getPolicyAdminAddress()],
+    ORACLE_ADMIN_ROLE: [getOracleAdminAddress()],
+    UPGRADER_ROLE: [getUpgraderAddress()],
+    MINTER_ADMIN_ROLE: [getMinterAdminAddress()],
+    COMPLIANCE_ROLE: [getComplianceAddress()],
+    MINT_APPROVER_ROLE: getMintApproverAddresses(),
+  };
+  const expected = withCompanionHolders(configured, deployment);
+
+  const roles = await loadRoleHolders(vetra, fromBlock);
+  const drift = findRoleDrift(roles, expected);
+
+  console.log("========================================");
+  console.log("ROLE HOLDERS");
+  console.log("========================================");
+  for (const { name, holders } of roles) {
+    console.log(name);
+    if (holders.length === 0) {
+      console.log("     (none)");
+    }
+    for (const account of holders) {
+      const unexpected = drift.some(
+        (d) => d.name === name && d.account === account
+      );
+      console.log(`     ${account}${unexpected ? "  ❌ unexpected" : ""}`);
+    }
+    for (const d of drift) {
+      if (d.name === name && d.kind === "missing") {
+        console.log(`     ${d.account}  ❌ missing (configured)`);
+      }
+    }
+  }
+  console.log("");
+
+  console.log("========================================");
+  console.log("AUDIT SUMMARY");
+  console.log("========================================");
+  console.log("Network:", networkName);
+  console.log("Drift:", drift.length);
+  console.log("========================================\n");
+
+  if (drift.length > 0) {
+    for (const d of drift) {
+      console.log(
+        d.kind === "unexpected"
+          ? `❌ ${d.account} holds ${d.name} but is not configured`
+          : `❌ ${d.account} is configured for ${d.name} but does not hold it`
+      );
+    }
+    console.log(
+      "\n   Revoke unexpected holders, or update .env if the change was intended.\n"
+    );
+    process.exit(1);
+  }
+
+  console.log("✅ Role holders match the configuration\n");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,318 @@
+import { ethers } from "hardhat";
+import {
+  getNetworkName,
+  getBurnCsv,
+  getBurnFrom,
+  getBurnAmount,
+  getBurnReportPath,
+  isBurnDryRun,
+  displayConfig,
+} from "../config/env";
+import { Vetra } from "../typechain-types";
+import { getDeployment } from "./lib/deployments";
+import { AmountRow, parseAmountRows, readCsv } from "./lib/csv";
+import { checkBurns, isSelfBurn } from "./lib/burns";
+import { describeError, preflight, printError } from "./lib/errors";
+import { confirm } from "./lib/prompt";
+import { getDefaultReportPath, vtr, writeReport } from "./lib/reports";
+
+/**
+ * Burn
+ *
+ * Burns one holder's tokens (BURN_FROM, BURN_AMOUNT) or processes a CSV of
+ * redemptions (BURN_CSV). Burns from other accounts use burnFrom under
+ * BURNER_ROLE; burns of the signer's own tokens use burn. Before sending
+ * anything it checks each holder's balance against the sum of their rows,
+ * the blocklist, the pause and the signer's role, and runs each burn as a
+ * static call. BURN_DRY_RUN=true stops there and prints the projected
+ * supply. On polygon the plan is confirmed first. Burns are sent one at a
+ * time, and a JSON report with each transaction hash and TokensBurned event
+ * and the total supply and reserve headroom before and after is written
+ * after every burn.
+ *
+ * CSV format (header row optional, "#" starts a comment line):
+ *   account,amount
+ *   0x1234...,250000
+ *   0x5678...,1000.50
+ *
+ * Options (environment):
+ *   BURN_CSV      Path to the CSV file (amounts in VTR)
+ *   BURN_FROM     Holder, without BURN_CSV (default: the signer)
+ *   BURN_AMOUNT   Amount in VTR, without BURN_CSV
+ *   BURN_DRY_RUN  "true" to run the checks without sending
+ *   BURN_REPORT   Report path (default: reports/burn-<network>-<time>.json)
+ */
+
+interface BurnReportEntry {
+  line: number;
+  account: string;
+  amount: string;
+  method: "burn" | "burnFrom";
+  status: "burned" | "failed" | "not sent";
+  txHash?: string;
+  blockNumber?: number;
+  /** Decoded TokensBurned event */
+  event?: {
+    from: string;
+    amount: string;
+    operator: string;
+    totalSupplyAfter: string;
+    timestamp: number;
+  };
+  error?: string;
+}
+
+interface BurnReport {
+  network: string;
+  vetra: string;
+  operator: string;
+  source: string;
+  startedAt: string;
+  finishedAt?: string;
+  total: string;
+  burned: string;
+  totalSupplyBefore: string;
+  totalSupplyAfter?: string;
+  reserveHeadroomBefore: string;
+  reserveHeadroomAfter?: string;
+  burns: BurnReportEntry[];
+}
+
+function loadBurns(operator: string): { source: string; burns: AmountRow[] } {
+  const csvPath = getBurnCsv();
+  if (csvPath) {
+    const rows = readCsv(csvPath, "account");
+    return { source: csvPath, burns: parseAmountRows(rows) };
+  }
+
+  const from = getBurnFrom() ?? operator;
+  const amount = getBurnAmount();
+  const [burn] = parseAmountRows([{ line: 0, fields: [from, amount] }]);
+  return { source: "BURN_FROM / BURN_AMOUNT", burns: [burn] };
+}
+
+/**
+ * Reserve (scaled to token units) minus total supply; negative when the
+ * supply is above the last reported reserve
+ */
+async function reserveHeadroom(vetra: Vetra): Promise<bigint> {
+  const reserve =
+    (await vetra.lastReserveUsd()) * (await vetra.RESERVE_TO_TOKEN_SCALE());
+  return reserve - (await vetra.totalSupply());
+}
+
+async function main() {
+  console.log("\n========================================");
+  console.log("VETRA BURN");
+  console.log("========================================\n");
+
+  displayConfig();
+
+  const networkName = getNetworkName();
+  const dryRun = isBurnDryRun();
+  const [signer] = await ethers.getSigners();
+
+  console.log("Burning with account:", signer.address);
+  console.log("Mode:", dryRun ? "DRY RUN (checks only)" : "SEND");
+
+  // Load deployment info
+  const deployment = getDeployment(networkName);
+  const proxyAddress = deployment.proxy;
+
+  console.log("Vetra contract:", proxyAddress);
+  console.log("");
+
+  const vetra = (await ethers.getContractAt(
+    "Vetra",
+    proxyAddress
+  )) as unknown as Vetra;
+
+  const { source, burns } = loadBurns(signer.address);
+  if (burns.length === 0) {
+    throw new Error(`No burns in ${source}.`);
+  }
+  const total = burns.reduce((sum, b) => sum + b.amount, 0n);
+  const supplyBefore = await vetra.totalSupply();
+  const headroomBefore = await reserveHeadroom(vetra);
+
+  console.log("========================================");
+  console.log("BURNS");
+  console.log("========================================");
+  console.log("Source:", source);
+  for (const { account, amount, line } of burns) {
+    const method = isSelfBurn(signer.address, account) ? "burn" : "burnFrom";
+    console.log(
+      `${line > 0 ? `line ${line}: ` : ""}${account}  ${vtr(amount)} (${method})`
+    );
+  }
+  console.log("");
+  console.log("Burns:", burns.length);
+  console.log("Total:", vtr(total));
+  console.log("Total Supply:", vtr(supplyBefore));
+  console.log("Reserve Headroom:", vtr(headroomBefore));
+  console.log("");
+
+  // Pre-flight: balances and burn rules, then a static call of each burn
+  const problems = await checkBurns(vetra, signer.address, burns);
+  if (problems.length > 0) {
+    console.log("❌ Pre-flight checks failed; nothing was sent:");
+    for (const problem of problems) {
+      console.log(`   - ${problem}`);
+    }
+    console.log("");
+    throw new Error(`${problems.length} pre-flight check(s) failed.`);
+  }
+  for (const { account, amount, line } of burns) {
+    await preflight(
+      `Burn from ${account}${line > 0 ? ` (line ${line})` : ""}`,
+      networkName,
+      () =>
+        isSelfBurn(signer.address, account)
+          ? vetra.burn.staticCall(amount)
+          : vetra.burnFrom.staticCall(account, amount)
+    );
+  }
+  console.log("✅ Pre-flight checks passed\n");
+
+  if (dryRun) {
+    console.log("========================================");
+    console.log("DRY RUN SUMMARY");
+    console.log("========================================");
+    console.log("Burns:", burns.length);
+    console.log("Would burn:", vtr(total));
+    console.log(
+      "Total Supply:",
+      ethers.formatEther(supplyBefore),
+      "->",
+      vtr(supplyBefore - total)
+    );
+    console.log(
+      "Reserve Headroom:",
+      ethers.formatEther(headroomBefore),
+      "->",
+      vtr(headroomBefore + total)
+    );
+    console.log("Network:", networkName);
+    console.log("========================================\n");
+    console.log("Dry run; nothing was sent.\n");
+    return;
+  }
+
+  if (networkName === "polygon") {
+    const question = `Burn ${vtr(total)} in ${burns.length} transaction(s) on polygon?`;
+    if (!(await confirm(question))) {
+      console.log("Aborted; nothing was sent.\n");
+      return;
+    }
+    console.log("");
+  }
+
+  const reportPath =
+    getBurnReportPath() ?? getDefaultReportPath("burn", networkName);
+  const report: BurnReport = {
+    network: networkName,
+    vetra: proxyAddress,
+    operator: signer.address,
+    source,
+    startedAt: new Date().toISOString(),
+    total: ethers.formatEther(total),
+    burned: "0.0",
+    totalSupplyBefore: ethers.formatEther(supplyBefore),
+    reserveHeadroomBefore: ethers.formatEther(headroomBefore),
+    burns: burns.map(({ account, amount, line }) => ({
+      line,
+      account,
+      amount: ethers.formatEther(amount),
+      method: isSelfBurn(signer.address, account) ? "burn" : "burnFrom",
+      status: "not sent",
+    })),
+  };
+
+  async function finishReport(): Promise<void> {
+    report.finishedAt = new Date().toISOString();
+    report.totalSupplyAfter = ethers.formatEther(await vetra.totalSupply());
+    report.reserveHeadroomAfter = ethers.formatEther(
+      await reserveHeadroom(vetra)
+    );
+    writeReport(reportPath, report);
+  }
+
+  let burned = 0n;
+  for (const [i, { account, amount }] of burns.entries()) {
+    const entry = report.burns[i];
+    console.log(
+      `Burn ${i + 1}/${burns.length}: ${vtr(amount)} from ${account}...`
+    );
+    try {
+      const tx =
+        entry.method === "burn"
+          ? await vetra.burn(amount)
+          : await vetra.burnFrom(account, amount);
+      entry.txHash = tx.hash;
+      console.log("Transaction hash:", tx.hash);
+      const receipt = await tx.wait();
+      entry.blockNumber = receipt?.blockNumber;
+
+      for (const log of receipt?.logs ?? []) {
+        const event = vetra.interface.parseLog(log);
+        if (event?.name === "TokensBurned") {
+          entry.event = {
+            from: event.args.from,
+            amount: ethers.formatEther(event.args.amount),
+            operator: event.args.operator,
+            totalSupplyAfter: ethers.formatEther(event.args.totalSupplyAfter),
+            timestamp: Number(event.args.timestamp),
+          };
+        }
+      }
+      entry.status = "burned";
+      burned += amount;
+      report.burned = ethers.formatEther(burned);
+      console.log("✅ Confirmed in block:", receipt?.blockNumber);
+    } catch (error: any) {
+      entry.status = "failed";
+      entry.error = describeError(error);
+      await finishReport();
+
+      console.error(`\n❌ Burn ${i + 1} failed:`);
+      printError(error, networkName);
+      console.error(
+        `   ${i} of ${burns.length} burns went through (${vtr(burned)}). Report: ${reportPath}`
+      );
+      throw error;
+    }
+    writeReport(reportPath, report);
+  }
+
+  await finishReport();
+
+  console.log("\n========================================");
+  console.log("BURN SUMMARY");
+  console.log("========================================");
+  console.log("Burns:", burns.length);
+  console.log("Burned:", vtr(burned));
+  console.log(
+    "Total Supply:",
+    report.totalSupplyBefore,
+    "->",
+    report.totalSupplyAfter,
+    "VTR"
+  );
+  console.log(
+    "Reserve Headroom:",
+    report.reserveHeadroomBefore,
+    "->",
+    report.reserveHeadroomAfter,
+    "VTR"
+  );
+  console.log("Report:", reportPath);
+  console.log("Network:", networkName);
+  console.log("========================================\n");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
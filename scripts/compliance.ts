@@ -0,0 +1,167 @@
+import { ethers } from "hardhat";
+import {
+  getNetworkName,
+  getComplianceAccount,
+  getComplianceAction,
+  displayConfig,
+} from "../config/env";
+import { Vetra } from "../typechain-types";
+import { getDeployment } from "./lib/deployments";
+import { preflight, printError } from "./lib/errors";
+
+/**
+ * Compliance Blocklist
+ *
+ * Shows the blocklist status and balance of an account and, with
+ * COMPLIANCE_ACTION set, blocks it, unblocks it or wipes its frozen balance.
+ * A blocked account cannot transfer, receive, be minted to or burn VTR;
+ * wiping destroys its whole balance and reduces totalSupply.
+ *
+ * Options (environment):
+ *   COMPLIANCE_ACCOUNT  Account to inspect or act on (required)
+ *   COMPLIANCE_ACTION   "block", "unblock" or "wipe" (unset = only show status)
+ */
+
+async function main() {
+  console.log("\n========================================");
+  console.log("COMPLIANCE BLOCKLIST");
+  console.log("========================================\n");
+
+  displayConfig();
+
+  const networkName = getNetworkName();
+  const [signer] = await ethers.getSigners();
+  const account = getComplianceAccount();
+  const action = getComplianceAction();
+
+  if (!ethers.isAddress(account)) {
+    throw new Error(`COMPLIANCE_ACCOUNT is not a valid address: ${account}`);
+  }
+
+  console.log("Compliance account:", signer.address);
+
+  // Load deployment info
+  const deployment = getDeployment(networkName);
+  const proxyAddress = deployment.proxy;
+
+  console.log("Vetra contract:", proxyAddress);
+  console.log("");
+
+  const vetra = (await ethers.getContractAt(
+    "Vetra",
+    proxyAddress
+  )) as unknown as Vetra;
+
+  const blocked = await vetra.blocklist(account);
+  const balance = await vetra.balanceOf(account);
+
+  console.log("Account:", account);
+  console.log("- Blocked:", blocked);
+  console.log("- Balance:", ethers.formatEther(balance), "VTR");
+  console.log("");
+
+  if (!action) {
+    console.log(
+      `   COMPLIANCE_ACTION=block npm run compliance:${networkName}     # freeze it`
+    );
+    console.log(
+      `   COMPLIANCE_ACTION=unblock npm run compliance:${networkName}   # unfreeze it`
+    );
+    console.log(
+      `   COMPLIANCE_ACTION=wipe npm run compliance:${networkName}      # destroy a frozen balance`
+    );
+    console.log("");
+    return;
+  }
+
+  if (action !== "wipe" && (action === "block") === blocked) {
+    console.log(`✅ Account is already ${blocked ? "blocked" : "unblocked"}.`);
+    console.log("   No action needed.\n");
+    return;
+  }
+
+  if (action === "wipe") {
+    if (!blocked) {
+      throw new Error(
+        `Account ${account} is not blocked. Block it before wiping its balance.`
+      );
+    }
+    if (balance === 0n) {
+      console.log("✅ Account has no balance to wipe.");
+      console.log("   No action needed.\n");
+      return;
+    }
+  }
+
+  // Check compliance role
+  const COMPLIANCE_ROLE = await vetra.COMPLIANCE_ROLE();
+  const hasComplianceRole = await vetra.hasRole(
+    COMPLIANCE_ROLE,
+    signer.address
+  );
+
+  if (!hasComplianceRole) {
+    throw new Error(
+      `Account ${signer.address} does not have COMPLIANCE_ROLE.`
+    );
+  }
+
+  await preflight(
+    action === "wipe" ? "wipeFrozenBalance" : "setBlocklistAddress",
+    networkName,
+    () =>
+      action === "wipe"
+        ? vetra.wipeFrozenBalance.staticCall(account)
+        : vetra.setBlocklistAddress.staticCall(account, action === "block")
+  );
+
+  const supplyBefore = await vetra.totalSupply();
+
+  console.log(
+    action === "wipe"
+      ? `Wiping ${ethers.formatEther(balance)} VTR from ${account}...`
+      : `${action === "block" ? "Blocking" : "Unblocking"} ${account}...`
+  );
+
+  try {
+    const tx =
+      action === "wipe"
+        ? await vetra.wipeFrozenBalance(account)
+        : await vetra.setBlocklistAddress(account, action === "block");
+    console.log("Transaction hash:", tx.hash);
+    console.log("Waiting for confirmation...");
+
+    const receipt = await tx.wait();
+    console.log("✅ Transaction confirmed in block:", receipt?.blockNumber);
+
+    console.log("\n========================================");
+    console.log("COMPLIANCE ACTION SUMMARY");
+    console.log("========================================");
+    console.log("Action:", action);
+    console.log("Account:", account);
+    console.log("Blocked:", await vetra.blocklist(account));
+    console.log("Balance:", ethers.formatEther(await vetra.balanceOf(account)), "VTR");
+    if (action === "wipe") {
+      console.log("Total Supply Before:", ethers.formatEther(supplyBefore), "VTR");
+      console.log(
+        "Total Supply After:",
+        ethers.formatEther(await vetra.totalSupply()),
+        "VTR"
+      );
+    }
+    console.log("Transaction:", tx.hash);
+    console.log("Network:", networkName);
+    console.log("========================================\n");
+  } catch (error: any) {
+    console.error("\n❌ Compliance action failed:");
+    printError(error, networkName);
+    throw error;
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
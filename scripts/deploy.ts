@@ -1,17 +1,27 @@
 import { ethers, upgrades } from "hardhat";
-import * as fs from "fs";
-import * as path from "path";
 import {
   displayConfig,
   getAdminAddress,
   getMinterAddress,
+  getMinterAllowance,
   getBurnerAddress,
+  getPauserAddress,
+  getReserveUpdaterAddress,
+  getPolicyAdminAddress,
+  getOracleAdminAddress,
+  getUpgraderAddress,
   getReserveTTL,
   getFunctionsRouter,
   getDonId,
   getSubscriptionId,
   getNetworkName,
+  getDeploymentName,
+  getTimelockDelay,
 } from "../config/env";
+import { Vetra } from "../typechain-types";
+import { loadRegistry, recordDeployment } from "./lib/deployments";
+import { preflight } from "./lib/errors";
+import { deployLibraries, getLinkedFactory } from "./lib/libraries";
 
 async function main() {
   console.log("\n========================================");
@@ -21,6 +31,17 @@ async function main() {
   // Display configuration
   displayConfig();
 
+  // Refuse to clobber an existing named deployment before spending gas
+  const networkName = getNetworkName();
+  const deploymentName = getDeploymentName();
+  const existing = loadRegistry(networkName).deployments[deploymentName];
+  if (existing) {
+    throw new Error(
+      `Deployment "${deploymentName}" already exists on ${networkName} at ${existing.proxy}. ` +
+        `Set DEPLOYMENT_NAME to deploy another instance.`
+    );
+  }
+
   // Get deployer
   const [deployer] = await ethers.getSigners();
   console.log("Deploying with account:", deployer.address);
@@ -36,6 +57,13 @@ async function main() {
   const adminAddress = getAdminAddress();
   const minterAddress = getMinterAddress();
   const burnerAddress = getBurnerAddress();
+  const operationalRoles = [
+    { role: "PAUSER_ROLE", address: getPauserAddress() },
+    { role: "RESERVE_UPDATER_ROLE", address: getReserveUpdaterAddress() },
+    { role: "POLICY_ADMIN_ROLE", address: getPolicyAdminAddress() },
+    { role: "ORACLE_ADMIN_ROLE", address: getOracleAdminAddress() },
+    { role: "UPGRADER_ROLE", address: getUpgraderAddress() },
+  ];
   const reserveTTL = getReserveTTL();
   const functionsRouter = getFunctionsRouter();
   const donId = getDonId();
@@ -46,6 +74,9 @@ async function main() {
   console.log("- Admin:", adminAddress);
   console.log("- Minter:", minterAddress);
   console.log("- Burner:", burnerAddress);
+  for (const { role, address } of operationalRoles) {
+    console.log(`- ${role}:`, address);
+  }
   console.log("- Reserve TTL:", reserveTTL, "seconds");
   console.log("- Functions Router:", functionsRouter);
   console.log("- DON ID:", donId);
@@ -53,11 +84,18 @@ async function main() {
   console.log("- Gas Limit:", gasLimit);
   console.log("");
 
+  // Deploy the libraries Vetra links
+  console.log("Deploying Vetra libraries...");
+  const { libraries, deployed: libraryRecords } = await deployLibraries();
+  for (const { contractName, address } of libraryRecords) {
+    console.log(`✅ ${contractName} deployed at:`, address);
+  }
+
   // Deploy Vetra as UUPS proxy
-  console.log("Deploying Vetra (UUPS proxy)...");
-  const VetraFactory = await ethers.getContractFactory("Vetra");
+  console.log("\nDeploying Vetra (UUPS proxy)...");
+  const VetraFactory = await getLinkedFactory("Vetra", libraries);
 
-  const vetra = await upgrades.deployProxy(
+  const vetra = (await upgrades.deployProxy(
     VetraFactory,
     [
       adminAddress,
@@ -72,8 +110,9 @@ async function main() {
     {
       initializer: "initialize",
       kind: "uups",
+      unsafeAllowLinkedLibraries: true,
     }
-  );
+  )) as unknown as Vetra;
 
   await vetra.waitForDeployment();
   const proxyAddress = await vetra.getAddress();
@@ -106,15 +145,87 @@ async function main() {
   const DEFAULT_ADMIN_ROLE = await vetra.DEFAULT_ADMIN_ROLE();
   const MINTER_ROLE = await vetra.MINTER_ROLE();
   const BURNER_ROLE = await vetra.BURNER_ROLE();
+  const MINTER_ADMIN_ROLE = await vetra.MINTER_ADMIN_ROLE();
 
   const hasAdminRole = await vetra.hasRole(DEFAULT_ADMIN_ROLE, adminAddress);
   const hasMinterRole = await vetra.hasRole(MINTER_ROLE, minterAddress);
   const hasBurnerRole = await vetra.hasRole(BURNER_ROLE, burnerAddress);
+  const hasMinterAdminRole = await vetra.hasRole(
+    MINTER_ADMIN_ROLE,
+    adminAddress
+  );
 
   console.log("\nRole verification:");
   console.log("- Admin role assigned:", hasAdminRole ? "✅" : "❌");
   console.log("- Minter role assigned:", hasMinterRole ? "✅" : "❌");
   console.log("- Burner role assigned:", hasBurnerRole ? "✅" : "❌");
+  console.log("- Minter admin role assigned:", hasMinterAdminRole ? "✅" : "❌");
+
+  // initialize gives every operational role to the admin; hand the ones with
+  // their own address over to it
+  const pendingRoleTransfers: string[] = [];
+  const isAdmin = await vetra.hasRole(DEFAULT_ADMIN_ROLE, deployer.address);
+  for (const { role, address } of operationalRoles) {
+    if (address.toLowerCase() === adminAddress.toLowerCase()) continue;
+    if (!isAdmin) {
+      pendingRoleTransfers.push(role);
+      continue;
+    }
+    const roleId: string = await vetra.getFunction(role)();
+    await preflight(`grantRole(${role}, ${address})`, networkName, () =>
+      vetra.grantRole.staticCall(roleId, address)
+    );
+    await (await vetra.grantRole(roleId, address)).wait();
+    await preflight(`revokeRole(${role}, ${adminAddress})`, networkName, () =>
+      vetra.revokeRole.staticCall(roleId, adminAddress)
+    );
+    await (await vetra.revokeRole(roleId, adminAddress)).wait();
+    console.log(`- ${role} moved to ${address} ✅`);
+  }
+  if (pendingRoleTransfers.length > 0) {
+    console.log(
+      `- ⚠️  Deployer lacks DEFAULT_ADMIN_ROLE; the admin must move ${pendingRoleTransfers.join(", ")}`
+    );
+  }
+
+  // Give the minter its initial allowance (minting is blocked until it has one)
+  const minterAllowance = getMinterAllowance();
+  let allowanceConfigured = false;
+  if (minterAllowance) {
+    if (await vetra.hasRole(MINTER_ADMIN_ROLE, deployer.address)) {
+      const allowance = ethers.parseEther(minterAllowance);
+      await preflight("configureMinter", networkName, () =>
+        vetra.configureMinter.staticCall(minterAddress, allowance)
+      );
+      const tx = await vetra.configureMinter(minterAddress, allowance);
+      await tx.wait();
+      allowanceConfigured = true;
+      console.log(`- Minter allowance set to ${minterAllowance} VTR ✅`);
+    } else {
+      console.log(
+        "- ⚠️  Deployer lacks MINTER_ADMIN_ROLE; the admin must call configureMinter"
+      );
+    }
+  }
+
+  // Turn on the timelock last, once the initial configuration is done
+  const timelockDelay = getTimelockDelay();
+  let timelockConfigured = false;
+  if (timelockDelay > 0) {
+    if (isAdmin) {
+      await preflight("setTimelockDelay", networkName, () =>
+        vetra.setTimelockDelay.staticCall(timelockDelay)
+      );
+      const tx = await vetra.setTimelockDelay(timelockDelay);
+      await tx.wait();
+      timelockConfigured = true;
+      console.log(`- Timelock delay set to ${timelockDelay} seconds ✅`);
+    } else {
+      console.log(
+        "- ⚠️  Deployer lacks DEFAULT_ADMIN_ROLE; the admin must call setTimelockDelay"
+      );
+    }
+  }
 
   // Verify configuration
   const configTTL = await vetra.reserveTTL();
@@ -129,33 +240,49 @@ async function main() {
   console.log("- Subscription ID:", configSubId.toString());
 
   // Save deployment info
-  const networkName = getNetworkName();
-  const deploymentInfo = {
-    network: networkName,
-    timestamp: new Date().toISOString(),
-    deployer: deployer.address,
-    proxy: proxyAddress,
-    implementation: implementationAddress,
-    proxyAdmin: adminSlot,
-    config: {
-      admin: adminAddress,
-      minter: minterAddress,
-      burner: burnerAddress,
-      reserveTTL: reserveTTL,
-      functionsRouter: functionsRouter,
-      donId: donId,
-      subscriptionId: subscriptionId,
-      gasLimit: gasLimit,
-    },
-  };
-
-  const deploymentsDir = path.join(__dirname, "..", "deployments");
-  if (!fs.existsSync(deploymentsDir)) {
-    fs.mkdirSync(deploymentsDir, { recursive: true });
-  }
+  const deployTx = vetra.deploymentTransaction();
+  const deployReceipt = deployTx ? await deployTx.wait() : null;
+  const deployBlock = deployReceipt?.blockNumber ?? null;
+  const { chainId } = await ethers.provider.getNetwork();
+  const timestamp = new Date().toISOString();
 
-  const filename = path.join(deploymentsDir, `${networkName}.json`);
-  fs.writeFileSync(filename, JSON.stringify(deploymentInfo, null, 2));
+  const filename = recordDeployment(
+    {
+      name: deploymentName,
+      network: networkName,
+      chainId: Number(chainId),
+      deployer: deployer.address,
+      proxy: proxyAddress,
+      proxyAdmin: adminSlot,
+      deployBlock,
+      timestamp,
+      config: {
+        admin: adminAddress,
+        minter: minterAddress,
+        burner: burnerAddress,
+        pauser: operationalRoles[0].address,
+        reserveUpdater: operationalRoles[1].address,
+        policyAdmin: operationalRoles[2].address,
+        oracleAdmin: operationalRoles[3].address,
+        upgrader: operationalRoles[4].address,
+        reserveTTL: reserveTTL,
+        functionsRouter: functionsRouter,
+        donId: donId,
+        subscriptionId: subscriptionId,
+        gasLimit: gasLimit,
+      },
+      contracts: Object.fromEntries(
+        libraryRecords.map((record) => [record.contractName, record])
+      ),
+    },
+    {
+      address: implementationAddress,
+      contractName: "Vetra",
+      blockNumber: deployBlock,
+      txHash: deployTx?.hash ?? null,
+      timestamp,
+    }
+  );
 
   console.log("\n✅ Deployment info saved to:", filename);
 
@@ -163,14 +290,32 @@ async function main() {
   console.log("DEPLOYMENT SUMMARY");
   console.log("========================================");
   console.log("Network:", networkName);
+  console.log("Deployment:", deploymentName);
+  console.log("Deploy Block:", deployBlock);
   console.log("Proxy Address:", proxyAddress);
   console.log("Implementation:", implementationAddress);
   console.log("========================================");
   console.log("\nNext steps:");
   console.log("1. Fund the Chainlink subscription (if not done)");
   console.log("2. Add this contract as a consumer to the subscription");
-  console.log("3. Run: npm run update-reserve:" + networkName);
-  console.log("4. Run: npm run verify:" + networkName);
+  console.log("3. Run: npm run approve-source:" + networkName);
+  console.log("4. Run: npm run update-reserve:" + networkName);
+  console.log("5. Run: npm run verify:" + networkName);
+  if (!allowanceConfigured) {
+    console.log(
+      "6. Give the minter an allowance: configureMinter(minter, amount) from a MINTER_ADMIN_ROLE holder"
+    );
+  }
+  if (pendingRoleTransfers.length > 0) {
+    console.log(
+      `7. Move ${pendingRoleTransfers.join(", ")} from the admin: grantRole to the new holder, then revokeRole from the admin`
+    );
+  }
+  if (timelockDelay > 0 && !timelockConfigured) {
+    console.log(
+      `8. Turn on the timelock: setTimelockDelay(${timelockDelay}) from the admin`
+    );
+  }
   console.log("========================================\n");
 }
 
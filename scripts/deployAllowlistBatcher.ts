@@ -0,0 +1,134 @@
+import { ethers } from "hardhat";
+import {
+  displayConfig,
+  getNetworkName,
+  getDeploymentName,
+} from "../config/env";
+import { getDeployment, recordContract } from "./lib/deployments";
+import { preflight } from "./lib/errors";
+import { Vetra } from "../typechain-types";
+
+/**
+ * Deploy Allowlist Batcher
+ *
+ * Deploys VetraAllowlistBatcher for the current deployment's proxy and
+ * records it in deployments/<network>.json. The batcher calls
+ * setAllowlistAddress on Vetra, so it needs POLICY_ADMIN_ROLE. When the
+ * deployer holds DEFAULT_ADMIN_ROLE the role is granted here (and revoked
+ * from a batcher being replaced); otherwise the calls are printed.
+ */
+
+async function main() {
+  console.log("\n========================================");
+  console.log("DEPLOY ALLOWLIST BATCHER");
+  console.log("========================================\n");
+
+  displayConfig();
+
+  const networkName = getNetworkName();
+  const deploymentName = getDeploymentName();
+  const [deployer] = await ethers.getSigners();
+
+  console.log("Deploying with account:", deployer.address);
+
+  // Load deployment info
+  const deployment = getDeployment(networkName, deploymentName);
+  const proxyAddress = deployment.proxy;
+
+  console.log("Vetra contract:", proxyAddress);
+
+  const vetra = (await ethers.getContractAt(
+    "Vetra",
+    proxyAddress
+  )) as unknown as Vetra;
+
+  const previous = deployment.contracts?.VetraAllowlistBatcher;
+  if (previous) {
+    console.log("Current batcher:", previous.address);
+  }
+  console.log("");
+
+  console.log("Deploying VetraAllowlistBatcher...");
+  const BatcherFactory = await ethers.getContractFactory(
+    "VetraAllowlistBatcher"
+  );
+  const batcher = await BatcherFactory.deploy(proxyAddress);
+  await batcher.waitForDeployment();
+
+  const batcherAddress = await batcher.getAddress();
+  const deployTx = batcher.deploymentTransaction();
+  const receipt = await deployTx?.wait();
+
+  console.log("✅ Allowlist batcher deployed to:", batcherAddress);
+
+  const filename = recordContract(networkName, deploymentName, {
+    address: batcherAddress,
+    contractName: "VetraAllowlistBatcher",
+    deployer: deployer.address,
+    blockNumber: receipt?.blockNumber ?? null,
+    txHash: deployTx?.hash ?? null,
+    timestamp: new Date().toISOString(),
+  });
+
+  console.log("✅ Deployment registry updated:", filename);
+
+  // Move POLICY_ADMIN_ROLE to the new batcher
+  console.log("\nConfiguring Vetra:");
+  const pending: string[] = [];
+
+  const DEFAULT_ADMIN_ROLE = await vetra.DEFAULT_ADMIN_ROLE();
+  const POLICY_ADMIN_ROLE = await vetra.POLICY_ADMIN_ROLE();
+  const isAdmin = await vetra.hasRole(DEFAULT_ADMIN_ROLE, deployer.address);
+
+  if (isAdmin) {
+    await preflight("grantRole(POLICY_ADMIN_ROLE)", networkName, () =>
+      vetra.grantRole.staticCall(POLICY_ADMIN_ROLE, batcherAddress)
+    );
+    const tx = await vetra.grantRole(POLICY_ADMIN_ROLE, batcherAddress);
+    await tx.wait();
+    console.log("- POLICY_ADMIN_ROLE granted ✅");
+  } else {
+    pending.push(`grantRole(POLICY_ADMIN_ROLE, ${batcherAddress})`);
+  }
+
+  if (
+    previous &&
+    (await vetra.hasRole(POLICY_ADMIN_ROLE, previous.address))
+  ) {
+    if (isAdmin) {
+      await preflight("revokeRole(POLICY_ADMIN_ROLE)", networkName, () =>
+        vetra.revokeRole.staticCall(POLICY_ADMIN_ROLE, previous.address)
+      );
+      const tx = await vetra.revokeRole(POLICY_ADMIN_ROLE, previous.address);
+      await tx.wait();
+      console.log("- POLICY_ADMIN_ROLE revoked from the old batcher ✅");
+    } else {
+      pending.push(`revokeRole(POLICY_ADMIN_ROLE, ${previous.address})`);
+    }
+  }
+
+  console.log("\n========================================");
+  console.log("ALLOWLIST BATCHER SUMMARY");
+  console.log("========================================");
+  console.log("Network:", networkName);
+  console.log("Deployment:", deploymentName);
+  console.log("Vetra:", proxyAddress);
+  console.log("Allowlist Batcher:", batcherAddress);
+  console.log("========================================");
+  console.log("\nNext steps:");
+  let step = 1;
+  for (const call of pending) {
+    console.log(`${step++}. Call on Vetra: ${call}`);
+  }
+  console.log(
+    `${step++}. Import: ALLOWLIST_CSV=allowlist.csv npm run allowlist:${networkName}`
+  );
+  console.log("========================================\n");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,191 @@
+import { ethers } from "hardhat";
+import {
+  displayConfig,
+  getNetworkName,
+  getDeploymentName,
+  getMinterAllowance,
+  getMintApprovalThreshold,
+  getMintProposalTTL,
+} from "../config/env";
+import { getDeployment, recordContract } from "./lib/deployments";
+import { preflight } from "./lib/errors";
+import { formatScheduleCommand } from "./lib/timelock";
+import { Vetra } from "../typechain-types";
+
+/**
+ * Deploy Mint Approvals
+ *
+ * Deploys VetraMintApprovals for the current deployment's proxy and records
+ * it in deployments/<network>.json. Approved proposals mint from this
+ * contract, so it also needs MINTER_ROLE and a minter allowance on Vetra,
+ * and Vetra must point at it before a threshold can be enforced. Each of
+ * those steps runs when the deployer holds the role it needs; otherwise the
+ * remaining steps are printed. With the timelock on, configureMintApprovals
+ * is printed as the timelock command that schedules it.
+ *
+ * Options (environment):
+ *   MINT_PROPOSAL_TTL        Seconds a proposal stays approvable (default: 86400)
+ *   MINT_APPROVAL_THRESHOLD  Largest direct mint in VTR (unset = leave unchanged)
+ *   MINTER_ALLOWANCE         Allowance for the approvals contract in VTR (optional)
+ */
+
+async function main() {
+  console.log("\n========================================");
+  console.log("DEPLOY MINT APPROVALS");
+  console.log("========================================\n");
+
+  displayConfig();
+
+  const networkName = getNetworkName();
+  const deploymentName = getDeploymentName();
+  const [deployer] = await ethers.getSigners();
+  const proposalTTL = getMintProposalTTL();
+
+  console.log("Deploying with account:", deployer.address);
+
+  // Load deployment info
+  const deployment = getDeployment(networkName, deploymentName);
+  const proxyAddress = deployment.proxy;
+
+  console.log("Vetra contract:", proxyAddress);
+
+  const vetra = (await ethers.getContractAt(
+    "Vetra",
+    proxyAddress
+  )) as unknown as Vetra;
+
+  const previous = deployment.contracts?.VetraMintApprovals;
+  if (previous) {
+    const approvals = await ethers.getContractAt(
+      "VetraMintApprovals",
+      previous.address
+    );
+    console.log("Current approvals contract:", previous.address);
+    console.log(
+      "Pending proposals (abandoned on replace):",
+      (await approvals.pendingProposalCount()).toString()
+    );
+  }
+  console.log("Proposal TTL:", proposalTTL, "seconds");
+  console.log("");
+
+  console.log("Deploying VetraMintApprovals...");
+  const ApprovalsFactory = await ethers.getContractFactory("VetraMintApprovals");
+  const approvals = await ApprovalsFactory.deploy(proxyAddress, proposalTTL);
+  await approvals.waitForDeployment();
+
+  const approvalsAddress = await approvals.getAddress();
+  const deployTx = approvals.deploymentTransaction();
+  const receipt = await deployTx?.wait();
+
+  console.log("✅ Mint approvals deployed to:", approvalsAddress);
+
+  const filename = recordContract(networkName, deploymentName, {
+    address: approvalsAddress,
+    contractName: "VetraMintApprovals",
+    deployer: deployer.address,
+    blockNumber: receipt?.blockNumber ?? null,
+    txHash: deployTx?.hash ?? null,
+    timestamp: new Date().toISOString(),
+  });
+
+  console.log("✅ Deployment registry updated:", filename);
+
+  // Wire the contract into Vetra
+  console.log("\nConfiguring Vetra:");
+  const pending: string[] = [];
+
+  const DEFAULT_ADMIN_ROLE = await vetra.DEFAULT_ADMIN_ROLE();
+  const MINTER_ADMIN_ROLE = await vetra.MINTER_ADMIN_ROLE();
+  const MINTER_ROLE = await vetra.MINTER_ROLE();
+  const POLICY_ADMIN_ROLE = await vetra.POLICY_ADMIN_ROLE();
+  const isAdmin = await vetra.hasRole(DEFAULT_ADMIN_ROLE, deployer.address);
+
+  if (isAdmin) {
+    await preflight("grantRole(MINTER_ROLE)", networkName, () =>
+      vetra.grantRole.staticCall(MINTER_ROLE, approvalsAddress)
+    );
+    const tx = await vetra.grantRole(MINTER_ROLE, approvalsAddress);
+    await tx.wait();
+    console.log("- MINTER_ROLE granted ✅");
+  } else {
+    pending.push(`grantRole(MINTER_ROLE, ${approvalsAddress})`);
+  }
+
+  const minterAllowance = getMinterAllowance();
+  if (minterAllowance) {
+    if (await vetra.hasRole(MINTER_ADMIN_ROLE, deployer.address)) {
+      const allowance = ethers.parseEther(minterAllowance);
+      await preflight("configureMinter", networkName, () =>
+        vetra.configureMinter.staticCall(approvalsAddress, allowance)
+      );
+      const tx = await vetra.configureMinter(approvalsAddress, allowance);
+      await tx.wait();
+      console.log(`- Minter allowance set to ${minterAllowance} VTR ✅`);
+    } else {
+      pending.push(`configureMinter(${approvalsAddress}, <allowance>)`);
+    }
+  } else {
+    pending.push(
+      `configureMinter(${approvalsAddress}, <allowance>) from a MINTER_ADMIN_ROLE holder`
+    );
+  }
+
+  const requestedThreshold = getMintApprovalThreshold();
+  const threshold =
+    requestedThreshold !== undefined
+      ? ethers.parseEther(requestedThreshold)
+      : await vetra.mintApprovalThreshold();
+
+  if ((await vetra.timelockDelay()) > 0n) {
+    pending.push(
+      `configureMintApprovals(${approvalsAddress}, ${threshold}) once scheduled: ` +
+        formatScheduleCommand(
+          "configureMintApprovals",
+          [approvalsAddress, threshold],
+          networkName
+        )
+    );
+  } else if (await vetra.hasRole(POLICY_ADMIN_ROLE, deployer.address)) {
+    await preflight("configureMintApprovals", networkName, () =>
+      vetra.configureMintApprovals.staticCall(approvalsAddress, threshold)
+    );
+    const tx = await vetra.configureMintApprovals(approvalsAddress, threshold);
+    await tx.wait();
+    console.log(
+      `- Mint approvals configured (threshold: ${
+        threshold === 0n ? "disabled" : ethers.formatEther(threshold) + " VTR"
+      }) ✅`
+    );
+  } else {
+    pending.push(`configureMintApprovals(${approvalsAddress}, <threshold>)`);
+  }
+
+  console.log("\n========================================");
+  console.log("MINT APPROVALS SUMMARY");
+  console.log("========================================");
+  console.log("Network:", networkName);
+  console.log("Deployment:", deploymentName);
+  console.log("Vetra:", proxyAddress);
+  console.log("Mint Approvals:", approvalsAddress);
+  console.log("========================================");
+  console.log("\nNext steps:");
+  let step = 1;
+  for (const call of pending) {
+    console.log(`${step++}. Call on Vetra: ${call}`);
+  }
+  console.log(
+    `${step++}. Grant MINT_APPROVER_ROLE to approvers (not the proposing minters)`
+  );
+  console.log(
+    `${step++}. Propose: MINT_PROPOSAL_ACTION=propose MINT_TO=0x... MINT_AMOUNT=... npm run mint-proposals:${networkName}`
+  );
+  console.log("========================================\n");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
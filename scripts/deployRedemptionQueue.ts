@@ -0,0 +1,96 @@
+import { ethers } from "hardhat";
+import {
+  displayConfig,
+  getNetworkName,
+  getDeploymentName,
+} from "../config/env";
+import { getDeployment, recordContract } from "./lib/deployments";
+
+/**
+ * Deploy Redemption Queue
+ *
+ * Deploys VetraRedemptionQueue for the current deployment's proxy and
+ * records it in deployments/<network>.json. The queue reads roles from
+ * Vetra, so no role grants are needed. Deploying again replaces the
+ * recorded queue; drain the old queue (settle or reject every pending
+ * request) first.
+ */
+
+async function main() {
+  console.log("\n========================================");
+  console.log("DEPLOY REDEMPTION QUEUE");
+  console.log("========================================\n");
+
+  displayConfig();
+
+  const networkName = getNetworkName();
+  const deploymentName = getDeploymentName();
+  const [deployer] = await ethers.getSigners();
+
+  console.log("Deploying with account:", deployer.address);
+
+  // Load deployment info
+  const deployment = getDeployment(networkName, deploymentName);
+  const proxyAddress = deployment.proxy;
+
+  console.log("Vetra contract:", proxyAddress);
+
+  const previous = deployment.contracts?.VetraRedemptionQueue;
+  if (previous) {
+    const queue = await ethers.getContractAt(
+      "VetraRedemptionQueue",
+      previous.address
+    );
+    const pending = await queue.pendingRedemptionCount();
+    console.log("Current queue:", previous.address);
+    if (pending > 0n) {
+      throw new Error(
+        `Current queue still has ${pending} pending redemption(s). ` +
+          `Settle or reject them before replacing it.`
+      );
+    }
+  }
+  console.log("");
+
+  console.log("Deploying VetraRedemptionQueue...");
+  const QueueFactory = await ethers.getContractFactory("VetraRedemptionQueue");
+  const queue = await QueueFactory.deploy(proxyAddress);
+  await queue.waitForDeployment();
+
+  const queueAddress = await queue.getAddress();
+  const deployTx = queue.deploymentTransaction();
+  const receipt = await deployTx?.wait();
+
+  console.log("✅ Redemption queue deployed to:", queueAddress);
+
+  const filename = recordContract(networkName, deploymentName, {
+    address: queueAddress,
+    contractName: "VetraRedemptionQueue",
+    deployer: deployer.address,
+    blockNumber: receipt?.blockNumber ?? null,
+    txHash: deployTx?.hash ?? null,
+    timestamp: new Date().toISOString(),
+  });
+
+  console.log("✅ Deployment registry updated:", filename);
+
+  console.log("\n========================================");
+  console.log("REDEMPTION QUEUE SUMMARY");
+  console.log("========================================");
+  console.log("Network:", networkName);
+  console.log("Deployment:", deploymentName);
+  console.log("Vetra:", proxyAddress);
+  console.log("Redemption Queue:", queueAddress);
+  console.log("========================================");
+  console.log("\nNext steps:");
+  console.log("1. Holders approve (or permit) the queue and call requestRedemption");
+  console.log("2. Run: npm run redemptions:" + networkName);
+  console.log("========================================\n");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
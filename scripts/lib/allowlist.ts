@@ -0,0 +1,93 @@
+import { getAddress, isAddress } from "ethers";
+import { Vetra } from "../../typechain-types";
+import { CsvRow } from "./csv";
+
+/**
+ * Allowlist Batches
+ *
+ * Turns a CSV of address,allowed rows into the entries that still need to
+ * change on Vetra, split into batches for VetraAllowlistBatcher.
+ */
+
+export interface AllowlistEntry {
+  account: string;
+  allowed: boolean;
+  /** Line in the CSV file */
+  line: number;
+}
+
+/**
+ * Validates address,allowed rows ("true"/"false", any case). Throws on the
+ * first invalid row and on addresses listed more than once.
+ */
+export function parseAllowlistRows(rows: CsvRow[]): AllowlistEntry[] {
+  const seen = new Map<string, number>();
+  return rows.map(({ line, fields }) => {
+    const [account, allowed] = fields;
+    if (fields.length !== 2 || !isAddress(account)) {
+      throw new Error(
+        `Line ${line}: expected "address,allowed", got "${fields.join(",")}"`
+      );
+    }
+    const flag = allowed.toLowerCase();
+    if (flag !== "true" && flag !== "false") {
+      throw new Error(
+        `Line ${line}: allowed must be "true" or "false", got "${allowed}"`
+      );
+    }
+
+    const checksummed = getAddress(account);
+    const previous = seen.get(checksummed);
+    if (previous !== undefined) {
+      throw new Error(
+        `Line ${line}: ${checksummed} is already listed on line ${previous}`
+      );
+    }
+    seen.set(checksummed, line);
+
+    return { account: checksummed, allowed: flag === "true", line };
+  });
+}
+
+/**
+ * Reads the allowlist mapping for each entry and splits off the ones
+ * already in the desired state
+ */
+export async function filterAllowlistChanges(
+  vetra: Vetra,
+  entries: AllowlistEntry[]
+): Promise<{ changes: AllowlistEntry[]; unchanged: AllowlistEntry[] }> {
+  const changes: AllowlistEntry[] = [];
+  const unchanged: AllowlistEntry[] = [];
+  for (const entry of entries) {
+    const current = await vetra.allowlist(entry.account);
+    (current === entry.allowed ? unchanged : changes).push(entry);
+  }
+  return { changes, unchanged };
+}
+
+/**
+ * Splits entries into batches of at most `maxEntries` whose estimated gas
+ * stays within `maxGas`, halving a batch until it fits. A single entry is
+ * always returned as its own batch, so an oversized one fails when sent.
+ */
+export async function chunkByGas(
+  entries: AllowlistEntry[],
+  maxEntries: number,
+  maxGas: bigint,
+  estimateGas: (batch: AllowlistEntry[]) => Promise<bigint>
+): Promise<AllowlistEntry[][]> {
+  const batches: AllowlistEntry[][] = [];
+  let start = 0;
+  while (start < entries.length) {
+    let size = Math.min(maxEntries, entries.length - start);
+    let batch = entries.slice(start, start + size);
+    while (size > 1 && (await estimateGas(batch)) > maxGas) {
+      size = Math.ceil(size / 2);
+      batch = entries.slice(start, start + size);
+    }
+    batches.push(batch);
+    start += size;
+  }
+  return batches;
+}
@@ -0,0 +1,58 @@
+import { Vetra } from "../../typechain-types";
+import { AmountRow } from "./csv";
+import { vtr } from "./reports";
+import { getRoleId } from "./roles";
+
+/**
+ * Burn Pre-flight
+ *
+ * Checks a list of burns against the holders' balances and Vetra's burn
+ * rules before the first one is sent. Rows for the operator's own address
+ * are sent as burn(); every other row is a burnFrom() under BURNER_ROLE.
+ */
+
+/** Whether a burn of `account`'s tokens by `operator` is sent as burn() */
+export function isSelfBurn(operator: string, account: string): boolean {
+  return operator.toLowerCase() === account.toLowerCase();
+}
+
+/**
+ * Returns every reason the burns would revert when sent in order by
+ * `operator`; an empty list means they pass
+ */
+export async function checkBurns(
+  vetra: Vetra,
+  operator: string,
+  burns: AmountRow[]
+): Promise<string[]> {
+  const problems: string[] = [];
+
+  if (
+    burns.some(({ account }) => !isSelfBurn(operator, account)) &&
+    !(await vetra.hasRole(getRoleId("BURNER_ROLE"), operator))
+  ) {
+    problems.push(`${operator} does not have BURNER_ROLE`);
+  }
+  if (await vetra.paused()) {
+    problems.push("Vetra is paused");
+  }
+
+  // An account listed on several rows needs the sum of them
+  const totals = new Map<string, bigint>();
+  for (const { account, amount } of burns) {
+    totals.set(account, (totals.get(account) ?? 0n) + amount);
+  }
+  for (const [account, total] of totals) {
+    const balance = await vetra.balanceOf(account);
+    if (total > balance) {
+      problems.push(
+        `${account}: burning ${vtr(total)} exceeds the balance of ${vtr(balance)}`
+      );
+    }
+    if (await vetra.blocklist(account)) {
+      problems.push(`${account}: account is blocked`);
+    }
+  }
+
+  return problems;
+}
@@ -0,0 +1,83 @@
+import * as fs from "fs";
+import { getAddress, isAddress, parseEther } from "ethers";
+
+/**
+ * CSV Input
+ *
+ * Reads the simple comma-separated files the batch scripts take: one record
+ * per line, no quoting. Blank lines and lines starting with "#" are skipped.
+ */
+
+export interface CsvRow {
+  /** 1-based line number in the file, for error messages */
+  line: number;
+  fields: string[];
+}
+
+/**
+ * Splits CSV text into trimmed fields. A first row whose first field equals
+ * `headerField` (case-insensitive) is treated as a header and dropped.
+ */
+export function parseCsv(text: string, headerField?: string): CsvRow[] {
+  const rows: CsvRow[] = [];
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const content = raw.trim();
+    if (content === "" || content.startsWith("#")) return;
+    rows.push({
+      line: index + 1,
+      fields: content.split(",").map((field) => field.trim()),
+    });
+  });
+
+  if (
+    headerField &&
+    rows.length > 0 &&
+    rows[0].fields[0].toLowerCase() === headerField.toLowerCase()
+  ) {
+    rows.shift();
+  }
+  return rows;
+}
+
+/** Reads and parses a CSV file; see parseCsv */
+export function readCsv(filePath: string, headerField?: string): CsvRow[] {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`CSV file not found: ${filePath}`);
+  }
+  return parseCsv(fs.readFileSync(filePath, "utf8"), headerField);
+}
+
+/** An address,amount row, with the amount in wei */
+export interface AmountRow {
+  account: string;
+  amount: bigint;
+  /** Line in the CSV file; 0 when the row did not come from a file */
+  line: number;
+}
+
+/**
+ * Validates address,amount rows, with amounts in VTR (e.g. "1500.25").
+ * Throws on the first invalid row; an address may appear more than once.
+ */
+export function parseAmountRows(rows: CsvRow[]): AmountRow[] {
+  return rows.map(({ line, fields }) => {
+    const [account, amount] = fields;
+    if (fields.length !== 2 || !isAddress(account)) {
+      throw new Error(
+        `Line ${line}: expected "address,amount", got "${fields.join(",")}"`
+      );
+    }
+
+    let wei: bigint;
+    try {
+      wei = parseEther(amount);
+    } catch {
+      throw new Error(`Line ${line}: invalid amount "${amount}"`);
+    }
+    if (wei <= 0n) {
+      throw new Error(`Line ${line}: amount must be greater than 0`);
+    }
+
+    return { account: getAddress(account), amount: wei, line };
+  });
+}
@@ -0,0 +1,275 @@
+import * as fs from "fs";
+import * as path from "path";
+import { getNetworkName, getDeploymentName } from "../../config/env";
+
+/**
+ * Deployment Registry
+ *
+ * Typed access to deployments/<network>.json. Each network file holds any
+ * number of named deployments (e.g. "staging", "prod"), and each deployment
+ * keeps the full history of implementations its proxy has pointed to.
+ */
+
+export const DEPLOYMENTS_DIR = path.join(__dirname, "..", "..", "deployments");
+
+export const REGISTRY_VERSION = 1;
+
+/** Initialization parameters used when the proxy was deployed */
+export interface DeploymentConfig {
+  admin: string;
+  minter: string;
+  burner: string;
+  /** Operational role holders; absent for deployments before these roles */
+  pauser?: string;
+  reserveUpdater?: string;
+  policyAdmin?: string;
+  oracleAdmin?: string;
+  upgrader?: string;
+  reserveTTL: number;
+  functionsRouter: string;
+  donId: string;
+  subscriptionId: string;
+  gasLimit: number;
+}
+
+/** One implementation the proxy has pointed to */
+export interface ImplementationRecord {
+  address: string;
+  contractName: string;
+  /** Block and transaction that pointed the proxy at this implementation */
+  blockNumber: number | null;
+  txHash: string | null;
+  timestamp: string;
+}
+
+/** A non-proxy contract deployed alongside the proxy (e.g. the redemption queue) */
+export interface ContractRecord {
+  address: string;
+  contractName: string;
+  deployer: string;
+  blockNumber: number | null;
+  txHash: string | null;
+  timestamp: string;
+}
+
+/** A single named Vetra deployment (one proxy) */
+export interface DeploymentRecord {
+  name: string;
+  network: string;
+  chainId: number | null;
+  deployer: string;
+  proxy: string;
+  proxyAdmin: string;
+  deployBlock: number | null;
+  timestamp: string;
+  config: DeploymentConfig;
+  /** Ordered oldest to newest; the last entry is the current implementation */
+  implementations: ImplementationRecord[];
+  /** Contracts that work with this proxy, keyed by contract name */
+  contracts?: Record<string, ContractRecord>;
+}
+
+/** Contents of deployments/<network>.json */
+export interface DeploymentRegistry {
+  version: number;
+  network: string;
+  deployments: Record<string, DeploymentRecord>;
+}
+
+/** Flat format written by deploy.ts before the registry existed */
+interface LegacyDeploymentFile {
+  network: string;
+  timestamp: string;
+  deployer: string;
+  proxy: string;
+  implementation: string;
+  proxyAdmin: string;
+  config: DeploymentConfig;
+}
+
+export function getRegistryPath(networkName: string = getNetworkName()): string {
+  return path.join(DEPLOYMENTS_DIR, `${networkName}.json`);
+}
+
+function fromLegacy(legacy: LegacyDeploymentFile): DeploymentRegistry {
+  const name = "default";
+  return {
+    version: REGISTRY_VERSION,
+    network: legacy.network,
+    deployments: {
+      [name]: {
+        name,
+        network: legacy.network,
+        chainId: null,
+        deployer: legacy.deployer,
+        proxy: legacy.proxy,
+        proxyAdmin: legacy.proxyAdmin,
+        deployBlock: null,
+        timestamp: legacy.timestamp,
+        config: legacy.config,
+        implementations: [
+          {
+            address: legacy.implementation,
+            contractName: "Vetra",
+            blockNumber: null,
+            txHash: null,
+            timestamp: legacy.timestamp,
+          },
+        ],
+      },
+    },
+  };
+}
+
+/**
+ * Loads the registry for a network, converting the legacy flat format.
+ * Returns an empty registry if the file does not exist yet.
+ */
+export function loadRegistry(
+  networkName: string = getNetworkName()
+): DeploymentRegistry {
+  const file = getRegistryPath(networkName);
+
+  if (!fs.existsSync(file)) {
+    return { version: REGISTRY_VERSION, network: networkName, deployments: {} };
+  }
+
+  const raw = JSON.parse(fs.readFileSync(file, "utf8"));
+
+  if (raw.deployments === undefined && typeof raw.proxy === "string") {
+    return fromLegacy(raw as LegacyDeploymentFile);
+  }
+
+  return raw as DeploymentRegistry;
+}
+
+export function saveRegistry(registry: DeploymentRegistry): string {
+  if (!fs.existsSync(DEPLOYMENTS_DIR)) {
+    fs.mkdirSync(DEPLOYMENTS_DIR, { recursive: true });
+  }
+
+  const file = getRegistryPath(registry.network);
+  fs.writeFileSync(file, JSON.stringify(registry, null, 2));
+  return file;
+}
+
+/**
+ * Returns a named deployment, throwing if it has not been deployed.
+ * Defaults to the current network and DEPLOYMENT_NAME.
+ */
+export function getDeployment(
+  networkName: string = getNetworkName(),
+  deploymentName: string = getDeploymentName()
+): DeploymentRecord {
+  const registry = loadRegistry(networkName);
+  const deployment = registry.deployments[deploymentName];
+
+  if (!deployment) {
+    const known = Object.keys(registry.deployments);
+    throw new Error(
+      `Deployment "${deploymentName}" not found in ${getRegistryPath(
+        networkName
+      )}. ` +
+        (known.length > 0
+          ? `Known deployments: ${known.join(", ")}.`
+          : "Run deployment first.")
+    );
+  }
+
+  return deployment;
+}
+
+/** Returns the implementation the proxy currently points to */
+export function getCurrentImplementation(
+  deployment: DeploymentRecord
+): ImplementationRecord {
+  return deployment.implementations[deployment.implementations.length - 1];
+}
+
+/**
+ * Records a new deployment. Refuses to overwrite an existing deployment
+ * with the same name so that its implementation history is not lost.
+ */
+export function recordDeployment(
+  deployment: Omit<DeploymentRecord, "implementations">,
+  implementation: ImplementationRecord
+): string {
+  const registry = loadRegistry(deployment.network);
+
+  if (registry.deployments[deployment.name]) {
+    throw new Error(
+      `Deployment "${deployment.name}" already exists on ${deployment.network} ` +
+        `(proxy ${registry.deployments[deployment.name].proxy}). ` +
+        `Set DEPLOYMENT_NAME to deploy another instance.`
+    );
+  }
+
+  registry.deployments[deployment.name] = {
+    ...deployment,
+    implementations: [implementation],
+  };
+
+  return saveRegistry(registry);
+}
+
+/** Appends an implementation to a deployment's upgrade history */
+export function recordImplementation(
+  networkName: string,
+  deploymentName: string,
+  implementation: ImplementationRecord
+): string {
+  const registry = loadRegistry(networkName);
+  const deployment = registry.deployments[deploymentName];
+
+  if (!deployment) {
+    throw new Error(
+      `Deployment "${deploymentName}" not found on ${networkName}.`
+    );
+  }
+
+  deployment.implementations.push(implementation);
+  return saveRegistry(registry);
+}
+
+/**
+ * Returns a contract deployed alongside the proxy, throwing with the
+ * deploy command when it is missing.
+ */
+export function getContractRecord(
+  deployment: DeploymentRecord,
+  contractName: string,
+  deployCommand: string
+): ContractRecord {
+  const record = deployment.contracts?.[contractName];
+
+  if (!record) {
+    throw new Error(
+      `${contractName} is not deployed for "${deployment.name}" on ` +
+        `${deployment.network}. Run: ${deployCommand}`
+    );
+  }
+
+  return record;
+}
+
+/** Records (or replaces) a contract deployed alongside the proxy */
+export function recordContract(
+  networkName: string,
+  deploymentName: string,
+  record: ContractRecord
+): string {
+  const registry = loadRegistry(networkName);
+  const deployment = registry.deployments[deploymentName];
+
+  if (!deployment) {
+    throw new Error(
+      `Deployment "${deploymentName}" not found on ${networkName}.`
+    );
+  }
+
+  deployment.contracts = {
+    ...deployment.contracts,
+    [record.contractName]: record,
+  };
+  return saveRegistry(registry);
+}
@@ -0,0 +1,303 @@
+import { ErrorFragment, Interface, Result, formatEther } from "ethers";
+import {
+  Vetra__factory,
+  VetraAllowlistBatcher__factory,
+  VetraMintApprovals__factory,
+  VetraRedemptionQueue__factory,
+} from "../../typechain-types";
+import { VETRA_ROLES, getRoleId } from "./roles";
+
+/**
+ * Revert Decoding
+ *
+ * Decodes the revert data of a failed call or transaction into the custom
+ * error that caused it, with arguments formatted for display (VTR amounts,
+ * role names, times). Covers Vetra, its companion contracts and the
+ * OpenZeppelin errors they inherit (AccessControl, Pausable, ERC20), as well
+ * as require messages and panics. Scripts use it to explain failures instead
+ * of matching on error messages, and `preflight` to run a static call before
+ * sending a transaction.
+ */
+
+// Arguments of each error decodeError recognises, by parameter name. Vetra's
+// companion contracts and OpenZeppelin's errors are included; a require
+// message ("Error") and a panic ("Panic") carry one unnamed argument
+interface ErrorArgs {
+  AccessControlBadConfirmation: Record<never, string>;
+  AccessControlUnauthorizedAccount: Record<"account" | "neededRole", string>;
+  AccountBlocked: Record<"account", string>;
+  AccountNotBlocked: Record<"account", string>;
+  AddressEmptyCode: Record<"target", string>;
+  DefaultAdminRulesEnforced: Record<never, string>;
+  DefaultAdminTransferExpired: Record<"expiredAt", string>;
+  DefaultAdminTransferNotReady: Record<"acceptSchedule", string>;
+  ERC1967InvalidImplementation: Record<"implementation", string>;
+  ERC1967NonPayable: Record<never, string>;
+  ERC20InsufficientAllowance: Record<
+    "spender" | "allowance" | "needed",
+    string
+  >;
+  ERC20InsufficientBalance: Record<"sender" | "balance" | "needed", string>;
+  ERC20InvalidApprover: Record<"approver", string>;
+  ERC20InvalidReceiver: Record<"receiver", string>;
+  ERC20InvalidSender: Record<"sender", string>;
+  ERC20InvalidSpender: Record<"spender", string>;
+  EnforcedPause: Record<never, string>;
+  Error: Record<"arg0", string>;
+  ExpectedPause: Record<never, string>;
+  FailedCall: Record<never, string>;
+  InvalidAccountNonce: Record<"account" | "currentNonce", string>;
+  InvalidAddress: Record<never, string>;
+  InvalidAmount: Record<never, string>;
+  InvalidConfiguration: Record<never, string>;
+  InvalidDefaultAdmin: Record<"account", string>;
+  InvalidInitialization: Record<never, string>;
+  InvalidPayoutRef: Record<never, string>;
+  InvalidPermitSignature: Record<"owner", string>;
+  MigrationOutOfOrder: Record<"step" | "initializedVersion", string>;
+  MintApprovalRequired: Record<"amount" | "threshold", string>;
+  MintLimitExceeded: Record<"amount" | "limit", string>;
+  MintRateLimitExceeded: Record<"account" | "amount" | "remaining", string>;
+  MinterAllowanceExceeded: Record<"minter" | "amount" | "allowance", string>;
+  NoQuarantinedReserve: Record<never, string>;
+  NonceNotMonotonic: Record<"currentNonce" | "newNonce", string>;
+  NotInitializing: Record<never, string>;
+  OperationAlreadyScheduled: Record<"operationId", string>;
+  OperationNotReady: Record<"operationId" | "readyAt", string>;
+  OperationNotScheduled: Record<"operationId", string>;
+  Panic: Record<"arg0", string>;
+  PermitExpired: Record<"deadline", string>;
+  ProposalExpired: Record<"proposalId" | "expiresAt", string>;
+  ProposalNotPending: Record<"proposalId", string>;
+  RecipientNotAllowed: Record<"recipient", string>;
+  RedemptionNotPending: Record<"redemptionId", string>;
+  RequestAlreadyFulfilled: Record<"requestId", string>;
+  ReserveInsufficient: Record<"required" | "available", string>;
+  ReserveQuarantineActive: Record<"requestId", string>;
+  ReserveStale: Record<"age" | "maxAge", string>;
+  RoleNotHeld: Record<"role" | "account", string>;
+  SelfApproval: Record<"proposalId", string>;
+  SourceNotApproved: Record<"sourceHash", string>;
+  UUPSUnauthorizedCallContext: Record<never, string>;
+  UUPSUnsupportedProxiableUUID: Record<"slot", string>;
+  UnknownRequest: Record<"requestId", string>;
+}
+
+/** A revert decoded from its data, discriminated by the error's name */
+export type DecodedError = {
+  [Name in keyof ErrorArgs]: {
+    /** Error name, e.g. "ReserveStale"; "Error" for a require message, "Panic" for a panic */
+    name: Name;
+    /** Arguments formatted for display, by parameter name */
+    args: ErrorArgs[Name];
+    /** Arguments as decoded */
+    raw: Result;
+    /** One line, e.g. "ReserveStale(age: 1200s, maxAge: 900s)" */
+    summary: string;
+  };
+}[keyof ErrorArgs];
+
+// Every error fragment of Vetra and its companion contracts; companions
+// redeclare some of Vetra's errors, so Vetra's declaration of each selector
+// is kept
+const ERROR_INTERFACE = new Interface(
+  [
+    Vetra__factory.abi,
+    VetraMintApprovals__factory.abi,
+    VetraRedemptionQueue__factory.abi,
+    VetraAllowlistBatcher__factory.abi,
+  ]
+    .flat()
+    .filter((fragment) => fragment.type === "error")
+    .map((fragment) => ErrorFragment.from(fragment))
+    .filter(
+      (fragment, i, all) =>
+        all.findIndex((f) => f.selector === fragment.selector) === i
+    )
+);
+
+// uint256 parameters holding token amounts (18 decimals)
+const AMOUNT_PARAMS = new Set([
+  "amount",
+  "limit",
+  "threshold",
+  "allowance",
+  "remaining",
+  "required",
+  "available",
+  "balance",
+  "needed",
+]);
+
+// uint256 parameters holding durations in seconds
+const DURATION_PARAMS = new Set(["age", "maxAge"]);
+
+// uint256 parameters holding unix timestamps
+const TIMESTAMP_PARAMS = new Set([
+  "deadline",
+  "readyAt",
+  "acceptSchedule",
+  "expiredAt",
+  "expiresAt",
+]);
+
+function roleName(role: string): string {
+  return VETRA_ROLES.find((name) => getRoleId(name) === role) ?? role;
+}
+
+function formatArg(type: string, name: string, value: unknown): string {
+  if (type === "uint256") {
+    const n = value as bigint;
+    if (AMOUNT_PARAMS.has(name)) return `${formatEther(n)} VTR`;
+    if (DURATION_PARAMS.has(name)) return `${n}s`;
+    if (TIMESTAMP_PARAMS.has(name)) {
+      return new Date(Number(n) * 1000).toISOString();
+    }
+  }
+  if (type === "bytes32" && /role/i.test(name)) return roleName(value as string);
+  return String(value);
+}
+
+// Property `key` of `value`, or undefined when `value` isn't an object
+function field(value: unknown, key: string): unknown {
+  return typeof value === "object" && value !== null && key in value
+    ? (value as Record<string, unknown>)[key]
+    : undefined;
+}
+
+/**
+ * Finds the revert data in an error thrown by ethers or a provider, which
+ * nests it at different depths
+ */
+export function getRevertData(error: unknown): string | undefined {
+  let current = error;
+  for (let depth = 0; current && depth < 5; depth++) {
+    const data = field(current, "data");
+    if (typeof data === "string" && data.startsWith("0x")) {
+      return data.length > 2 ? data : undefined;
+    }
+    current =
+      data ??
+      field(current, "error") ??
+      field(field(current, "info"), "error");
+  }
+  return undefined;
+}
+
+/**
+ * Decodes the revert behind an error; undefined when it carries no revert
+ * data (e.g. a network error) or the selector is unknown
+ */
+export function decodeError(error: unknown): DecodedError | undefined {
+  const data = getRevertData(error);
+  if (!data) return undefined;
+
+  let parsed;
+  try {
+    parsed = ERROR_INTERFACE.parseError(data);
+  } catch {
+    return undefined;
+  }
+  if (!parsed) return undefined;
+
+  const args: Record<string, string> = {};
+  parsed.fragment.inputs.forEach((input, i) => {
+    const name = input.name || `arg${i}`;
+    args[name] = formatArg(input.type, name, parsed.args[i]);
+  });
+
+  const summary = `${parsed.name}(${Object.entries(args)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join(", ")})`;
+  // ERROR_INTERFACE holds exactly the errors in ErrorArgs, so the name picks
+  // the matching arguments
+  return {
+    name: parsed.name,
+    args,
+    raw: parsed.args,
+    summary,
+  } as DecodedError;
+}
+
+/** The decoded revert, or the error's message when there is none */
+export function describeError(error: unknown): string {
+  const decoded = decodeError(error);
+  if (decoded) return decoded.summary;
+  if (error instanceof Error) {
+    const shortMessage = field(error, "shortMessage");
+    return typeof shortMessage === "string" ? shortMessage : error.message;
+  }
+  return String(error);
+}
+
+/** What to do about a revert, for errors that have a usual fix */
+export function errorHint(
+  decoded: DecodedError,
+  networkName: string
+): string | undefined {
+  switch (decoded.name) {
+    case "ReserveStale":
+      return (
+        `Reserve is stale. Update it with npm run update-reserve:${networkName}` +
+        ` or keep it fresh with npm run keeper:${networkName}`
+      );
+    case "ReserveInsufficient":
+      return "Reserves don't cover this mint. Wait for the USD backing to increase.";
+    case "ReserveQuarantineActive":
+      return `A reserve update is quarantined. Confirm or reject it with npm run resolve-quarantine:${networkName}`;
+    case "NonceNotMonotonic":
+      return "The reserve nonce must increase with every update; a newer update has already been applied.";
+    case "MintLimitExceeded":
+      return "Mint amount exceeds the per-transaction limit; split it into smaller mints.";
+    case "MintApprovalRequired":
+      return `Mint exceeds the approval threshold. Propose it with MINT_PROPOSAL_ACTION=propose npm run mint-proposals:${networkName}`;
+    case "MinterAllowanceExceeded":
+      return "Minter allowance exhausted. A MINTER_ADMIN_ROLE holder must raise it.";
+    case "MintRateLimitExceeded":
+      return "Mint rate limit reached. Wait for the window to roll on.";
+    case "RecipientNotAllowed":
+      return "Recipient is not on the allowlist.";
+    case "AccountBlocked":
+      return "Account is on the compliance blocklist.";
+    case "AccessControlUnauthorizedAccount":
+      return `${decoded.args.account} needs ${decoded.args.neededRole}. Grant it with npm run roles:${networkName}`;
+    case "EnforcedPause":
+      return `Contract is paused. Unpause it with ADMIN_COMMAND=unpause npm run admin:${networkName}`;
+    case "ExpectedPause":
+      return "Contract is not paused.";
+    case "OperationNotScheduled":
+    case "OperationNotReady":
+      return `The call is timelocked. Schedule it or check when it is ready with npm run timelock:${networkName}`;
+    default:
+      return undefined;
+  }
+}
+
+/** Prints the decoded revert (or the message) and its hint, if any */
+export function printError(error: unknown, networkName: string): void {
+  console.error(describeError(error));
+  const decoded = decodeError(error);
+  const hint = decoded && errorHint(decoded, networkName);
+  if (hint) {
+    console.error(`\n💡 ${hint}`);
+  }
+}
+
+/**
+ * Runs a static call before the matching transaction is sent; on a revert,
+ * prints why and rethrows so nothing is sent
+ */
+export async function preflight<T>(
+  description: string,
+  networkName: string,
+  staticCall: () => Promise<T>
+): Promise<T> {
+  try {
+    return await staticCall();
+  } catch (error) {
+    console.error(`\n❌ ${description} would revert; nothing was sent.`);
+    printError(error, networkName);
+    console.error("");
+    throw error;
+  }
+}
@@ -0,0 +1,398 @@
+import * as vm from "vm";
+import { types } from "util";
+import { decodeAllSync } from "cbor";
+import {
+  AbiCoder,
+  BytesLike,
+  ContractTransactionReceipt,
+  formatUnits,
+  getBytes,
+  hexlify,
+  keccak256,
+  parseUnits,
+  toUtf8Bytes,
+} from "ethers";
+import { MockFunctionsRouter } from "../../typechain-types";
+
+/**
+ * Chainlink Functions Simulator
+ *
+ * Executes requests captured by MockFunctionsRouter the way the DON would:
+ * decodes the CBOR request, runs the inline JavaScript in a sandbox that
+ * provides `Functions.makeHttpRequest` and a v5-style `ethers`, and delivers
+ * the result through the router's `fulfill` (which calls
+ * `handleOracleFulfillment` on the consumer).
+ */
+
+/** Maximum response size accepted by the Functions DON */
+export const MAX_RESPONSE_BYTES = 256;
+
+/** Default per-request HTTP timeout used by Functions.makeHttpRequest */
+export const DEFAULT_HTTP_TIMEOUT_MS = 3000;
+
+/** Default maximum execution time for a source */
+export const DEFAULT_MAX_EXECUTION_MS = 10000;
+
+/**
+ * Gas added on top of the callback gas limit when calling `fulfill`.
+ * The gas limit is set explicitly because estimation would settle on a
+ * value where the consumer callback runs out of gas (the router does not
+ * revert when the callback fails).
+ */
+export const FULFILL_GAS_OVERHEAD = 100_000n;
+
+/** Longest per-request HTTP timeout the DON honours */
+export const DEFAULT_MAX_HTTP_TIMEOUT_MS = 9000;
+
+export interface DecodedFunctionsRequest {
+  codeLocation: number;
+  language: number;
+  source: string;
+  args: string[];
+  bytesArgs: string[];
+  secretsLocation?: number;
+  secrets?: string;
+}
+
+export interface HttpRequestConfig {
+  url: string;
+  method?: string;
+  headers?: Record<string, string>;
+  params?: Record<string, string>;
+  data?: unknown;
+  timeout?: number;
+}
+
+export interface HttpResponse {
+  error: boolean;
+  message?: string;
+  code?: string;
+  status?: number;
+  statusText?: string;
+  headers?: Record<string, string>;
+  data?: unknown;
+}
+
+export type HttpRequestHandler = (
+  config: HttpRequestConfig
+) => Promise<HttpResponse>;
+
+export interface SimulatorOptions {
+  /** Replaces the fetch-based HTTP client (e.g. to stub the reserve API) */
+  httpRequest?: HttpRequestHandler;
+  maxExecutionMs?: number;
+  /** Caps the `timeout` a source passes to Functions.makeHttpRequest */
+  maxHttpTimeoutMs?: number;
+}
+
+export interface ExecutionResult {
+  /** Hex-encoded bytes returned by the source ("0x" on error) */
+  response: string;
+  /** Hex-encoded UTF-8 error message ("0x" on success) */
+  error: string;
+  errorMessage?: string;
+}
+
+export interface FulfillmentResult extends ExecutionResult {
+  requestId: string;
+  /** Whether the consumer's handleOracleFulfillment succeeded */
+  callbackSuccess: boolean;
+  callbackReturnData: string;
+  receipt: ContractTransactionReceipt | null;
+}
+
+/**
+ * Decodes the CBOR request built by FunctionsRequest.encodeCBOR.
+ * The encoding is a flat sequence of alternating keys and values.
+ */
+export function decodeRequestData(data: BytesLike): DecodedFunctionsRequest {
+  const items = decodeAllSync(Buffer.from(getBytes(data)));
+  const fields: Record<string, unknown> = {};
+
+  for (let i = 0; i + 1 < items.length; i += 2) {
+    fields[String(items[i])] = items[i + 1];
+  }
+
+  return {
+    codeLocation: Number(fields.codeLocation),
+    language: Number(fields.language),
+    source: String(fields.source ?? ""),
+    args: ((fields.args as string[] | undefined) ?? []).map(String),
+    bytesArgs: ((fields.bytesArgs as Buffer[] | undefined) ?? []).map((b) =>
+      hexlify(b)
+    ),
+    secretsLocation:
+      fields.secretsLocation === undefined
+        ? undefined
+        : Number(fields.secretsLocation),
+    secrets:
+      fields.secrets === undefined
+        ? undefined
+        : hexlify(fields.secrets as Buffer),
+  };
+}
+
+/** HTTP client backed by fetch, shaped like Functions.makeHttpRequest */
+export async function fetchHttpRequest(
+  config: HttpRequestConfig
+): Promise<HttpResponse> {
+  const url = new URL(config.url);
+  for (const [key, value] of Object.entries(config.params ?? {})) {
+    url.searchParams.set(key, value);
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(
+    () => controller.abort(),
+    config.timeout ?? DEFAULT_HTTP_TIMEOUT_MS
+  );
+
+  try {
+    const res = await fetch(url, {
+      method: config.method ?? "GET",
+      headers: config.headers,
+      body: config.data === undefined ? undefined : JSON.stringify(config.data),
+      signal: controller.signal,
+    });
+
+    const text = await res.text();
+    let data: unknown = text;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      // Non-JSON bodies are passed through as text
+    }
+
+    const headers = Object.fromEntries(res.headers.entries());
+
+    if (!res.ok) {
+      return {
+        error: true,
+        message: `HTTP ${res.status} ${res.statusText}`,
+        code: "ERR_BAD_RESPONSE",
+        status: res.status,
+        statusText: res.statusText,
+        headers,
+        data,
+      };
+    }
+
+    return {
+      error: false,
+      status: res.status,
+      statusText: res.statusText,
+      headers,
+      data,
+    };
+  } catch (e: any) {
+    return {
+      error: true,
+      message: controller.signal.aborted ? "timeout exceeded" : e.message,
+      code: controller.signal.aborted ? "ECONNABORTED" : "ERR_NETWORK",
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** Subset of the ethers v5 API the Functions runtime exposes */
+function createEthersV5Shim() {
+  const coder = AbiCoder.defaultAbiCoder();
+  return {
+    utils: {
+      defaultAbiCoder: {
+        encode: (typesList: string[], values: unknown[]) =>
+          coder.encode(typesList, values),
+        decode: (typesList: string[], data: BytesLike) =>
+          coder.decode(typesList, data),
+      },
+      arrayify: (value: BytesLike) => getBytes(value),
+      hexlify: (value: BytesLike) => hexlify(value),
+      keccak256: (value: BytesLike) => keccak256(value),
+      toUtf8Bytes: (value: string) => toUtf8Bytes(value),
+      parseUnits: (value: string, decimals?: number) =>
+        parseUnits(value, decimals),
+      formatUnits: (value: bigint, decimals?: number) =>
+        formatUnits(value, decimals),
+    },
+  };
+}
+
+function createFunctionsGlobal(
+  httpRequest: HttpRequestHandler,
+  maxHttpTimeoutMs: number
+) {
+  const coder = AbiCoder.defaultAbiCoder();
+  return {
+    makeHttpRequest: (config: HttpRequestConfig) =>
+      httpRequest({
+        ...config,
+        timeout: Math.min(
+          config.timeout ?? DEFAULT_HTTP_TIMEOUT_MS,
+          maxHttpTimeoutMs
+        ),
+      }),
+    encodeUint256: (value: bigint | number) => {
+      if (BigInt(value) < 0n) throw new Error("encodeUint256 invalid input");
+      return getBytes(coder.encode(["uint256"], [value]));
+    },
+    encodeInt256: (value: bigint | number) =>
+      getBytes(coder.encode(["int256"], [value])),
+    encodeString: (value: string) => toUtf8Bytes(value),
+  };
+}
+
+function errorResult(message: string): ExecutionResult {
+  return {
+    response: "0x",
+    error: hexlify(toUtf8Bytes(message)),
+    errorMessage: message,
+  };
+}
+
+/**
+ * Runs a decoded request's inline source in a sandbox and returns what
+ * the DON would report: response bytes or an error message.
+ */
+export async function executeRequest(
+  request: DecodedFunctionsRequest,
+  options: SimulatorOptions = {}
+): Promise<ExecutionResult> {
+  const httpRequest = options.httpRequest ?? fetchHttpRequest;
+  const maxExecutionMs = options.maxExecutionMs ?? DEFAULT_MAX_EXECUTION_MS;
+  const maxHttpTimeoutMs =
+    options.maxHttpTimeoutMs ?? DEFAULT_MAX_HTTP_TIMEOUT_MS;
+
+  const context = vm.createContext({
+    args: request.args,
+    bytesArgs: request.bytesArgs,
+    secrets: {},
+    Functions: createFunctionsGlobal(httpRequest, maxHttpTimeoutMs),
+    ethers: createEthersV5Shim(),
+    console,
+  });
+
+  let timer: NodeJS.Timeout | undefined;
+  let result: unknown;
+
+  try {
+    const script = new vm.Script(`(async () => {\n${request.source}\n})()`);
+    const run = script.runInContext(context, { timeout: maxExecutionMs });
+    const timeout = new Promise((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error("script runtime exceeded")),
+        maxExecutionMs
+      );
+    });
+    result = await Promise.race([run, timeout]);
+  } catch (e: any) {
+    return errorResult(e?.message ?? String(e));
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (!types.isUint8Array(result) && !types.isArrayBuffer(result)) {
+    return errorResult("returned value not an ArrayBuffer or Uint8Array");
+  }
+
+  const bytes = new Uint8Array(result);
+  if (bytes.length > MAX_RESPONSE_BYTES) {
+    return errorResult(
+      `response exceeds ${MAX_RESPONSE_BYTES} bytes (${bytes.length})`
+    );
+  }
+
+  return { response: hexlify(bytes), error: "0x" };
+}
+
+/**
+ * Drives requests captured by a MockFunctionsRouter through execution
+ * and fulfilment.
+ */
+export class FunctionsSimulator {
+  constructor(
+    private readonly router: MockFunctionsRouter,
+    private readonly options: SimulatorOptions = {}
+  ) {}
+
+  /** Returns the decoded request the consumer sent for `requestId` */
+  async getRequest(requestId: string): Promise<DecodedFunctionsRequest> {
+    const request = await this.router.requests(requestId);
+    if (request.consumer === "0x0000000000000000000000000000000000000000") {
+      throw new Error(`Unknown request ${requestId}`);
+    }
+    return decodeRequestData(request.data);
+  }
+
+  /** Returns the request IDs the router recorded in a transaction receipt */
+  requestIdsFromReceipt(receipt: ContractTransactionReceipt | null): string[] {
+    const ids: string[] = [];
+    for (const log of receipt?.logs ?? []) {
+      try {
+        const parsed = this.router.interface.parseLog(log);
+        if (parsed?.name === "RequestSent") ids.push(parsed.args[0]);
+      } catch {
+        // Logs from other contracts
+      }
+    }
+    return ids;
+  }
+
+  /** Executes a request's source and delivers the result on-chain */
+  async fulfill(requestId: string): Promise<FulfillmentResult> {
+    const request = await this.getRequest(requestId);
+    const result = await executeRequest(request, this.options);
+    return this.deliver(requestId, result);
+  }
+
+  /** Fulfils every request recorded in a transaction receipt */
+  async fulfillFromReceipt(
+    receipt: ContractTransactionReceipt | null
+  ): Promise<FulfillmentResult[]> {
+    const results: FulfillmentResult[] = [];
+    for (const requestId of this.requestIdsFromReceipt(receipt)) {
+      results.push(await this.fulfill(requestId));
+    }
+    return results;
+  }
+
+  /** Delivers an arbitrary result (e.g. a hand-crafted response) */
+  async deliver(
+    requestId: string,
+    result: ExecutionResult
+  ): Promise<FulfillmentResult> {
+    const request = await this.router.requests(requestId);
+    const tx = await this.router.fulfill(
+      requestId,
+      result.response,
+      result.error,
+      {
+        // Forward the full callback gas limit (EIP-150 keeps back 1/64)
+        gasLimit: (request.callbackGasLimit * 64n) / 63n + FULFILL_GAS_OVERHEAD,
+      }
+    );
+    const receipt = await tx.wait();
+
+    let callbackSuccess = false;
+    let callbackReturnData = "0x";
+    for (const log of receipt?.logs ?? []) {
+      try {
+        const parsed = this.router.interface.parseLog(log);
+        if (parsed?.name === "RequestFulfilled") {
+          callbackSuccess = parsed.args[1];
+          callbackReturnData = parsed.args[2];
+        }
+      } catch {
+        // Logs emitted by the consumer
+      }
+    }
+
+    return {
+      ...result,
+      requestId,
+      callbackSuccess,
+      callbackReturnData,
+      receipt,
+    };
+  }
+}
@@ -0,0 +1,103 @@
+import hre, { ethers } from "hardhat";
+import { ContractFactory } from "ethers";
+import { ContractRecord, DeploymentRecord } from "./deployments";
+
+/**
+ * Vetra Libraries
+ *
+ * Vetra links external libraries to stay under the contract size limit, so
+ * its factories need their addresses. Libraries are recorded with the other
+ * contracts of a deployment and reused by later upgrades while their code
+ * is on chain.
+ */
+
+/** External libraries linked into Vetra implementations */
+export const VETRA_LIBRARIES = [
+  "VetraMintRateLimits",
+  "VetraReserveRequest",
+  "VetraSignatures",
+] as const;
+
+/** Library addresses by library name */
+export type LibraryAddresses = Record<string, string>;
+
+/**
+ * Returns the addresses of Vetra's libraries, deploying those that are not
+ * recorded for `deployment` (or whose code is gone). Newly deployed
+ * libraries are returned as records for the caller to save.
+ */
+export async function deployLibraries(
+  deployment?: DeploymentRecord
+): Promise<{ libraries: LibraryAddresses; deployed: ContractRecord[] }> {
+  const [deployer] = await ethers.getSigners();
+  const libraries: LibraryAddresses = {};
+  const deployed: ContractRecord[] = [];
+
+  for (const name of VETRA_LIBRARIES) {
+    const recorded = deployment?.contracts?.[name];
+    if (
+      recorded &&
+      (await ethers.provider.getCode(recorded.address)) !== "0x"
+    ) {
+      libraries[name] = recorded.address;
+      continue;
+    }
+
+    const library = await (await ethers.getContractFactory(name)).deploy();
+    await library.waitForDeployment();
+    const tx = library.deploymentTransaction();
+    const receipt = tx ? await tx.wait() : null;
+
+    libraries[name] = await library.getAddress();
+    deployed.push({
+      address: libraries[name],
+      contractName: name,
+      deployer: deployer.address,
+      blockNumber: receipt?.blockNumber ?? null,
+      txHash: tx?.hash ?? null,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  return { libraries, deployed };
+}
+
+/**
+ * Returns the factory of a contract with the libraries it links; contracts
+ * that link none (e.g. implementations before the libraries) get none
+ */
+export async function getLinkedFactory(
+  contractName: string,
+  libraries: LibraryAddresses
+): Promise<ContractFactory> {
+  const artifact = await hre.artifacts.readArtifact(contractName);
+  const linked = Object.values(artifact.linkReferences).flatMap((refs) =>
+    Object.keys(refs)
+  );
+
+  const missing = linked.filter((name) => !libraries[name]);
+  if (missing.length > 0) {
+    throw new Error(
+      `${contractName} links ${missing.join(", ")}, which is not deployed.`
+    );
+  }
+
+  return ethers.getContractFactory(contractName, {
+    libraries: Object.fromEntries(linked.map((name) => [name, libraries[name]])),
+  });
+}
+
+/**
+ * Library addresses recorded for a deployment, with the zero address for
+ * libraries it has not deployed yet
+ */
+export function getRecordedLibraries(
+  deployment?: DeploymentRecord
+): LibraryAddresses {
+  return Object.fromEntries(
+    VETRA_LIBRARIES.map((name) => [
+      name,
+      deployment?.contracts?.[name]?.address ?? ethers.ZeroAddress,
+    ])
+  );
+}
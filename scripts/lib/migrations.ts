@@ -0,0 +1,129 @@
+import { ethers } from "hardhat";
+import { BaseContract } from "ethers";
+import { Vetra } from "../../typechain-types";
+
+/**
+ * Proxy Migrations
+ *
+ * A proxy deployed before a feature gets it from a reinitializer. The
+ * reinitializers can only run once each and in version order, so a proxy
+ * that skipped some has to run the rest in order. They are called directly
+ * by a DEFAULT_ADMIN_ROLE holder after the upgrade: until initializeRoles
+ * has run no account holds UPGRADER_ROLE, so they cannot go through
+ * further upgrades. A proxy from before minter allowances also needs each
+ * minter's allowance configured once the admin holds MINTER_ADMIN_ROLE.
+ */
+
+/** ERC-7201 slot of OpenZeppelin's Initializable storage */
+const INITIALIZABLE_SLOT =
+  "0xf0c57e16840df040f15088dc2f81fe391c3923bec73e23a9662efc9c229c6a00";
+
+/** One of Vetra's reinitializers */
+export interface MigrationStep {
+  /** Initialized version once the step has run */
+  version: number;
+  fn: string;
+  description: string;
+}
+
+/** Vetra's reinitializers, in the order they must run */
+export const MIGRATION_STEPS: MigrationStep[] = [
+  {
+    version: 2,
+    fn: "initializeCompliance",
+    description: "Grants COMPLIANCE_ROLE",
+  },
+  {
+    version: 3,
+    fn: "initializePermit",
+    description: "Sets the EIP-712 domain for permit",
+  },
+  {
+    version: 4,
+    fn: "initializeRoles",
+    description: "Grants the operational roles to the admin",
+  },
+  {
+    version: 5,
+    fn: "initializeDefaultAdmin",
+    description: "Records the admin as defaultAdmin, revokes other admins",
+  },
+  {
+    version: 6,
+    fn: "initializeMinterAdmin",
+    description: "Grants MINTER_ADMIN_ROLE to the admin",
+  },
+];
+
+/** Options for the reinitializers that take arguments */
+export interface MigrationOptions {
+  /** Account that receives COMPLIANCE_ROLE */
+  complianceAdmin: string;
+  /** DEFAULT_ADMIN_ROLE holders other than the migrating admin */
+  otherAdmins: string[];
+}
+
+/** A step still to run, with its arguments */
+export interface PlannedMigration {
+  step: MigrationStep;
+  args: unknown[];
+}
+
+/** Returns the proxy's initialized version (1 for a baseline proxy) */
+export async function getInitializedVersion(
+  proxy: BaseContract
+): Promise<number> {
+  const slot = await ethers.provider.getStorage(
+    await proxy.getAddress(),
+    INITIALIZABLE_SLOT
+  );
+  // _initialized is the low 64 bits; _initializing sits above it
+  return Number(BigInt(slot) & 0xffffffffffffffffn);
+}
+
+/** Returns the reinitializers the proxy has not run yet, in order */
+export async function planMigrations(
+  vetra: Vetra,
+  options: MigrationOptions
+): Promise<PlannedMigration[]> {
+  const version = await getInitializedVersion(vetra);
+
+  return MIGRATION_STEPS.filter((step) => step.version > version).map(
+    (step) => ({ step, args: getStepArgs(step, options) })
+  );
+}
+
+function getStepArgs(step: MigrationStep, options: MigrationOptions) {
+  switch (step.fn) {
+    case "initializeCompliance":
+      return [options.complianceAdmin];
+    case "initializeDefaultAdmin":
+      return [options.otherAdmins];
+    default:
+      return [];
+  }
+}
+
+/** A minter's allowance to configure after initializeMinterAdmin */
+export interface AllowanceSeed {
+  minter: string;
+  allowance: bigint;
+}
+
+/**
+ * Returns the configureMinter calls that give every minter without an
+ * allowance `allowance`. Minters that already have one keep it.
+ */
+export async function planAllowanceSeeds(
+  vetra: Vetra,
+  minters: string[],
+  allowance: bigint
+): Promise<AllowanceSeed[]> {
+  const seeds: AllowanceSeed[] = [];
+  for (const minter of minters) {
+    if ((await vetra.minterAllowance(minter)) === 0n) {
+      seeds.push({ minter, allowance });
+    }
+  }
+  return seeds;
+}
@@ -0,0 +1,97 @@
+import { MaxUint256 } from "ethers";
+import { Vetra } from "../../typechain-types";
+import { AmountRow } from "./csv";
+import { vtr } from "./reports";
+import { getRoleId } from "./roles";
+
+/**
+ * Mint Pre-flight
+ *
+ * Checks a list of mints against Vetra's mint rules before the first one is
+ * sent, so a batch is not left half-minted by a limit that applies to the
+ * total (capacity, allowance, rate limits) or to any single row.
+ */
+
+/**
+ * Returns every reason the mints would revert when sent in order by
+ * `minter`; an empty list means they pass
+ */
+export async function checkMints(
+  vetra: Vetra,
+  minter: string,
+  mints: AmountRow[]
+): Promise<string[]> {
+  const problems: string[] = [];
+  const total = mints.reduce((sum, m) => sum + m.amount, 0n);
+
+  if (!(await vetra.hasRole(getRoleId("MINTER_ROLE"), minter))) {
+    problems.push(`${minter} does not have MINTER_ROLE`);
+  }
+  if (await vetra.paused()) {
+    problems.push("Vetra is paused");
+  }
+  if (await vetra.hasQuarantinedReserve()) {
+    problems.push("A reserve update is quarantined awaiting review");
+  }
+  if (!(await vetra.isReserveFresh())) {
+    const age = await vetra.reserveAge();
+    const ttl = await vetra.reserveTTL();
+    problems.push(
+      age === MaxUint256
+        ? "The reserve has never been updated"
+        : `The reserve is stale (${age}s old, TTL ${ttl}s)`
+    );
+  }
+
+  // Limits on the total
+  const capacity = await vetra.availableMintCapacity();
+  if (total > capacity) {
+    problems.push(
+      `Total ${vtr(total)} exceeds the available mint capacity of ${vtr(capacity)}`
+    );
+  }
+  const allowance = await vetra.minterAllowance(minter);
+  if (total > allowance) {
+    problems.push(
+      `Total ${vtr(total)} exceeds the minter allowance of ${vtr(allowance)}`
+    );
+  }
+  const globalRemaining = await vetra.globalMintRateRemaining();
+  if (total > globalRemaining) {
+    problems.push(
+      `Total ${vtr(total)} exceeds the ${vtr(globalRemaining)} left under the global mint rate limit`
+    );
+  }
+  const minterRemaining = await vetra.minterMintRateRemaining(minter);
+  if (total > minterRemaining) {
+    problems.push(
+      `Total ${vtr(total)} exceeds the ${vtr(minterRemaining)} left under the per-minter mint rate limit`
+    );
+  }
+
+  // Limits on each mint
+  const perTxLimit = await vetra.mintPerTxLimit();
+  const approvalThreshold = await vetra.mintApprovalThreshold();
+  const allowlistEnabled = await vetra.allowlistEnabled();
+  for (const { account, amount, line } of mints) {
+    const row = line > 0 ? `Line ${line} (${account})` : account;
+    if (perTxLimit > 0n && amount > perTxLimit) {
+      problems.push(
+        `${row}: ${vtr(amount)} exceeds the per-transaction limit of ${vtr(perTxLimit)}`
+      );
+    }
+    if (approvalThreshold > 0n && amount > approvalThreshold) {
+      problems.push(
+        `${row}: ${vtr(amount)} is above the approval threshold of ${vtr(approvalThreshold)}; propose it instead`
+      );
+    }
+    if (allowlistEnabled && !(await vetra.allowlist(account))) {
+      problems.push(`${row}: recipient is not on the allowlist`);
+    }
+    if (await vetra.blocklist(account)) {
+      problems.push(`${row}: recipient is blocked`);
+    }
+  }
+
+  return problems;
+}
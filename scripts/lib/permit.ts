@@ -0,0 +1,109 @@
+import { Signature, Signer, TypedDataDomain, TypedDataField } from "ethers";
+import { Vetra } from "../../typechain-types";
+
+/**
+ * EIP-2612 Permit Payloads
+ *
+ * Builds and signs the EIP-712 typed data that Vetra's `permit` accepts, so
+ * a backend can collect gasless approvals and relay them. The domain is read
+ * from the contract (ERC-5267 `eip712Domain`) rather than hard-coded, so
+ * payloads always match the deployment and chain they are submitted to.
+ *
+ * For smart-contract wallets, `owner` is the wallet address and the signer
+ * is whatever key the wallet's ERC-1271 `isValidSignature` accepts; submit
+ * the full `signature` with `permit(owner, spender, value, deadline, bytes)`.
+ */
+
+export const PERMIT_TYPES: Record<string, TypedDataField[]> = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export interface PermitMessage {
+  owner: string;
+  spender: string;
+  value: bigint;
+  nonce: bigint;
+  deadline: bigint;
+}
+
+export interface PermitPayload {
+  domain: TypedDataDomain;
+  types: Record<string, TypedDataField[]>;
+  message: PermitMessage;
+}
+
+export interface SignedPermit extends PermitMessage {
+  /** 65-byte signature for permit(owner, spender, value, deadline, bytes) */
+  signature: string;
+  /** Split signature for permit(owner, spender, value, deadline, v, r, s) */
+  v: number;
+  r: string;
+  s: string;
+}
+
+export interface PermitOptions {
+  spender: string;
+  value: bigint;
+  /** Unix timestamp after which the permit is rejected */
+  deadline: bigint;
+  /** Token owner; defaults to the signer (set it for contract wallets) */
+  owner?: string;
+  /** Defaults to the owner's current on-chain nonce */
+  nonce?: bigint;
+}
+
+/** Reads the EIP-712 domain the contract verifies permits against */
+export async function getPermitDomain(vetra: Vetra): Promise<TypedDataDomain> {
+  const domain = await vetra.eip712Domain();
+  return {
+    name: domain.name,
+    version: domain.version,
+    chainId: domain.chainId,
+    verifyingContract: domain.verifyingContract,
+  };
+}
+
+/** Builds the typed data for a permit without signing it */
+export async function buildPermit(
+  vetra: Vetra,
+  owner: string,
+  options: Omit<PermitOptions, "owner">
+): Promise<PermitPayload> {
+  return {
+    domain: await getPermitDomain(vetra),
+    types: PERMIT_TYPES,
+    message: {
+      owner,
+      spender: options.spender,
+      value: options.value,
+      nonce: options.nonce ?? (await vetra.nonces(owner)),
+      deadline: options.deadline,
+    },
+  };
+}
+
+/** Builds and signs a permit */
+export async function signPermit(
+  signer: Signer,
+  vetra: Vetra,
+  options: PermitOptions
+): Promise<SignedPermit> {
+  const owner = options.owner ?? (await signer.getAddress());
+  const { domain, types, message } = await buildPermit(vetra, owner, options);
+
+  const signature = await signer.signTypedData(domain, types, message);
+  const { v, r, s } = Signature.from(signature);
+
+  return { ...message, signature, v, r, s };
+}
+
+/** Deadline `seconds` from now, for callers without a block timestamp */
+export function permitDeadline(seconds: number): bigint {
+  return BigInt(Math.floor(Date.now() / 1000) + seconds);
+}
@@ -0,0 +1,26 @@
+import * as readline from "readline";
+
+/**
+ * Terminal Prompts
+ *
+ * Confirmation for scripts that send transactions on mainnet.
+ */
+
+/**
+ * Asks a yes/no question; resolves true only for "y" or "yes"
+ */
+export async function confirm(question: string): Promise<boolean> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  try {
+    const answer = await new Promise<string>((resolve) =>
+      rl.question(`${question} [y/N] `, resolve)
+    );
+    return ["y", "yes"].includes(answer.trim().toLowerCase());
+  } finally {
+    rl.close();
+  }
+}
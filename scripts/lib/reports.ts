@@ -0,0 +1,28 @@
+import * as fs from "fs";
+import * as path from "path";
+import { formatEther } from "ethers";
+
+/**
+ * Batch Reports
+ *
+ * Formatting and report files shared by the batch mint and burn scripts. A
+ * report is rewritten after every transaction, so an interrupted batch
+ * still records what went through.
+ */
+
+/** Formats a token amount, e.g. "1500.0 VTR" */
+export function vtr(amount: bigint): string {
+  return `${formatEther(amount)} VTR`;
+}
+
+/** Default report path: reports/<kind>-<network>-<time>.json */
+export function getDefaultReportPath(kind: string, networkName: string): string {
+  const time = new Date().toISOString().replace(/[:.]/g, "-");
+  return path.join("reports", `${kind}-${networkName}-${time}.json`);
+}
+
+/** Writes `report` as JSON, creating its directory if needed */
+export function writeReport(reportPath: string, report: object): void {
+  fs.mkdirSync(path.dirname(reportPath), { recursive: true });
+  fs.writeFileSync(reportPath, JSON.stringify(report, null, 2) + "\n");
+}
@@ -0,0 +1,307 @@
+import * as http from "http";
+import { AddressInfo } from "net";
+
+/**
+ * Local Reserve API Server
+ *
+ * Stand-in for the FT Asset Management reserve endpoint (RESERVE_API_URL).
+ * Serves `{ StatementSummary: { TotalBalance: "..." } }` on any GET path and
+ * can be switched between scenarios that exercise every branch of the
+ * reserve source: fixed balance, ramp, malformed payload, missing
+ * StatementSummary, negative value, slow response and HTTP 500.
+ *
+ * Scenarios are set programmatically (`setScenario`) or over HTTP:
+ *   GET  /__scenario   Current scenario script and request count
+ *   PUT  /__scenario   Replace the scenario script (JSON body)
+ */
+
+/** Path of the scenario control endpoint */
+export const SCENARIO_PATH = "/__scenario";
+
+export type ReserveScenario =
+  /** Always returns `balance` */
+  | { kind: "fixed"; balance: string }
+  /** Returns `start + step * n` for the n-th balance request (0-based) */
+  | { kind: "ramp"; start: string; step: string }
+  /** Returns a truncated, non-JSON body */
+  | { kind: "malformed" }
+  /** Returns a JSON object without StatementSummary */
+  | { kind: "missingSummary" }
+  /** Returns a negative TotalBalance */
+  | { kind: "negative"; balance?: string }
+  /** Returns `balance` after waiting `delayMs` */
+  | { kind: "slow"; balance: string; delayMs: number }
+  /** Returns an HTTP error status (500 by default) */
+  | { kind: "serverError"; status?: number };
+
+export type ReserveScenarioKind = ReserveScenario["kind"];
+
+export const SCENARIO_KINDS: ReserveScenarioKind[] = [
+  "fixed",
+  "ramp",
+  "malformed",
+  "missingSummary",
+  "negative",
+  "slow",
+  "serverError",
+];
+
+export interface ReserveApiServerOptions {
+  /**
+   * A single scenario, or a script of scenarios applied to successive
+   * requests (the last entry repeats once the script is exhausted)
+   */
+  scenario?: ReserveScenario | ReserveScenario[];
+  currency?: string;
+  accountNumber?: string;
+}
+
+/** Parses a decimal USD string into cents */
+function toCents(value: string): bigint {
+  const match = /^(-?)(\d+)(?:\.(\d{1,2}))?$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid USD amount: ${value}`);
+  }
+  const [, sign, whole, fraction = ""] = match;
+  const cents = BigInt(whole) * 100n + BigInt(fraction.padEnd(2, "0"));
+  return sign ? -cents : cents;
+}
+
+/** Formats cents as a decimal USD string with two fraction digits */
+function fromCents(cents: bigint): string {
+  const sign = cents < 0n ? "-" : "";
+  const abs = cents < 0n ? -cents : cents;
+  return `${sign}${abs / 100n}.${(abs % 100n).toString().padStart(2, "0")}`;
+}
+
+/** Validates an untrusted scenario (e.g. from the control endpoint) */
+export function parseScenario(value: unknown): ReserveScenario {
+  const scenario = value as ReserveScenario;
+  if (!scenario || !SCENARIO_KINDS.includes(scenario.kind)) {
+    throw new Error(
+      `Unknown scenario kind; expected one of: ${SCENARIO_KINDS.join(", ")}`
+    );
+  }
+
+  switch (scenario.kind) {
+    case "fixed":
+      toCents(scenario.balance);
+      break;
+    case "ramp":
+      toCents(scenario.start);
+      toCents(scenario.step);
+      break;
+    case "negative":
+      if (scenario.balance !== undefined && toCents(scenario.balance) >= 0n) {
+        throw new Error("negative scenario requires a negative balance");
+      }
+      break;
+    case "slow":
+      toCents(scenario.balance);
+      if (!Number.isInteger(scenario.delayMs) || scenario.delayMs < 0) {
+        throw new Error("slow scenario requires a non-negative delayMs");
+      }
+      break;
+    case "serverError":
+      if (
+        scenario.status !== undefined &&
+        (scenario.status < 400 || scenario.status > 599)
+      ) {
+        throw new Error("serverError status must be 4xx or 5xx");
+      }
+      break;
+  }
+
+  return scenario;
+}
+
+export class ReserveApiServer {
+  private server?: http.Server;
+  private script: ReserveScenario[];
+  private readonly currency: string;
+  private readonly accountNumber: string;
+
+  /** Number of balance requests served since the scenario was last set */
+  requestCount = 0;
+
+  constructor(options: ReserveApiServerOptions = {}) {
+    this.script = this.toScript(
+      options.scenario ?? { kind: "fixed", balance: "1000000.00" }
+    );
+    this.currency = options.currency ?? "USD";
+    this.accountNumber = options.accountNumber ?? "00000";
+  }
+
+  /** Base URL of the running server (e.g. http://127.0.0.1:8787/) */
+  get url(): string {
+    const address = this.server?.address() as AddressInfo | null | undefined;
+    if (!address) {
+      throw new Error("Reserve API server is not running");
+    }
+    return `http://127.0.0.1:${address.port}/`;
+  }
+
+  /** Replaces the scenario script and resets the request counter */
+  setScenario(scenario: ReserveScenario | ReserveScenario[]): void {
+    this.script = this.toScript(scenario);
+    this.requestCount = 0;
+  }
+
+  /** Starts listening; port 0 picks a free port */
+  async start(port = 0, host = "127.0.0.1"): Promise<string> {
+    if (this.server) {
+      throw new Error("Reserve API server is already running");
+    }
+
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        this.send(res, 500, { error: error.message });
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, host, () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    return this.url;
+  }
+
+  /** Stops the server, dropping any in-flight (e.g. slow) responses */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = undefined;
+
+    server.closeAllConnections();
+    await new Promise<void>((resolve, reject) =>
+      server.close((error) => (error ? reject(error) : resolve()))
+    );
+  }
+
+  private toScript(
+    scenario: ReserveScenario | ReserveScenario[]
+  ): ReserveScenario[] {
+    const script = (Array.isArray(scenario) ? scenario : [scenario]).map(
+      parseScenario
+    );
+    if (script.length === 0) {
+      throw new Error("Scenario script must not be empty");
+    }
+    return script;
+  }
+
+  private async handle(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const path = new URL(req.url ?? "/", "http://localhost").pathname;
+
+    if (path === SCENARIO_PATH) {
+      await this.handleControl(req, res);
+      return;
+    }
+
+    if (req.method !== "GET") {
+      this.send(res, 405, { error: "Method not allowed" });
+      return;
+    }
+
+    const index = this.requestCount++;
+    const scenario = this.script[Math.min(index, this.script.length - 1)];
+
+    switch (scenario.kind) {
+      case "fixed":
+        this.sendBalance(res, scenario.balance);
+        return;
+
+      case "ramp": {
+        const cents =
+          toCents(scenario.start) + toCents(scenario.step) * BigInt(index);
+        this.sendBalance(res, fromCents(cents));
+        return;
+      }
+
+      case "malformed":
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end('{"StatementSummary": {"TotalBalance": "10');
+        return;
+
+      case "missingSummary":
+        this.send(res, 200, {
+          AccountNumber: this.accountNumber,
+          Message: "No statement available",
+        });
+        return;
+
+      case "negative":
+        this.sendBalance(res, scenario.balance ?? "-100.00");
+        return;
+
+      case "slow":
+        await new Promise((resolve) => setTimeout(resolve, scenario.delayMs));
+        if (!res.destroyed) {
+          this.sendBalance(res, scenario.balance);
+        }
+        return;
+
+      case "serverError":
+        this.send(res, scenario.status ?? 500, {
+          error: "Internal Server Error",
+        });
+        return;
+    }
+  }
+
+  private async handleControl(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    if (req.method === "GET") {
+      this.send(res, 200, {
+        scenario: this.script,
+        requestCount: this.requestCount,
+      });
+      return;
+    }
+
+    if (req.method !== "PUT" && req.method !== "POST") {
+      this.send(res, 405, { error: "Method not allowed" });
+      return;
+    }
+
+    let body = "";
+    for await (const chunk of req) {
+      body += chunk;
+    }
+
+    try {
+      this.setScenario(JSON.parse(body));
+    } catch (error: any) {
+      this.send(res, 400, { error: error.message });
+      return;
+    }
+
+    this.send(res, 200, { scenario: this.script, requestCount: 0 });
+  }
+
+  private sendBalance(res: http.ServerResponse, totalBalance: string): void {
+    this.send(res, 200, {
+      StatementSummary: {
+        AccountNumber: this.accountNumber,
+        Currency: this.currency,
+        TotalBalance: totalBalance,
+        AsOfDate: new Date().toISOString(),
+      },
+    });
+  }
+
+  private send(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  }
+}
@@ -0,0 +1,329 @@
+import { Vetra } from "../../typechain-types";
+import {
+  getReserveRequestOutcome,
+  sendReserveRequest,
+} from "./reserveUpdates";
+import { ReserveSource } from "./reserveSource";
+import { describeError } from "./errors";
+
+/**
+ * Reserve Keeper
+ *
+ * Keeps the on-chain reserve fresh by requesting a Chainlink Functions
+ * update whenever the reserve is older than the update interval or close
+ * to its TTL. At most one request is in flight at a time: the keeper waits
+ * for it to be fulfilled (or to time out) before sending another, and backs
+ * off exponentially after failed attempts. While an update is quarantined by
+ * the deviation circuit breaker no new requests are sent: an admin has to
+ * confirm or reject it first.
+ *
+ * `tick()` performs a single step and never blocks on fulfilment, so the
+ * keeper can be driven by a loop (`run()`) or stepped from tests.
+ */
+
+export interface ReserveKeeperOptions {
+  /** Reserve API URL passed to the Functions source */
+  apiUrl: string;
+  /** Functions source to send (defaults to the current version) */
+  source?: ReserveSource;
+  /** Request an update once the reserve is this old (seconds) */
+  updateIntervalSeconds: number;
+  /** Request an update once reserveAge >= reserveTTL - ttlMarginSeconds */
+  ttlMarginSeconds: number;
+  /** Give up on an unfulfilled request after this long (ms) */
+  fulfillmentTimeoutMs: number;
+  /** Delay between ticks in run() (ms) */
+  pollIntervalMs: number;
+  /** First retry delay after a failure (ms); doubles per consecutive failure */
+  retryBaseMs: number;
+  /** Upper bound for the retry delay (ms) */
+  retryMaxMs: number;
+  /** Wall clock in ms (injectable for tests) */
+  now?: () => number;
+  log?: (message: string) => void;
+}
+
+export interface InFlightRequest {
+  requestId: string;
+  sentAt: number;
+  blockNumber: number;
+}
+
+export type KeeperAction =
+  | { type: "idle"; reserveAge: bigint; nextDueIn: bigint }
+  | { type: "backoff"; reason: string; retryInMs: number }
+  | { type: "requested"; reason: string; requestId: string }
+  | { type: "waiting"; requestId: string; elapsedMs: number }
+  | {
+      type: "updated";
+      requestId: string;
+      usdAmount: bigint;
+      nonce: bigint;
+    }
+  | { type: "quarantined"; requestId: string; usdAmount: bigint }
+  | { type: "failed"; reason: string; failures: number; retryInMs: number };
+
+const NO_RESERVE = 2n ** 256n - 1n;
+
+export class ReserveKeeper {
+  private readonly now: () => number;
+  private readonly log: (message: string) => void;
+
+  private inFlight?: InFlightRequest;
+  private failures = 0;
+  private nextAttemptAt = 0;
+  private stopped = false;
+  private wake?: () => void;
+
+  constructor(
+    private readonly vetra: Vetra,
+    private readonly options: ReserveKeeperOptions
+  ) {
+    this.now = options.now ?? Date.now;
+    this.log =
+      options.log ??
+      ((message) => console.log(`[${new Date().toISOString()}] ${message}`));
+  }
+
+  /** The request currently awaiting fulfilment, if any */
+  get pendingRequest(): InFlightRequest | undefined {
+    return this.inFlight;
+  }
+
+  /** Number of consecutive failed attempts */
+  get consecutiveFailures(): number {
+    return this.failures;
+  }
+
+  /**
+   * Returns why an update is due, or undefined if the reserve is fresh
+   * enough (along with the seconds until the next update is due).
+   */
+  async checkDue(): Promise<{
+    reason?: string;
+    reserveAge: bigint;
+    nextDueIn: bigint;
+  }> {
+    const [reserveAge, reserveTTL] = await Promise.all([
+      this.vetra.reserveAge(),
+      this.vetra.reserveTTL(),
+    ]);
+
+    if (reserveAge === NO_RESERVE) {
+      return { reason: "no reserve recorded", reserveAge, nextDueIn: 0n };
+    }
+
+    const interval = BigInt(this.options.updateIntervalSeconds);
+    const margin = BigInt(this.options.ttlMarginSeconds);
+    const ttlThreshold = reserveTTL > margin ? reserveTTL - margin : 0n;
+
+    if (reserveAge >= ttlThreshold) {
+      return {
+        reason: `reserve age ${reserveAge}s is within ${margin}s of TTL ${reserveTTL}s`,
+        reserveAge,
+        nextDueIn: 0n,
+      };
+    }
+
+    if (reserveAge >= interval) {
+      return {
+        reason: `reserve age ${reserveAge}s exceeds update interval ${interval}s`,
+        reserveAge,
+        nextDueIn: 0n,
+      };
+    }
+
+    const dueAt = interval < ttlThreshold ? interval : ttlThreshold;
+    return { reserveAge, nextDueIn: dueAt - reserveAge };
+  }
+
+  /** Performs one keeper step */
+  async tick(): Promise<KeeperAction> {
+    if (this.inFlight) {
+      return this.checkInFlight(this.inFlight);
+    }
+
+    const quarantined = await this.vetra.quarantinedReserve();
+    if (quarantined.timestamp !== 0n) {
+      return {
+        type: "quarantined",
+        requestId: quarantined.requestId,
+        usdAmount: quarantined.usdAmount,
+      };
+    }
+
+    const due = await this.checkDue();
+    if (!due.reason) {
+      return {
+        type: "idle",
+        reserveAge: due.reserveAge,
+        nextDueIn: due.nextDueIn,
+      };
+    }
+
+    const now = this.now();
+    if (now < this.nextAttemptAt) {
+      return {
+        type: "backoff",
+        reason: due.reason,
+        retryInMs: this.nextAttemptAt - now,
+      };
+    }
+
+    this.log(`Update due: ${due.reason}. Requesting reserve update...`);
+
+    try {
+      const sent = await sendReserveRequest(
+        this.vetra,
+        this.options.apiUrl,
+        this.options.source
+      );
+      this.inFlight = {
+        requestId: sent.requestId,
+        sentAt: this.now(),
+        blockNumber: sent.receipt.blockNumber,
+      };
+      this.log(`Request ${sent.requestId} sent (tx ${sent.tx.hash})`);
+      return { type: "requested", reason: due.reason, requestId: sent.requestId };
+    } catch (error: any) {
+      return this.fail(`request failed: ${describeError(error)}`);
+    }
+  }
+
+  /** Runs until stop() is called; errors in a tick are logged, not thrown */
+  async run(): Promise<void> {
+    this.stopped = false;
+
+    while (!this.stopped) {
+      try {
+        const action = await this.tick();
+        this.logAction(action);
+      } catch (error: any) {
+        this.log(`⚠️  Tick failed: ${describeError(error)}`);
+      }
+
+      if (this.stopped) break;
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, this.options.pollIntervalMs);
+        this.wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      this.wake = undefined;
+    }
+  }
+
+  /** Stops run() after the current tick */
+  stop(): void {
+    this.stopped = true;
+    this.wake?.();
+  }
+
+  private async checkInFlight(request: InFlightRequest): Promise<KeeperAction> {
+    const outcome = await getReserveRequestOutcome(
+      this.vetra,
+      request.requestId,
+      request.blockNumber
+    );
+
+    if (outcome.status === "updated") {
+      this.inFlight = undefined;
+      this.failures = 0;
+      this.nextAttemptAt = 0;
+      return {
+        type: "updated",
+        requestId: request.requestId,
+        usdAmount: outcome.usdAmount,
+        nonce: outcome.nonce,
+      };
+    }
+
+    if (outcome.status === "quarantined") {
+      // The request itself worked; the value now needs an admin decision
+      this.inFlight = undefined;
+      this.failures = 0;
+      this.nextAttemptAt = 0;
+      return {
+        type: "quarantined",
+        requestId: request.requestId,
+        usdAmount: outcome.usdAmount,
+      };
+    }
+
+    if (outcome.status === "fulfilled") {
+      return this.fail(
+        `request ${request.requestId} fulfilled without a reserve update: ${outcome.reason}`
+      );
+    }
+
+    const elapsedMs = this.now() - request.sentAt;
+    if (elapsedMs >= this.options.fulfillmentTimeoutMs) {
+      return this.fail(
+        `request ${request.requestId} not fulfilled within ${this.options.fulfillmentTimeoutMs}ms`
+      );
+    }
+
+    return { type: "waiting", requestId: request.requestId, elapsedMs };
+  }
+
+  private fail(reason: string): KeeperAction {
+    this.inFlight = undefined;
+    this.failures++;
+
+    const retryInMs = Math.min(
+      this.options.retryBaseMs * 2 ** (this.failures - 1),
+      this.options.retryMaxMs
+    );
+    this.nextAttemptAt = this.now() + retryInMs;
+
+    return { type: "failed", reason, failures: this.failures, retryInMs };
+  }
+
+  private logAction(action: KeeperAction): void {
+    switch (action.type) {
+      case "idle":
+        this.log(
+          `Reserve fresh (age ${action.reserveAge}s), next update due in ${action.nextDueIn}s`
+        );
+        break;
+      case "backoff":
+        this.log(
+          `Update due (${action.reason}), retrying in ${Math.ceil(
+            action.retryInMs / 1000
+          )}s`
+        );
+        break;
+      case "requested":
+        break;
+      case "waiting":
+        this.log(
+          `Waiting for fulfilment of ${action.requestId} (${Math.floor(
+            action.elapsedMs / 1000
+          )}s)`
+        );
+        break;
+      case "updated":
+        this.log(
+          `✅ Reserve updated: ${(Number(action.usdAmount) / 1e8).toFixed(
+            2
+          )} USD (nonce ${action.nonce})`
+        );
+        break;
+      case "quarantined":
+        this.log(
+          `⚠️  Reserve update ${action.requestId} (${(
+            Number(action.usdAmount) / 1e8
+          ).toFixed(2)} USD) is quarantined; waiting for an admin to confirm or reject it`
+        );
+        break;
+      case "failed":
+        this.log(
+          `❌ Attempt ${action.failures} failed: ${action.reason}. Retrying in ${Math.ceil(
+            action.retryInMs / 1000
+          )}s`
+        );
+        break;
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import * as fs from "fs";
+import * as path from "path";
+import { keccak256, toUtf8Bytes } from "ethers";
+
+/**
+ * Chainlink Functions Reserve Source
+ *
+ * JavaScript executed by the Chainlink DON (or the local simulator in
+ * scripts/lib/functionsSimulator.ts) to fetch the FT Asset Management
+ * reserve and return ABI-encoded (uint256 usdAmount, uint256 nonce).
+ *
+ * Sources live in versioned files (functions/reserve.v<N>.js) and are never
+ * edited in place: a change is a new version whose hash must be approved
+ * on-chain with setApprovedSource before requestReserveUpdate accepts it.
+ */
+
+/** Directory holding the versioned source files */
+export const RESERVE_SOURCE_DIR = path.join(__dirname, "..", "..", "functions");
+
+/** Source version used when RESERVE_SOURCE_VERSION is not set */
+export const CURRENT_RESERVE_SOURCE_VERSION = 1;
+
+export interface ReserveSource {
+  version: number;
+  path: string;
+  /** Exact file contents, as sent to requestReserveUpdate */
+  source: string;
+  /** keccak256 of the UTF-8 source, as compared by the contract */
+  hash: string;
+}
+
+/** Hashes a source string the same way the contract does */
+export function hashReserveSource(source: string): string {
+  return keccak256(toUtf8Bytes(source));
+}
+
+export function getReserveSourcePath(version: number): string {
+  return path.join(RESERVE_SOURCE_DIR, `reserve.v${version}.js`);
+}
+
+/** Loads a versioned reserve source file and computes its hash */
+export function loadReserveSource(
+  version: number = CURRENT_RESERVE_SOURCE_VERSION
+): ReserveSource {
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error(`Invalid reserve source version: ${version}`);
+  }
+
+  const sourcePath = getReserveSourcePath(version);
+  if (!fs.existsSync(sourcePath)) {
+    throw new Error(
+      `Reserve source v${version} not found at ${sourcePath}`
+    );
+  }
+
+  const source = fs.readFileSync(sourcePath, "utf8");
+  return { version, path: sourcePath, source, hash: hashReserveSource(source) };
+}
+
+/** The current reserve source code */
+export const RESERVE_SOURCE_CODE = loadReserveSource().source;
+
+/** Arguments passed to the reserve source (args[0] is the API URL) */
+export function buildReserveArgs(apiUrl: string): string[] {
+  return [apiUrl];
+}
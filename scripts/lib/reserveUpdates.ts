@@ -0,0 +1,247 @@
+import {
+  BytesLike,
+  ContractTransactionReceipt,
+  ContractTransactionResponse,
+  getBytes,
+  hexlify,
+  MaxUint256,
+  toUtf8String,
+  ZeroHash,
+} from "ethers";
+import { Vetra } from "../../typechain-types";
+import {
+  ReserveSource,
+  buildReserveArgs,
+  loadReserveSource,
+} from "./reserveSource";
+
+/**
+ * Reserve Update Requests
+ *
+ * Helpers shared by the scripts that request reserve updates: sending the
+ * Chainlink Functions request and following a request ID to its outcome.
+ */
+
+export interface SentReserveRequest {
+  requestId: string;
+  tx: ContractTransactionResponse;
+  receipt: ContractTransactionReceipt;
+}
+
+export type ReserveRequestOutcome =
+  /** Not fulfilled yet */
+  | { status: "pending" }
+  /** Fulfilled and the reserve was updated */
+  | {
+      status: "updated";
+      usdAmount: bigint;
+      nonce: bigint;
+      timestamp: bigint;
+      blockNumber: number;
+      transactionHash: string;
+    }
+  /**
+   * Held back by the deviation circuit breaker. `rejected` is true once an
+   * admin has discarded it (a confirmed update is reported as "updated").
+   */
+  | {
+      status: "quarantined";
+      usdAmount: bigint;
+      nonce: bigint;
+      previousUsd: bigint;
+      deviationBps: bigint;
+      rejected: boolean;
+    }
+  /** Fulfilled without a reserve update (DON error or undecodable response) */
+  | { status: "fulfilled"; reason: string };
+
+export type ReserveRequestResult =
+  | Exclude<ReserveRequestOutcome, { status: "pending" }>
+  /** Still pending when the wait timed out */
+  | { status: "timeout"; elapsedMs: number };
+
+export interface WaitForReserveRequestOptions {
+  timeoutMs: number;
+  pollIntervalMs: number;
+  /** Called after each poll that finds the request still pending */
+  onPending?: (elapsedMs: number) => void;
+}
+
+/**
+ * Decodes a stored failure reason / ReserveUpdateFailed error. DON errors
+ * are UTF-8 messages; anything else is shown as hex.
+ */
+export function decodeFailureReason(err: BytesLike): string {
+  const bytes = getBytes(err);
+  if (bytes.length === 0) return "";
+  try {
+    return toUtf8String(bytes);
+  } catch {
+    return hexlify(bytes);
+  }
+}
+
+/** Formats a ReserveQuarantined deviation (bps) as a percentage */
+export function formatDeviationBps(bps: bigint): string {
+  if (bps === MaxUint256) return "unbounded (previous reserve was 0)";
+  return `${(Number(bps) / 100).toFixed(2)}%`;
+}
+
+/**
+ * Throws unless `source` hashes to the contract's approvedSourceHash, so a
+ * request is never sent with a source the contract would reject.
+ */
+export async function assertApprovedSource(
+  vetra: Vetra,
+  source: ReserveSource
+): Promise<void> {
+  const [approvedHash, approvedVersion] = await Promise.all([
+    vetra.approvedSourceHash(),
+    vetra.approvedSourceVersion(),
+  ]);
+
+  if (approvedHash === ZeroHash) {
+    throw new Error(
+      "No Functions source approved on-chain. Approve one with setApprovedSource first."
+    );
+  }
+
+  if (approvedHash !== source.hash) {
+    throw new Error(
+      `Reserve source v${source.version} (${source.hash}) does not match the approved source v${approvedVersion} (${approvedHash})`
+    );
+  }
+}
+
+/**
+ * Sends `requestReserveUpdate` with the reserve source (the current version
+ * by default) and waits for the transaction to be mined. The request is run
+ * as a static call first, so a revert is thrown before anything is sent.
+ */
+export async function sendReserveRequest(
+  vetra: Vetra,
+  apiUrl: string,
+  source: ReserveSource = loadReserveSource()
+): Promise<SentReserveRequest> {
+  await assertApprovedSource(vetra, source);
+
+  const args = buildReserveArgs(apiUrl);
+  await vetra.requestReserveUpdate.staticCall(source.source, args);
+  const tx = await vetra.requestReserveUpdate(source.source, args);
+  const receipt = await tx.wait();
+  if (!receipt) {
+    throw new Error(`Transaction ${tx.hash} was not mined`);
+  }
+
+  for (const log of receipt.logs) {
+    try {
+      const parsed = vetra.interface.parseLog(log);
+      if (parsed?.name === "ReserveUpdateRequested") {
+        return { requestId: parsed.args[0], tx, receipt };
+      }
+    } catch {
+      // Logs emitted by the Functions router
+    }
+  }
+
+  throw new Error(`No ReserveUpdateRequested event in transaction ${tx.hash}`);
+}
+
+/**
+ * Reads the current outcome of a reserve request.
+ * @param fromBlock Block the request was mined in (bounds the event query)
+ */
+export async function getReserveRequestOutcome(
+  vetra: Vetra,
+  requestId: string,
+  fromBlock: number
+): Promise<ReserveRequestOutcome> {
+  const request = await vetra.requests(requestId);
+  if (request.requester === "0x0000000000000000000000000000000000000000") {
+    throw new Error(`Unknown reserve request ${requestId}`);
+  }
+
+  if (!request.fulfilled) {
+    return { status: "pending" };
+  }
+
+  const events = await vetra.queryFilter(
+    vetra.filters.ReserveUpdated(undefined, undefined, undefined, requestId),
+    fromBlock,
+    "latest"
+  );
+
+  if (events.length === 0) {
+    const quarantined = await vetra.queryFilter(
+      vetra.filters.ReserveQuarantined(requestId),
+      fromBlock,
+      "latest"
+    );
+
+    if (quarantined.length > 0) {
+      const { usdAmount, nonce, previousUsd, deviationBps } =
+        quarantined[quarantined.length - 1].args;
+      const resolved = await vetra.queryFilter(
+        vetra.filters.QuarantinedReserveResolved(requestId),
+        fromBlock,
+        "latest"
+      );
+      return {
+        status: "quarantined",
+        usdAmount,
+        nonce,
+        previousUsd,
+        deviationBps,
+        rejected: resolved.some((event) => !event.args.accepted),
+      };
+    }
+
+    return {
+      status: "fulfilled",
+      reason: decodeFailureReason(request.failureReason),
+    };
+  }
+
+  const event = events[events.length - 1];
+  return {
+    status: "updated",
+    usdAmount: event.args.usdAmount,
+    nonce: event.args.nonce,
+    timestamp: event.args.timestamp,
+    blockNumber: event.blockNumber,
+    transactionHash: event.transactionHash,
+  };
+}
+
+/**
+ * Polls a reserve request until it is fulfilled or `timeoutMs` elapses.
+ * @param fromBlock Block the request was mined in (bounds the event query)
+ */
+export async function waitForReserveRequest(
+  vetra: Vetra,
+  requestId: string,
+  fromBlock: number,
+  options: WaitForReserveRequestOptions
+): Promise<ReserveRequestResult> {
+  const startedAt = Date.now();
+
+  for (;;) {
+    const outcome = await getReserveRequestOutcome(vetra, requestId, fromBlock);
+    if (outcome.status !== "pending") {
+      return outcome;
+    }
+
+    const elapsedMs = Date.now() - startedAt;
+    if (elapsedMs >= options.timeoutMs) {
+      return { status: "timeout", elapsedMs };
+    }
+
+    options.onPending?.(elapsedMs);
+    await new Promise((resolve) =>
+      setTimeout(
+        resolve,
+        Math.min(options.pollIntervalMs, options.timeoutMs - elapsedMs)
+      )
+    );
+  }
+}
@@ -0,0 +1,189 @@
+import { ethers } from "hardhat";
+import { ZeroAddress, ZeroHash, id } from "ethers";
+import { Vetra } from "../../typechain-types";
+import { DeploymentRecord } from "./deployments";
+
+/**
+ * Role Holders
+ *
+ * Rebuilds who holds each Vetra role from the RoleGranted and RoleRevoked
+ * events, since AccessControl keeps no enumerable list of members.
+ */
+
+/** Vetra's role constants, by getter name */
+export const VETRA_ROLES = [
+  "DEFAULT_ADMIN_ROLE",
+  "MINTER_ROLE",
+  "BURNER_ROLE",
+  "MINTER_ADMIN_ROLE",
+  "COMPLIANCE_ROLE",
+  "MINT_APPROVER_ROLE",
+  "PAUSER_ROLE",
+  "RESERVE_UPDATER_ROLE",
+  "POLICY_ADMIN_ROLE",
+  "ORACLE_ADMIN_ROLE",
+  "UPGRADER_ROLE",
+] as const;
+
+export type VetraRoleName = (typeof VETRA_ROLES)[number];
+
+/** Registry contracts that act on Vetra, and the role each needs */
+export const COMPANION_ROLES: Record<string, VetraRoleName> = {
+  VetraMintApprovals: "MINTER_ROLE",
+  VetraAllowlistBatcher: "POLICY_ADMIN_ROLE",
+};
+
+/**
+ * Blocks searched per log query. RPC providers cap the block range of
+ * eth_getLogs, and registries from before deployBlock was recorded search
+ * from block 0
+ */
+export const LOG_BLOCK_RANGE = 10_000;
+
+/**
+ * Returns a role's ID without calling the contract, so implementations that
+ * predate a role can still be audited
+ */
+export function getRoleId(name: VetraRoleName): string {
+  return name === "DEFAULT_ADMIN_ROLE" ? ZeroHash : id(name);
+}
+
+/** Holders of one role, in the order they were granted */
+export interface RoleHolders {
+  name: VetraRoleName;
+  role: string;
+  holders: string[];
+}
+
+/** A difference between the on-chain holders and the configured ones */
+export interface RoleDrift {
+  name: VetraRoleName;
+  account: string;
+  /** "unexpected": holds the role without being configured; "missing": the reverse */
+  kind: "unexpected" | "missing";
+}
+
+/**
+ * Replays every RoleGranted and RoleRevoked event since `fromBlock` and
+ * returns the current holders of each Vetra role. Logs are queried
+ * `blockRange` blocks at a time. Throws if the result disagrees with
+ * hasRole, which means the event history is incomplete (e.g. `fromBlock`
+ * is after the deployment).
+ */
+export async function loadRoleHolders(
+  vetra: Vetra,
+  fromBlock: number,
+  blockRange: number = LOG_BLOCK_RANGE
+): Promise<RoleHolders[]> {
+  const latest = await ethers.provider.getBlockNumber();
+  const granted = [];
+  const revoked = [];
+  for (let start = fromBlock; start <= latest; start += blockRange) {
+    const end = Math.min(start + blockRange - 1, latest);
+    granted.push(
+      ...(await vetra.queryFilter(vetra.filters.RoleGranted(), start, end))
+    );
+    revoked.push(
+      ...(await vetra.queryFilter(vetra.filters.RoleRevoked(), start, end))
+    );
+  }
+
+  const events = [
+    ...granted.map((event) => ({ event, granted: true })),
+    ...revoked.map((event) => ({ event, granted: false })),
+  ].sort(
+    (a, b) =>
+      a.event.blockNumber - b.event.blockNumber ||
+      a.event.index - b.event.index
+  );
+
+  // Role ID -> holders; a Set keeps grant order
+  const members = new Map<string, Set<string>>();
+  for (const { event, granted: isGrant } of events) {
+    const { role, account } = event.args;
+    const holders = members.get(role) ?? new Set<string>();
+    if (isGrant) {
+      holders.add(account);
+    } else {
+      holders.delete(account);
+    }
+    members.set(role, holders);
+  }
+
+  const result: RoleHolders[] = [];
+  for (const name of VETRA_ROLES) {
+    const role = getRoleId(name);
+    const holders: string[] = [];
+    for (const account of members.get(role) ?? []) {
+      if (await vetra.hasRole(role, account)) {
+        holders.push(account);
+        continue;
+      }
+      // A migrated proxy only recognises defaultAdmin; a grant that
+      // initializeDefaultAdmin left behind carries no rights
+      if (
+        name === "DEFAULT_ADMIN_ROLE" &&
+        (await vetra.defaultAdmin()) !== ZeroAddress
+      ) {
+        continue;
+      }
+      throw new Error(
+        `Event history says ${account} holds ${name}, but hasRole is false. ` +
+          `Search from an earlier block.`
+      );
+    }
+
+    result.push({ name, role, holders });
+  }
+  return result;
+}
+
+/**
+ * Compares the holders of each configured role with the expected accounts.
+ * Roles missing from `expected` are not checked.
+ */
+export function findRoleDrift(
+  holders: RoleHolders[],
+  expected: Partial<Record<VetraRoleName, string[]>>
+): RoleDrift[] {
+  const drift: RoleDrift[] = [];
+
+  for (const { name, holders: accounts } of holders) {
+    const wanted = expected[name];
+    if (!wanted) continue;
+
+    const actual = new Set(accounts.map((a) => a.toLowerCase()));
+    const configured = new Set(wanted.map((a) => a.toLowerCase()));
+
+    for (const account of accounts) {
+      if (!configured.has(account.toLowerCase())) {
+        drift.push({ name, account, kind: "unexpected" });
+      }
+    }
+    for (const account of wanted) {
+      if (!actual.has(account.toLowerCase())) {
+        drift.push({ name, account, kind: "missing" });
+      }
+    }
+  }
+
+  return drift;
+}
+
+/**
+ * Adds the companion contracts recorded for a deployment to the expected
+ * holders of the role each needs
+ */
+export function withCompanionHolders(
+  expected: Partial<Record<VetraRoleName, string[]>>,
+  deployment: Pick<DeploymentRecord, "contracts">
+): Partial<Record<VetraRoleName, string[]>> {
+  const result = { ...expected };
+  for (const [contractName, roleName] of Object.entries(COMPANION_ROLES)) {
+    const record = deployment.contracts?.[contractName];
+    if (record) {
+      result[roleName] = [...(result[roleName] ?? []), record.address];
+    }
+  }
+  return result;
+}
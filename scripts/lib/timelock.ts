@@ -0,0 +1,171 @@
+import { ethers } from "hardhat";
+import { BytesLike, Interface, keccak256 } from "ethers";
+import { Vetra } from "../../typechain-types";
+import { LOG_BLOCK_RANGE } from "./roles";
+
+/**
+ * Timelocked Operations
+ *
+ * Helpers shared by the scripts that schedule, list and execute timelocked
+ * Vetra calls. An operation is identified by the keccak256 of its calldata
+ * and is executed by sending exactly that calldata to the proxy.
+ */
+
+/**
+ * Vetra functions that only run as scheduled operations while the timelock is
+ * on, mapped to the role that executes them. Scheduling and cancelling always
+ * take DEFAULT_ADMIN_ROLE.
+ */
+export const TIMELOCKED_FUNCTIONS: Record<string, string> = {
+  setReserveTTL: "POLICY_ADMIN_ROLE",
+  setMintPerTxLimit: "POLICY_ADMIN_ROLE",
+  setMintRateWindow: "POLICY_ADMIN_ROLE",
+  setGlobalMintRateLimit: "POLICY_ADMIN_ROLE",
+  setMinterMintRateLimit: "POLICY_ADMIN_ROLE",
+  configureMintApprovals: "POLICY_ADMIN_ROLE",
+  setAllowlistEnabled: "POLICY_ADMIN_ROLE",
+  updateChainlinkConfig: "ORACLE_ADMIN_ROLE",
+  setApprovedSource: "ORACLE_ADMIN_ROLE",
+  setMaxReserveDeviationBps: "ORACLE_ADMIN_ROLE",
+  setTimelockDelay: "DEFAULT_ADMIN_ROLE",
+  upgradeToAndCall: "UPGRADER_ROLE",
+};
+
+export interface ScheduledOperation {
+  operationId: string;
+  data: string;
+  readyAt: bigint;
+  /** Decoded call, e.g. "setReserveTTL(1800)" */
+  description: string;
+  /** Function name, or undefined if the calldata is not a Vetra call */
+  functionName?: string;
+}
+
+/**
+ * Returns the ID scheduleOperation assigns to a call
+ */
+export function getOperationId(data: BytesLike): string {
+  return keccak256(data);
+}
+
+/**
+ * Returns the timelock command that schedules `fn(...args)`
+ */
+export function formatScheduleCommand(
+  fn: string,
+  args: unknown[],
+  networkName: string
+): string {
+  const json = JSON.stringify(args, (_, v) =>
+    typeof v === "bigint" ? v.toString() : v
+  );
+  return (
+    `TIMELOCK_ACTION=schedule TIMELOCK_CALL=${fn} ` +
+    `TIMELOCK_CALL_ARGS='${json}' npm run timelock:${networkName}`
+  );
+}
+
+/**
+ * Throws unless a call to `fn` with calldata `data` can run now: the
+ * function is not timelocked, the timelock is off, or the call was
+ * scheduled and is ready. The error for an unscheduled call includes the
+ * command that schedules it.
+ */
+export async function assertTimelockReady(
+  vetra: Vetra,
+  fn: string,
+  args: unknown[],
+  networkName: string
+): Promise<void> {
+  if (!(fn in TIMELOCKED_FUNCTIONS) || (await vetra.timelockDelay()) === 0n) {
+    return;
+  }
+
+  const vetraInterface: Interface = vetra.interface;
+  const data = vetraInterface.encodeFunctionData(fn, args);
+  const operationId = getOperationId(data);
+  const readyAt = await vetra.timelockReadyAt(operationId);
+  const now = BigInt((await ethers.provider.getBlock("latest"))!.timestamp);
+
+  if (readyAt === 0n) {
+    throw new Error(
+      `${fn} is timelocked and this call has not been scheduled. Schedule it with:\n` +
+        `   ${formatScheduleCommand(fn, args, networkName)}`
+    );
+  }
+  if (now < readyAt) {
+    throw new Error(
+      `Scheduled operation ${operationId} is not ready until ${new Date(
+        Number(readyAt) * 1000
+      ).toISOString()}.`
+    );
+  }
+  console.log(`⏱️  Executing scheduled operation ${operationId}\n`);
+}
+
+/**
+ * Decodes operation calldata into a readable call
+ */
+export function describeOperation(
+  vetraInterface: Interface,
+  data: string
+): { description: string; functionName?: string } {
+  const parsed = vetraInterface.parseTransaction({ data });
+  if (!parsed) {
+    return { description: `unknown call ${data.slice(0, 10)}` };
+  }
+  const args = parsed.args.map((arg) =>
+    typeof arg === "bigint" ? arg.toString() : String(arg)
+  );
+  return {
+    description: `${parsed.name}(${args.join(", ")})`,
+    functionName: parsed.name,
+  };
+}
+
+/**
+ * Loads the operations that are still scheduled (neither executed nor
+ * cancelled). Logs are queried `blockRange` blocks at a time.
+ * @param fromBlock First block to search for OperationScheduled events
+ */
+export async function loadScheduledOperations(
+  vetra: Vetra,
+  fromBlock: number,
+  blockRange: number = LOG_BLOCK_RANGE
+): Promise<ScheduledOperation[]> {
+  const latestBlock = await ethers.provider.getBlockNumber();
+  const events = [];
+  for (let start = fromBlock; start <= latestBlock; start += blockRange) {
+    const end = Math.min(start + blockRange - 1, latestBlock);
+    events.push(
+      ...(await vetra.queryFilter(
+        vetra.filters.OperationScheduled(),
+        start,
+        end
+      ))
+    );
+  }
+
+  // The same calldata can be scheduled again after it ran or was cancelled
+  const latest = new Map<string, { data: string; readyAt: bigint }>();
+  for (const event of events) {
+    latest.set(event.args.operationId, {
+      data: event.args.data,
+      readyAt: event.args.readyAt,
+    });
+  }
+
+  const scheduled: ScheduledOperation[] = [];
+  for (const [operationId, { data, readyAt }] of latest) {
+    if ((await vetra.timelockReadyAt(operationId)) !== readyAt) continue;
+    scheduled.push({
+      operationId,
+      data,
+      readyAt,
+      ...describeOperation(vetra.interface, data),
+    });
+  }
+  return scheduled.sort((a, b) =>
+    a.readyAt < b.readyAt ? -1 : a.readyAt > b.readyAt ? 1 : 0
+  );
+}
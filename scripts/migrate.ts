@@ -0,0 +1,220 @@
+import { ethers } from "hardhat";
+import {
+  getNetworkName,
+  getDeploymentName,
+  getMigrationComplianceAddress,
+  getMinterAllowance,
+  displayConfig,
+} from "../config/env";
+import { Vetra } from "../typechain-types";
+import { getDeployment } from "./lib/deployments";
+import { preflight, printError } from "./lib/errors";
+import {
+  MIGRATION_STEPS,
+  getInitializedVersion,
+  planAllowanceSeeds,
+  planMigrations,
+} from "./lib/migrations";
+import { confirm } from "./lib/prompt";
+import { loadRoleHolders } from "./lib/roles";
+
+/**
+ * Migrate Proxy
+ *
+ * Runs the reinitializers an upgraded proxy has not run yet, in order, as
+ * direct calls from a DEFAULT_ADMIN_ROLE holder. Run it right after
+ * upgrading a proxy deployed before the current implementation: until
+ * initializeRoles has run, nobody holds UPGRADER_ROLE or PAUSER_ROLE, so
+ * the reinitializers cannot go through a later upgrade. Proxies deployed
+ * with the current implementation have nothing to migrate. The other
+ * DEFAULT_ADMIN_ROLE holders, which initializeDefaultAdmin revokes, are
+ * read from the role events. A proxy from before minter allowances then
+ * has every MINTER_ROLE holder without an allowance configured to
+ * MINTER_ALLOWANCE. On polygon the plan is confirmed first.
+ *
+ * Options (environment):
+ *   MIGRATION_COMPLIANCE_ADDRESS  Receives COMPLIANCE_ROLE in
+ *                                 initializeCompliance (default: the signer)
+ *   MINTER_ALLOWANCE              VTR allowance for each minter without one;
+ *                                 required with initializeMinterAdmin ("0"
+ *                                 leaves minting stopped)
+ */
+
+function formatArgs(args: unknown[]): string {
+  return args
+    .map((arg) => (Array.isArray(arg) ? `[${arg.join(", ")}]` : String(arg)))
+    .join(", ");
+}
+
+async function main() {
+  console.log("\n========================================");
+  console.log("VETRA PROXY MIGRATION");
+  console.log("========================================\n");
+
+  displayConfig();
+
+  const networkName = getNetworkName();
+  const deploymentName = getDeploymentName();
+  const [signer] = await ethers.getSigners();
+
+  console.log("Migrating with account:", signer.address);
+
+  // Load deployment info
+  const deployment = getDeployment(networkName, deploymentName);
+  const proxyAddress = deployment.proxy;
+
+  console.log("Vetra contract:", proxyAddress);
+  console.log("");
+
+  const vetra = (await ethers.getContractAt(
+    "Vetra",
+    proxyAddress
+  )) as unknown as Vetra;
+
+  const complianceAdmin = getMigrationComplianceAddress() ?? signer.address;
+  if (!ethers.isAddress(complianceAdmin)) {
+    throw new Error(`Invalid MIGRATION_COMPLIANCE_ADDRESS: ${complianceAdmin}`);
+  }
+
+  const minterAllowance = getMinterAllowance();
+  const allowance = ethers.parseEther(minterAllowance ?? "0");
+
+  const version = await getInitializedVersion(vetra);
+  console.log("Initialized version:", version);
+  if (version >= MIGRATION_STEPS[MIGRATION_STEPS.length - 1].version) {
+    console.log("✅ Nothing to migrate\n");
+    return;
+  }
+
+  const roles = await loadRoleHolders(vetra, deployment.deployBlock ?? 0);
+  const admins =
+    roles.find(({ name }) => name === "DEFAULT_ADMIN_ROLE")?.holders ?? [];
+  const otherAdmins = admins.filter(
+    (account) => account.toLowerCase() !== signer.address.toLowerCase()
+  );
+  const planned = await planMigrations(vetra, { complianceAdmin, otherAdmins });
+
+  // Minters are only configured by the migration that grants the first
+  // MINTER_ADMIN_ROLE; later allowances go through configureMinter
+  const grantsMinterAdmin = planned.some(
+    ({ step }) => step.fn === "initializeMinterAdmin"
+  );
+  if (grantsMinterAdmin && minterAllowance === undefined) {
+    throw new Error(
+      "MINTER_ALLOWANCE is required: every minter's allowance is 0 after " +
+        'the upgrade. Set it to the VTR each minter may mint, or to "0" to ' +
+        "configure allowances later."
+    );
+  }
+
+  const minters =
+    roles.find(({ name }) => name === "MINTER_ROLE")?.holders ?? [];
+  const seeds =
+    grantsMinterAdmin && allowance > 0n
+      ? await planAllowanceSeeds(vetra, minters, allowance)
+      : [];
+
+  console.log("========================================");
+  console.log("PENDING REINITIALIZERS");
+  console.log("========================================");
+  for (const { step, args } of planned) {
+    console.log(
+      `${step.version}. ${step.fn}(${formatArgs(args)})  ${step.description}`
+    );
+  }
+  console.log("");
+
+  if (seeds.length > 0) {
+    console.log("========================================");
+    console.log("MINTER ALLOWANCES");
+    console.log("========================================");
+    for (const { minter } of seeds) {
+      console.log(`configureMinter(${minter}, ${minterAllowance} VTR)`);
+    }
+    console.log("");
+  }
+
+  const DEFAULT_ADMIN_ROLE = await vetra.DEFAULT_ADMIN_ROLE();
+  if (!(await vetra.hasRole(DEFAULT_ADMIN_ROLE, signer.address))) {
+    throw new Error(
+      `Account ${signer.address} does not have DEFAULT_ADMIN_ROLE. Only the admin can migrate.`
+    );
+  }
+
+  if (networkName === "polygon") {
+    const question =
+      `Run ${planned.length} reinitializer(s) and configure ` +
+      `${seeds.length} minter allowance(s) on polygon?`;
+    if (!(await confirm(question))) {
+      console.log("Aborted; nothing was sent.\n");
+      return;
+    }
+    console.log("");
+  }
+
+  // Each step needs the ones before it, so each is pre-flighted just
+  // before it is sent
+  for (const { step, args } of planned) {
+    const description = `${step.fn}(${formatArgs(args)})`;
+    await preflight(description, networkName, () =>
+      vetra.getFunction(step.fn).staticCall(...args)
+    );
+
+    console.log(`Sending ${description}...`);
+    try {
+      const tx = await vetra.getFunction(step.fn)(...args);
+      console.log("Transaction hash:", tx.hash);
+      const receipt = await tx.wait();
+      console.log("✅ Confirmed in block:", receipt?.blockNumber);
+    } catch (error: any) {
+      console.error(`\n❌ Failed: ${description}`);
+      printError(error, networkName);
+      console.error(
+        `   Initialized version is now ${await getInitializedVersion(vetra)}. Rerun to continue.`
+      );
+      throw error;
+    }
+  }
+
+  // MINTER_ADMIN_ROLE comes from initializeMinterAdmin above
+  for (const { minter, allowance: amount } of seeds) {
+    const description = `configureMinter(${minter}, ${minterAllowance} VTR)`;
+    await preflight(description, networkName, () =>
+      vetra.configureMinter.staticCall(minter, amount)
+    );
+
+    console.log(`Sending ${description}...`);
+    const tx = await vetra.configureMinter(minter, amount);
+    console.log("Transaction hash:", tx.hash);
+    const receipt = await tx.wait();
+    console.log("✅ Confirmed in block:", receipt?.blockNumber);
+  }
+
+  console.log("\n========================================");
+  console.log("MIGRATION SUMMARY");
+  console.log("========================================");
+  console.log(
+    "Initialized version:",
+    version,
+    "->",
+    await getInitializedVersion(vetra)
+  );
+  console.log("Default admin:", await vetra.defaultAdmin());
+  console.log("Minter allowances configured:", seeds.length);
+  console.log("Network:", networkName);
+  console.log("Deployment:", deploymentName);
+  console.log("========================================");
+  console.log("\nNext steps:");
+  console.log(
+    `1. Hand the operational roles over: ROLE_ACTION=rotate npm run roles:${networkName}`
+  );
+  console.log(`2. Check the role holders: npm run audit-roles:${networkName}`);
+  console.log("========================================\n");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,244 @@
+import { ethers } from "hardhat";
+import {
+  getNetworkName,
+  getMintCsv,
+  getMintTo,
+  getMintAmount,
+  getMintReportPath,
+  displayConfig,
+} from "../config/env";
+import { Vetra } from "../typechain-types";
+import { getDeployment } from "./lib/deployments";
+import { AmountRow, parseAmountRows, readCsv } from "./lib/csv";
+import { checkMints } from "./lib/mints";
+import { describeError, preflight, printError } from "./lib/errors";
+import { confirm } from "./lib/prompt";
+import { getDefaultReportPath, vtr, writeReport } from "./lib/reports";
+
+/**
+ * Mint
+ *
+ * Mints to one recipient (MINT_TO, MINT_AMOUNT) or to every row of a CSV
+ * (MINT_CSV). Before sending anything it checks the total against the
+ * available capacity, the minter allowance and the rate limits, and each
+ * mint against the per-transaction limit, the approval threshold, the
+ * allowlist and the blocklist, as well as the pause and reserve freshness;
+ * each mint is then run as a static call. On polygon the plan is confirmed
+ * first. Mints are sent one at a time, and a JSON report with each
+ * transaction hash and TokensMinted event is written after every mint, so a
+ * failed run shows what was minted.
+ *
+ * CSV format (header row optional, "#" starts a comment line):
+ *   recipient,amount
+ *   0x1234...,250000
+ *   0x5678...,1000.50
+ *
+ * Options (environment):
+ *   MINT_CSV     Path to the CSV file (amounts in VTR)
+ *   MINT_TO      Recipient, without MINT_CSV
+ *   MINT_AMOUNT  Amount in VTR, without MINT_CSV
+ *   MINT_REPORT  Report path (default: reports/mint-<network>-<time>.json)
+ */
+
+interface MintReportEntry {
+  line: number;
+  recipient: string;
+  amount: string;
+  status: "minted" | "failed" | "not sent";
+  txHash?: string;
+  blockNumber?: number;
+  /** Decoded TokensMinted event */
+  event?: {
+    to: string;
+    amount: string;
+    operator: string;
+    totalSupplyAfter: string;
+    reserveAfter: string;
+    timestamp: number;
+  };
+  error?: string;
+}
+
+interface MintReport {
+  network: string;
+  vetra: string;
+  minter: string;
+  source: string;
+  startedAt: string;
+  finishedAt?: string;
+  total: string;
+  minted: string;
+  mints: MintReportEntry[];
+}
+
+function loadMints(): { source: string; mints: AmountRow[] } {
+  const csvPath = getMintCsv();
+  if (csvPath) {
+    const rows = readCsv(csvPath, "recipient");
+    return { source: csvPath, mints: parseAmountRows(rows) };
+  }
+
+  const to = getMintTo();
+  const amount = getMintAmount();
+  const [mint] = parseAmountRows([{ line: 0, fields: [to, amount] }]);
+  return { source: "MINT_TO / MINT_AMOUNT", mints: [mint] };
+}
+
+async function main() {
+  console.log("\n========================================");
+  console.log("VETRA MINT");
+  console.log("========================================\n");
+
+  displayConfig();
+
+  const networkName = getNetworkName();
+  const [signer] = await ethers.getSigners();
+
+  console.log("Minting with account:", signer.address);
+
+  // Load deployment info
+  const deployment = getDeployment(networkName);
+  const proxyAddress = deployment.proxy;
+
+  console.log("Vetra contract:", proxyAddress);
+  console.log("");
+
+  const vetra = (await ethers.getContractAt(
+    "Vetra",
+    proxyAddress
+  )) as unknown as Vetra;
+
+  const { source, mints } = loadMints();
+  if (mints.length === 0) {
+    throw new Error(`No mints in ${source}.`);
+  }
+  const total = mints.reduce((sum, m) => sum + m.amount, 0n);
+
+  console.log("========================================");
+  console.log("MINTS");
+  console.log("========================================");
+  console.log("Source:", source);
+  for (const { account, amount, line } of mints) {
+    console.log(
+      `${line > 0 ? `line ${line}: ` : ""}${account}  ${vtr(amount)}`
+    );
+  }
+  console.log("");
+  console.log("Mints:", mints.length);
+  console.log("Total:", vtr(total));
+  console.log("Available capacity:", vtr(await vetra.availableMintCapacity()));
+  console.log("");
+
+  // Pre-flight: the mint rules, then a static call of each mint
+  const problems = await checkMints(vetra, signer.address, mints);
+  if (problems.length > 0) {
+    console.log("❌ Pre-flight checks failed; nothing was sent:");
+    for (const problem of problems) {
+      console.log(`   - ${problem}`);
+    }
+    console.log("");
+    throw new Error(`${problems.length} pre-flight check(s) failed.`);
+  }
+  for (const { account, amount, line } of mints) {
+    await preflight(
+      `Mint to ${account}${line > 0 ? ` (line ${line})` : ""}`,
+      networkName,
+      () => vetra.mint.staticCall(account, amount)
+    );
+  }
+  console.log("✅ Pre-flight checks passed\n");
+
+  if (networkName === "polygon") {
+    const question = `Mint ${vtr(total)} in ${mints.length} transaction(s) on polygon?`;
+    if (!(await confirm(question))) {
+      console.log("Aborted; nothing was sent.\n");
+      return;
+    }
+    console.log("");
+  }
+
+  const reportPath =
+    getMintReportPath() ?? getDefaultReportPath("mint", networkName);
+  const report: MintReport = {
+    network: networkName,
+    vetra: proxyAddress,
+    minter: signer.address,
+    source,
+    startedAt: new Date().toISOString(),
+    total: ethers.formatEther(total),
+    minted: "0.0",
+    mints: mints.map(({ account, amount, line }) => ({
+      line,
+      recipient: account,
+      amount: ethers.formatEther(amount),
+      status: "not sent",
+    })),
+  };
+
+  let minted = 0n;
+  for (const [i, { account, amount }] of mints.entries()) {
+    const entry = report.mints[i];
+    console.log(
+      `Mint ${i + 1}/${mints.length}: ${vtr(amount)} to ${account}...`
+    );
+    try {
+      const tx = await vetra.mint(account, amount);
+      entry.txHash = tx.hash;
+      console.log("Transaction hash:", tx.hash);
+      const receipt = await tx.wait();
+      entry.blockNumber = receipt?.blockNumber;
+
+      for (const log of receipt?.logs ?? []) {
+        const event = vetra.interface.parseLog(log);
+        if (event?.name === "TokensMinted") {
+          entry.event = {
+            to: event.args.to,
+            amount: ethers.formatEther(event.args.amount),
+            operator: event.args.operator,
+            totalSupplyAfter: ethers.formatEther(event.args.totalSupplyAfter),
+            reserveAfter: event.args.reserveAfter.toString(),
+            timestamp: Number(event.args.timestamp),
+          };
+        }
+      }
+      entry.status = "minted";
+      minted += amount;
+      report.minted = ethers.formatEther(minted);
+      console.log("✅ Confirmed in block:", receipt?.blockNumber);
+    } catch (error: any) {
+      entry.status = "failed";
+      entry.error = describeError(error);
+      report.finishedAt = new Date().toISOString();
+      writeReport(reportPath, report);
+
+      console.error(`\n❌ Mint ${i + 1} failed:`);
+      printError(error, networkName);
+      console.error(
+        `   ${i} of ${mints.length} mints went through (${vtr(minted)}). Report: ${reportPath}`
+      );
+      throw error;
+    }
+    writeReport(reportPath, report);
+  }
+
+  report.finishedAt = new Date().toISOString();
+  writeReport(reportPath, report);
+
+  console.log("\n========================================");
+  console.log("MINT SUMMARY");
+  console.log("========================================");
+  console.log("Mints:", mints.length);
+  console.log("Minted:", vtr(minted));
+  console.log("Total Supply:", vtr(await vetra.totalSupply()));
+  console.log("Remaining Capacity:", vtr(await vetra.availableMintCapacity()));
+  console.log("Report:", reportPath);
+  console.log("Network:", networkName);
+  console.log("========================================\n");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -1,7 +1,7 @@
 import { ethers } from "hardhat";
-import * as fs from "fs";
-import * as path from "path";
 import { getNetworkName, displayConfig } from "../config/env";
+import { getDeployment } from "./lib/deployments";
+import { preflight, printError } from "./lib/errors";
 
 /**
  * Mint Full Reserve Amount
@@ -26,20 +26,7 @@ async function main() {
   console.log("Account balance:", ethers.formatEther(balance), "POL\n");
 
   // Load deployment info
-  const deploymentFile = path.join(
-    __dirname,
-    "..",
-    "deployments",
-    `${networkName}.json`
-  );
-
-  if (!fs.existsSync(deploymentFile)) {
-    throw new Error(
-      `Deployment file not found: ${deploymentFile}. Run deployment first.`
-    );
-  }
-
-  const deployment = JSON.parse(fs.readFileSync(deploymentFile, "utf8"));
+  const deployment = getDeployment(networkName);
   const proxyAddress = deployment.proxy;
 
   console.log("Vetra contract:", proxyAddress);
@@ -103,7 +90,8 @@ async function main() {
     if (!isFresh) {
       console.log("❌ Reserve is stale! Minting will fail.");
       console.log("   Run: npx cross-env NODE_ENV=production hardhat run scripts/updateReserve.ts --network polygon");
-      console.log("   Then wait 1-2 minutes for Chainlink Functions to fulfill.\n");
+      console.log("   Then wait 1-2 minutes for Chainlink Functions to fulfill.");
+      console.log("   Or keep it fresh automatically: npm run keeper:polygon\n");
       process.exit(1);
     }
   } else {
@@ -118,6 +106,13 @@ async function main() {
     process.exit(1);
   }
 
+  if (await vetra.hasQuarantinedReserve()) {
+    console.log("❌ A reserve update is quarantined! Minting is blocked.");
+    console.log("   Review it with: npm run resolve-quarantine:polygon");
+    console.log("   Then confirm or reject it (admin only).\n");
+    process.exit(1);
+  }
+
   // Calculate maximum mintable amount
   const RESERVE_TO_TOKEN_SCALE = 10n ** 10n; // 10^10
   const reserveScaled = lastReserveUsd * RESERVE_TO_TOKEN_SCALE;
@@ -160,26 +155,99 @@ async function main() {
     process.exit(0);
   }
 
+  // Rolling-window mint rate limits
+  const mintRateWindow = await vetra.mintRateWindow();
+  const globalMintRateLimit = await vetra.globalMintRateLimit();
+  const minterMintRateLimit = await vetra.minterMintRateLimit();
+  const globalRemaining = await vetra.globalMintRateRemaining();
+  const minterRemaining = await vetra.minterMintRateRemaining(signer.address);
+
+  console.log("========================================");
+  console.log("MINT RATE LIMITS");
+  console.log("========================================");
+  if (mintRateWindow === 0n) {
+    console.log("Rate limits: Disabled");
+  } else {
+    console.log("Window:", mintRateWindow.toString(), "seconds");
+    console.log(
+      "Global limit:",
+      globalMintRateLimit === 0n
+        ? "None"
+        : `${ethers.formatEther(globalMintRateLimit)} VTR (remaining ${ethers.formatEther(globalRemaining)} VTR)`
+    );
+    console.log(
+      "Per-minter limit:",
+      minterMintRateLimit === 0n
+        ? "None"
+        : `${ethers.formatEther(minterMintRateLimit)} VTR (remaining ${ethers.formatEther(minterRemaining)} VTR)`
+    );
+  }
+  console.log("");
+
+  // Per-minter allowance (set by a MINTER_ADMIN_ROLE holder)
+  const minterAllowance = await vetra.minterAllowance(signer.address);
+  console.log("Minter allowance:", ethers.formatEther(minterAllowance), "VTR");
+  console.log("");
+
+  if (minterAllowance === 0n) {
+    console.log("❌ This minter has no allowance left! Minting will fail.");
+    console.log("   Ask a MINTER_ADMIN_ROLE holder to call configureMinter or increaseMinterAllowance.\n");
+    process.exit(1);
+  }
+
+  let mintAmount = maxMintable;
+  if (minterAllowance < mintAmount) mintAmount = minterAllowance;
+  if (globalRemaining < mintAmount) mintAmount = globalRemaining;
+  if (minterRemaining < mintAmount) mintAmount = minterRemaining;
+
+  // Larger mints must go through the proposal flow (npm run mint-proposals)
+  const mintApprovalThreshold = await vetra.mintApprovalThreshold();
+  if (mintApprovalThreshold > 0n && mintApprovalThreshold < mintAmount) {
+    mintAmount = mintApprovalThreshold;
+  }
+
+  if (mintAmount === 0n) {
+    console.log("❌ Mint rate limit reached for the current window.");
+    console.log("   Try again once the window has rolled on.\n");
+    process.exit(1);
+  }
+
+  if (mintAmount < maxMintable) {
+    console.log(
+      "⚠️  Allowance, rate limits and the approval threshold cap this mint at",
+      ethers.formatEther(mintAmount),
+      "VTR of the",
+      ethers.formatEther(maxMintable),
+      "VTR reserve capacity."
+    );
+    console.log("");
+  }
+
   // Determine recipient (use signer address)
   const recipient = signer.address;
 
   console.log("========================================");
   console.log("FULL MINT EXECUTION");
   console.log("========================================");
-  console.log("Mint Amount:", ethers.formatEther(maxMintable), "VTR");
+  console.log("Mint Amount:", ethers.formatEther(mintAmount), "VTR");
   console.log("Recipient:", recipient);
   console.log("");
 
   // Confirmation
   console.log("⚠️  You are about to mint the FULL reserve amount!");
-  console.log("   This will mint", ethers.formatEther(maxMintable), "VTR tokens.");
+  console.log("   This will mint", ethers.formatEther(mintAmount), "VTR tokens.");
   console.log("");
+
+  await preflight("Mint", networkName, () =>
+    vetra.mint.staticCall(recipient, mintAmount)
+  );
+
   console.log("⏳ Executing mint transaction...");
   console.log("");
 
   try {
     // Execute mint
-    const tx = await vetra.mint(recipient, maxMintable);
+    const tx = await vetra.mint(recipient, mintAmount);
     console.log("Transaction hash:", tx.hash);
     console.log("Waiting for confirmation...");
 
@@ -254,7 +322,7 @@ async function main() {
     console.log("========================================");
     console.log("Status: Success ✅");
     console.log("Transaction:", tx.hash);
-    console.log("Amount Minted:", ethers.formatEther(maxMintable), "VTR");
+    console.log("Amount Minted:", ethers.formatEther(mintAmount), "VTR");
     console.log("Network:", networkName);
     console.log("Explorer:", networkName === "polygon"
       ? `https://polygonscan.com/tx/${tx.hash}`
@@ -263,18 +331,7 @@ async function main() {
     console.log("========================================\n");
   } catch (error: any) {
     console.error("\n❌ Mint failed:");
-    console.error(error.message);
-
-    if (error.message.includes("ReserveStale")) {
-      console.error("\n💡 Reserve is stale. Update reserves and try again:");
-      console.error("   npx cross-env NODE_ENV=production hardhat run scripts/updateReserve.ts --network polygon");
-    } else if (error.message.includes("ReserveInsufficient")) {
-      console.error("\n💡 Insufficient reserves. This should not happen when minting maxMintable.");
-      console.error("   Check if reserves were updated during execution.");
-    } else if (error.message.includes("Pausable: paused")) {
-      console.error("\n💡 Contract is paused. Unpause it first (admin only).");
-    }
-
+    printError(error, networkName);
     console.error("");
     throw error;
   }
@@ -0,0 +1,283 @@
+import { ethers } from "hardhat";
+import {
+  getNetworkName,
+  getMintProposalAction,
+  getMintProposalId,
+  getMintTo,
+  getMintAmount,
+  getMintFundingRef,
+  displayConfig,
+} from "../config/env";
+import { Vetra, VetraMintApprovals } from "../typechain-types";
+import { getContractRecord, getDeployment } from "./lib/deployments";
+import { preflight, printError } from "./lib/errors";
+
+/**
+ * Mint Proposals
+ *
+ * Lists pending mint proposals and, with MINT_PROPOSAL_ACTION set, proposes
+ * a new mint (MINTER_ROLE), approves and executes one (MINT_APPROVER_ROLE,
+ * not the proposer) or cancels one (proposer or approver).
+ *
+ * Options (environment):
+ *   MINT_PROPOSAL_ACTION  "propose", "approve" or "cancel" (unset = only list)
+ *   MINT_TO               Recipient (propose)
+ *   MINT_AMOUNT           Amount in VTR (propose)
+ *   MINT_FUNDING_REF      Reference to the incoming funds, bytes32 hex or text up to 31 chars (propose)
+ *   MINT_PROPOSAL_ID      Proposal to approve or cancel
+ */
+
+const PAGE_SIZE = 100n;
+
+interface PendingProposal {
+  id: bigint;
+  to: string;
+  amount: bigint;
+  fundingRef: string;
+  proposer: string;
+  expiresAt: bigint;
+}
+
+function formatFundingRef(fundingRef: string): string {
+  if (fundingRef === ethers.ZeroHash) return "(none)";
+  try {
+    return ethers.decodeBytes32String(fundingRef);
+  } catch {
+    return fundingRef;
+  }
+}
+
+function parseFundingRef(fundingRef: string): string {
+  if (!fundingRef) return ethers.ZeroHash;
+  if (ethers.isHexString(fundingRef, 32)) return fundingRef;
+  return ethers.encodeBytes32String(fundingRef);
+}
+
+async function loadPending(
+  approvals: VetraMintApprovals
+): Promise<PendingProposal[]> {
+  const count = await approvals.pendingProposalCount();
+  const ids: bigint[] = [];
+  for (let offset = 0n; offset < count; offset += PAGE_SIZE) {
+    ids.push(...(await approvals.getPendingProposalIds(offset, PAGE_SIZE)));
+  }
+  ids.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+
+  const pending: PendingProposal[] = [];
+  for (const id of ids) {
+    const proposal = await approvals.proposals(id);
+    pending.push({
+      id,
+      to: proposal.to,
+      amount: proposal.amount,
+      fundingRef: proposal.fundingRef,
+      proposer: proposal.proposer,
+      expiresAt: proposal.expiresAt,
+    });
+  }
+  return pending;
+}
+
+async function main() {
+  console.log("\n========================================");
+  console.log("MINT PROPOSALS");
+  console.log("========================================\n");
+
+  displayConfig();
+
+  const networkName = getNetworkName();
+  const [signer] = await ethers.getSigners();
+  const action = getMintProposalAction();
+
+  console.log("Operator account:", signer.address);
+
+  // Load deployment info
+  const deployment = getDeployment(networkName);
+  const approvalsRecord = getContractRecord(
+    deployment,
+    "VetraMintApprovals",
+    `npm run deploy-mint-approvals:${networkName}`
+  );
+
+  console.log("Vetra contract:", deployment.proxy);
+  console.log("Mint approvals:", approvalsRecord.address);
+  console.log("");
+
+  const vetra = (await ethers.getContractAt(
+    "Vetra",
+    deployment.proxy
+  )) as unknown as Vetra;
+  const approvals = (await ethers.getContractAt(
+    "VetraMintApprovals",
+    approvalsRecord.address
+  )) as unknown as VetraMintApprovals;
+
+  const threshold = await vetra.mintApprovalThreshold();
+  const configured = await vetra.mintApprovals();
+  console.log(
+    "Approval threshold:",
+    threshold === 0n ? "disabled" : `${ethers.formatEther(threshold)} VTR`
+  );
+  if (configured.toLowerCase() !== approvalsRecord.address.toLowerCase()) {
+    console.log(
+      `⚠️  Vetra routes approved mints through ${configured}, not this contract`
+    );
+  }
+  console.log(
+    "Approvals minter allowance:",
+    ethers.formatEther(await vetra.minterAllowance(approvalsRecord.address)),
+    "VTR"
+  );
+  console.log("");
+
+  if (action === "propose") {
+    const to = getMintTo();
+    const amount = ethers.parseEther(getMintAmount());
+    const fundingRef = parseFundingRef(getMintFundingRef());
+
+    const MINTER_ROLE = await vetra.MINTER_ROLE();
+    if (!(await vetra.hasRole(MINTER_ROLE, signer.address))) {
+      throw new Error(
+        `Account ${signer.address} does not have MINTER_ROLE. Only a minter can propose mints.`
+      );
+    }
+
+    await preflight("Mint proposal", networkName, () =>
+      approvals.proposeMint.staticCall(to, amount, fundingRef)
+    );
+
+    console.log(`Proposing ${ethers.formatEther(amount)} VTR to ${to}...`);
+    const id = await approvals.nextProposalId();
+    const tx = await approvals.proposeMint(to, amount, fundingRef);
+    console.log("Transaction hash:", tx.hash);
+    const receipt = await tx.wait();
+    console.log("✅ Confirmed in block:", receipt?.blockNumber);
+    console.log(`✅ Proposal #${id} created`);
+    console.log(
+      `   Approve with: MINT_PROPOSAL_ACTION=approve MINT_PROPOSAL_ID=${id} npm run mint-proposals:${networkName}\n`
+    );
+    return;
+  }
+
+  if (action === "approve" || action === "cancel") {
+    const id = getMintProposalId();
+    const proposal = await approvals.proposals(id);
+    if (proposal.status !== 1n) {
+      throw new Error(`Proposal #${id} is not pending.`);
+    }
+
+    const MINT_APPROVER_ROLE = await vetra.MINT_APPROVER_ROLE();
+    const isApprover = await vetra.hasRole(MINT_APPROVER_ROLE, signer.address);
+    const isProposer =
+      proposal.proposer.toLowerCase() === signer.address.toLowerCase();
+
+    if (action === "approve") {
+      if (!isApprover) {
+        throw new Error(
+          `Account ${signer.address} does not have MINT_APPROVER_ROLE. Only an approver can approve mints.`
+        );
+      }
+      if (isProposer) {
+        throw new Error(
+          `Account ${signer.address} proposed #${id}; a different approver must approve it.`
+        );
+      }
+      if (!(await approvals.isApprovable(id))) {
+        throw new Error(
+          `Proposal #${id} expired at ${new Date(
+            Number(proposal.expiresAt) * 1000
+          ).toISOString()}. Cancel it and propose again.`
+        );
+      }
+    } else if (!isApprover && !isProposer) {
+      throw new Error(
+        `Account ${signer.address} can't cancel #${id}: only the proposer or a MINT_APPROVER_ROLE holder can.`
+      );
+    }
+
+    const description = `${action === "approve" ? "Approving" : "Cancelling"} #${id}`;
+    await preflight(description, networkName, () =>
+      action === "approve"
+        ? approvals.approveMint.staticCall(id)
+        : approvals.cancelMintProposal.staticCall(id)
+    );
+
+    const supplyBefore = await vetra.totalSupply();
+
+    try {
+      console.log(
+        `${action === "approve" ? "Approving" : "Cancelling"} #${id} ` +
+          `(${ethers.formatEther(proposal.amount)} VTR to ${proposal.to})...`
+      );
+      const tx =
+        action === "approve"
+          ? await approvals.approveMint(id)
+          : await approvals.cancelMintProposal(id);
+      console.log("Transaction hash:", tx.hash);
+      const receipt = await tx.wait();
+      console.log("✅ Confirmed in block:", receipt?.blockNumber);
+    } catch (error: any) {
+      console.error(`\n❌ Failed to ${action} proposal #${id}:`);
+      printError(error, networkName);
+      throw error;
+    }
+
+    console.log("\n========================================");
+    console.log("MINT PROPOSAL SUMMARY");
+    console.log("========================================");
+    console.log("Action:", action === "approve" ? "Approved and minted" : "Cancelled");
+    console.log("Proposal:", `#${id}`);
+    console.log("Recipient:", proposal.to);
+    console.log("Amount:", ethers.formatEther(proposal.amount), "VTR");
+    console.log("Total Supply Before:", ethers.formatEther(supplyBefore), "VTR");
+    console.log(
+      "Total Supply After:",
+      ethers.formatEther(await vetra.totalSupply()),
+      "VTR"
+    );
+    console.log("Network:", networkName);
+    console.log("========================================\n");
+    return;
+  }
+
+  const pending = await loadPending(approvals);
+  const now = BigInt(
+    (await ethers.provider.getBlock("latest"))!.timestamp
+  );
+
+  console.log("========================================");
+  console.log("PENDING MINT PROPOSALS");
+  console.log("========================================");
+  if (pending.length === 0) {
+    console.log("(none)");
+  }
+  for (const proposal of pending) {
+    console.log(
+      `#${proposal.id}  ${ethers.formatEther(proposal.amount)} VTR → ${proposal.to}` +
+        (now > proposal.expiresAt ? "  ⌛ EXPIRED" : "")
+    );
+    console.log(`     Funding:   ${formatFundingRef(proposal.fundingRef)}`);
+    console.log(`     Proposer:  ${proposal.proposer}`);
+    console.log(
+      `     Expires:   ${new Date(Number(proposal.expiresAt) * 1000).toISOString()}`
+    );
+  }
+  console.log("");
+
+  if (pending.length > 0) {
+    console.log(
+      `   MINT_PROPOSAL_ACTION=approve MINT_PROPOSAL_ID=1 npm run mint-proposals:${networkName}   # mint`
+    );
+    console.log(
+      `   MINT_PROPOSAL_ACTION=cancel MINT_PROPOSAL_ID=2 npm run mint-proposals:${networkName}    # drop`
+    );
+    console.log("");
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -1,7 +1,11 @@
 import { ethers } from "hardhat";
-import * as fs from "fs";
-import * as path from "path";
-import { getNetworkName } from "../config/env";
+import { getMinterAddress, getNetworkName } from "../config/env";
+import { getDeployment } from "./lib/deployments";
+import {
+  decodeFailureReason,
+  formatDeviationBps,
+} from "./lib/reserveUpdates";
+import { describeOperation } from "./lib/timelock";
 
 async function main() {
   console.log("\n========================================");
@@ -12,20 +16,7 @@ async function main() {
   console.log("Network:", networkName);
 
   // Load deployment info
-  const deploymentFile = path.join(
-    __dirname,
-    "..",
-    "deployments",
-    `${networkName}.json`
-  );
-
-  if (!fs.existsSync(deploymentFile)) {
-    throw new Error(
-      `Deployment file not found: ${deploymentFile}. Run deployment first.`
-    );
-  }
-
-  const deployment = JSON.parse(fs.readFileSync(deploymentFile, "utf8"));
+  const deployment = getDeployment(networkName);
   const proxyAddress = deployment.proxy;
 
   console.log("Vetra contract:", proxyAddress);
@@ -105,16 +96,93 @@ async function main() {
           console.log(`  Request ID: ${event.args[3]}`);
           break;
 
+        case "ReserveUpdateFailed":
+          console.log(`  Request ID: ${event.args[0]}`);
+          console.log(`  Reason: ${decodeFailureReason(event.args[1])}`);
+          break;
+
+        case "ReserveQuarantined":
+          console.log(`  Request ID: ${event.args[0]}`);
+          console.log(
+            `  Reported USD: $${(Number(event.args[1]) / 100000000).toFixed(2)}`
+          );
+          console.log(
+            `  Previous USD: $${(Number(event.args[3]) / 100000000).toFixed(2)}`
+          );
+          console.log(`  Deviation: ${formatDeviationBps(event.args[4])}`);
+          break;
+
+        case "QuarantinedReserveResolved":
+          console.log(`  Request ID: ${event.args[0]}`);
+          console.log(`  Accepted: ${event.args[1]}`);
+          console.log(`  Admin: ${event.args[2]}`);
+          break;
+
+        case "MaxReserveDeviationUpdated":
+          console.log(`  Old Limit: ${event.args[0]} bps`);
+          console.log(`  New Limit: ${event.args[1]} bps`);
+          break;
+
+        case "ApprovedSourceUpdated":
+          console.log(`  Source Hash: ${event.args[0]}`);
+          console.log(`  Version: ${event.args[1]}`);
+          console.log(`  URI: ${event.args[2] || "(none)"}`);
+          break;
+
         case "ReserveTTLUpdated":
           console.log(`  Old TTL: ${event.args[0]} seconds`);
           console.log(`  New TTL: ${event.args[1]} seconds`);
           break;
 
         case "MintLimitUpdated":
+        case "GlobalMintRateLimitUpdated":
+        case "MinterMintRateLimitUpdated":
           console.log(`  Old Limit: ${ethers.formatEther(event.args[0])} VTR`);
           console.log(`  New Limit: ${ethers.formatEther(event.args[1])} VTR`);
           break;
 
+        case "MintRateWindowUpdated":
+          console.log(`  Old Window: ${event.args[0]} seconds`);
+          console.log(`  New Window: ${event.args[1]} seconds`);
+          break;
+
+        case "MinterConfigured":
+          console.log(`  Minter: ${event.args[0]}`);
+          console.log(`  Allowance: ${ethers.formatEther(event.args[1])} VTR`);
+          break;
+
+        case "MinterAllowanceIncreased":
+          console.log(`  Minter: ${event.args[0]}`);
+          console.log(`  Increment: ${ethers.formatEther(event.args[1])} VTR`);
+          console.log(`  New Allowance: ${ethers.formatEther(event.args[2])} VTR`);
+          break;
+
+        case "MintApprovalsConfigured":
+          console.log(`  Mint Approvals: ${event.args[0]}`);
+          console.log(
+            `  Threshold: ${
+              event.args[1] === 0n
+                ? "Disabled"
+                : `${ethers.formatEther(event.args[1])} VTR`
+            }`
+          );
+          break;
+
+        case "BlocklistUpdated":
+          console.log(`  Address: ${event.args[0]}`);
+          console.log(`  Blocked: ${event.args[1]}`);
+          console.log(`  Operator: ${event.args[2]}`);
+          break;
+
+        case "FrozenBalanceWiped":
+          console.log(`  Account: ${event.args[0]}`);
+          console.log(`  Amount: ${ethers.formatEther(event.args[1])} VTR`);
+          console.log(`  Operator: ${event.args[2]}`);
+          console.log(
+            `  Total Supply After: ${ethers.formatEther(event.args[3])} VTR`
+          );
+          break;
+
         case "AllowlistStatusUpdated":
           console.log(`  Enabled: ${event.args[0]}`);
           break;
@@ -154,6 +222,42 @@ async function main() {
           console.log(`  Implementation: ${event.args[0]}`);
           break;
 
+        case "OperationScheduled":
+          console.log(`  Operation ID: ${event.args[0]}`);
+          console.log(
+            `  Call: ${describeOperation(vetra.interface, event.args[1]).description}`
+          );
+          console.log(
+            `  Ready At: ${new Date(Number(event.args[2]) * 1000).toISOString()}`
+          );
+          console.log(`  Operator: ${event.args[3]}`);
+          break;
+
+        case "OperationExecuted":
+          console.log(`  Operation ID: ${event.args[0]}`);
+          break;
+
+        case "OperationCancelled":
+          console.log(`  Operation ID: ${event.args[0]}`);
+          console.log(`  Operator: ${event.args[1]}`);
+          break;
+
+        case "TimelockDelayUpdated":
+          console.log(`  Old Delay: ${event.args[0]} seconds`);
+          console.log(`  New Delay: ${event.args[1]} seconds`);
+          break;
+
+        case "DefaultAdminTransferScheduled":
+          console.log(`  New Admin: ${event.args[0]}`);
+          console.log(
+            `  Accept From: ${new Date(Number(event.args[1]) * 1000).toISOString()}`
+          );
+          break;
+
+        case "DefaultAdminTransferCancelled":
+          console.log(`  New Admin: ${event.args[0]}`);
+          break;
+
         default:
           console.log(`  Args:`, event.args);
           break;
@@ -176,6 +280,13 @@ async function main() {
   const isReserveFresh = await vetra.isReserveFresh();
   const availableCapacity = await vetra.availableMintCapacity();
   const isPaused = await vetra.paused();
+  const approvedSourceHash = await vetra.approvedSourceHash();
+  const approvedSourceVersion = await vetra.approvedSourceVersion();
+  const maxDeviationBps = await vetra.maxReserveDeviationBps();
+  const quarantined = await vetra.quarantinedReserve();
+  const mintRateWindow = await vetra.mintRateWindow();
+  const globalMintRateLimit = await vetra.globalMintRateLimit();
+  const minterMintRateLimit = await vetra.minterMintRateLimit();
 
   console.log(`Total Supply: ${ethers.formatEther(totalSupply)} VTR`);
   console.log(
@@ -195,6 +306,108 @@ async function main() {
     `Available Mint Capacity: ${ethers.formatEther(availableCapacity)} VTR`
   );
   console.log(`Paused: ${isPaused ? "⚠️  Yes" : "✅ No"}`);
+  if (mintRateWindow === 0n) {
+    console.log("Mint Rate Limits: Disabled");
+  } else {
+    console.log(`Mint Rate Window: ${mintRateWindow} seconds`);
+    console.log(
+      `Global Mint Limit: ${
+        globalMintRateLimit === 0n
+          ? "None"
+          : `${ethers.formatEther(
+              globalMintRateLimit
+            )} VTR (remaining ${ethers.formatEther(
+              await vetra.globalMintRateRemaining()
+            )} VTR)`
+      }`
+    );
+    console.log(
+      `Per-Minter Mint Limit: ${
+        minterMintRateLimit === 0n
+          ? "None"
+          : `${ethers.formatEther(minterMintRateLimit)} VTR`
+      }`
+    );
+    if (minterMintRateLimit > 0n) {
+      const minterAddress = getMinterAddress();
+      console.log(
+        `  Remaining for ${minterAddress}: ${ethers.formatEther(
+          await vetra.minterMintRateRemaining(minterAddress)
+        )} VTR`
+      );
+    }
+  }
+  console.log(
+    `Minter Allowance (${getMinterAddress()}): ${ethers.formatEther(
+      await vetra.minterAllowance(getMinterAddress())
+    )} VTR`
+  );
+  const timelockDelay = await vetra.timelockDelay();
+  console.log(
+    `Timelock Delay: ${
+      timelockDelay === 0n ? "Disabled" : `${timelockDelay} seconds`
+    }`
+  );
+  const pendingDefaultAdmin = await vetra.pendingDefaultAdmin();
+  console.log(`Default Admin: ${await vetra.defaultAdmin()}`);
+  if (pendingDefaultAdmin !== ethers.ZeroAddress) {
+    console.log(
+      `  ⚠️  Transfer pending to ${pendingDefaultAdmin} (accept from ${new Date(
+        Number(await vetra.pendingDefaultAdminSchedule()) * 1000
+      ).toISOString()})`
+    );
+  }
+  console.log(
+    `Max Reserve Deviation: ${
+      maxDeviationBps === 0n ? "Disabled" : `${maxDeviationBps} bps`
+    }`
+  );
+  console.log(
+    `Quarantined Reserve: ${
+      quarantined.timestamp === 0n
+        ? "✅ None"
+        : `⚠️  $${(Number(quarantined.usdAmount) / 100000000).toFixed(
+            2
+          )} (request ${quarantined.requestId}) - minting blocked`
+    }`
+  );
+  console.log(
+    `Approved Source: ${
+      approvedSourceHash === ethers.ZeroHash
+        ? "⚠️  None (reserve requests will revert)"
+        : `v${approvedSourceVersion} ${approvedSourceHash}`
+    }`
+  );
+  const mintApprovalThreshold = await vetra.mintApprovalThreshold();
+  console.log(
+    `Mint Approval Threshold: ${
+      mintApprovalThreshold === 0n
+        ? "Disabled"
+        : `${ethers.formatEther(mintApprovalThreshold)} VTR`
+    }`
+  );
+  const approvalsRecord = deployment.contracts?.VetraMintApprovals;
+  if (approvalsRecord) {
+    const approvals = await ethers.getContractAt(
+      "VetraMintApprovals",
+      approvalsRecord.address
+    );
+    console.log(
+      `Mint Proposals: ${await approvals.pendingProposalCount()} pending`
+    );
+  }
+  const queueRecord = deployment.contracts?.VetraRedemptionQueue;
+  if (queueRecord) {
+    const queue = await ethers.getContractAt(
+      "VetraRedemptionQueue",
+      queueRecord.address
+    );
+    console.log(
+      `Redemption Queue: ${await queue.pendingRedemptionCount()} pending, ${ethers.formatEther(
+        await queue.totalEscrowed()
+      )} VTR escrowed`
+    );
+  }
   console.log("========================================\n");
 
   // Setup real-time listener
@@ -204,7 +417,19 @@ async function main() {
     console.log(`\n🔔 New Event: ${event.eventName || "Unknown"}`);
     console.log(`Block: ${event.log.blockNumber}`);
     console.log(`Transaction: ${event.log.transactionHash}`);
-    console.log(`Args:`, event.args);
+    if (event.eventName === "ReserveUpdateFailed") {
+      console.log(`Request ID: ${event.args[0]}`);
+      console.log(`❌ Reason: ${decodeFailureReason(event.args[1])}`);
+    } else if (event.eventName === "ReserveQuarantined") {
+      console.log(`Request ID: ${event.args[0]}`);
+      console.log(
+        `⚠️  Reserve update quarantined (deviation ${formatDeviationBps(
+          event.args[4]
+        )}); minting is blocked until an admin confirms or rejects it`
+      );
+    } else {
+      console.log(`Args:`, event.args);
+    }
     console.log("----------------------------------------");
   });
 
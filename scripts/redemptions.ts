@@ -0,0 +1,285 @@
+import { ethers } from "hardhat";
+import {
+  getNetworkName,
+  getRedemptionAction,
+  getRedemptionBatchSize,
+  getRedemptionIds,
+  displayConfig,
+} from "../config/env";
+import { Vetra, VetraRedemptionQueue } from "../typechain-types";
+import { getContractRecord, getDeployment } from "./lib/deployments";
+import { preflight, printError } from "./lib/errors";
+
+/**
+ * Redemption Queue
+ *
+ * Lists pending redemption requests and, with REDEMPTION_ACTION set,
+ * settles them (burns the escrow after the fiat payout) in batches or
+ * rejects them (returns the escrow). Requests whose account has been
+ * blocked since requesting are listed but never settled; a COMPLIANCE_ROLE
+ * holder wipes them (burns the escrow) instead.
+ *
+ * Options (environment):
+ *   REDEMPTION_ACTION      "settle", "reject" or "wipe" (unset = only list
+ *                          the queue)
+ *   REDEMPTION_IDS         Comma-separated IDs, or "all" (settle only)
+ *   REDEMPTION_BATCH_SIZE  Requests per settleRedemptions transaction (default: 25)
+ */
+
+const PAGE_SIZE = 100n;
+
+interface PendingRedemption {
+  id: bigint;
+  account: string;
+  amount: bigint;
+  payoutRef: string;
+  requestedAt: bigint;
+  blocked: boolean;
+}
+
+async function loadPending(
+  queue: VetraRedemptionQueue,
+  vetra: Vetra
+): Promise<PendingRedemption[]> {
+  const count = await queue.pendingRedemptionCount();
+  const ids: bigint[] = [];
+  for (let offset = 0n; offset < count; offset += PAGE_SIZE) {
+    ids.push(...(await queue.getPendingRedemptionIds(offset, PAGE_SIZE)));
+  }
+  ids.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+
+  const pending: PendingRedemption[] = [];
+  for (const id of ids) {
+    const redemption = await queue.redemptions(id);
+    pending.push({
+      id,
+      account: redemption.account,
+      amount: redemption.amount,
+      payoutRef: redemption.payoutRef,
+      requestedAt: redemption.requestedAt,
+      blocked: await vetra.blocklist(redemption.account),
+    });
+  }
+  return pending;
+}
+
+async function main() {
+  console.log("\n========================================");
+  console.log("REDEMPTION QUEUE");
+  console.log("========================================\n");
+
+  displayConfig();
+
+  const networkName = getNetworkName();
+  const [signer] = await ethers.getSigners();
+  const action = getRedemptionAction();
+
+  console.log("Operator account:", signer.address);
+
+  // Load deployment info
+  const deployment = getDeployment(networkName);
+  const queueRecord = getContractRecord(
+    deployment,
+    "VetraRedemptionQueue",
+    `npm run deploy-redemption-queue:${networkName}`
+  );
+
+  console.log("Vetra contract:", deployment.proxy);
+  console.log("Redemption queue:", queueRecord.address);
+  console.log("");
+
+  const vetra = (await ethers.getContractAt(
+    "Vetra",
+    deployment.proxy
+  )) as unknown as Vetra;
+  const queue = (await ethers.getContractAt(
+    "VetraRedemptionQueue",
+    queueRecord.address
+  )) as unknown as VetraRedemptionQueue;
+
+  const pending = await loadPending(queue, vetra);
+
+  console.log("========================================");
+  console.log("PENDING REDEMPTIONS");
+  console.log("========================================");
+  if (pending.length === 0) {
+    console.log("(none)");
+  }
+  for (const redemption of pending) {
+    console.log(
+      `#${redemption.id}  ${ethers.formatEther(redemption.amount)} VTR  ` +
+        `${redemption.account}${redemption.blocked ? "  ⛔ BLOCKED" : ""}`
+    );
+    console.log(`     Payout ref: ${redemption.payoutRef}`);
+    console.log(
+      `     Requested:  ${new Date(
+        Number(redemption.requestedAt) * 1000
+      ).toISOString()}`
+    );
+  }
+  console.log("");
+  console.log(
+    "Total escrowed:",
+    ethers.formatEther(await queue.totalEscrowed()),
+    "VTR"
+  );
+  console.log("");
+
+  if (!action) {
+    if (pending.length > 0) {
+      console.log(
+        `   REDEMPTION_ACTION=settle REDEMPTION_IDS=1,2 npm run redemptions:${networkName}   # burn after payout`
+      );
+      console.log(
+        `   REDEMPTION_ACTION=reject REDEMPTION_IDS=3 npm run redemptions:${networkName}     # return tokens`
+      );
+      if (pending.some((r) => r.blocked)) {
+        console.log(
+          `   REDEMPTION_ACTION=wipe REDEMPTION_IDS=4 npm run redemptions:${networkName}       # burn a blocked account's escrow`
+        );
+      }
+      console.log("");
+    }
+    return;
+  }
+
+  const requestedIds = getRedemptionIds();
+  if (requestedIds === "all" && action !== "settle") {
+    throw new Error("REDEMPTION_IDS=all is only allowed for settle.");
+  }
+
+  const byId = new Map(pending.map((r) => [r.id, r]));
+  const targets: PendingRedemption[] = [];
+  for (const id of requestedIds === "all"
+    ? pending.map((r) => r.id)
+    : requestedIds) {
+    const redemption = byId.get(id);
+    if (!redemption) {
+      console.log(`⚠️  Skipping #${id}: not pending`);
+    } else if (action === "settle" && redemption.blocked) {
+      console.log(`⚠️  Skipping #${id}: ${redemption.account} is blocked`);
+    } else if (action === "wipe" && !redemption.blocked) {
+      console.log(`⚠️  Skipping #${id}: ${redemption.account} is not blocked`);
+    } else {
+      targets.push(redemption);
+    }
+  }
+
+  if (targets.length === 0) {
+    console.log("✅ Nothing to " + action + ".\n");
+    return;
+  }
+
+  // Check burner role (compliance role for wipes)
+  const roleName = action === "wipe" ? "COMPLIANCE_ROLE" : "BURNER_ROLE";
+  const role =
+    action === "wipe"
+      ? await vetra.COMPLIANCE_ROLE()
+      : await vetra.BURNER_ROLE();
+
+  if (!(await vetra.hasRole(role, signer.address))) {
+    throw new Error(
+      `Account ${signer.address} does not have ${roleName}. Only a ${roleName} holder can ${action} redemptions.`
+    );
+  }
+
+  // Pre-flight every transaction before sending the first one
+  const batchSize = getRedemptionBatchSize();
+  const batches: bigint[][] = [];
+  for (let i = 0; i < targets.length; i += batchSize) {
+    batches.push(targets.slice(i, i + batchSize).map((r) => r.id));
+  }
+  if (action === "settle") {
+    for (const batch of batches) {
+      await preflight(
+        `Settling ${batch.map((id) => `#${id}`).join(", ")}`,
+        networkName,
+        () => queue.settleRedemptions.staticCall(batch)
+      );
+    }
+  } else if (action === "reject") {
+    for (const redemption of targets) {
+      await preflight(`Rejecting #${redemption.id}`, networkName, () =>
+        queue.rejectRedemption.staticCall(redemption.id)
+      );
+    }
+  } else {
+    for (const redemption of targets) {
+      await preflight(`Wiping #${redemption.id}`, networkName, () =>
+        queue.wipeBlockedRedemption.staticCall(redemption.id)
+      );
+    }
+  }
+
+  const supplyBefore = await vetra.totalSupply();
+  const done: bigint[] = [];
+
+  try {
+    if (action === "settle") {
+      for (const batch of batches) {
+        console.log(`Settling ${batch.map((id) => `#${id}`).join(", ")}...`);
+
+        const tx = await queue.settleRedemptions(batch);
+        console.log("Transaction hash:", tx.hash);
+        const receipt = await tx.wait();
+        console.log("✅ Confirmed in block:", receipt?.blockNumber);
+        done.push(...batch);
+      }
+    } else {
+      for (const redemption of targets) {
+        console.log(
+          `${action === "reject" ? "Rejecting" : "Wiping"} #${redemption.id}...`
+        );
+
+        const tx =
+          action === "reject"
+            ? await queue.rejectRedemption(redemption.id)
+            : await queue.wipeBlockedRedemption(redemption.id);
+        console.log("Transaction hash:", tx.hash);
+        const receipt = await tx.wait();
+        console.log("✅ Confirmed in block:", receipt?.blockNumber);
+        done.push(redemption.id);
+      }
+    }
+  } catch (error: any) {
+    console.error(`\n❌ Failed to ${action} redemptions:`);
+    printError(error, networkName);
+    if (done.length > 0) {
+      console.error(
+        `   Already processed: ${done.map((id) => `#${id}`).join(", ")}`
+      );
+    }
+    throw error;
+  }
+
+  const total = targets.reduce((sum, r) => sum + r.amount, 0n);
+
+  console.log("\n========================================");
+  console.log("REDEMPTION SUMMARY");
+  console.log("========================================");
+  console.log(
+    "Action:",
+    { settle: "Settled", reject: "Rejected", wipe: "Wiped" }[action]
+  );
+  console.log("Requests:", done.map((id) => `#${id}`).join(", "));
+  console.log("Amount:", ethers.formatEther(total), "VTR");
+  console.log("Total Supply Before:", ethers.formatEther(supplyBefore), "VTR");
+  console.log(
+    "Total Supply After:",
+    ethers.formatEther(await vetra.totalSupply()),
+    "VTR"
+  );
+  console.log(
+    "Still pending:",
+    (await queue.pendingRedemptionCount()).toString()
+  );
+  console.log("Network:", networkName);
+  console.log("========================================\n");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
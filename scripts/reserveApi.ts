@@ -0,0 +1,90 @@
+import { getReserveApiPort, getReserveApiScenario } from "../config/env";
+import {
+  ReserveApiServer,
+  ReserveScenario,
+  ReserveScenarioKind,
+  SCENARIO_KINDS,
+  SCENARIO_PATH,
+} from "./lib/reserveApiServer";
+
+/**
+ * Local Reserve API
+ *
+ * Runs the FT Asset Management stand-in from scripts/lib/reserveApiServer.ts
+ * until interrupted. Point RESERVE_API_URL at it for the Functions simulator
+ * or the keeper (the Chainlink DON itself cannot reach localhost).
+ *
+ * Options (environment):
+ *   RESERVE_API_PORT      Port to listen on (default 8787)
+ *   RESERVE_API_SCENARIO  Scenario kind (fixed, ramp, malformed, missingSummary,
+ *                         negative, slow, serverError) or a JSON scenario /
+ *                         array of scenarios, e.g.
+ *                         '[{"kind":"fixed","balance":"500.00"},{"kind":"serverError"}]'
+ */
+
+const DEFAULT_SCENARIOS: Record<ReserveScenarioKind, ReserveScenario> = {
+  fixed: { kind: "fixed", balance: "1000000.00" },
+  ramp: { kind: "ramp", start: "1000000.00", step: "1000.00" },
+  malformed: { kind: "malformed" },
+  missingSummary: { kind: "missingSummary" },
+  negative: { kind: "negative", balance: "-100.00" },
+  // Longer than the 9s HTTP timeout used by the reserve source
+  slow: { kind: "slow", balance: "1000000.00", delayMs: 15000 },
+  serverError: { kind: "serverError", status: 500 },
+};
+
+function resolveScenario(value: string): ReserveScenario | ReserveScenario[] {
+  const trimmed = value.trim();
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    return JSON.parse(trimmed);
+  }
+
+  const scenario = DEFAULT_SCENARIOS[trimmed as ReserveScenarioKind];
+  if (!scenario) {
+    throw new Error(
+      `Unknown RESERVE_API_SCENARIO "${value}". Expected one of: ${SCENARIO_KINDS.join(
+        ", "
+      )} or a JSON scenario`
+    );
+  }
+  return scenario;
+}
+
+async function main() {
+  console.log("\n========================================");
+  console.log("LOCAL RESERVE API");
+  console.log("========================================\n");
+
+  const port = getReserveApiPort();
+  const scenario = resolveScenario(getReserveApiScenario());
+
+  const server = new ReserveApiServer({ scenario });
+  const url = await server.start(port);
+
+  console.log("Listening on:", url);
+  console.log("Scenario:", JSON.stringify(scenario));
+  console.log("");
+  console.log("Use as reserve API:");
+  console.log(`  RESERVE_API_URL=${url}api/bcl.asp`);
+  console.log("");
+  console.log("Switch scenario at runtime:");
+  console.log(
+    `  curl -X PUT ${url}${SCENARIO_PATH.slice(1)} -d '{"kind":"ramp","start":"1000.00","step":"10.00"}'`
+  );
+  console.log("\nPress Ctrl+C to stop.\n");
+
+  await new Promise<void>((resolve) => {
+    process.once("SIGINT", resolve);
+    process.once("SIGTERM", resolve);
+  });
+
+  console.log(`\nServed ${server.requestCount} request(s). Stopping...`);
+  await server.stop();
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
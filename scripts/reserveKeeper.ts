@@ -0,0 +1,136 @@
+import { ethers } from "hardhat";
+import {
+  getNetworkName,
+  getReserveApiUrl,
+  getReserveSourceVersion,
+  getReserveUpdateInterval,
+  getKeeperTtlMargin,
+  getKeeperFulfillmentTimeout,
+  getKeeperPollInterval,
+  getKeeperRetryBase,
+  getKeeperRetryMax,
+  displayConfig,
+} from "../config/env";
+import { Vetra } from "../typechain-types";
+import { getDeployment } from "./lib/deployments";
+import { ReserveKeeper } from "./lib/reserveKeeper";
+import { loadReserveSource } from "./lib/reserveSource";
+import { assertApprovedSource } from "./lib/reserveUpdates";
+
+/**
+ * Reserve Keeper Daemon
+ *
+ * Long-running process that keeps the reserve fresh so minting never hits
+ * ReserveStale. Requests an update every RESERVE_UPDATE_INTERVAL_SECONDS, or
+ * earlier when reserveAge() comes within KEEPER_TTL_MARGIN_SECONDS of
+ * reserveTTL. Stop with Ctrl+C.
+ *
+ * Options (environment):
+ *   RESERVE_SOURCE_VERSION              Functions source version (default: current)
+ *   KEEPER_TTL_MARGIN_SECONDS           Refresh this long before TTL (default 120)
+ *   KEEPER_FULFILLMENT_TIMEOUT_SECONDS  Give up on a request after (default 300)
+ *   KEEPER_POLL_INTERVAL_SECONDS        Delay between checks (default 15)
+ *   KEEPER_RETRY_BASE_SECONDS           First retry delay (default 30)
+ *   KEEPER_RETRY_MAX_SECONDS            Maximum retry delay (default 600)
+ */
+
+async function main() {
+  console.log("\n========================================");
+  console.log("VETRA RESERVE KEEPER");
+  console.log("========================================\n");
+
+  displayConfig();
+
+  const networkName = getNetworkName();
+  const [signer] = await ethers.getSigners();
+
+  // Load deployment info
+  const deployment = getDeployment(networkName);
+  const proxyAddress = deployment.proxy;
+
+  const vetra = (await ethers.getContractAt(
+    "Vetra",
+    proxyAddress
+  )) as unknown as Vetra;
+
+  // Check that keeper account can request reserve updates
+  const RESERVE_UPDATER_ROLE = await vetra.RESERVE_UPDATER_ROLE();
+  const hasUpdaterRole = await vetra.hasRole(
+    RESERVE_UPDATER_ROLE,
+    signer.address
+  );
+
+  if (!hasUpdaterRole) {
+    throw new Error(
+      `Account ${signer.address} does not have RESERVE_UPDATER_ROLE. Only reserve updaters can request reserve updates.`
+    );
+  }
+
+  // Refuse to start with a source the contract would reject
+  const source = loadReserveSource(getReserveSourceVersion());
+  await assertApprovedSource(vetra, source);
+
+  const reserveTTL = await vetra.reserveTTL();
+  const updateInterval = getReserveUpdateInterval();
+  const ttlMargin = getKeeperTtlMargin();
+
+  console.log("Vetra contract:", proxyAddress);
+  console.log("Keeper account:", signer.address);
+  console.log(`Functions source: v${source.version} (${source.hash})`);
+  console.log("Reserve TTL (on-chain):", reserveTTL.toString(), "seconds");
+  console.log("Update interval:", updateInterval, "seconds");
+  console.log("TTL margin:", ttlMargin, "seconds");
+  console.log(
+    "Fulfilment timeout:",
+    getKeeperFulfillmentTimeout(),
+    "seconds"
+  );
+  console.log("Poll interval:", getKeeperPollInterval(), "seconds");
+  console.log(
+    `Retry backoff: ${getKeeperRetryBase()}s → ${getKeeperRetryMax()}s`
+  );
+  console.log("");
+
+  if (BigInt(updateInterval) >= reserveTTL) {
+    console.log(
+      "⚠️  Update interval is not shorter than the reserve TTL; updates will be driven by the TTL margin."
+    );
+    console.log("");
+  }
+
+  const keeper = new ReserveKeeper(vetra, {
+    apiUrl: getReserveApiUrl(),
+    source,
+    updateIntervalSeconds: updateInterval,
+    ttlMarginSeconds: ttlMargin,
+    fulfillmentTimeoutMs: getKeeperFulfillmentTimeout() * 1000,
+    pollIntervalMs: getKeeperPollInterval() * 1000,
+    retryBaseMs: getKeeperRetryBase() * 1000,
+    retryMaxMs: getKeeperRetryMax() * 1000,
+  });
+
+  const shutdown = () => {
+    console.log("\nStopping keeper after the current check...");
+    keeper.stop();
+  };
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
+
+  console.log("Keeper running... (Press Ctrl+C to stop)\n");
+  await keeper.run();
+
+  const pending = keeper.pendingRequest;
+  if (pending) {
+    console.log(
+      `⚠️  Request ${pending.requestId} was still awaiting fulfilment at shutdown.`
+    );
+  }
+  console.log("Keeper stopped.\n");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,170 @@
+import { ethers } from "hardhat";
+import {
+  getNetworkName,
+  getQuarantineAction,
+  displayConfig,
+} from "../config/env";
+import { Vetra } from "../typechain-types";
+import { getDeployment } from "./lib/deployments";
+import { preflight, printError } from "./lib/errors";
+import { formatDeviationBps } from "./lib/reserveUpdates";
+
+/**
+ * Resolve Quarantined Reserve
+ *
+ * Shows the reserve update held back by the deviation circuit breaker and,
+ * with QUARANTINE_ACTION set, confirms (applies) or rejects (discards) it.
+ * Minting stays blocked until one of the two happens.
+ *
+ * Options (environment):
+ *   QUARANTINE_ACTION  "confirm" or "reject" (unset = only show the update)
+ */
+
+function formatUsd(reserveUsd: bigint): string {
+  return (Number(reserveUsd) / 100000000).toFixed(2);
+}
+
+async function main() {
+  console.log("\n========================================");
+  console.log("RESOLVE QUARANTINED RESERVE");
+  console.log("========================================\n");
+
+  displayConfig();
+
+  const networkName = getNetworkName();
+  const [signer] = await ethers.getSigners();
+  const action = getQuarantineAction();
+
+  console.log("Admin account:", signer.address);
+
+  // Load deployment info
+  const deployment = getDeployment(networkName);
+  const proxyAddress = deployment.proxy;
+
+  console.log("Vetra contract:", proxyAddress);
+  console.log("");
+
+  const vetra = (await ethers.getContractAt(
+    "Vetra",
+    proxyAddress
+  )) as unknown as Vetra;
+
+  const quarantined = await vetra.quarantinedReserve();
+  if (quarantined.timestamp === 0n) {
+    console.log("✅ No reserve update is quarantined.");
+    console.log("   No action needed.\n");
+    return;
+  }
+
+  const lastReserve = await vetra.lastReserveUsd();
+  const events = await vetra.queryFilter(
+    vetra.filters.ReserveQuarantined(quarantined.requestId),
+    deployment.deployBlock ?? 0
+  );
+  const deviationBps = events.length
+    ? events[events.length - 1].args.deviationBps
+    : undefined;
+
+  console.log("Quarantined reserve update:");
+  console.log("- Request ID:", quarantined.requestId);
+  console.log(
+    "- Fulfilled at:",
+    new Date(Number(quarantined.timestamp) * 1000).toISOString()
+  );
+  console.log("- Last reserve:", formatUsd(lastReserve), "USD");
+  console.log("- Reported reserve:", formatUsd(quarantined.usdAmount), "USD");
+  if (deviationBps !== undefined) {
+    console.log("- Deviation:", formatDeviationBps(deviationBps));
+  }
+  const maxDeviationBps = await vetra.maxReserveDeviationBps();
+  console.log(
+    "- Max deviation:",
+    maxDeviationBps === 0n ? "disabled" : formatDeviationBps(maxDeviationBps)
+  );
+  console.log("- Nonce:", quarantined.nonce.toString());
+  console.log("");
+
+  if (!action) {
+    console.log("Minting is blocked until this update is resolved.");
+    console.log(
+      `   QUARANTINE_ACTION=confirm npm run resolve-quarantine:${networkName}   # apply it`
+    );
+    console.log(
+      `   QUARANTINE_ACTION=reject npm run resolve-quarantine:${networkName}    # discard it`
+    );
+    console.log("");
+    return;
+  }
+
+  // Check oracle admin role
+  const ORACLE_ADMIN_ROLE = await vetra.ORACLE_ADMIN_ROLE();
+  const hasOracleAdminRole = await vetra.hasRole(
+    ORACLE_ADMIN_ROLE,
+    signer.address
+  );
+
+  if (!hasOracleAdminRole) {
+    throw new Error(
+      `Account ${signer.address} does not have ORACLE_ADMIN_ROLE.`
+    );
+  }
+
+  await preflight(
+    action === "confirm"
+      ? "confirmQuarantinedReserve"
+      : "rejectQuarantinedReserve",
+    networkName,
+    () =>
+      action === "confirm"
+        ? vetra.confirmQuarantinedReserve.staticCall()
+        : vetra.rejectQuarantinedReserve.staticCall()
+  );
+
+  console.log(
+    action === "confirm"
+      ? "Confirming quarantined reserve update..."
+      : "Rejecting quarantined reserve update..."
+  );
+
+  try {
+    const tx =
+      action === "confirm"
+        ? await vetra.confirmQuarantinedReserve()
+        : await vetra.rejectQuarantinedReserve();
+    console.log("Transaction hash:", tx.hash);
+    console.log("Waiting for confirmation...");
+
+    const receipt = await tx.wait();
+    console.log("✅ Transaction confirmed in block:", receipt?.blockNumber);
+
+    console.log("\n========================================");
+    console.log("QUARANTINE RESOLUTION SUMMARY");
+    console.log("========================================");
+    console.log("Action:", action === "confirm" ? "Confirmed" : "Rejected");
+    console.log("Reserve:", formatUsd(await vetra.lastReserveUsd()), "USD");
+    console.log("Reserve fresh:", await vetra.isReserveFresh());
+    console.log(
+      "Available mint capacity:",
+      ethers.formatEther(await vetra.availableMintCapacity()),
+      "VTR"
+    );
+    console.log("Transaction:", tx.hash);
+    console.log("Network:", networkName);
+    console.log("========================================\n");
+
+    if (!(await vetra.isReserveFresh())) {
+      console.log("⚠️  Reserve is stale. Run: npm run update-reserve:" + networkName);
+    }
+  } catch (error: any) {
+    console.error("\n❌ Failed to resolve quarantined reserve:");
+    printError(error, networkName);
+    throw error;
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,307 @@
+import { ethers } from "hardhat";
+import { Interface } from "ethers";
+import {
+  getNetworkName,
+  getRoleAction,
+  getRoleName,
+  getRoleAccount,
+  getRoleOldAccount,
+  isRoleDryRun,
+  getMinterAllowance,
+  displayConfig,
+} from "../config/env";
+import { Vetra } from "../typechain-types";
+import { getDeployment } from "./lib/deployments";
+import { preflight, printError } from "./lib/errors";
+import { VETRA_ROLES, VetraRoleName, getRoleId } from "./lib/roles";
+
+/**
+ * Role Management
+ *
+ * Grants, revokes or renounces any Vetra role, or rotates it from one key to
+ * another. The signer must hold the role's admin role (DEFAULT_ADMIN_ROLE for
+ * every Vetra role), except when renouncing its own role. Every call is
+ * checked with a static call before the first transaction is sent.
+ *
+ * Rotation moves the role with Vetra's rotateRole, which grants it to the
+ * new key and revokes it from the old one in the same transaction: the role
+ * is never left without a holder, and a failed rotation changes nothing.
+ *
+ * DEFAULT_ADMIN_ROLE has a single holder and moves with
+ * scripts/adminTransfer.ts instead.
+ *
+ * Options (environment):
+ *   ROLE_ACTION       "grant", "revoke", "renounce" or "rotate"
+ *   ROLE_NAME         Role constant, e.g. MINTER_ROLE
+ *   ROLE_ACCOUNT      Account to grant or revoke; the new key for rotate
+ *   ROLE_OLD_ACCOUNT  Key that loses the role (rotate only)
+ *   ROLE_DRY_RUN      "true" to print the calldata without sending
+ *   MINTER_ALLOWANCE  With MINTER_ROLE, allowance (VTR) to configure for the
+ *                     account receiving the role (needs MINTER_ADMIN_ROLE)
+ */
+
+interface PlannedCall {
+  description: string;
+  fn:
+    | "grantRole"
+    | "revokeRole"
+    | "renounceRole"
+    | "rotateRole"
+    | "configureMinter";
+  args: [string, string] | [string, string, string] | [string, bigint];
+}
+
+function roleNameOf(role: string): string {
+  return VETRA_ROLES.find((name) => getRoleId(name) === role) ?? role;
+}
+
+async function main() {
+  console.log("\n========================================");
+  console.log("ROLE MANAGEMENT");
+  console.log("========================================\n");
+
+  displayConfig();
+
+  const networkName = getNetworkName();
+  const [signer] = await ethers.getSigners();
+  const action = getRoleAction();
+  const dryRun = isRoleDryRun();
+
+  const roleName = getRoleName();
+  if (!(VETRA_ROLES as readonly string[]).includes(roleName)) {
+    throw new Error(
+      `Unknown ROLE_NAME ${roleName}. Roles: ${VETRA_ROLES.join(", ")}`
+    );
+  }
+  const role = getRoleId(roleName as VetraRoleName);
+
+  console.log("Operator account:", signer.address);
+  console.log("Mode:", dryRun ? "DRY RUN (print calldata only)" : "SEND");
+
+  // Load deployment info
+  const deployment = getDeployment(networkName);
+  const proxyAddress = deployment.proxy;
+
+  console.log("Vetra contract:", proxyAddress);
+  console.log("");
+
+  const vetra = (await ethers.getContractAt(
+    "Vetra",
+    proxyAddress
+  )) as unknown as Vetra;
+
+  // Accounts involved, and the calls to make
+  let account: string;
+  let oldAccount: string | undefined;
+  if (action === "renounce") {
+    account = signer.address;
+  } else {
+    account = getRoleAccount();
+    if (!ethers.isAddress(account)) {
+      throw new Error(`Invalid ROLE_ACCOUNT: ${account}`);
+    }
+  }
+  if (action === "rotate") {
+    oldAccount = getRoleOldAccount();
+    if (!ethers.isAddress(oldAccount)) {
+      throw new Error(`Invalid ROLE_OLD_ACCOUNT: ${oldAccount}`);
+    }
+    if (oldAccount.toLowerCase() === account.toLowerCase()) {
+      throw new Error("ROLE_ACCOUNT and ROLE_OLD_ACCOUNT are the same key.");
+    }
+  }
+
+  if (roleName === "DEFAULT_ADMIN_ROLE") {
+    const defaultAdmin = await vetra.defaultAdmin();
+    const movesDefaultAdmin =
+      action === "grant" ||
+      action === "rotate" ||
+      account.toLowerCase() === defaultAdmin.toLowerCase();
+    if (movesDefaultAdmin) {
+      throw new Error(
+        `DEFAULT_ADMIN_ROLE moves with the two-step transfer: ` +
+          `ADMIN_TRANSFER_ACTION=begin NEW_ADMIN_ADDRESS=0x... npm run admin-transfer:${networkName}`
+      );
+    }
+  }
+
+  const accountHasRole = await vetra.hasRole(role, account);
+  const oldAccountHasRole = oldAccount
+    ? await vetra.hasRole(role, oldAccount)
+    : false;
+
+  console.log("Role:", `${roleName} (${role})`);
+  console.log(
+    `${action === "rotate" ? "New key" : "Account"}:`,
+    account,
+    accountHasRole ? "(holds role)" : "(does not hold role)"
+  );
+  if (oldAccount) {
+    console.log(
+      "Old key:",
+      oldAccount,
+      oldAccountHasRole ? "(holds role)" : "(does not hold role)"
+    );
+  }
+  console.log("");
+
+  const calls: PlannedCall[] = [];
+  if (action === "grant" && !accountHasRole) {
+    calls.push({
+      description: `grantRole(${roleName}, ${account})`,
+      fn: "grantRole",
+      args: [role, account],
+    });
+  }
+
+  const requestedAllowance = getMinterAllowance();
+  if (
+    (action === "grant" || action === "rotate") &&
+    roleName === "MINTER_ROLE" &&
+    requestedAllowance
+  ) {
+    const allowance = ethers.parseEther(requestedAllowance);
+    if ((await vetra.minterAllowance(account)) !== allowance) {
+      calls.push({
+        description: `configureMinter(${account}, ${requestedAllowance} VTR)`,
+        fn: "configureMinter",
+        args: [account, allowance],
+      });
+    }
+  }
+
+  if (action === "revoke" && accountHasRole) {
+    calls.push({
+      description: `revokeRole(${roleName}, ${account})`,
+      fn: "revokeRole",
+      args: [role, account],
+    });
+  }
+  if (action === "renounce" && accountHasRole) {
+    calls.push({
+      description: `renounceRole(${roleName}, ${account})`,
+      fn: "renounceRole",
+      args: [role, account],
+    });
+  }
+  if (action === "rotate") {
+    if (!oldAccountHasRole) {
+      throw new Error(
+        `Old key ${oldAccount} does not hold ${roleName}; use ROLE_ACTION=grant instead.`
+      );
+    }
+    // After configureMinter, so the new minter has its allowance as soon as
+    // it holds the role
+    calls.push({
+      description: `rotateRole(${roleName}, ${oldAccount}, ${account})`,
+      fn: "rotateRole",
+      args: [role, oldAccount!, account],
+    });
+  }
+
+  if (calls.length === 0) {
+    console.log(
+      `✅ Nothing to do: ${account} ${accountHasRole ? "already holds" : "does not hold"} ${roleName}\n`
+    );
+    return;
+  }
+
+  // Check the signer may make these calls
+  if (action !== "renounce") {
+    const adminRole = await vetra.getRoleAdmin(role);
+    if (!(await vetra.hasRole(adminRole, signer.address))) {
+      const message = `Account ${signer.address} does not have ${roleNameOf(adminRole)}, the admin role of ${roleName}.`;
+      if (!dryRun) throw new Error(message);
+      console.log(`⚠️  ${message} Send the calldata from an account that does.\n`);
+    } else {
+      console.log(`✅ Caller has ${roleNameOf(adminRole)}\n`);
+    }
+  }
+
+  if (dryRun) {
+    const vetraInterface: Interface = vetra.interface;
+    console.log("========================================");
+    console.log("CALLDATA (not sent)");
+    console.log("========================================");
+    for (const [i, call] of calls.entries()) {
+      console.log(`${i + 1}. ${call.description}`);
+      console.log(`     To:   ${proxyAddress}`);
+      console.log(
+        `     Data: ${vetraInterface.encodeFunctionData(call.fn, call.args)}`
+      );
+    }
+    console.log("");
+    return;
+  }
+
+  // Pre-flight every call before sending the first one
+  for (const call of calls) {
+    await preflight(call.description, networkName, () =>
+      vetra.getFunction(call.fn).staticCall(...call.args)
+    );
+  }
+
+  const done: string[] = [];
+  for (const call of calls) {
+    console.log(`Sending ${call.description}...`);
+    try {
+      const tx = await vetra.getFunction(call.fn)(...call.args);
+      console.log("Transaction hash:", tx.hash);
+      const receipt = await tx.wait();
+      console.log("✅ Confirmed in block:", receipt?.blockNumber);
+
+      for (const log of receipt?.logs ?? []) {
+        const event = vetra.interface.parseLog(log);
+        if (event?.name === "RoleGranted" || event?.name === "RoleRevoked") {
+          console.log(
+            `   ${event.name}: ${roleNameOf(event.args[0])} ${event.args[1]} (by ${event.args[2]})`
+          );
+        }
+      }
+      done.push(call.description);
+    } catch (error: any) {
+      console.error(`\n❌ Failed: ${call.description}`);
+      printError(error, networkName);
+      if (done.length > 0) {
+        console.error(`   Already done: ${done.join(", ")}`);
+      }
+      if (call.fn === "rotateRole") {
+        console.error(`   ${oldAccount} still holds ${roleName}.`);
+      }
+      throw error;
+    }
+  }
+
+  console.log("\n========================================");
+  console.log("ROLE SUMMARY");
+  console.log("========================================");
+  console.log("Role:", roleName);
+  console.log(
+    `${account}:`,
+    (await vetra.hasRole(role, account)) ? "✅ holds role" : "does not hold role"
+  );
+  if (oldAccount) {
+    console.log(
+      `${oldAccount}:`,
+      (await vetra.hasRole(role, oldAccount))
+        ? "⚠️  holds role"
+        : "✅ does not hold role"
+    );
+  }
+  if (roleName === "MINTER_ROLE" && (await vetra.hasRole(role, account))) {
+    console.log(
+      "Minter allowance:",
+      ethers.formatEther(await vetra.minterAllowance(account)),
+      "VTR"
+    );
+  }
+  console.log("Network:", networkName);
+  console.log("========================================\n");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -1,7 +1,7 @@
 import { ethers } from "hardhat";
-import * as fs from "fs";
-import * as path from "path";
 import { getNetworkName, displayConfig } from "../config/env";
+import { getDeployment } from "./lib/deployments";
+import { preflight, printError } from "./lib/errors";
 
 /**
  * Test Minting Script
@@ -26,20 +26,7 @@ async function main() {
   console.log("Account balance:", ethers.formatEther(balance), "POL\n");
 
   // Load deployment info
-  const deploymentFile = path.join(
-    __dirname,
-    "..",
-    "deployments",
-    `${networkName}.json`
-  );
-
-  if (!fs.existsSync(deploymentFile)) {
-    throw new Error(
-      `Deployment file not found: ${deploymentFile}. Run deployment first.`
-    );
-  }
-
-  const deployment = JSON.parse(fs.readFileSync(deploymentFile, "utf8"));
+  const deployment = getDeployment(networkName);
   const proxyAddress = deployment.proxy;
 
   console.log("Vetra contract:", proxyAddress);
@@ -142,10 +129,24 @@ async function main() {
     process.exit(1);
   }
 
+  const minterAllowance = await vetra.minterAllowance(signer.address);
+  console.log("Minter Allowance:", ethers.formatEther(minterAllowance), "VTR");
+  console.log("");
+
+  if (minterAllowance === 0n) {
+    console.log("❌ Minter allowance is exhausted!");
+    console.log("   A MINTER_ADMIN_ROLE holder must call configureMinter or");
+    console.log("   increaseMinterAllowance for", signer.address, "\n");
+    process.exit(1);
+  }
+
   // Determine mint amount (small test amount)
   const TEST_MINT_AMOUNT = ethers.parseEther("100"); // 100 VTR
-  const mintAmount =
+  let mintAmount =
     availableCapacity < TEST_MINT_AMOUNT ? availableCapacity : TEST_MINT_AMOUNT;
+  if (minterAllowance < mintAmount) {
+    mintAmount = minterAllowance;
+  }
 
   console.log("========================================");
   console.log("MINT TEST");
@@ -158,6 +159,10 @@ async function main() {
   console.log("⏳ Preparing to mint...");
   console.log("");
 
+  await preflight("Test mint", networkName, () =>
+    vetra.mint.staticCall(signer.address, mintAmount)
+  );
+
   try {
     // Execute mint
     const tx = await vetra.mint(signer.address, mintAmount);
@@ -230,22 +235,7 @@ async function main() {
     console.log("========================================\n");
   } catch (error: any) {
     console.error("\n❌ Mint failed:");
-    console.error(error.message);
-
-    if (error.message.includes("ReserveStale")) {
-      console.error("\n💡 Reserve is stale. Update reserves and try again:");
-      console.error("   npm run update-reserve:" + networkName);
-    } else if (error.message.includes("ReserveInsufficient")) {
-      console.error("\n💡 Insufficient reserves. Current reserves don't cover this mint.");
-      console.error("   Wait for FT Asset Management to increase USD backing.");
-    } else if (error.message.includes("Pausable: paused")) {
-      console.error("\n💡 Contract is paused. Unpause it first (admin only).");
-    } else if (error.message.includes("MintLimitExceeded")) {
-      console.error("\n💡 Mint amount exceeds per-transaction limit.");
-    } else if (error.message.includes("RecipientNotAllowed")) {
-      console.error("\n💡 Recipient not on allowlist.");
-    }
-
+    printError(error, networkName);
     console.error("");
     throw error;
   }
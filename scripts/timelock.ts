@@ -0,0 +1,268 @@
+import { ethers } from "hardhat";
+import { Interface } from "ethers";
+import {
+  getNetworkName,
+  getTimelockAction,
+  getTimelockCall,
+  getTimelockOperationId,
+  displayConfig,
+} from "../config/env";
+import { Vetra } from "../typechain-types";
+import { getDeployment } from "./lib/deployments";
+import { preflight, printError } from "./lib/errors";
+import {
+  TIMELOCKED_FUNCTIONS,
+  ScheduledOperation,
+  getOperationId,
+  loadScheduledOperations,
+} from "./lib/timelock";
+
+/**
+ * Timelocked Operations
+ *
+ * Lists scheduled operations and, with TIMELOCK_ACTION set, schedules a
+ * timelocked call, executes ready operations or cancels one. Upgrades are
+ * scheduled and executed by scripts/upgrade.ts, which also records the new
+ * implementation; they are listed here but not executed.
+ *
+ * Scheduling and cancelling take DEFAULT_ADMIN_ROLE; executing takes the role
+ * the call itself requires (see TIMELOCKED_FUNCTIONS).
+ *
+ * Options (environment):
+ *   TIMELOCK_ACTION        "schedule", "execute" or "cancel" (unset = only list)
+ *   TIMELOCK_CALL          Function to schedule, e.g. setReserveTTL
+ *   TIMELOCK_CALL_ARGS     JSON array of arguments for TIMELOCK_CALL
+ *   TIMELOCK_OPERATION_ID  Operation to execute or cancel, or "ready" (execute only)
+ */
+
+function formatTime(timestamp: bigint): string {
+  return new Date(Number(timestamp) * 1000).toISOString();
+}
+
+async function main() {
+  console.log("\n========================================");
+  console.log("TIMELOCKED OPERATIONS");
+  console.log("========================================\n");
+
+  displayConfig();
+
+  const networkName = getNetworkName();
+  const [signer] = await ethers.getSigners();
+  const action = getTimelockAction();
+
+  console.log("Operator account:", signer.address);
+
+  // Load deployment info
+  const deployment = getDeployment(networkName);
+  const proxyAddress = deployment.proxy;
+
+  console.log("Vetra contract:", proxyAddress);
+  console.log("");
+
+  const vetra = (await ethers.getContractAt(
+    "Vetra",
+    proxyAddress
+  )) as unknown as Vetra;
+
+  const delay = await vetra.timelockDelay();
+  console.log(
+    "Timelock delay:",
+    delay === 0n ? "Disabled (timelocked calls run immediately)" : `${delay} seconds`
+  );
+  console.log("");
+
+  if (action === "schedule" || action === "cancel") {
+    const DEFAULT_ADMIN_ROLE = await vetra.DEFAULT_ADMIN_ROLE();
+    if (!(await vetra.hasRole(DEFAULT_ADMIN_ROLE, signer.address))) {
+      throw new Error(
+        `Account ${signer.address} does not have DEFAULT_ADMIN_ROLE. Only admin can ${action} operations.`
+      );
+    }
+  }
+
+  if (action === "schedule") {
+    const call = getTimelockCall();
+    if (call.fn === "upgradeToAndCall") {
+      throw new Error(
+        `Schedule upgrades with: UPGRADE_CONTRACT=<name> npm run upgrade:${networkName}`
+      );
+    }
+    if (!(call.fn in TIMELOCKED_FUNCTIONS)) {
+      throw new Error(
+        `${call.fn} is not timelocked; call it directly. Timelocked: ${Object.keys(
+          TIMELOCKED_FUNCTIONS
+        ).join(", ")}`
+      );
+    }
+
+    const vetraInterface: Interface = vetra.interface;
+    if (!vetraInterface.getFunction(call.fn)) {
+      throw new Error(`Vetra has no function ${call.fn}`);
+    }
+    const data = vetraInterface.encodeFunctionData(call.fn, call.args);
+    const operationId = getOperationId(data);
+
+    const description = `${call.fn}(${JSON.stringify(call.args).slice(1, -1)})`;
+    await preflight(`Scheduling ${description}`, networkName, () =>
+      vetra.scheduleOperation.staticCall(data)
+    );
+
+    console.log(`Scheduling ${description}...`);
+    const tx = await vetra.scheduleOperation(data);
+    console.log("Transaction hash:", tx.hash);
+    const receipt = await tx.wait();
+    console.log("✅ Confirmed in block:", receipt?.blockNumber);
+    console.log("Operation ID:", operationId);
+    console.log(
+      "Ready at:",
+      formatTime(await vetra.timelockReadyAt(operationId))
+    );
+    console.log(
+      `\n   Execute with: TIMELOCK_ACTION=execute TIMELOCK_OPERATION_ID=${operationId} npm run timelock:${networkName}\n`
+    );
+    return;
+  }
+
+  const scheduled = await loadScheduledOperations(
+    vetra,
+    deployment.deployBlock ?? 0
+  );
+  const now = BigInt((await ethers.provider.getBlock("latest"))!.timestamp);
+
+  console.log("========================================");
+  console.log("SCHEDULED OPERATIONS");
+  console.log("========================================");
+  if (scheduled.length === 0) {
+    console.log("(none)");
+  }
+  for (const operation of scheduled) {
+    console.log(
+      `${operation.description}  ${now >= operation.readyAt ? "✅ READY" : "⏳ waiting"}`
+    );
+    console.log(`     ID:       ${operation.operationId}`);
+    console.log(`     Ready at: ${formatTime(operation.readyAt)}`);
+  }
+  console.log("");
+
+  if (!action) {
+    if (scheduled.length > 0) {
+      console.log(
+        `   TIMELOCK_ACTION=execute TIMELOCK_OPERATION_ID=ready npm run timelock:${networkName}    # run ready operations`
+      );
+      console.log(
+        `   TIMELOCK_ACTION=cancel TIMELOCK_OPERATION_ID=0x... npm run timelock:${networkName}     # drop one`
+      );
+      console.log("");
+    }
+    return;
+  }
+
+  const requestedId = getTimelockOperationId();
+
+  if (action === "cancel") {
+    if (requestedId === "ready") {
+      throw new Error("TIMELOCK_OPERATION_ID=ready is only allowed for execute.");
+    }
+    await preflight(`Cancelling ${requestedId}`, networkName, () =>
+      vetra.cancelOperation.staticCall(requestedId)
+    );
+
+    console.log(`Cancelling ${requestedId}...`);
+    const tx = await vetra.cancelOperation(requestedId);
+    console.log("Transaction hash:", tx.hash);
+    const receipt = await tx.wait();
+    console.log("✅ Confirmed in block:", receipt?.blockNumber);
+    console.log("");
+    return;
+  }
+
+  let targets: ScheduledOperation[];
+  if (requestedId === "ready") {
+    targets = scheduled.filter((op) => now >= op.readyAt);
+  } else {
+    const operation = scheduled.find(
+      (op) => op.operationId.toLowerCase() === requestedId.toLowerCase()
+    );
+    if (!operation) {
+      throw new Error(`Operation ${requestedId} is not scheduled.`);
+    }
+    if (now < operation.readyAt) {
+      throw new Error(
+        `Operation ${requestedId} is not ready until ${formatTime(operation.readyAt)}.`
+      );
+    }
+    targets = [operation];
+  }
+
+  const runnable: ScheduledOperation[] = [];
+  for (const operation of targets) {
+    if (operation.functionName === "upgradeToAndCall") {
+      console.log(
+        `⚠️  Skipping ${operation.description}: execute it with UPGRADE_CONTRACT=<name> npm run upgrade:${networkName}`
+      );
+      continue;
+    }
+
+    const roleName = TIMELOCKED_FUNCTIONS[operation.functionName ?? ""];
+    if (roleName) {
+      const role: string = await vetra.getFunction(roleName)();
+      if (!(await vetra.hasRole(role, signer.address))) {
+        console.log(
+          `⚠️  Skipping ${operation.description}: ${signer.address} does not have ${roleName}`
+        );
+        continue;
+      }
+    }
+    runnable.push(operation);
+  }
+
+  // Operations run in the order they became ready and a later one can need
+  // an earlier one (setMintRateWindow before setGlobalMintRateLimit), so
+  // each is pre-flighted just before it is sent
+  const executed: string[] = [];
+  for (const operation of runnable) {
+    try {
+      await preflight(`Executing ${operation.description}`, networkName, () =>
+        signer.call({ to: proxyAddress, data: operation.data })
+      );
+    } catch (error) {
+      if (executed.length > 0) {
+        console.error(`   Already executed: ${executed.join(", ")}`);
+      }
+      throw error;
+    }
+
+    console.log(`Executing ${operation.description}...`);
+    try {
+      const tx = await signer.sendTransaction({
+        to: proxyAddress,
+        data: operation.data,
+      });
+      console.log("Transaction hash:", tx.hash);
+      const receipt = await tx.wait();
+      console.log("✅ Confirmed in block:", receipt?.blockNumber);
+      executed.push(operation.description);
+    } catch (error: any) {
+      console.error(`\n❌ Failed to execute ${operation.description}:`);
+      printError(error, networkName);
+      if (executed.length > 0) {
+        console.error(`   Already executed: ${executed.join(", ")}`);
+      }
+      throw error;
+    }
+  }
+
+  console.log("\n========================================");
+  console.log("TIMELOCK SUMMARY");
+  console.log("========================================");
+  console.log("Executed:", executed.length ? executed.join(", ") : "(none)");
+  console.log("Network:", networkName);
+  console.log("========================================\n");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -1,7 +1,45 @@
 import { ethers } from "hardhat";
-import * as fs from "fs";
-import * as path from "path";
-import { getNetworkName, getReserveApiUrl, displayConfig } from "../config/env";
+import {
+  getNetworkName,
+  getReserveApiUrl,
+  getReserveSourceVersion,
+  getUpdateReserveTimeout,
+  isUpdateReserveWait,
+  displayConfig,
+} from "../config/env";
+import { Vetra } from "../typechain-types";
+import { getDeployment } from "./lib/deployments";
+import { preflight, printError } from "./lib/errors";
+import { buildReserveArgs, loadReserveSource } from "./lib/reserveSource";
+import {
+  SentReserveRequest,
+  assertApprovedSource,
+  formatDeviationBps,
+  sendReserveRequest,
+  waitForReserveRequest,
+} from "./lib/reserveUpdates";
+
+/**
+ * Request Reserve Update
+ *
+ * Sends a Chainlink Functions request for the latest FT Asset Management
+ * reserve. With UPDATE_RESERVE_WAIT=true the script follows the request ID
+ * until it is fulfilled and reports the result.
+ *
+ * The source is loaded from functions/reserve.v<N>.js and its hash must match
+ * the contract's approvedSourceHash (see scripts/approveSource.ts).
+ *
+ * Options (environment):
+ *   RESERVE_SOURCE_VERSION          Source file version (default: current)
+ *   UPDATE_RESERVE_WAIT             "true" to wait for fulfilment
+ *   UPDATE_RESERVE_TIMEOUT_SECONDS  How long to wait (default 300)
+ */
+
+const POLL_INTERVAL_MS = 5000;
+
+function formatUsd(reserveUsd: bigint): string {
+  return (Number(reserveUsd) / 100000000).toFixed(2);
+}
 
 async function main() {
   console.log("\n========================================");
@@ -19,35 +57,28 @@ async function main() {
   console.log("Account balance:", ethers.formatEther(balance), "POL\n");
 
   // Load deployment info
-  const deploymentFile = path.join(
-    __dirname,
-    "..",
-    "deployments",
-    `${networkName}.json`
-  );
-
-  if (!fs.existsSync(deploymentFile)) {
-    throw new Error(
-      `Deployment file not found: ${deploymentFile}. Run deployment first.`
-    );
-  }
-
-  const deployment = JSON.parse(fs.readFileSync(deploymentFile, "utf8"));
+  const deployment = getDeployment(networkName);
   const proxyAddress = deployment.proxy;
 
   console.log("Vetra contract:", proxyAddress);
   console.log("");
 
   // Get contract instance
-  const vetra = await ethers.getContractAt("Vetra", proxyAddress);
-
-  // Check that caller has admin role
-  const DEFAULT_ADMIN_ROLE = await vetra.DEFAULT_ADMIN_ROLE();
-  const hasAdminRole = await vetra.hasRole(DEFAULT_ADMIN_ROLE, signer.address);
+  const vetra = (await ethers.getContractAt(
+    "Vetra",
+    proxyAddress
+  )) as unknown as Vetra;
+
+  // Check that caller can request reserve updates
+  const RESERVE_UPDATER_ROLE = await vetra.RESERVE_UPDATER_ROLE();
+  const hasUpdaterRole = await vetra.hasRole(
+    RESERVE_UPDATER_ROLE,
+    signer.address
+  );
 
-  if (!hasAdminRole) {
+  if (!hasUpdaterRole) {
     throw new Error(
-      `Account ${signer.address} does not have DEFAULT_ADMIN_ROLE. Only admin can request reserve updates.`
+      `Account ${signer.address} does not have RESERVE_UPDATER_ROLE. Only reserve updaters can request reserve updates.`
     );
   }
 
@@ -57,118 +88,67 @@ async function main() {
   console.log("");
 
   // JavaScript source code for Chainlink Functions
-  // This fetches the reserve from FT Asset Management API
-  const sourceCode = `
-// Chainlink Functions source code for Vetra reserve update
-const apiUrl = args[0];
-
-// Make HTTP request to FT Asset Management API
-const response = await Functions.makeHttpRequest({
-  url: apiUrl,
-  method: "GET",
-  timeout: 9000
-});
-
-if (response.error) {
-  throw new Error("API request failed: " + response.error);
-}
-
-// Parse FT Asset Management API response
-// Expected format: { "StatementSummary": { "TotalBalance": "100000000.00", ... } }
-const data = response.data;
-
-if (!data || typeof data !== 'object') {
-  throw new Error("Invalid API response: expected object");
-}
+  const reserveSource = loadReserveSource(getReserveSourceVersion());
+  const sourceCode = reserveSource.source;
 
-if (!data.StatementSummary || typeof data.StatementSummary !== 'object') {
-  throw new Error("Invalid API response: missing StatementSummary");
-}
+  console.log("Chainlink Functions Source:");
+  console.log("- File:", reserveSource.path);
+  console.log("- Version:", reserveSource.version);
+  console.log("- Hash:", reserveSource.hash);
 
-const totalBalance = data.StatementSummary.TotalBalance;
+  // Check the source against the approved hash before sending
+  await assertApprovedSource(vetra, reserveSource);
+  console.log("✅ Source matches the approved hash on-chain");
+  console.log("");
 
-if (!totalBalance || typeof totalBalance !== 'string') {
-  throw new Error("Invalid API response: missing or invalid TotalBalance");
-}
+  const args = buildReserveArgs(apiUrl);
+  const wait = isUpdateReserveWait();
 
-// Parse balance string (e.g., "100000000.00") to float
-const usdBalance = parseFloat(totalBalance);
+  // Snapshot reserve state before the request
+  const oldReserve = await vetra.lastReserveUsd();
+  const oldNonce = await vetra.lastReserveNonce();
+  const oldCapacity = await vetra.availableMintCapacity();
 
-if (isNaN(usdBalance) || usdBalance < 0) {
-  throw new Error("Invalid balance value: " + totalBalance);
-}
+  console.log("Current reserve:", formatUsd(oldReserve), "USD");
+  console.log("Current nonce:", oldNonce.toString());
+  console.log("");
 
-// Convert to 8 decimals (contract expects USD with 8 decimals)
-// Example: $100,000,000.00 -> 10000000000000000 (10^16)
-const usdWith8Decimals = Math.floor(usdBalance * 100000000);
+  await preflight("requestReserveUpdate", networkName, () =>
+    vetra.requestReserveUpdate.staticCall(sourceCode, args)
+  );
 
-// Generate monotonic nonce (timestamp in milliseconds)
-const nonce = Date.now();
+  console.log("Requesting reserve update...");
+  console.log("");
 
-// ABI-encode response as (uint256, uint256) tuple
-// The contract uses abi.decode(response, (uint256, uint256))
-// So we must return properly ABI-encoded data
-const abiCoder = ethers.utils.defaultAbiCoder;
-const encoded = abiCoder.encode(
-  ['uint256', 'uint256'],
-  [usdWith8Decimals, nonce]
-);
+  let submitted: SentReserveRequest;
 
-return encoded;
-  `.trim();
+  try {
+    submitted = await sendReserveRequest(vetra, apiUrl, reserveSource);
+  } catch (error: any) {
+    console.error("\n❌ Error requesting reserve update:");
+    printError(error, networkName);
 
-  console.log("Chainlink Functions Source Code:");
-  console.log("-----------------------------------");
-  console.log(sourceCode);
-  console.log("-----------------------------------\n");
+    throw error;
+  }
 
-  const args = [apiUrl];
+  const { requestId, tx, receipt } = submitted;
 
-  console.log("Requesting reserve update...");
+  console.log("Transaction hash:", tx.hash);
+  console.log("✅ Transaction confirmed in block:", receipt.blockNumber);
+  console.log("\n✅ Reserve update requested:");
+  console.log("- Request ID:", requestId);
+  console.log("- Requester:", signer.address);
   console.log("");
 
-  try {
-    // Request reserve update
-    const tx = await vetra.requestReserveUpdate(sourceCode, args);
-    console.log("Transaction hash:", tx.hash);
-    console.log("Waiting for confirmation...");
-
-    const receipt = await tx.wait();
-    console.log("✅ Transaction confirmed in block:", receipt?.blockNumber);
-
-    // Parse events
-    const events = receipt?.logs
-      .map((log: any) => {
-        try {
-          return vetra.interface.parseLog(log);
-        } catch {
-          return null;
-        }
-      })
-      .filter((e: any) => e !== null);
-
-    const reserveUpdateEvent = events?.find(
-      (e: any) => e?.name === "ReserveUpdateRequested"
+  if (!wait) {
+    console.log("⏳ Waiting for Chainlink Functions to fulfill the request...");
+    console.log(
+      "   This may take 1-2 minutes. Monitor events with: npm run monitor:" +
+        networkName
     );
-
-    if (reserveUpdateEvent) {
-      const requestId = reserveUpdateEvent.args[0];
-      const requester = reserveUpdateEvent.args[1];
-      const timestamp = reserveUpdateEvent.args[2];
-
-      console.log("\n✅ Reserve update requested:");
-      console.log("- Request ID:", requestId);
-      console.log("- Requester:", requester);
-      console.log("- Timestamp:", new Date(Number(timestamp) * 1000).toISOString());
-      console.log("");
-      console.log("⏳ Waiting for Chainlink Functions to fulfill the request...");
-      console.log(
-        "   This may take 1-2 minutes. Monitor events with: npm run monitor:" +
-          networkName
-      );
-      console.log("");
-      console.log("   Request ID to watch:", requestId);
-    }
+    console.log("   Or rerun with UPDATE_RESERVE_WAIT=true to wait here.");
+    console.log("");
+    console.log("   Request ID to watch:", requestId);
 
     console.log("\n========================================");
     console.log("RESERVE UPDATE SUMMARY");
@@ -177,16 +157,85 @@ return encoded;
     console.log("Transaction:", tx.hash);
     console.log("Network:", networkName);
     console.log("========================================\n");
-  } catch (error: any) {
-    console.error("\n❌ Error requesting reserve update:");
-    console.error(error.message);
+    return;
+  }
 
-    if (error.data) {
-      console.error("Error data:", error.data);
+  const timeoutSeconds = getUpdateReserveTimeout();
+  console.log(
+    `⏳ Waiting up to ${timeoutSeconds}s for Chainlink Functions to fulfill the request...`
+  );
+
+  const result = await waitForReserveRequest(
+    vetra,
+    requestId,
+    receipt.blockNumber,
+    {
+      timeoutMs: timeoutSeconds * 1000,
+      pollIntervalMs: POLL_INTERVAL_MS,
+      onPending: (elapsedMs) =>
+        console.log(`   ...still pending (${Math.floor(elapsedMs / 1000)}s)`),
     }
+  );
 
-    throw error;
+  console.log("\n========================================");
+  console.log("RESERVE UPDATE SUMMARY");
+  console.log("========================================");
+  console.log("Request ID:", requestId);
+  console.log("Transaction:", tx.hash);
+  console.log("Network:", networkName);
+
+  if (result.status === "updated") {
+    const newCapacity = await vetra.availableMintCapacity();
+
+    console.log("Status: Reserve updated ✅");
+    console.log("Fulfilment transaction:", result.transactionHash);
+    console.log("Old reserve:", formatUsd(oldReserve), "USD");
+    console.log("New reserve:", formatUsd(result.usdAmount), "USD");
+    console.log("Old nonce:", oldNonce.toString());
+    console.log("New nonce:", result.nonce.toString());
+    console.log(
+      "Available mint capacity:",
+      ethers.formatEther(oldCapacity),
+      "→",
+      ethers.formatEther(newCapacity),
+      "VTR"
+    );
+    console.log("========================================\n");
+    return;
+  }
+
+  if (result.status === "quarantined") {
+    console.log("Status: Quarantined by the deviation circuit breaker ⚠️");
+    console.log("Last reserve:", formatUsd(result.previousUsd), "USD");
+    console.log("Reported reserve:", formatUsd(result.usdAmount), "USD");
+    console.log("Deviation:", formatDeviationBps(result.deviationBps));
+    console.log("Minting is blocked until an admin confirms or rejects it:");
+    console.log(
+      `   QUARANTINE_ACTION=confirm|reject npm run resolve-quarantine:${networkName}`
+    );
+    console.log("========================================\n");
+    throw new Error(`Request ${requestId} was quarantined`);
+  }
+
+  if (result.status === "fulfilled") {
+    console.log("Status: Fulfilled without reserve update ❌");
+    console.log("Reason:", result.reason);
+    console.log("Reserve is unchanged.");
+    console.log("Reserve:", formatUsd(oldReserve), "USD");
+    console.log("========================================\n");
+    throw new Error(`Request ${requestId} failed: ${result.reason}`);
   }
+
+  console.log("Status: Timed out ❌");
+  console.log(
+    `Request not fulfilled after ${Math.floor(result.elapsedMs / 1000)}s.`
+  );
+  console.log(
+    "Check the subscription balance and monitor with: npm run monitor:" +
+      networkName
+  );
+  console.log("========================================\n");
+  throw new Error(`Request ${requestId} not fulfilled within ${timeoutSeconds}s`);
 }
 
 main()
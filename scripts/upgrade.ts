@@ -0,0 +1,351 @@
+import hre, { ethers, upgrades } from "hardhat";
+import {
+  Manifest,
+  StorageItem,
+  StorageLayout,
+} from "@openzeppelin/upgrades-core";
+import {
+  displayConfig,
+  getNetworkName,
+  getDeploymentName,
+  getUpgradeContract,
+  getUpgradeCall,
+  isUpgradeDryRun,
+} from "../config/env";
+import {
+  getDeployment,
+  getCurrentImplementation,
+  recordContract,
+  recordImplementation,
+} from "./lib/deployments";
+import { preflight } from "./lib/errors";
+import { MIGRATION_STEPS, getInitializedVersion } from "./lib/migrations";
+import {
+  deployLibraries,
+  getLinkedFactory,
+  getRecordedLibraries,
+} from "./lib/libraries";
+import { getOperationId } from "./lib/timelock";
+
+/**
+ * Upgrade Vetra Proxy
+ *
+ * Validates the target implementation against the storage layout of the
+ * implementation the proxy currently points to, prints the layout diff,
+ * then upgrades (unless UPGRADE_DRY_RUN=true) and records the new
+ * implementation in the deployment registry. Libraries the target links
+ * are reused from the registry or deployed and recorded first. While
+ * Vetra's timelock is on, the first run schedules the upgrade and a run
+ * after the delay executes it. Vetra's own reinitializers are not run
+ * here: a proxy upgraded from before them is migrated afterwards with
+ * scripts/migrate.ts.
+ *
+ * Options (environment):
+ *   UPGRADE_CONTRACT   Target contract name (required), e.g. Vetra
+ *   UPGRADE_DRY_RUN    "true" to only validate and print the diff
+ *   UPGRADE_CALL       Optional reinitializer to call, e.g. initializeV2
+ *   UPGRADE_CALL_ARGS  JSON array of arguments for UPGRADE_CALL
+ */
+
+function describeItem(item: StorageItem, layout: StorageLayout): string {
+  const type = layout.types[item.type]?.label ?? item.type;
+  return `${item.label}: ${type} (slot ${item.slot ?? "?"}, offset ${
+    item.offset ?? 0
+  })`;
+}
+
+/**
+ * Storage layout of the proxy's current implementation, as recorded in the
+ * OpenZeppelin network manifest when it was deployed
+ */
+async function getCurrentLayout(
+  implementation: string
+): Promise<StorageLayout | undefined> {
+  const manifest = await Manifest.forNetwork(ethers.provider);
+  try {
+    return (await manifest.getDeploymentFromAddress(implementation)).layout;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Storage layout of a compiled contract, from its build info */
+async function getTargetLayout(contractName: string): Promise<StorageLayout> {
+  const { sourceName } = await hre.artifacts.readArtifact(contractName);
+  const buildInfo = await hre.artifacts.getBuildInfo(
+    `${sourceName}:${contractName}`
+  );
+  // The upgrades plugin adds storageLayout to the compiler output, whose
+  // type doesn't declare it
+  const output = buildInfo?.output.contracts[sourceName]?.[contractName];
+  const layout =
+    output && "storageLayout" in output
+      ? (output.storageLayout as StorageLayout)
+      : undefined;
+  if (!layout) {
+    throw new Error(
+      `No storage layout for ${contractName}. Recompile with npx hardhat compile --force`
+    );
+  }
+  return layout;
+}
+
+/**
+ * Prints state variables added, removed or moved. Namespaced (ERC-7201)
+ * storage is left to validateUpgrade, which checks it in full
+ */
+function printStorageDiff(current: StorageLayout, target: StorageLayout) {
+  const currentByLabel = new Map(current.storage.map((i) => [i.label, i]));
+  const targetByLabel = new Map(target.storage.map((i) => [i.label, i]));
+  let changes = 0;
+
+  for (const item of current.storage) {
+    if (!targetByLabel.has(item.label)) {
+      console.log(`  - ${describeItem(item, current)}`);
+      changes++;
+    }
+  }
+
+  for (const item of target.storage) {
+    const before = currentByLabel.get(item.label);
+    if (!before) {
+      console.log(`  + ${describeItem(item, target)}`);
+      changes++;
+    } else if (
+      before.slot !== item.slot ||
+      before.offset !== item.offset ||
+      current.types[before.type]?.label !== target.types[item.type]?.label
+    ) {
+      console.log(`  ~ ${describeItem(before, current)}`);
+      console.log(`    → ${describeItem(item, target)}`);
+      changes++;
+    }
+  }
+
+  if (changes === 0) {
+    console.log("  (no storage changes)");
+  }
+}
+
+async function main() {
+  console.log("\n========================================");
+  console.log("VETRA PROXY UPGRADE");
+  console.log("========================================\n");
+
+  displayConfig();
+
+  const networkName = getNetworkName();
+  const deploymentName = getDeploymentName();
+  const contractName = getUpgradeContract();
+  const call = getUpgradeCall();
+  const dryRun = isUpgradeDryRun();
+  const [signer] = await ethers.getSigners();
+
+  // Load deployment info
+  const deployment = getDeployment(networkName, deploymentName);
+  const proxyAddress = deployment.proxy;
+
+  const onChainImpl = await upgrades.erc1967.getImplementationAddress(
+    proxyAddress
+  );
+  const recordedImpl = getCurrentImplementation(deployment);
+
+  console.log("Vetra proxy:", proxyAddress);
+  console.log("Current implementation:", onChainImpl);
+  console.log("Target contract:", contractName);
+  console.log(
+    "Reinitializer:",
+    call ? `${call.fn}(${JSON.stringify(call.args).slice(1, -1)})` : "none"
+  );
+  console.log("Mode:", dryRun ? "DRY RUN (validate only)" : "UPGRADE");
+  console.log("");
+
+  if (onChainImpl.toLowerCase() !== recordedImpl.address.toLowerCase()) {
+    console.log(
+      `⚠️  Registry records ${recordedImpl.address} as current implementation,`
+    );
+    console.log(`   but the proxy points to ${onChainImpl}.\n`);
+  }
+
+  // Validation only reads the unlinked bytecode, so libraries that are not
+  // deployed yet are linked as placeholders until the upgrade is sent
+  let TargetFactory = await getLinkedFactory(
+    contractName,
+    getRecordedLibraries(deployment)
+  );
+
+  if (call && !TargetFactory.interface.getFunction(call.fn)) {
+    throw new Error(`${contractName} has no function ${call.fn}`);
+  }
+
+  // Storage layout validation
+  console.log("========================================");
+  console.log("STORAGE LAYOUT VALIDATION");
+  console.log("========================================");
+
+  const currentLayout = await getCurrentLayout(onChainImpl);
+  if (currentLayout) {
+    console.log(`Storage diff (current → ${contractName}):`);
+    printStorageDiff(currentLayout, await getTargetLayout(contractName));
+  } else {
+    console.log(
+      `⚠️  ${onChainImpl} is not in the network manifest; no storage diff.`
+    );
+  }
+  console.log("");
+
+  try {
+    await upgrades.validateUpgrade(proxyAddress, TargetFactory, {
+      kind: "uups",
+      unsafeAllowLinkedLibraries: true,
+    });
+    console.log("✅ Upgrade is storage-compatible and upgrade-safe\n");
+  } catch (error: any) {
+    console.error("❌ Upgrade validation failed:");
+    console.error(error.message);
+    console.error("");
+    throw error;
+  }
+
+  if (dryRun) {
+    console.log("Dry run complete. No transaction sent.\n");
+    return;
+  }
+
+  // Check that caller can authorize the upgrade. Implementations before the
+  // fine-grained roles authorize upgrades with DEFAULT_ADMIN_ROLE.
+  const vetra = await ethers.getContractAt("Vetra", proxyAddress);
+  const DEFAULT_ADMIN_ROLE = await vetra.DEFAULT_ADMIN_ROLE();
+  const UPGRADER_ROLE = await vetra
+    .UPGRADER_ROLE()
+    .catch(() => DEFAULT_ADMIN_ROLE);
+  const hasUpgraderRole = await vetra.hasRole(UPGRADER_ROLE, signer.address);
+
+  if (!hasUpgraderRole) {
+    throw new Error(
+      `Account ${signer.address} does not have ${
+        UPGRADER_ROLE === DEFAULT_ADMIN_ROLE
+          ? "DEFAULT_ADMIN_ROLE"
+          : "UPGRADER_ROLE"
+      }. Only upgraders can upgrade.`
+    );
+  }
+
+  console.log("Upgrading with account:", signer.address);
+
+  // Deploy (or reuse) the libraries and the implementation, then point the
+  // proxy at it
+  const { libraries, deployed } = await deployLibraries(deployment);
+  for (const record of deployed) {
+    recordContract(networkName, deploymentName, record);
+    console.log(`✅ ${record.contractName} deployed at:`, record.address);
+  }
+  TargetFactory = await getLinkedFactory(contractName, libraries);
+
+  console.log("⏳ Deploying implementation and upgrading proxy...\n");
+  const newImpl = (await upgrades.prepareUpgrade(proxyAddress, TargetFactory, {
+    kind: "uups",
+    unsafeAllowLinkedLibraries: true,
+  })) as string;
+  console.log("✅ Implementation ready at:", newImpl);
+
+  const callData = call
+    ? TargetFactory.interface.encodeFunctionData(call.fn, call.args)
+    : "0x";
+
+  // Implementations before the timelock have no timelockDelay
+  const timelockDelay = await vetra.timelockDelay().catch(() => 0n);
+  if (timelockDelay > 0n) {
+    const data = vetra.interface.encodeFunctionData("upgradeToAndCall", [
+      newImpl,
+      callData,
+    ]);
+    const operationId = getOperationId(data);
+    const readyAt = await vetra.timelockReadyAt(operationId);
+
+    if (readyAt === 0n) {
+      if (!(await vetra.hasRole(DEFAULT_ADMIN_ROLE, signer.address))) {
+        throw new Error(
+          `Upgrade ${operationId} is not scheduled. Only an account with DEFAULT_ADMIN_ROLE can schedule it.`
+        );
+      }
+      await preflight("Scheduling the upgrade", networkName, () =>
+        vetra.scheduleOperation.staticCall(data)
+      );
+      console.log(`⏳ Timelock is on (${timelockDelay}s); scheduling the upgrade...`);
+      const scheduleTx = await vetra.scheduleOperation(data);
+      await scheduleTx.wait();
+      console.log("✅ Upgrade scheduled:", operationId);
+      console.log(
+        "   Ready at:",
+        new Date(
+          Number(await vetra.timelockReadyAt(operationId)) * 1000
+        ).toISOString()
+      );
+      console.log("   Run this command again with the same options to execute it.\n");
+      return;
+    }
+
+    const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+    if (BigInt(now) < readyAt) {
+      console.log(
+        `⏳ Upgrade ${operationId} is scheduled but not ready until ${new Date(
+          Number(readyAt) * 1000
+        ).toISOString()}.\n`
+      );
+      return;
+    }
+    console.log("✅ Scheduled upgrade is ready:", operationId);
+  }
+
+  await preflight("upgradeToAndCall", networkName, () =>
+    vetra.upgradeToAndCall.staticCall(newImpl, callData)
+  );
+
+  const tx = await vetra.upgradeToAndCall(newImpl, callData);
+  console.log("Transaction hash:", tx.hash);
+  console.log("Waiting for confirmation...");
+
+  const receipt = await tx.wait();
+  console.log("✅ Transaction confirmed in block:", receipt?.blockNumber);
+
+  const filename = recordImplementation(networkName, deploymentName, {
+    address: newImpl,
+    contractName,
+    blockNumber: receipt?.blockNumber ?? null,
+    txHash: tx.hash,
+    timestamp: new Date().toISOString(),
+  });
+
+  console.log("✅ Deployment registry updated:", filename);
+
+  console.log("\n========================================");
+  console.log("UPGRADE SUMMARY");
+  console.log("========================================");
+  console.log("Network:", networkName);
+  console.log("Deployment:", deploymentName);
+  console.log("Proxy:", proxyAddress);
+  console.log("Previous Implementation:", onChainImpl);
+  console.log("New Implementation:", newImpl);
+  console.log("Contract:", contractName);
+  console.log("========================================");
+  console.log("\nNext steps:");
+  const steps = [
+    "npm run verify:" + networkName,
+    "npm run monitor:" + networkName,
+  ];
+  // A proxy from before the reinitializers needs them before anything else
+  const latest = MIGRATION_STEPS[MIGRATION_STEPS.length - 1].version;
+  if ((await getInitializedVersion(vetra)) < latest) {
+    steps.unshift("npm run migrate:" + networkName);
+  }
+  steps.forEach((step, i) => console.log(`${i + 1}. Run: ${step}`));
+  console.log("========================================\n");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -1,7 +1,7 @@
 import { run } from "hardhat";
-import * as fs from "fs";
-import * as path from "path";
 import { getNetworkName } from "../config/env";
+import { getDeployment, getCurrentImplementation } from "./lib/deployments";
+import { VETRA_LIBRARIES } from "./lib/libraries";
 
 async function main() {
   console.log("\n========================================");
@@ -12,22 +12,9 @@ async function main() {
   console.log("Network:", networkName);
 
   // Load deployment info
-  const deploymentFile = path.join(
-    __dirname,
-    "..",
-    "deployments",
-    `${networkName}.json`
-  );
-
-  if (!fs.existsSync(deploymentFile)) {
-    throw new Error(
-      `Deployment file not found: ${deploymentFile}. Run deployment first.`
-    );
-  }
-
-  const deployment = JSON.parse(fs.readFileSync(deploymentFile, "utf8"));
+  const deployment = getDeployment(networkName);
   const proxyAddress = deployment.proxy;
-  const implementationAddress = deployment.implementation;
+  const implementationAddress = getCurrentImplementation(deployment).address;
 
   console.log("Proxy address:", proxyAddress);
   console.log("Implementation address:", implementationAddress);
@@ -53,6 +40,29 @@ async function main() {
     }
   }
 
+  // Libraries linked into the implementation
+  for (const name of VETRA_LIBRARIES) {
+    const record = deployment.contracts?.[name];
+    if (!record) continue;
+
+    console.log(`\nVerifying ${name} at ${record.address}...`);
+    try {
+      await run("verify:verify", {
+        address: record.address,
+        constructorArguments: [],
+      });
+      console.log(`✅ ${name} verified successfully!`);
+    } catch (error: any) {
+      if (error.message.includes("Already Verified")) {
+        console.log(`✅ ${name} is already verified!`);
+      } else {
+        console.error(`❌ ${name} verification failed:`);
+        console.error(error.message);
+        throw error;
+      }
+    }
+  }
+
   console.log("\n========================================");
   console.log("VERIFICATION SUMMARY");
   console.log("========================================");
@@ -0,0 +1,76 @@
+import { ethers } from "hardhat";
+import { Addressable, ContractFactory, Signer } from "ethers";
+import { Vetra } from "../typechain-types";
+import {
+  LibraryAddresses,
+  deployLibraries,
+  getLinkedFactory,
+} from "../scripts/lib/libraries";
+
+let libraries: LibraryAddresses | undefined;
+
+/**
+ * Factory for Vetra or a contract built on it (e.g. VetraV2) with its
+ * libraries linked. The libraries are deployed once per test run
+ */
+export async function getVetraFactory(
+  contractName: string = "Vetra"
+): Promise<ContractFactory> {
+  if (
+    !libraries ||
+    (await ethers.provider.getCode(Object.values(libraries)[0])) === "0x"
+  ) {
+    libraries = (await deployLibraries()).libraries;
+  }
+  return getLinkedFactory(contractName, libraries);
+}
+
+const SOURCE_CODE = "return Functions.encodeUint256(100);";
+
+/**
+ * Records a $1,000,000 reserve by approving a source, requesting an update
+ * as `admin` and fulfilling it as `router`
+ */
+export async function setReserve(
+  vetra: Vetra,
+  admin: Signer,
+  router: Addressable
+): Promise<void> {
+  await vetra
+    .connect(admin)
+    .setApprovedSource(ethers.id(SOURCE_CODE), 1, "");
+  const tx = await vetra
+    .connect(admin)
+    .requestReserveUpdate(SOURCE_CODE, []);
+  const receipt = await tx.wait();
+  const event = receipt!.logs
+    .map((log) => {
+      try {
+        return vetra.interface.parseLog(log);
+      } catch {
+        return null;
+      }
+    })
+    .find((parsed) => parsed?.name === "ReserveUpdateRequested");
+
+  const routerAddress = await router.getAddress();
+  await ethers.provider.send("hardhat_impersonateAccount", [routerAddress]);
+  await ethers.provider.send("hardhat_setBalance", [
+    routerAddress,
+    "0xde0b6b3a7640000",
+  ]);
+  const routerSigner = await ethers.getSigner(routerAddress);
+  await vetra
+    .connect(routerSigner)
+    .handleOracleFulfillment(
+      event!.args[0],
+      ethers.AbiCoder.defaultAbiCoder().encode(
+        ["uint256", "uint256"],
+        [1_000_000n * 10n ** 8n, 1n]
+      ),
+      "0x"
+    );
+  await ethers.provider.send("hardhat_stopImpersonatingAccount", [
+    routerAddress,
+  ]);
+}
@@ -0,0 +1,358 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { Vetra, VetraV1 } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { getVetraFactory } from "./helpers";
+
+describe("Vetra - Default Admin Transfer", function () {
+  let vetra: Vetra;
+  let admin: SignerWithAddress;
+  let minter: SignerWithAddress;
+  let burner: SignerWithAddress;
+  let newAdmin: SignerWithAddress;
+  let attacker: SignerWithAddress;
+  let functionsRouter: SignerWithAddress;
+
+  let DEFAULT_ADMIN_ROLE: string;
+
+  const RESERVE_TTL = 900;
+  const DON_ID = ethers.encodeBytes32String("fun-polygon-amoy-1");
+  const SUBSCRIPTION_ID = 1;
+  const GAS_LIMIT = 300000;
+
+  const DELAY = 2 * 24 * 60 * 60; // 2 days
+  const WINDOW = 7 * 24 * 60 * 60; // 7 days
+
+  async function increaseChainTime(seconds: number) {
+    await ethers.provider.send("evm_increaseTime", [seconds]);
+    await ethers.provider.send("evm_mine", []);
+  }
+
+  function initArgs() {
+    return [
+      admin.address,
+      minter.address,
+      burner.address,
+      RESERVE_TTL,
+      functionsRouter.address,
+      DON_ID,
+      SUBSCRIPTION_ID,
+      GAS_LIMIT,
+    ];
+  }
+
+  beforeEach(async function () {
+    [admin, minter, burner, newAdmin, attacker, functionsRouter] =
+      await ethers.getSigners();
+
+    const VetraFactory = await getVetraFactory();
+    vetra = (await upgrades.deployProxy(VetraFactory, initArgs(), {
+      initializer: "initialize",
+      kind: "uups",
+      unsafeAllowLinkedLibraries: true,
+    })) as unknown as Vetra;
+
+    await vetra.waitForDeployment();
+    DEFAULT_ADMIN_ROLE = await vetra.DEFAULT_ADMIN_ROLE();
+  });
+
+  describe("Initial State", function () {
+    it("Should record the initial admin as defaultAdmin", async function () {
+      expect(await vetra.defaultAdmin()).to.equal(admin.address);
+      expect(await vetra.pendingDefaultAdmin()).to.equal(ethers.ZeroAddress);
+      expect(await vetra.pendingDefaultAdminSchedule()).to.equal(0);
+      expect(await vetra.DEFAULT_ADMIN_TRANSFER_DELAY()).to.equal(DELAY);
+      expect(await vetra.DEFAULT_ADMIN_TRANSFER_WINDOW()).to.equal(WINDOW);
+    });
+  });
+
+  describe("Transfer", function () {
+    it("Should hand over the admin role after the delay", async function () {
+      const tx = await vetra
+        .connect(admin)
+        .beginDefaultAdminTransfer(newAdmin.address);
+      const block = await ethers.provider.getBlock(tx.blockNumber!);
+      const acceptSchedule = BigInt(block!.timestamp + DELAY);
+
+      await expect(tx)
+        .to.emit(vetra, "DefaultAdminTransferScheduled")
+        .withArgs(newAdmin.address, acceptSchedule);
+      expect(await vetra.pendingDefaultAdmin()).to.equal(newAdmin.address);
+      expect(await vetra.pendingDefaultAdminSchedule()).to.equal(
+        acceptSchedule
+      );
+
+      await increaseChainTime(DELAY);
+      await expect(vetra.connect(newAdmin).acceptDefaultAdminTransfer())
+        .to.emit(vetra, "RoleRevoked")
+        .withArgs(DEFAULT_ADMIN_ROLE, admin.address, newAdmin.address)
+        .and.to.emit(vetra, "RoleGranted")
+        .withArgs(DEFAULT_ADMIN_ROLE, newAdmin.address, newAdmin.address);
+
+      expect(await vetra.hasRole(DEFAULT_ADMIN_ROLE, newAdmin.address)).to.be
+        .true;
+      expect(await vetra.hasRole(DEFAULT_ADMIN_ROLE, admin.address)).to.be
+        .false;
+      expect(await vetra.defaultAdmin()).to.equal(newAdmin.address);
+      expect(await vetra.pendingDefaultAdmin()).to.equal(ethers.ZeroAddress);
+      expect(await vetra.pendingDefaultAdminSchedule()).to.equal(0);
+
+      // The new admin manages roles; the old one no longer can
+      const MINTER_ROLE = await vetra.MINTER_ROLE();
+      await vetra.connect(newAdmin).grantRole(MINTER_ROLE, attacker.address);
+      await expect(
+        vetra.connect(admin).revokeRole(MINTER_ROLE, attacker.address)
+      ).to.be.revertedWithCustomError(
+        vetra,
+        "AccessControlUnauthorizedAccount"
+      );
+    });
+
+    it("Should keep operational roles with the old admin", async function () {
+      await vetra.connect(admin).beginDefaultAdminTransfer(newAdmin.address);
+      await increaseChainTime(DELAY);
+      await vetra.connect(newAdmin).acceptDefaultAdminTransfer();
+
+      const PAUSER_ROLE = await vetra.PAUSER_ROLE();
+      expect(await vetra.hasRole(PAUSER_ROLE, admin.address)).to.be.true;
+      await vetra.connect(newAdmin).revokeRole(PAUSER_ROLE, admin.address);
+      expect(await vetra.hasRole(PAUSER_ROLE, admin.address)).to.be.false;
+    });
+
+    it("Should NOT accept before the delay", async function () {
+      await vetra.connect(admin).beginDefaultAdminTransfer(newAdmin.address);
+      const acceptSchedule = await vetra.pendingDefaultAdminSchedule();
+
+      await increaseChainTime(DELAY - 10);
+      await expect(vetra.connect(newAdmin).acceptDefaultAdminTransfer())
+        .to.be.revertedWithCustomError(vetra, "DefaultAdminTransferNotReady")
+        .withArgs(acceptSchedule);
+    });
+
+    it("Should NOT accept after the window expires", async function () {
+      await vetra.connect(admin).beginDefaultAdminTransfer(newAdmin.address);
+      const acceptSchedule = await vetra.pendingDefaultAdminSchedule();
+
+      await increaseChainTime(DELAY + WINDOW + 1);
+      await expect(vetra.connect(newAdmin).acceptDefaultAdminTransfer())
+        .to.be.revertedWithCustomError(vetra, "DefaultAdminTransferExpired")
+        .withArgs(acceptSchedule + BigInt(WINDOW));
+      expect(await vetra.defaultAdmin()).to.equal(admin.address);
+
+      // A fresh transfer can be started after expiry
+      await vetra.connect(admin).beginDefaultAdminTransfer(newAdmin.address);
+      await increaseChainTime(DELAY);
+      await vetra.connect(newAdmin).acceptDefaultAdminTransfer();
+      expect(await vetra.defaultAdmin()).to.equal(newAdmin.address);
+    });
+
+    it("Should only be accepted by the pending admin", async function () {
+      await vetra.connect(admin).beginDefaultAdminTransfer(newAdmin.address);
+      await increaseChainTime(DELAY);
+
+      await expect(vetra.connect(attacker).acceptDefaultAdminTransfer())
+        .to.be.revertedWithCustomError(vetra, "InvalidDefaultAdmin")
+        .withArgs(attacker.address);
+      await expect(vetra.connect(admin).acceptDefaultAdminTransfer())
+        .to.be.revertedWithCustomError(vetra, "InvalidDefaultAdmin")
+        .withArgs(admin.address);
+    });
+
+    it("Should replace a pending transfer when begun again", async function () {
+      await vetra.connect(admin).beginDefaultAdminTransfer(attacker.address);
+      await vetra.connect(admin).beginDefaultAdminTransfer(newAdmin.address);
+      await increaseChainTime(DELAY);
+
+      await expect(
+        vetra.connect(attacker).acceptDefaultAdminTransfer()
+      ).to.be.revertedWithCustomError(vetra, "InvalidDefaultAdmin");
+      await vetra.connect(newAdmin).acceptDefaultAdminTransfer();
+      expect(await vetra.defaultAdmin()).to.equal(newAdmin.address);
+    });
+
+    it("Should only let the admin begin a transfer", async function () {
+      await expect(
+        vetra.connect(attacker).beginDefaultAdminTransfer(attacker.address)
+      ).to.be.revertedWithCustomError(
+        vetra,
+        "AccessControlUnauthorizedAccount"
+      );
+      await expect(
+        vetra.connect(admin).beginDefaultAdminTransfer(ethers.ZeroAddress)
+      ).to.be.revertedWithCustomError(vetra, "InvalidAddress");
+    });
+  });
+
+  describe("Cancellation", function () {
+    it("Should cancel a pending transfer", async function () {
+      await vetra.connect(admin).beginDefaultAdminTransfer(newAdmin.address);
+
+      await expect(
+        vetra.connect(attacker).cancelDefaultAdminTransfer()
+      ).to.be.revertedWithCustomError(
+        vetra,
+        "AccessControlUnauthorizedAccount"
+      );
+      await expect(vetra.connect(admin).cancelDefaultAdminTransfer())
+        .to.emit(vetra, "DefaultAdminTransferCancelled")
+        .withArgs(newAdmin.address);
+      expect(await vetra.pendingDefaultAdmin()).to.equal(ethers.ZeroAddress);
+      expect(await vetra.pendingDefaultAdminSchedule()).to.equal(0);
+
+      await increaseChainTime(DELAY);
+      await expect(
+        vetra.connect(newAdmin).acceptDefaultAdminTransfer()
+      ).to.be.revertedWithCustomError(vetra, "InvalidDefaultAdmin");
+      expect(await vetra.hasRole(DEFAULT_ADMIN_ROLE, admin.address)).to.be
+        .true;
+    });
+  });
+
+  describe("Role Rules", function () {
+    it("Should NOT grant the admin role directly", async function () {
+      await expect(
+        vetra.connect(admin).grantRole(DEFAULT_ADMIN_ROLE, newAdmin.address)
+      ).to.be.revertedWithCustomError(vetra, "DefaultAdminRulesEnforced");
+    });
+
+    it("Should NOT revoke or renounce the default admin", async function () {
+      await expect(
+        vetra.connect(admin).revokeRole(DEFAULT_ADMIN_ROLE, admin.address)
+      ).to.be.revertedWithCustomError(vetra, "DefaultAdminRulesEnforced");
+      await expect(
+        vetra.connect(admin).renounceRole(DEFAULT_ADMIN_ROLE, admin.address)
+      ).to.be.revertedWithCustomError(vetra, "DefaultAdminRulesEnforced");
+      expect(await vetra.hasRole(DEFAULT_ADMIN_ROLE, admin.address)).to.be
+        .true;
+    });
+  });
+
+  describe("Migration", function () {
+    let vetraV1: VetraV1;
+
+    beforeEach(async function () {
+      const VetraV1Factory = await ethers.getContractFactory("VetraV1");
+      vetraV1 = (await upgrades.deployProxy(VetraV1Factory, initArgs(), {
+        initializer: "initialize",
+        kind: "uups",
+      })) as unknown as VetraV1;
+      await vetraV1.waitForDeployment();
+
+      // A second admin granted before the two-step transfer existed
+      await vetraV1
+        .connect(admin)
+        .grantRole(DEFAULT_ADMIN_ROLE, attacker.address);
+
+      const VetraFactory = await getVetraFactory();
+      vetra = (await upgrades.upgradeProxy(
+        await vetraV1.getAddress(),
+        VetraFactory,
+        {
+          kind: "uups",
+          unsafeAllowLinkedLibraries: true,
+          call: { fn: "initializeCompliance", args: [admin.address] },
+        }
+      )) as unknown as Vetra;
+      await vetra.connect(admin).initializePermit();
+      await vetra.connect(admin).initializeRoles();
+    });
+
+    it("Should record the calling admin and keep existing roles", async function () {
+      expect(await vetra.defaultAdmin()).to.equal(ethers.ZeroAddress);
+
+      await vetra.connect(admin).initializeDefaultAdmin([attacker.address]);
+
+      expect(await vetra.defaultAdmin()).to.equal(admin.address);
+      expect(await vetra.hasRole(DEFAULT_ADMIN_ROLE, admin.address)).to.be
+        .true;
+      expect(
+        await vetra.hasRole(await vetra.MINTER_ROLE(), minter.address)
+      ).to.be.true;
+      expect(
+        await vetra.hasRole(await vetra.BURNER_ROLE(), burner.address)
+      ).to.be.true;
+
+      // The default admin cannot be revoked
+      await expect(
+        vetra.connect(admin).revokeRole(DEFAULT_ADMIN_ROLE, admin.address)
+      ).to.be.revertedWithCustomError(vetra, "DefaultAdminRulesEnforced");
+    });
+
+    it("Should revoke the other admins", async function () {
+      await expect(
+        vetra.connect(admin).initializeDefaultAdmin([attacker.address])
+      )
+        .to.emit(vetra, "RoleRevoked")
+        .withArgs(DEFAULT_ADMIN_ROLE, attacker.address, admin.address);
+
+      expect(await vetra.hasRole(DEFAULT_ADMIN_ROLE, attacker.address)).to.be
+        .false;
+      await expect(
+        vetra.connect(attacker).grantRole(DEFAULT_ADMIN_ROLE, attacker.address)
+      ).to.be.revertedWithCustomError(
+        vetra,
+        "AccessControlUnauthorizedAccount"
+      );
+    });
+
+    it("Should leave an admin missing from the list without rights", async function () {
+      await vetra.connect(admin).initializeDefaultAdmin([]);
+
+      expect(await vetra.hasRole(DEFAULT_ADMIN_ROLE, attacker.address)).to.be
+        .false;
+      await expect(
+        vetra.connect(attacker).grantRole(DEFAULT_ADMIN_ROLE, attacker.address)
+      ).to.be.revertedWithCustomError(
+        vetra,
+        "AccessControlUnauthorizedAccount"
+      );
+      await expect(
+        vetra.connect(attacker).beginDefaultAdminTransfer(attacker.address)
+      ).to.be.revertedWithCustomError(
+        vetra,
+        "AccessControlUnauthorizedAccount"
+      );
+    });
+
+    it("Should NOT grant DEFAULT_ADMIN_ROLE before the migration", async function () {
+      await expect(
+        vetra.connect(admin).grantRole(DEFAULT_ADMIN_ROLE, newAdmin.address)
+      ).to.be.revertedWithCustomError(vetra, "DefaultAdminRulesEnforced");
+      expect(await vetra.defaultAdmin()).to.equal(ethers.ZeroAddress);
+    });
+
+    it("Should NOT accept an account that is not an admin", async function () {
+      await expect(
+        vetra
+          .connect(admin)
+          .initializeDefaultAdmin([attacker.address, newAdmin.address])
+      )
+        .to.be.revertedWithCustomError(vetra, "InvalidDefaultAdmin")
+        .withArgs(newAdmin.address);
+    });
+
+    it("Should NOT let the caller revoke itself", async function () {
+      await expect(
+        vetra
+          .connect(admin)
+          .initializeDefaultAdmin([attacker.address, admin.address])
+      ).to.be.revertedWithCustomError(vetra, "DefaultAdminRulesEnforced");
+    });
+
+    it("Should NOT allow running the migration twice", async function () {
+      await vetra.connect(admin).initializeDefaultAdmin([attacker.address]);
+      await expect(
+        vetra.connect(admin).initializeDefaultAdmin([])
+      ).to.be.revertedWithCustomError(vetra, "InvalidInitialization");
+    });
+
+    it("Should NOT allow non-admin to run the migration", async function () {
+      await expect(
+        vetra.connect(newAdmin).initializeDefaultAdmin([])
+      ).to.be.revertedWithCustomError(
+        vetra,
+        "AccessControlUnauthorizedAccount"
+      );
+    });
+  });
+});
@@ -0,0 +1,216 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { Vetra, MockFunctionsRouter } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { getVetraFactory, setReserve } from "./helpers";
+
+describe("Vetra - Minter Allowances", function () {
+  let vetra: Vetra;
+  let admin: SignerWithAddress;
+  let minter: SignerWithAddress;
+  let burner: SignerWithAddress;
+  let minter2: SignerWithAddress;
+  let minterAdmin: SignerWithAddress;
+  let user: SignerWithAddress;
+  let functionsRouter: MockFunctionsRouter;
+
+  const RESERVE_TTL = 900; // 15 minutes
+  const DON_ID = ethers.encodeBytes32String("fun-polygon-amoy-1");
+  const SUBSCRIPTION_ID = 1;
+  const GAS_LIMIT = 300000;
+
+  const tokens = (amount: string) => ethers.parseEther(amount);
+
+  beforeEach(async function () {
+    [admin, minter, burner, minter2, minterAdmin, user] =
+      await ethers.getSigners();
+
+    const RouterFactory = await ethers.getContractFactory("MockFunctionsRouter");
+    functionsRouter =
+      (await RouterFactory.deploy()) as unknown as MockFunctionsRouter;
+    await functionsRouter.waitForDeployment();
+
+    const VetraFactory = await getVetraFactory();
+    vetra = (await upgrades.deployProxy(
+      VetraFactory,
+      [
+        admin.address,
+        minter.address,
+        burner.address,
+        RESERVE_TTL,
+        await functionsRouter.getAddress(),
+        DON_ID,
+        SUBSCRIPTION_ID,
+        GAS_LIMIT,
+      ],
+      {
+        initializer: "initialize",
+        kind: "uups",
+        unsafeAllowLinkedLibraries: true,
+      }
+    )) as unknown as Vetra;
+
+    await vetra.waitForDeployment();
+    await setReserve(vetra, admin, functionsRouter);
+    await vetra
+      .connect(admin)
+      .grantRole(await vetra.MINTER_ROLE(), minter2.address);
+    await vetra
+      .connect(admin)
+      .grantRole(await vetra.MINTER_ADMIN_ROLE(), minterAdmin.address);
+  });
+
+  describe("Minter Admin Role", function () {
+    it("Should assign MINTER_ADMIN_ROLE to admin on deployment", async function () {
+      const MINTER_ADMIN_ROLE = await vetra.MINTER_ADMIN_ROLE();
+      expect(await vetra.hasRole(MINTER_ADMIN_ROLE, admin.address)).to.be.true;
+      expect(await vetra.getRoleAdmin(MINTER_ADMIN_ROLE)).to.equal(
+        await vetra.DEFAULT_ADMIN_ROLE()
+      );
+    });
+
+    it("Should start every minter with a zero allowance", async function () {
+      expect(await vetra.minterAllowance(minter.address)).to.equal(0);
+
+      await expect(vetra.connect(minter).mint(user.address, tokens("1")))
+        .to.be.revertedWithCustomError(vetra, "MinterAllowanceExceeded")
+        .withArgs(minter.address, tokens("1"), 0);
+    });
+
+    it("Should NOT allow accounts without MINTER_ADMIN_ROLE to manage allowances", async function () {
+      await expect(
+        vetra.connect(minter).configureMinter(minter.address, tokens("100"))
+      ).to.be.revertedWithCustomError(vetra, "AccessControlUnauthorizedAccount");
+      await expect(
+        vetra
+          .connect(minter)
+          .increaseMinterAllowance(minter.address, tokens("100"))
+      ).to.be.revertedWithCustomError(vetra, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Configuring Allowances", function () {
+    it("Should set an allowance and emit MinterConfigured", async function () {
+      await expect(
+        vetra
+          .connect(minterAdmin)
+          .configureMinter(minter.address, tokens("1000"))
+      )
+        .to.emit(vetra, "MinterConfigured")
+        .withArgs(minter.address, tokens("1000"));
+
+      expect(await vetra.minterAllowance(minter.address)).to.equal(
+        tokens("1000")
+      );
+    });
+
+    it("Should reset an allowance rather than add to it", async function () {
+      await vetra
+        .connect(minterAdmin)
+        .configureMinter(minter.address, tokens("1000"));
+      await vetra
+        .connect(minterAdmin)
+        .configureMinter(minter.address, tokens("200"));
+      expect(await vetra.minterAllowance(minter.address)).to.equal(
+        tokens("200")
+      );
+
+      await vetra.connect(minterAdmin).configureMinter(minter.address, 0);
+      await expect(
+        vetra.connect(minter).mint(user.address, 1n)
+      ).to.be.revertedWithCustomError(vetra, "MinterAllowanceExceeded");
+    });
+
+    it("Should increase an allowance and emit MinterAllowanceIncreased", async function () {
+      await vetra
+        .connect(minterAdmin)
+        .configureMinter(minter.address, tokens("100"));
+
+      await expect(
+        vetra
+          .connect(minterAdmin)
+          .increaseMinterAllowance(minter.address, tokens("50"))
+      )
+        .to.emit(vetra, "MinterAllowanceIncreased")
+        .withArgs(minter.address, tokens("50"), tokens("150"));
+
+      expect(await vetra.minterAllowance(minter.address)).to.equal(
+        tokens("150")
+      );
+    });
+
+    it("Should reject a zero address or zero increment", async function () {
+      await expect(
+        vetra.connect(minterAdmin).configureMinter(ethers.ZeroAddress, 1n)
+      ).to.be.revertedWithCustomError(vetra, "InvalidAddress");
+      await expect(
+        vetra
+          .connect(minterAdmin)
+          .increaseMinterAllowance(ethers.ZeroAddress, 1n)
+      ).to.be.revertedWithCustomError(vetra, "InvalidAddress");
+      await expect(
+        vetra.connect(minterAdmin).increaseMinterAllowance(minter.address, 0)
+      ).to.be.revertedWithCustomError(vetra, "InvalidAmount");
+    });
+  });
+
+  describe("Minting Against Allowances", function () {
+    beforeEach(async function () {
+      await vetra
+        .connect(minterAdmin)
+        .configureMinter(minter.address, tokens("1000"));
+      await vetra
+        .connect(minterAdmin)
+        .configureMinter(minter2.address, tokens("500"));
+    });
+
+    it("Should reduce the allowance by each mint", async function () {
+      await vetra.connect(minter).mint(user.address, tokens("400"));
+      expect(await vetra.minterAllowance(minter.address)).to.equal(
+        tokens("600")
+      );
+
+      await vetra.connect(minter).mint(user.address, tokens("600"));
+      expect(await vetra.minterAllowance(minter.address)).to.equal(0);
+    });
+
+    it("Should NOT mint beyond the allowance", async function () {
+      await vetra.connect(minter).mint(user.address, tokens("900"));
+
+      await expect(vetra.connect(minter).mint(user.address, tokens("101")))
+        .to.be.revertedWithCustomError(vetra, "MinterAllowanceExceeded")
+        .withArgs(minter.address, tokens("101"), tokens("100"));
+    });
+
+    it("Should track each minter's allowance separately", async function () {
+      await vetra.connect(minter2).mint(user.address, tokens("500"));
+
+      expect(await vetra.minterAllowance(minter2.address)).to.equal(0);
+      expect(await vetra.minterAllowance(minter.address)).to.equal(
+        tokens("1000")
+      );
+      await vetra.connect(minter).mint(user.address, tokens("1000"));
+    });
+
+    it("Should NOT let an allowance replace MINTER_ROLE", async function () {
+      await vetra
+        .connect(minterAdmin)
+        .configureMinter(user.address, tokens("1000"));
+
+      await expect(
+        vetra.connect(user).mint(user.address, tokens("1"))
+      ).to.be.revertedWithCustomError(vetra, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should leave the allowance untouched when a mint reverts", async function () {
+      await vetra.connect(admin).setAllowlistEnabled(true);
+
+      await expect(
+        vetra.connect(minter).mint(user.address, tokens("100"))
+      ).to.be.revertedWithCustomError(vetra, "RecipientNotAllowed");
+      expect(await vetra.minterAllowance(minter.address)).to.equal(
+        tokens("1000")
+      );
+    });
+  });
+});
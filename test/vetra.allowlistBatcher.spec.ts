@@ -0,0 +1,194 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { Vetra, VetraAllowlistBatcher } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { parseCsv } from "../scripts/lib/csv";
+import {
+  chunkByGas,
+  filterAllowlistChanges,
+  parseAllowlistRows,
+} from "../scripts/lib/allowlist";
+import { getVetraFactory } from "./helpers";
+
+describe("Vetra - Allowlist Batcher", function () {
+  let vetra: Vetra;
+  let batcher: VetraAllowlistBatcher;
+  let admin: SignerWithAddress;
+  let minter: SignerWithAddress;
+  let burner: SignerWithAddress;
+  let attacker: SignerWithAddress;
+  let functionsRouter: SignerWithAddress;
+  let institutions: SignerWithAddress[];
+
+  const RESERVE_TTL = 900; // 15 minutes
+  const DON_ID = ethers.encodeBytes32String("fun-polygon-amoy-1");
+  const SUBSCRIPTION_ID = 1;
+  const GAS_LIMIT = 300000;
+
+  beforeEach(async function () {
+    let rest: SignerWithAddress[];
+    [admin, minter, burner, attacker, functionsRouter, ...rest] =
+      await ethers.getSigners();
+    institutions = rest.slice(0, 4);
+
+    const VetraFactory = await getVetraFactory();
+    vetra = (await upgrades.deployProxy(
+      VetraFactory,
+      [
+        admin.address,
+        minter.address,
+        burner.address,
+        RESERVE_TTL,
+        functionsRouter.address,
+        DON_ID,
+        SUBSCRIPTION_ID,
+        GAS_LIMIT,
+      ],
+      {
+        initializer: "initialize",
+        kind: "uups",
+        unsafeAllowLinkedLibraries: true,
+      }
+    )) as unknown as Vetra;
+    await vetra.waitForDeployment();
+
+    const BatcherFactory = await ethers.getContractFactory(
+      "VetraAllowlistBatcher"
+    );
+    batcher = (await BatcherFactory.deploy(
+      await vetra.getAddress()
+    )) as unknown as VetraAllowlistBatcher;
+    await batcher.waitForDeployment();
+
+    await vetra
+      .connect(admin)
+      .grantRole(await vetra.POLICY_ADMIN_ROLE(), await batcher.getAddress());
+  });
+
+  describe("Batch Updates", function () {
+    it("Should update every entry with one event per address", async function () {
+      const accounts = institutions.map((i) => i.address);
+      const allowed = [true, true, true, false];
+
+      const tx = batcher.connect(admin).setAllowlistAddresses(accounts, allowed);
+      for (const [i, account] of accounts.entries()) {
+        await expect(tx)
+          .to.emit(vetra, "AllowlistAddressUpdated")
+          .withArgs(account, allowed[i]);
+      }
+
+      const receipt = await (await tx).wait();
+      const events = receipt!.logs.filter(
+        (log) => vetra.interface.parseLog(log)?.name === "AllowlistAddressUpdated"
+      );
+      expect(events).to.have.length(4);
+
+      for (const [i, account] of accounts.entries()) {
+        expect(await vetra.allowlist(account)).to.equal(allowed[i]);
+      }
+    });
+
+    it("Should revert the whole batch if any entry is rejected", async function () {
+      await expect(
+        batcher
+          .connect(admin)
+          .setAllowlistAddresses(
+            [institutions[0].address, ethers.ZeroAddress],
+            [true, true]
+          )
+      ).to.be.revertedWithCustomError(vetra, "InvalidAddress");
+
+      expect(await vetra.allowlist(institutions[0].address)).to.be.false;
+    });
+
+    it("Should NOT accept mismatched arrays", async function () {
+      await expect(
+        batcher
+          .connect(admin)
+          .setAllowlistAddresses([institutions[0].address], [true, false])
+      ).to.be.revertedWithCustomError(batcher, "InvalidConfiguration");
+    });
+
+    it("Should only accept calls from POLICY_ADMIN_ROLE holders", async function () {
+      await expect(
+        batcher
+          .connect(attacker)
+          .setAllowlistAddresses([attacker.address], [true])
+      )
+        .to.be.revertedWithCustomError(
+          batcher,
+          "AccessControlUnauthorizedAccount"
+        )
+        .withArgs(attacker.address, await vetra.POLICY_ADMIN_ROLE());
+    });
+
+    it("Should fail once the batcher loses POLICY_ADMIN_ROLE", async function () {
+      const POLICY_ADMIN_ROLE = await vetra.POLICY_ADMIN_ROLE();
+      await vetra
+        .connect(admin)
+        .revokeRole(POLICY_ADMIN_ROLE, await batcher.getAddress());
+
+      await expect(
+        batcher
+          .connect(admin)
+          .setAllowlistAddresses([institutions[0].address], [true])
+      )
+        .to.be.revertedWithCustomError(vetra, "AccessControlUnauthorizedAccount")
+        .withArgs(await batcher.getAddress(), POLICY_ADMIN_ROLE);
+    });
+  });
+
+  describe("CSV Import", function () {
+    it("Should parse rows and reject invalid or duplicate ones", async function () {
+      const [a, b] = institutions.map((i) => i.address);
+      const rows = parseCsv(
+        `address,allowed\n# onboarding batch 1\n${a.toLowerCase()},TRUE\n\n${b},false\n`,
+        "address"
+      );
+      expect(parseAllowlistRows(rows)).to.deep.equal([
+        { account: a, allowed: true, line: 3 },
+        { account: b, allowed: false, line: 5 },
+      ]);
+
+      expect(() => parseAllowlistRows(parseCsv(`${a},yes`))).to.throw(
+        'Line 1: allowed must be "true" or "false", got "yes"'
+      );
+      expect(() => parseAllowlistRows(parseCsv(`0x1234,true`))).to.throw(
+        'Line 1: expected "address,allowed"'
+      );
+      expect(() =>
+        parseAllowlistRows(parseCsv(`${a},true\n${a},false`))
+      ).to.throw(`Line 2: ${a} is already listed on line 1`);
+    });
+
+    it("Should skip entries already in the desired state", async function () {
+      const [a, b, c] = institutions.map((i) => i.address);
+      await vetra.connect(admin).setAllowlistAddress(a, true);
+
+      const entries = parseAllowlistRows(
+        parseCsv(`${a},true\n${b},true\n${c},false`)
+      );
+      const { changes, unchanged } = await filterAllowlistChanges(
+        vetra,
+        entries
+      );
+
+      expect(changes.map((e) => e.account)).to.deep.equal([b]);
+      expect(unchanged.map((e) => e.account)).to.deep.equal([a, c]);
+    });
+
+    it("Should split batches to stay within the gas bound", async function () {
+      const entries = parseAllowlistRows(
+        parseCsv(institutions.map((i) => `${i.address},true`).join("\n"))
+      );
+      const estimate = async (batch: unknown[]) =>
+        BigInt(batch.length) * 40_000n;
+
+      const bySize = await chunkByGas(entries, 3, 1_000_000n, estimate);
+      expect(bySize.map((b) => b.length)).to.deep.equal([3, 1]);
+
+      const byGas = await chunkByGas(entries, 4, 80_000n, estimate);
+      expect(byGas.map((b) => b.length)).to.deep.equal([2, 2]);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { Vetra, MockFunctionsRouter } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { parseAmountRows, parseCsv } from "../scripts/lib/csv";
+import { checkBurns, isSelfBurn } from "../scripts/lib/burns";
+import { getVetraFactory, setReserve } from "./helpers";
+
+describe("Vetra - Burn Pre-flight", function () {
+  let vetra: Vetra;
+  let admin: SignerWithAddress;
+  let minter: SignerWithAddress;
+  let burner: SignerWithAddress;
+  let alice: SignerWithAddress;
+  let bob: SignerWithAddress;
+  let functionsRouter: MockFunctionsRouter;
+
+  const RESERVE_TTL = 900; // 15 minutes
+  const DON_ID = ethers.encodeBytes32String("fun-polygon-amoy-1");
+  const SUBSCRIPTION_ID = 1;
+  const GAS_LIMIT = 300000;
+  const tokens = (amount: string) => ethers.parseEther(amount);
+
+  function burns(csv: string) {
+    return parseAmountRows(parseCsv(csv, "account"));
+  }
+
+  beforeEach(async function () {
+    [admin, minter, burner, alice, bob] = await ethers.getSigners();
+
+    const RouterFactory = await ethers.getContractFactory("MockFunctionsRouter");
+    functionsRouter =
+      (await RouterFactory.deploy()) as unknown as MockFunctionsRouter;
+    await functionsRouter.waitForDeployment();
+
+    const VetraFactory = await getVetraFactory();
+    vetra = (await upgrades.deployProxy(
+      VetraFactory,
+      [
+        admin.address,
+        minter.address,
+        burner.address,
+        RESERVE_TTL,
+        await functionsRouter.getAddress(),
+        DON_ID,
+        SUBSCRIPTION_ID,
+        GAS_LIMIT,
+      ],
+      {
+        initializer: "initialize",
+        kind: "uups",
+        unsafeAllowLinkedLibraries: true,
+      }
+    )) as unknown as Vetra;
+    await vetra.waitForDeployment();
+
+    await vetra
+      .connect(admin)
+      .configureMinter(minter.address, tokens("500000"));
+    await setReserve(vetra, admin, functionsRouter);
+    await vetra.connect(minter).mint(alice.address, tokens("1000"));
+    await vetra.connect(minter).mint(bob.address, tokens("500"));
+  });
+
+  it("Should pass burns within the holders' balances", async function () {
+    const batch = burns(
+      `account,amount\n${alice.address},1000\n${bob.address},250.5`
+    );
+    expect(await checkBurns(vetra, burner.address, batch)).to.deep.equal([]);
+  });
+
+  it("Should check the sum of an account's rows against its balance", async function () {
+    const batch = burns(
+      `${alice.address},600\n${bob.address},100\n${alice.address},600`
+    );
+    expect(await checkBurns(vetra, burner.address, batch)).to.deep.equal([
+      `${alice.address}: burning 1200.0 VTR exceeds the balance of 1000.0 VTR`,
+    ]);
+  });
+
+  it("Should only require BURNER_ROLE to burn from other accounts", async function () {
+    expect(isSelfBurn(alice.address, alice.address.toLowerCase())).to.be.true;
+    expect(
+      await checkBurns(vetra, alice.address, burns(`${alice.address},10`))
+    ).to.deep.equal([]);
+    expect(
+      await checkBurns(vetra, alice.address, burns(`${bob.address},10`))
+    ).to.deep.equal([`${alice.address} does not have BURNER_ROLE`]);
+  });
+
+  it("Should report a paused contract and a blocked account", async function () {
+    await vetra.connect(admin).setBlocklistAddress(bob.address, true);
+    await vetra.connect(admin).pause();
+
+    const batch = burns(`${bob.address},10`);
+    expect(await checkBurns(vetra, burner.address, batch)).to.deep.equal([
+      "Vetra is paused",
+      `${bob.address}: account is blocked`,
+    ]);
+    await expect(
+      vetra.connect(burner).burnFrom(bob.address, tokens("10"))
+    ).to.be.revertedWithCustomError(vetra, "EnforcedPause");
+  });
+});
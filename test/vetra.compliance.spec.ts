@@ -0,0 +1,324 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { Vetra, VetraV1 } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { getVetraFactory } from "./helpers";
+
+describe("Vetra - Compliance Blocklist", function () {
+  let vetraV1: VetraV1;
+  let vetra: Vetra;
+  let admin: SignerWithAddress;
+  let minter: SignerWithAddress;
+  let burner: SignerWithAddress;
+  let compliance: SignerWithAddress;
+  let user: SignerWithAddress;
+  let user2: SignerWithAddress;
+  let functionsRouter: SignerWithAddress;
+
+  const RESERVE_TTL = 7 * 24 * 3600; // Long TTL so the V1 reserve stays fresh
+  const DON_ID = ethers.encodeBytes32String("fun-polygon-amoy-1");
+  const SUBSCRIPTION_ID = 1;
+  const GAS_LIMIT = 300000;
+
+  const tokens = (amount: string) => ethers.parseEther(amount);
+
+  // Upgrades the V1 proxy and grants COMPLIANCE_ROLE in the same transaction
+  async function upgradeToCurrent(): Promise<Vetra> {
+    const VetraFactory = await getVetraFactory();
+    return (await upgrades.upgradeProxy(
+      await vetraV1.getAddress(),
+      VetraFactory,
+      {
+        kind: "uups",
+        unsafeAllowLinkedLibraries: true,
+        call: { fn: "initializeCompliance", args: [compliance.address] },
+      }
+    )) as unknown as Vetra;
+  }
+
+  beforeEach(async function () {
+    [admin, minter, burner, compliance, user, user2, functionsRouter] =
+      await ethers.getSigners();
+
+    // Deploy the originally deployed implementation
+    const VetraV1Factory = await ethers.getContractFactory("VetraV1");
+    vetraV1 = (await upgrades.deployProxy(
+      VetraV1Factory,
+      [
+        admin.address,
+        minter.address,
+        burner.address,
+        RESERVE_TTL,
+        functionsRouter.address,
+        DON_ID,
+        SUBSCRIPTION_ID,
+        GAS_LIMIT,
+      ],
+      {
+        initializer: "initialize",
+        kind: "uups",
+      }
+    )) as unknown as VetraV1;
+
+    await vetraV1.waitForDeployment();
+
+    // Record a $1,000,000 reserve and hand out balances under V1
+    await vetraV1
+      .connect(functionsRouter)
+      .handleOracleFulfillment(
+        ethers.id("v1-request"),
+        ethers.AbiCoder.defaultAbiCoder().encode(
+          ["uint256", "uint256"],
+          [1_000_000n * 10n ** 8n, 1n]
+        ),
+        "0x"
+      );
+    await vetraV1.connect(minter).mint(user.address, tokens("1000"));
+    await vetraV1.connect(minter).mint(user2.address, tokens("500"));
+    await vetraV1.connect(admin).setMintPerTxLimit(tokens("10000"));
+  });
+
+  describe("Upgrade", function () {
+    it("Should upgrade a V1 proxy without losing state", async function () {
+      const proxyAddress = await vetraV1.getAddress();
+      vetra = await upgradeToCurrent();
+
+      expect(await vetra.getAddress()).to.equal(proxyAddress);
+      expect(await vetra.hasRole(await vetra.MINTER_ROLE(), minter.address)).to
+        .be.true;
+      expect(await vetra.hasRole(await vetra.BURNER_ROLE(), burner.address)).to
+        .be.true;
+      expect(await vetra.balanceOf(user.address)).to.equal(tokens("1000"));
+      expect(await vetra.balanceOf(user2.address)).to.equal(tokens("500"));
+      expect(await vetra.totalSupply()).to.equal(tokens("1500"));
+      expect(await vetra.lastReserveUsd()).to.equal(1_000_000n * 10n ** 8n);
+      expect(await vetra.lastReserveNonce()).to.equal(1);
+      expect(await vetra.mintPerTxLimit()).to.equal(tokens("10000"));
+      expect(await vetra.reserveTTL()).to.equal(RESERVE_TTL);
+    });
+
+    it("Should grant COMPLIANCE_ROLE through the migration call", async function () {
+      vetra = await upgradeToCurrent();
+      const COMPLIANCE_ROLE = await vetra.COMPLIANCE_ROLE();
+
+      expect(await vetra.hasRole(COMPLIANCE_ROLE, compliance.address)).to.be
+        .true;
+      expect(await vetra.hasRole(COMPLIANCE_ROLE, admin.address)).to.be.false;
+      expect(await vetra.blocklist(user.address)).to.be.false;
+    });
+
+    it("Should NOT allow running the migration twice", async function () {
+      vetra = await upgradeToCurrent();
+
+      await expect(
+        vetra.connect(admin).initializeCompliance(admin.address)
+      ).to.be.revertedWithCustomError(vetra, "InvalidInitialization");
+    });
+
+    it("Should NOT allow non-admin to run the migration", async function () {
+      const VetraFactory = await getVetraFactory();
+      const implementation = await VetraFactory.deploy();
+      await implementation.waitForDeployment();
+
+      const callData = VetraFactory.interface.encodeFunctionData(
+        "initializeCompliance",
+        [user.address]
+      );
+
+      await expect(
+        vetraV1
+          .connect(user)
+          .upgradeToAndCall(await implementation.getAddress(), callData)
+      ).to.be.reverted;
+    });
+
+    it("Should grant COMPLIANCE_ROLE to the admin on new deployments", async function () {
+      const VetraFactory = await getVetraFactory();
+      const fresh = (await upgrades.deployProxy(
+        VetraFactory,
+        [
+          admin.address,
+          minter.address,
+          burner.address,
+          RESERVE_TTL,
+          functionsRouter.address,
+          DON_ID,
+          SUBSCRIPTION_ID,
+          GAS_LIMIT,
+        ],
+        {
+          initializer: "initialize",
+          kind: "uups",
+          unsafeAllowLinkedLibraries: true,
+        }
+      )) as unknown as Vetra;
+
+      expect(
+        await fresh.hasRole(await fresh.COMPLIANCE_ROLE(), admin.address)
+      ).to.be.true;
+    });
+  });
+
+  describe("Blocklist Management", function () {
+    beforeEach(async function () {
+      vetra = await upgradeToCurrent();
+    });
+
+    it("Should allow compliance role to block and unblock", async function () {
+      await expect(
+        vetra.connect(compliance).setBlocklistAddress(user.address, true)
+      )
+        .to.emit(vetra, "BlocklistUpdated")
+        .withArgs(user.address, true, compliance.address);
+      expect(await vetra.blocklist(user.address)).to.be.true;
+
+      await expect(
+        vetra.connect(compliance).setBlocklistAddress(user.address, false)
+      )
+        .to.emit(vetra, "BlocklistUpdated")
+        .withArgs(user.address, false, compliance.address);
+      expect(await vetra.blocklist(user.address)).to.be.false;
+    });
+
+    it("Should NOT allow other roles to manage the blocklist", async function () {
+      for (const signer of [admin, minter, burner, user]) {
+        await expect(
+          vetra.connect(signer).setBlocklistAddress(user2.address, true)
+        ).to.be.revertedWithCustomError(
+          vetra,
+          "AccessControlUnauthorizedAccount"
+        );
+      }
+    });
+
+    it("Should NOT allow blocking the zero address", async function () {
+      await expect(
+        vetra.connect(compliance).setBlocklistAddress(ethers.ZeroAddress, true)
+      ).to.be.revertedWithCustomError(vetra, "InvalidAddress");
+    });
+  });
+
+  describe("Enforcement", function () {
+    beforeEach(async function () {
+      vetra = await upgradeToCurrent();
+
+      // Minting after the upgrade needs an allowance
+      await vetra
+        .connect(admin)
+        .grantRole(await vetra.MINTER_ADMIN_ROLE(), admin.address);
+      await vetra
+        .connect(admin)
+        .configureMinter(minter.address, ethers.MaxUint256);
+
+      await vetra.connect(compliance).setBlocklistAddress(user.address, true);
+    });
+
+    it("Should block transfers from a blocked address", async function () {
+      await expect(
+        vetra.connect(user).transfer(user2.address, tokens("1"))
+      )
+        .to.be.revertedWithCustomError(vetra, "AccountBlocked")
+        .withArgs(user.address);
+    });
+
+    it("Should block transfers to a blocked address", async function () {
+      await expect(
+        vetra.connect(user2).transfer(user.address, tokens("1"))
+      )
+        .to.be.revertedWithCustomError(vetra, "AccountBlocked")
+        .withArgs(user.address);
+    });
+
+    it("Should block transferFrom out of a blocked address", async function () {
+      await vetra.connect(compliance).setBlocklistAddress(user.address, false);
+      await vetra.connect(user).approve(user2.address, tokens("10"));
+      await vetra.connect(compliance).setBlocklistAddress(user.address, true);
+
+      await expect(
+        vetra
+          .connect(user2)
+          .transferFrom(user.address, user2.address, tokens("10"))
+      )
+        .to.be.revertedWithCustomError(vetra, "AccountBlocked")
+        .withArgs(user.address);
+    });
+
+    it("Should block minting to a blocked address", async function () {
+      await expect(
+        vetra.connect(minter).mint(user.address, tokens("1"))
+      )
+        .to.be.revertedWithCustomError(vetra, "AccountBlocked")
+        .withArgs(user.address);
+
+      // The failed mint does not spend the allowance
+      expect(await vetra.minterAllowance(minter.address)).to.equal(
+        ethers.MaxUint256
+      );
+    });
+
+    it("Should block burns by a blocked address", async function () {
+      await expect(vetra.connect(user).burn(tokens("1")))
+        .to.be.revertedWithCustomError(vetra, "AccountBlocked")
+        .withArgs(user.address);
+    });
+
+    it("Should restore transfers after unblocking", async function () {
+      await vetra.connect(compliance).setBlocklistAddress(user.address, false);
+
+      await vetra.connect(user).transfer(user2.address, tokens("100"));
+      expect(await vetra.balanceOf(user2.address)).to.equal(tokens("600"));
+    });
+  });
+
+  describe("Wiping Frozen Balances", function () {
+    beforeEach(async function () {
+      vetra = await upgradeToCurrent();
+      await vetra.connect(compliance).setBlocklistAddress(user.address, true);
+    });
+
+    it("Should destroy a blocked balance and reduce totalSupply", async function () {
+      await expect(vetra.connect(compliance).wipeFrozenBalance(user.address))
+        .to.emit(vetra, "FrozenBalanceWiped")
+        .withArgs(user.address, tokens("1000"), compliance.address, tokens("500"))
+        .and.to.emit(vetra, "Transfer")
+        .withArgs(user.address, ethers.ZeroAddress, tokens("1000"));
+
+      expect(await vetra.balanceOf(user.address)).to.equal(0);
+      expect(await vetra.totalSupply()).to.equal(tokens("500"));
+      expect(await vetra.blocklist(user.address)).to.be.true;
+    });
+
+    it("Should NOT wipe an address that is not blocked", async function () {
+      await expect(vetra.connect(compliance).wipeFrozenBalance(user2.address))
+        .to.be.revertedWithCustomError(vetra, "AccountNotBlocked")
+        .withArgs(user2.address);
+    });
+
+    it("Should NOT wipe an empty balance", async function () {
+      await vetra.connect(compliance).wipeFrozenBalance(user.address);
+
+      await expect(
+        vetra.connect(compliance).wipeFrozenBalance(user.address)
+      ).to.be.revertedWithCustomError(vetra, "InvalidAmount");
+    });
+
+    it("Should NOT allow other roles to wipe", async function () {
+      for (const signer of [admin, burner]) {
+        await expect(
+          vetra.connect(signer).wipeFrozenBalance(user.address)
+        ).to.be.revertedWithCustomError(
+          vetra,
+          "AccessControlUnauthorizedAccount"
+        );
+      }
+    });
+
+    it("Should NOT let the burner bypass the blocklist", async function () {
+      await expect(
+        vetra.connect(burner).burnFrom(user.address, tokens("1"))
+      )
+        .to.be.revertedWithCustomError(vetra, "AccountBlocked")
+        .withArgs(user.address);
+    });
+  });
+});
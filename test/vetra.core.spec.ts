@@ -2,6 +2,7 @@ import { expect } from "chai";
 import { ethers, upgrades } from "hardhat";
 import { Vetra } from "../typechain-types";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { getVetraFactory } from "./helpers";
 
 describe("Vetra - Core Functionality", function () {
   let vetra: Vetra;
@@ -19,7 +20,7 @@ describe("Vetra - Core Functionality", function () {
   beforeEach(async function () {
     [admin, minter, burner, user, functionsRouter] = await ethers.getSigners();
 
-    const VetraFactory = await ethers.getContractFactory("Vetra");
+    const VetraFactory = await getVetraFactory();
     vetra = (await upgrades.deployProxy(
       VetraFactory,
       [
@@ -35,6 +36,7 @@ describe("Vetra - Core Functionality", function () {
       {
         initializer: "initialize",
         kind: "uups",
+        unsafeAllowLinkedLibraries: true,
       }
     )) as unknown as Vetra;
 
@@ -0,0 +1,141 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import {
+  Vetra,
+  VetraMintApprovals,
+  MockFunctionsRouter,
+} from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  decodeError,
+  describeError,
+  errorHint,
+} from "../scripts/lib/errors";
+import { getVetraFactory, setReserve } from "./helpers";
+
+describe("Vetra - Revert Decoding", function () {
+  let vetra: Vetra;
+  let approvals: VetraMintApprovals;
+  let admin: SignerWithAddress;
+  let minter: SignerWithAddress;
+  let burner: SignerWithAddress;
+  let alice: SignerWithAddress;
+  let functionsRouter: MockFunctionsRouter;
+
+  const RESERVE_TTL = 900; // 15 minutes
+  const DON_ID = ethers.encodeBytes32String("fun-polygon-amoy-1");
+  const SUBSCRIPTION_ID = 1;
+  const GAS_LIMIT = 300000;
+  const tokens = (amount: string) => ethers.parseEther(amount);
+
+  // Returns the error a call rejects with
+  async function failure(call: Promise<unknown>): Promise<unknown> {
+    try {
+      await call;
+    } catch (error) {
+      return error;
+    }
+    expect.fail("Expected the call to revert");
+  }
+
+  beforeEach(async function () {
+    [admin, minter, burner, alice] = await ethers.getSigners();
+
+    const RouterFactory = await ethers.getContractFactory("MockFunctionsRouter");
+    functionsRouter =
+      (await RouterFactory.deploy()) as unknown as MockFunctionsRouter;
+    await functionsRouter.waitForDeployment();
+
+    const VetraFactory = await getVetraFactory();
+    vetra = (await upgrades.deployProxy(
+      VetraFactory,
+      [
+        admin.address,
+        minter.address,
+        burner.address,
+        RESERVE_TTL,
+        await functionsRouter.getAddress(),
+        DON_ID,
+        SUBSCRIPTION_ID,
+        GAS_LIMIT,
+      ],
+      {
+        initializer: "initialize",
+        kind: "uups",
+        unsafeAllowLinkedLibraries: true,
+      }
+    )) as unknown as Vetra;
+    await vetra.waitForDeployment();
+
+    const ApprovalsFactory = await ethers.getContractFactory(
+      "VetraMintApprovals"
+    );
+    approvals = (await ApprovalsFactory.deploy(
+      await vetra.getAddress(),
+      86400
+    )) as unknown as VetraMintApprovals;
+    await approvals.waitForDeployment();
+
+    await vetra
+      .connect(admin)
+      .configureMinter(minter.address, tokens("500000"));
+  });
+
+  it("Should decode a stale reserve with its age and TTL", async function () {
+    const error = await failure(
+      vetra.connect(minter).mint.staticCall(alice.address, tokens("1"))
+    );
+    const decoded = decodeError(error)!;
+    if (decoded.name !== "ReserveStale") {
+      expect.fail(`Expected ReserveStale, got ${decoded.summary}`);
+    }
+    expect(decoded.args.maxAge).to.equal("900s");
+    expect(decoded.args.age).to.match(/^\d+s$/);
+    expect(errorHint(decoded, "amoy")).to.include(
+      "npm run update-reserve:amoy"
+    );
+  });
+
+  it("Should format token amounts in VTR", async function () {
+    await setReserve(vetra, admin, functionsRouter);
+    await vetra.connect(admin).setMintPerTxLimit(tokens("50000"));
+
+    const error = await failure(
+      vetra.connect(minter).mint.staticCall(alice.address, tokens("60000"))
+    );
+    expect(describeError(error)).to.equal(
+      "MintLimitExceeded(amount: 60000.0 VTR, limit: 50000.0 VTR)"
+    );
+  });
+
+  it("Should decode AccessControl and Pausable errors with role names", async function () {
+    const error = await failure(vetra.connect(alice).pause.staticCall());
+    const decoded = decodeError(error)!;
+    expect(decoded.summary).to.equal(
+      `AccessControlUnauthorizedAccount(account: ${alice.address}, neededRole: PAUSER_ROLE)`
+    );
+    expect(errorHint(decoded, "polygon")).to.equal(
+      `${alice.address} needs PAUSER_ROLE. Grant it with npm run roles:polygon`
+    );
+
+    await vetra.connect(admin).pause();
+    const paused = await failure(
+      vetra.connect(burner).burnFrom.staticCall(alice.address, tokens("1"))
+    );
+    expect(describeError(paused)).to.equal("EnforcedPause()");
+  });
+
+  it("Should decode companion contract errors from sent transactions", async function () {
+    const error = await failure(approvals.connect(alice).cancelMintProposal(7));
+    const decoded = decodeError(error)!;
+    expect(decoded.summary).to.equal("ProposalNotPending(proposalId: 7)");
+    expect(decoded.raw[0]).to.equal(7n);
+  });
+
+  it("Should fall back to the message without known revert data", async function () {
+    const error = new Error("could not detect network");
+    expect(decodeError(error)).to.be.undefined;
+    expect(describeError(error)).to.equal("could not detect network");
+    expect(decodeError({ data: "0xdeadbeef" })).to.be.undefined;
+  });
+});
@@ -0,0 +1,412 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { Vetra, MockFunctionsRouter } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  FunctionsSimulator,
+  HttpRequestConfig,
+  HttpResponse,
+} from "../scripts/lib/functionsSimulator";
+import {
+  RESERVE_SOURCE_CODE,
+  buildReserveArgs,
+  loadReserveSource,
+} from "../scripts/lib/reserveSource";
+import {
+  assertApprovedSource,
+  getReserveRequestOutcome,
+  sendReserveRequest,
+  waitForReserveRequest,
+} from "../scripts/lib/reserveUpdates";
+import { getVetraFactory } from "./helpers";
+
+describe("Vetra - Chainlink Functions End-to-End", function () {
+  let vetra: Vetra;
+  let router: MockFunctionsRouter;
+  let simulator: FunctionsSimulator;
+  let admin: SignerWithAddress;
+  let minter: SignerWithAddress;
+  let burner: SignerWithAddress;
+  let user: SignerWithAddress;
+
+  // Stubbed reserve API response, replaced per test
+  let apiResponse: HttpResponse;
+  let lastHttpRequest: HttpRequestConfig | undefined;
+
+  const RESERVE_TTL = 900; // 15 minutes
+  const DON_ID = ethers.encodeBytes32String("fun-polygon-amoy-1");
+  const SUBSCRIPTION_ID = 1;
+  const GAS_LIMIT = 300000;
+  const API_URL = "https://reserve.example/api/bcl.asp?KeyCodeGUID=test";
+
+  function balanceResponse(totalBalance: string): HttpResponse {
+    return {
+      error: false,
+      status: 200,
+      data: { StatementSummary: { Currency: "USD", TotalBalance: totalBalance } },
+    };
+  }
+
+  async function requestAndFulfill() {
+    const tx = await vetra
+      .connect(admin)
+      .requestReserveUpdate(RESERVE_SOURCE_CODE, buildReserveArgs(API_URL));
+    const receipt = await tx.wait();
+    const [result] = await simulator.fulfillFromReceipt(receipt);
+    return result;
+  }
+
+  beforeEach(async function () {
+    [admin, minter, burner, user] = await ethers.getSigners();
+
+    const RouterFactory = await ethers.getContractFactory("MockFunctionsRouter");
+    router = (await RouterFactory.deploy()) as unknown as MockFunctionsRouter;
+    await router.waitForDeployment();
+
+    const VetraFactory = await getVetraFactory();
+    vetra = (await upgrades.deployProxy(
+      VetraFactory,
+      [
+        admin.address,
+        minter.address,
+        burner.address,
+        RESERVE_TTL,
+        await router.getAddress(),
+        DON_ID,
+        SUBSCRIPTION_ID,
+        GAS_LIMIT,
+      ],
+      {
+        initializer: "initialize",
+        kind: "uups",
+        unsafeAllowLinkedLibraries: true,
+      }
+    )) as unknown as Vetra;
+
+    await vetra.waitForDeployment();
+    await vetra
+      .connect(admin)
+      .configureMinter(minter.address, ethers.MaxUint256);
+
+    const source = loadReserveSource();
+    await vetra
+      .connect(admin)
+      .setApprovedSource(source.hash, source.version, "");
+
+    apiResponse = balanceResponse("1000.00");
+    lastHttpRequest = undefined;
+    simulator = new FunctionsSimulator(router, {
+      httpRequest: async (config) => {
+        lastHttpRequest = config;
+        return apiResponse;
+      },
+    });
+  });
+
+  describe("Request Capture", function () {
+    it("Should record the request sent through the router", async function () {
+      const tx = await vetra
+        .connect(admin)
+        .requestReserveUpdate(RESERVE_SOURCE_CODE, buildReserveArgs(API_URL));
+      const receipt = await tx.wait();
+
+      const [requestId] = simulator.requestIdsFromReceipt(receipt);
+      const stored = await router.requests(requestId);
+
+      expect(stored.consumer).to.equal(await vetra.getAddress());
+      expect(stored.subscriptionId).to.equal(SUBSCRIPTION_ID);
+      expect(stored.callbackGasLimit).to.equal(GAS_LIMIT);
+      expect(stored.donId).to.equal(DON_ID);
+    });
+
+    it("Should decode the CBOR request into source and args", async function () {
+      const tx = await vetra
+        .connect(admin)
+        .requestReserveUpdate(RESERVE_SOURCE_CODE, buildReserveArgs(API_URL));
+      const receipt = await tx.wait();
+
+      const [requestId] = simulator.requestIdsFromReceipt(receipt);
+      const request = await simulator.getRequest(requestId);
+
+      expect(request.codeLocation).to.equal(0); // Inline
+      expect(request.language).to.equal(0); // JavaScript
+      expect(request.source).to.equal(RESERVE_SOURCE_CODE);
+      expect(request.args).to.deep.equal([API_URL]);
+    });
+  });
+
+  describe("Request → Fulfil → Mint", function () {
+    it("Should update reserve from the API balance", async function () {
+      const result = await requestAndFulfill();
+
+      expect(result.callbackSuccess).to.be.true;
+      expect(result.errorMessage).to.be.undefined;
+      expect(lastHttpRequest?.url).to.equal(API_URL);
+
+      expect(await vetra.lastReserveUsd()).to.equal(1000n * 100000000n);
+      expect(await vetra.lastReserveNonce()).to.be.greaterThan(0);
+      expect(await vetra.isReserveFresh()).to.be.true;
+
+      const request = await vetra.requests(result.requestId);
+      expect(request.fulfilled).to.be.true;
+    });
+
+    it("Should emit ReserveUpdated with the request ID", async function () {
+      const result = await requestAndFulfill();
+
+      const events = await vetra.queryFilter(vetra.filters.ReserveUpdated());
+      expect(events.length).to.equal(1);
+      expect(events[0].args.requestId).to.equal(result.requestId);
+      expect(events[0].args.usdAmount).to.equal(1000n * 100000000n);
+    });
+
+    it("Should allow minting up to the fulfilled reserve", async function () {
+      await requestAndFulfill();
+
+      expect(await vetra.availableMintCapacity()).to.equal(
+        ethers.parseEther("1000")
+      );
+
+      await expect(
+        vetra.connect(minter).mint(user.address, ethers.parseEther("600"))
+      ).to.emit(vetra, "TokensMinted");
+
+      await expect(
+        vetra.connect(minter).mint(user.address, ethers.parseEther("500"))
+      ).to.be.revertedWithCustomError(vetra, "ReserveInsufficient");
+
+      expect(await vetra.balanceOf(user.address)).to.equal(
+        ethers.parseEther("600")
+      );
+    });
+
+    it("Should accept a second, higher-nonce update", async function () {
+      await requestAndFulfill();
+      const firstNonce = await vetra.lastReserveNonce();
+
+      apiResponse = balanceResponse("2500.50");
+      await requestAndFulfill();
+
+      expect(await vetra.lastReserveUsd()).to.equal(250050000000n);
+      expect(await vetra.lastReserveNonce()).to.be.greaterThan(firstNonce);
+    });
+  });
+
+  describe("Source Error Branches", function () {
+    it("Should report API failures as DON errors", async function () {
+      apiResponse = { error: true, message: "HTTP 500", status: 500 };
+
+      const result = await requestAndFulfill();
+
+      expect(result.errorMessage).to.contain("API request failed");
+      expect(result.callbackSuccess).to.be.true;
+      expect(await vetra.lastReserveUsd()).to.equal(0);
+      expect((await vetra.requests(result.requestId)).fulfilled).to.be.true;
+
+      const failures = await vetra.queryFilter(
+        vetra.filters.ReserveUpdateFailed(result.requestId)
+      );
+      expect(failures.length).to.equal(1);
+      expect(ethers.toUtf8String(failures[0].args.err)).to.equal(
+        result.errorMessage
+      );
+    });
+
+    it("Should record an undecodable response as a failure", async function () {
+      const tx = await vetra
+        .connect(admin)
+        .requestReserveUpdate(RESERVE_SOURCE_CODE, buildReserveArgs(API_URL));
+      const [requestId] = simulator.requestIdsFromReceipt(await tx.wait());
+
+      const result = await simulator.deliver(requestId, {
+        response: "0x1234",
+        error: "0x",
+      });
+
+      expect(result.callbackSuccess).to.be.true;
+      const request = await vetra.requests(requestId);
+      expect(request.fulfilled).to.be.true;
+      expect(ethers.toUtf8String(request.failureReason)).to.equal(
+        "Invalid response length"
+      );
+    });
+
+    it("Should reject a response without StatementSummary", async function () {
+      apiResponse = { error: false, status: 200, data: { Balance: "1.00" } };
+
+      const result = await requestAndFulfill();
+
+      expect(result.errorMessage).to.equal(
+        "Invalid API response: missing StatementSummary"
+      );
+      expect(await vetra.lastReserveUsd()).to.equal(0);
+    });
+
+    it("Should reject a negative balance", async function () {
+      apiResponse = balanceResponse("-5.00");
+
+      const result = await requestAndFulfill();
+
+      expect(result.errorMessage).to.equal("Invalid balance value: -5.00");
+      expect(await vetra.lastReserveUsd()).to.equal(0);
+    });
+
+    it("Should reject sources that do not return bytes", async function () {
+      await vetra
+        .connect(admin)
+        .setApprovedSource(ethers.id("return '0x1234';"), 2, "");
+      const tx = await vetra
+        .connect(admin)
+        .requestReserveUpdate("return '0x1234';", []);
+      const [result] = await simulator.fulfillFromReceipt(await tx.wait());
+
+      expect(result.errorMessage).to.equal(
+        "returned value not an ArrayBuffer or Uint8Array"
+      );
+    });
+  });
+
+  describe("Versioned Source", function () {
+    it("Should hash the source file the same way as the contract", async function () {
+      const source = loadReserveSource();
+
+      expect(source.source).to.equal(RESERVE_SOURCE_CODE);
+      expect(source.hash).to.equal(ethers.id(source.source));
+      expect(await vetra.approvedSourceHash()).to.equal(source.hash);
+      await assertApprovedSource(vetra, source);
+    });
+
+    it("Should refuse to send a source that is not approved", async function () {
+      const source = loadReserveSource();
+      await vetra
+        .connect(admin)
+        .setApprovedSource(ethers.id("return 1;"), source.version + 1, "");
+
+      let message = "";
+      try {
+        await sendReserveRequest(vetra, API_URL, source);
+      } catch (error) {
+        message = (error as Error).message;
+      }
+      expect(message).to.contain("does not match the approved source");
+      expect(await router.requestCount()).to.equal(0);
+    });
+
+    it("Should fail on a missing source version", function () {
+      expect(() => loadReserveSource(999)).to.throw("Reserve source v999 not found");
+    });
+  });
+
+  describe("Waiting For Fulfilment", function () {
+    const WAIT_OPTIONS = { timeoutMs: 2000, pollIntervalMs: 10 };
+
+    it("Should report the reserve update for the request ID", async function () {
+      const sent = await sendReserveRequest(vetra.connect(admin), API_URL);
+
+      const waiting = waitForReserveRequest(
+        vetra,
+        sent.requestId,
+        sent.receipt.blockNumber,
+        WAIT_OPTIONS
+      );
+      await simulator.fulfill(sent.requestId);
+      const result = await waiting;
+
+      expect(result.status).to.equal("updated");
+      if (result.status === "updated") {
+        expect(result.usdAmount).to.equal(1000n * 100000000n);
+        expect(result.nonce).to.equal(await vetra.lastReserveNonce());
+      }
+    });
+
+    it("Should report a request fulfilled without a reserve change", async function () {
+      apiResponse = { error: true, message: "HTTP 500", status: 500 };
+      const sent = await sendReserveRequest(vetra.connect(admin), API_URL);
+      await simulator.fulfill(sent.requestId);
+
+      const result = await waitForReserveRequest(
+        vetra,
+        sent.requestId,
+        sent.receipt.blockNumber,
+        WAIT_OPTIONS
+      );
+
+      expect(result.status).to.equal("fulfilled");
+      if (result.status === "fulfilled") {
+        expect(result.reason).to.contain("API request failed");
+      }
+    });
+
+    it("Should report a quarantined update and its rejection", async function () {
+      await requestAndFulfill();
+      await vetra.connect(admin).setMaxReserveDeviationBps(1000);
+      apiResponse = balanceResponse("5000.00");
+
+      const sent = await sendReserveRequest(vetra.connect(admin), API_URL);
+      await simulator.fulfill(sent.requestId);
+
+      const result = await waitForReserveRequest(
+        vetra,
+        sent.requestId,
+        sent.receipt.blockNumber,
+        WAIT_OPTIONS
+      );
+      expect(result).to.deep.include({
+        status: "quarantined",
+        usdAmount: 500000000000n,
+        previousUsd: 100000000000n,
+        deviationBps: 40000n,
+        rejected: false,
+      });
+
+      await vetra.connect(admin).rejectQuarantinedReserve();
+      const rejected = await getReserveRequestOutcome(
+        vetra,
+        sent.requestId,
+        sent.receipt.blockNumber
+      );
+      expect(rejected).to.deep.include({ status: "quarantined", rejected: true });
+    });
+
+    it("Should time out when the request is never fulfilled", async function () {
+      const sent = await sendReserveRequest(vetra.connect(admin), API_URL);
+      let polls = 0;
+
+      const result = await waitForReserveRequest(
+        vetra,
+        sent.requestId,
+        sent.receipt.blockNumber,
+        { timeoutMs: 100, pollIntervalMs: 10, onPending: () => polls++ }
+      );
+
+      expect(result.status).to.equal("timeout");
+      expect(polls).to.be.greaterThan(0);
+    });
+
+    it("Should NOT follow an unknown request ID", async function () {
+      let message = "";
+      try {
+        await waitForReserveRequest(vetra, ethers.id("unknown"), 0, WAIT_OPTIONS);
+      } catch (error) {
+        message = (error as Error).message;
+      }
+      expect(message).to.contain("Unknown reserve request");
+    });
+  });
+
+  describe("Router Guarantees", function () {
+    it("Should NOT allow fulfilling the same request twice", async function () {
+      const result = await requestAndFulfill();
+
+      await expect(
+        router.fulfill(result.requestId, "0x", "0x")
+      ).to.be.revertedWithCustomError(router, "AlreadyFulfilled");
+    });
+
+    it("Should NOT allow fulfilling an unknown request", async function () {
+      await expect(
+        router.fulfill(ethers.id("unknown"), "0x", "0x")
+      ).to.be.revertedWithCustomError(router, "UnknownRequest");
+    });
+  });
+});
@@ -0,0 +1,349 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { Vetra, MockFunctionsRouter } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { FunctionsSimulator } from "../scripts/lib/functionsSimulator";
+import { ReserveApiServer } from "../scripts/lib/reserveApiServer";
+import { loadReserveSource } from "../scripts/lib/reserveSource";
+import {
+  ReserveKeeper,
+  ReserveKeeperOptions,
+} from "../scripts/lib/reserveKeeper";
+import { getVetraFactory } from "./helpers";
+
+describe("Vetra - Reserve Keeper", function () {
+  let vetra: Vetra;
+  let router: MockFunctionsRouter;
+  let simulator: FunctionsSimulator;
+  let server: ReserveApiServer;
+  let apiUrl: string;
+  let admin: SignerWithAddress;
+  let minter: SignerWithAddress;
+  let burner: SignerWithAddress;
+  let user: SignerWithAddress;
+
+  // Fake wall clock driving backoff and fulfilment timeouts
+  let clock: number;
+
+  const RESERVE_TTL = 900; // 15 minutes
+  const DON_ID = ethers.encodeBytes32String("fun-polygon-amoy-1");
+  const SUBSCRIPTION_ID = 1;
+  const GAS_LIMIT = 300000;
+
+  function createKeeper(
+    overrides: Partial<ReserveKeeperOptions> = {}
+  ): ReserveKeeper {
+    return new ReserveKeeper(vetra, {
+      apiUrl,
+      updateIntervalSeconds: 300,
+      ttlMarginSeconds: 120,
+      fulfillmentTimeoutMs: 300_000,
+      pollIntervalMs: 10,
+      retryBaseMs: 30_000,
+      retryMaxMs: 100_000,
+      now: () => clock,
+      log: () => {},
+      ...overrides,
+    });
+  }
+
+  async function increaseChainTime(seconds: number) {
+    await ethers.provider.send("evm_increaseTime", [seconds]);
+    await ethers.provider.send("evm_mine", []);
+  }
+
+  async function fulfillPending(keeper: ReserveKeeper) {
+    const pending = keeper.pendingRequest;
+    if (!pending) throw new Error("No request in flight");
+    return simulator.fulfill(pending.requestId);
+  }
+
+  before(async function () {
+    server = new ReserveApiServer();
+    apiUrl = await server.start();
+  });
+
+  after(async function () {
+    await server.stop();
+  });
+
+  beforeEach(async function () {
+    [admin, minter, burner, user] = await ethers.getSigners();
+
+    const RouterFactory = await ethers.getContractFactory("MockFunctionsRouter");
+    router = (await RouterFactory.deploy()) as unknown as MockFunctionsRouter;
+    await router.waitForDeployment();
+
+    const VetraFactory = await getVetraFactory();
+    vetra = (await upgrades.deployProxy(
+      VetraFactory,
+      [
+        admin.address,
+        minter.address,
+        burner.address,
+        RESERVE_TTL,
+        await router.getAddress(),
+        DON_ID,
+        SUBSCRIPTION_ID,
+        GAS_LIMIT,
+      ],
+      {
+        initializer: "initialize",
+        kind: "uups",
+        unsafeAllowLinkedLibraries: true,
+      }
+    )) as unknown as Vetra;
+
+    await vetra.waitForDeployment();
+    await vetra
+      .connect(admin)
+      .configureMinter(minter.address, ethers.MaxUint256);
+
+    const source = loadReserveSource();
+    await vetra
+      .connect(admin)
+      .setApprovedSource(source.hash, source.version, "");
+
+    server.setScenario({ kind: "fixed", balance: "1000.00" });
+    simulator = new FunctionsSimulator(router);
+    clock = 1_000_000;
+  });
+
+  describe("Scheduling", function () {
+    it("Should request an update when no reserve is recorded", async function () {
+      const keeper = createKeeper();
+
+      const action = await keeper.tick();
+
+      expect(action.type).to.equal("requested");
+      expect(keeper.pendingRequest).to.not.be.undefined;
+      expect(await router.requestCount()).to.equal(1);
+    });
+
+    it("Should report the update once fulfilled and then go idle", async function () {
+      const keeper = createKeeper();
+      await keeper.tick();
+      await fulfillPending(keeper);
+
+      const action = await keeper.tick();
+      expect(action.type).to.equal("updated");
+      if (action.type === "updated") {
+        expect(action.usdAmount).to.equal(100000000000n);
+      }
+      expect(keeper.pendingRequest).to.be.undefined;
+      expect(await vetra.isReserveFresh()).to.be.true;
+
+      expect((await keeper.tick()).type).to.equal("idle");
+      expect(await router.requestCount()).to.equal(1);
+    });
+
+    it("Should request again once the update interval elapses", async function () {
+      const keeper = createKeeper({ updateIntervalSeconds: 300 });
+      await keeper.tick();
+      await fulfillPending(keeper);
+      await keeper.tick();
+
+      await increaseChainTime(200);
+      expect((await keeper.tick()).type).to.equal("idle");
+
+      await increaseChainTime(100);
+      const action = await keeper.tick();
+      expect(action.type).to.equal("requested");
+      expect(await router.requestCount()).to.equal(2);
+    });
+
+    it("Should request when reserve age approaches the TTL", async function () {
+      // Interval longer than the TTL: only the TTL margin triggers updates
+      const keeper = createKeeper({
+        updateIntervalSeconds: 3600,
+        ttlMarginSeconds: 120,
+      });
+      await keeper.tick();
+      await fulfillPending(keeper);
+      await keeper.tick();
+
+      await increaseChainTime(RESERVE_TTL - 200);
+      const idle = await keeper.tick();
+      expect(idle.type).to.equal("idle");
+      if (idle.type === "idle") {
+        expect(idle.nextDueIn).to.be.lessThanOrEqual(80n);
+      }
+
+      await increaseChainTime(80);
+      const action = await keeper.tick();
+      expect(action.type).to.equal("requested");
+      if (action.type === "requested") {
+        expect(action.reason).to.contain("of TTL");
+      }
+    });
+
+    it("Should keep the minting path open across TTL windows", async function () {
+      const keeper = createKeeper();
+
+      for (let i = 0; i < 3; i++) {
+        expect((await keeper.tick()).type).to.equal("requested");
+        await fulfillPending(keeper);
+        expect((await keeper.tick()).type).to.equal("updated");
+
+        await vetra.connect(minter).mint(user.address, ethers.parseEther("1"));
+        await increaseChainTime(RESERVE_TTL - 60);
+      }
+
+      expect(await vetra.balanceOf(user.address)).to.equal(
+        ethers.parseEther("3")
+      );
+    });
+  });
+
+  describe("Single Request In Flight", function () {
+    it("Should wait for a pending request instead of sending another", async function () {
+      const keeper = createKeeper();
+      await keeper.tick();
+
+      await increaseChainTime(RESERVE_TTL * 2);
+      clock += 60_000;
+
+      const action = await keeper.tick();
+      expect(action.type).to.equal("waiting");
+      if (action.type === "waiting") {
+        expect(action.elapsedMs).to.equal(60_000);
+      }
+      expect(await router.requestCount()).to.equal(1);
+    });
+
+    it("Should give up on a request after the fulfilment timeout", async function () {
+      const keeper = createKeeper({ fulfillmentTimeoutMs: 120_000 });
+      await keeper.tick();
+
+      clock += 120_000;
+      const action = await keeper.tick();
+
+      expect(action.type).to.equal("failed");
+      if (action.type === "failed") {
+        expect(action.reason).to.contain("not fulfilled within");
+      }
+      expect(keeper.pendingRequest).to.be.undefined;
+    });
+  });
+
+  describe("Retry With Backoff", function () {
+    it("Should back off after a DON error and retry later", async function () {
+      server.setScenario({ kind: "serverError" });
+      const keeper = createKeeper({ retryBaseMs: 30_000 });
+
+      await keeper.tick();
+      await fulfillPending(keeper);
+
+      const failed = await keeper.tick();
+      expect(failed.type).to.equal("failed");
+      if (failed.type === "failed") {
+        expect(failed.reason).to.contain("without a reserve update");
+        expect(failed.retryInMs).to.equal(30_000);
+      }
+
+      clock += 10_000;
+      const backoff = await keeper.tick();
+      expect(backoff.type).to.equal("backoff");
+      if (backoff.type === "backoff") {
+        expect(backoff.retryInMs).to.equal(20_000);
+      }
+      expect(await router.requestCount()).to.equal(1);
+
+      server.setScenario({ kind: "fixed", balance: "1000.00" });
+      clock += 20_000;
+      expect((await keeper.tick()).type).to.equal("requested");
+      await fulfillPending(keeper);
+      expect((await keeper.tick()).type).to.equal("updated");
+      expect(keeper.consecutiveFailures).to.equal(0);
+    });
+
+    it("Should double the delay on consecutive failures up to the maximum", async function () {
+      server.setScenario({ kind: "serverError" });
+      const keeper = createKeeper({ retryBaseMs: 30_000, retryMaxMs: 100_000 });
+      const delays: number[] = [];
+
+      for (let i = 0; i < 4; i++) {
+        await keeper.tick();
+        await fulfillPending(keeper);
+        const action = await keeper.tick();
+        if (action.type !== "failed") throw new Error("expected failure");
+        delays.push(action.retryInMs);
+        clock += action.retryInMs;
+      }
+
+      expect(delays).to.deep.equal([30_000, 60_000, 100_000, 100_000]);
+    });
+
+    it("Should treat a rejected request transaction as a failure", async function () {
+      const keeper = new ReserveKeeper(vetra.connect(user), {
+        apiUrl,
+        updateIntervalSeconds: 300,
+        ttlMarginSeconds: 120,
+        fulfillmentTimeoutMs: 300_000,
+        pollIntervalMs: 10,
+        retryBaseMs: 30_000,
+        retryMaxMs: 100_000,
+        now: () => clock,
+        log: () => {},
+      });
+
+      const action = await keeper.tick();
+
+      expect(action.type).to.equal("failed");
+      if (action.type === "failed") {
+        expect(action.reason).to.contain("request failed");
+      }
+      expect(keeper.pendingRequest).to.be.undefined;
+    });
+  });
+
+  describe("Quarantined Updates", function () {
+    it("Should stop requesting until an admin resolves a quarantined update", async function () {
+      await vetra.connect(admin).setMaxReserveDeviationBps(1000);
+      const keeper = createKeeper({ updateIntervalSeconds: 300 });
+      await keeper.tick();
+      await fulfillPending(keeper);
+      await keeper.tick();
+
+      server.setScenario({ kind: "fixed", balance: "5000.00" });
+      await increaseChainTime(300);
+      expect((await keeper.tick()).type).to.equal("requested");
+      await fulfillPending(keeper);
+
+      const quarantined = await keeper.tick();
+      expect(quarantined.type).to.equal("quarantined");
+      if (quarantined.type === "quarantined") {
+        expect(quarantined.usdAmount).to.equal(500000000000n);
+      }
+      expect(keeper.consecutiveFailures).to.equal(0);
+
+      await increaseChainTime(300);
+      expect((await keeper.tick()).type).to.equal("quarantined");
+      expect(await router.requestCount()).to.equal(2);
+
+      await vetra.connect(admin).rejectQuarantinedReserve();
+      expect((await keeper.tick()).type).to.equal("requested");
+    });
+  });
+
+  describe("Run Loop", function () {
+    it("Should keep ticking until stopped", async function () {
+      const keeper = createKeeper();
+      const running = keeper.run();
+
+      // Fulfil the request the loop sends, then stop once it is applied
+      while (!keeper.pendingRequest) {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+      }
+      await fulfillPending(keeper);
+      while (!(await vetra.isReserveFresh()) || keeper.pendingRequest) {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+      }
+
+      keeper.stop();
+      await running;
+
+      expect(await router.requestCount()).to.equal(1);
+    });
+  });
+});
@@ -0,0 +1,297 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { Vetra, VetraV1 } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  MIGRATION_STEPS,
+  getInitializedVersion,
+  planAllowanceSeeds,
+  planMigrations,
+} from "../scripts/lib/migrations";
+import { loadRoleHolders } from "../scripts/lib/roles";
+import { getVetraFactory } from "./helpers";
+
+describe("Vetra - Proxy Migration", function () {
+  let vetraV1: VetraV1;
+  let vetra: Vetra;
+  let admin: SignerWithAddress;
+  let minter: SignerWithAddress;
+  let burner: SignerWithAddress;
+  let compliance: SignerWithAddress;
+  let user: SignerWithAddress;
+  let functionsRouter: SignerWithAddress;
+
+  const RESERVE_TTL = 900;
+  const DON_ID = ethers.encodeBytes32String("fun-polygon-amoy-1");
+  const SUBSCRIPTION_ID = 1;
+  const GAS_LIMIT = 300000;
+  const MINTER_ALLOWANCE = ethers.parseEther("1000000");
+
+  // Same path as scripts/upgrade.ts followed by scripts/migrate.ts
+  async function upgradeFromV1(): Promise<Vetra> {
+    const proxyAddress = await vetraV1.getAddress();
+    const newImpl = (await upgrades.prepareUpgrade(
+      proxyAddress,
+      await getVetraFactory(),
+      { kind: "uups", unsafeAllowLinkedLibraries: true }
+    )) as string;
+    await vetraV1.connect(admin).upgradeToAndCall(newImpl, "0x");
+    return (await ethers.getContractAt(
+      "Vetra",
+      proxyAddress
+    )) as unknown as Vetra;
+  }
+
+  async function migrate() {
+    const [admins, minters] = await loadRoleHolders(vetra, 0);
+    const planned = await planMigrations(vetra, {
+      complianceAdmin: compliance.address,
+      otherAdmins: admins.holders.filter((a) => a !== admin.address),
+    });
+    const seeds = await planAllowanceSeeds(
+      vetra,
+      minters.holders,
+      MINTER_ALLOWANCE
+    );
+    for (const { step, args } of planned) {
+      await vetra
+        .connect(admin)
+        .getFunction(step.fn)
+        .staticCall(...args);
+      await (
+        await vetra.connect(admin).getFunction(step.fn)(...args)
+      ).wait();
+    }
+    for (const { minter, allowance } of seeds) {
+      await vetra.connect(admin).configureMinter(minter, allowance);
+    }
+  }
+
+  async function deployV1(): Promise<VetraV1> {
+    const VetraV1Factory = await ethers.getContractFactory("VetraV1");
+    const proxy = (await upgrades.deployProxy(
+      VetraV1Factory,
+      [
+        admin.address,
+        minter.address,
+        burner.address,
+        RESERVE_TTL,
+        functionsRouter.address,
+        DON_ID,
+        SUBSCRIPTION_ID,
+        GAS_LIMIT,
+      ],
+      { initializer: "initialize", kind: "uups" }
+    )) as unknown as VetraV1;
+    await proxy.waitForDeployment();
+    return proxy;
+  }
+
+  beforeEach(async function () {
+    [admin, minter, burner, compliance, user, functionsRouter] =
+      await ethers.getSigners();
+
+    vetraV1 = await deployV1();
+    vetra = await upgradeFromV1();
+  });
+
+  it("Should plan every reinitializer for a V1 proxy", async function () {
+    expect(await getInitializedVersion(vetra)).to.equal(1);
+
+    const planned = await planMigrations(vetra, {
+      complianceAdmin: compliance.address,
+      otherAdmins: [],
+    });
+    expect(planned.map(({ step }) => step.fn)).to.deep.equal(
+      MIGRATION_STEPS.map((step) => step.fn)
+    );
+    expect(planned[0].args).to.deep.equal([compliance.address]);
+  });
+
+  it("Should leave no account with UPGRADER_ROLE until migrated", async function () {
+    const UPGRADER_ROLE = await vetra.UPGRADER_ROLE();
+    expect(await vetra.hasRole(UPGRADER_ROLE, admin.address)).to.be.false;
+
+    // An upgrade that would run the reinitializers cannot be authorized
+    const newImpl = (await upgrades.prepareUpgrade(
+      await vetra.getAddress(),
+      await getVetraFactory("VetraV2"),
+      { kind: "uups", unsafeAllowLinkedLibraries: true }
+    )) as string;
+    await expect(
+      vetra
+        .connect(admin)
+        .upgradeToAndCall(
+          newImpl,
+          vetra.interface.encodeFunctionData("initializeRoles")
+        )
+    ).to.be.revertedWithCustomError(vetra, "AccessControlUnauthorizedAccount");
+  });
+
+  it("Should migrate a V1 proxy to the current version", async function () {
+    await migrate();
+
+    const latest = MIGRATION_STEPS[MIGRATION_STEPS.length - 1].version;
+    expect(await getInitializedVersion(vetra)).to.equal(latest);
+    expect(await vetra.defaultAdmin()).to.equal(admin.address);
+    expect(
+      await vetra.hasRole(await vetra.COMPLIANCE_ROLE(), compliance.address)
+    ).to.be.true;
+    for (const role of [
+      await vetra.PAUSER_ROLE(),
+      await vetra.RESERVE_UPDATER_ROLE(),
+      await vetra.POLICY_ADMIN_ROLE(),
+      await vetra.ORACLE_ADMIN_ROLE(),
+      await vetra.UPGRADER_ROLE(),
+    ]) {
+      expect(await vetra.hasRole(role, admin.address)).to.be.true;
+    }
+    expect(await vetra.eip712Domain()).to.include("Vetra");
+
+    // Nothing is left to run
+    expect(
+      await planMigrations(vetra, {
+        complianceAdmin: compliance.address,
+        otherAdmins: [],
+      })
+    ).to.have.length(0);
+  });
+
+  it("Should leave the migrating admin as the only admin", async function () {
+    // Admins granted before the two-step transfer existed
+    vetraV1 = await deployV1();
+    const DEFAULT_ADMIN_ROLE = await vetraV1.DEFAULT_ADMIN_ROLE();
+    await vetraV1.connect(admin).grantRole(DEFAULT_ADMIN_ROLE, user.address);
+    await vetraV1
+      .connect(admin)
+      .grantRole(DEFAULT_ADMIN_ROLE, compliance.address);
+    vetra = await upgradeFromV1();
+
+    await migrate();
+
+    const [admins] = await loadRoleHolders(vetra, 0);
+    expect(admins.holders).to.deep.equal([admin.address]);
+    expect(await vetra.defaultAdmin()).to.equal(admin.address);
+  });
+
+  it("Should ignore an admin grant the migration missed", async function () {
+    vetraV1 = await deployV1();
+    const DEFAULT_ADMIN_ROLE = await vetraV1.DEFAULT_ADMIN_ROLE();
+    await vetraV1.connect(admin).grantRole(DEFAULT_ADMIN_ROLE, user.address);
+    vetra = await upgradeFromV1();
+
+    const planned = await planMigrations(vetra, {
+      complianceAdmin: compliance.address,
+      otherAdmins: [],
+    });
+    for (const { step, args } of planned) {
+      await vetra.connect(admin).getFunction(step.fn)(...args);
+    }
+
+    expect(await vetra.hasRole(DEFAULT_ADMIN_ROLE, user.address)).to.be.false;
+    const [admins] = await loadRoleHolders(vetra, 0);
+    expect(admins.holders).to.deep.equal([admin.address]);
+  });
+
+  it("Should give the admin MINTER_ADMIN_ROLE and seed allowances", async function () {
+    const MINTER_ADMIN_ROLE = await vetra.MINTER_ADMIN_ROLE();
+    expect(await vetra.hasRole(MINTER_ADMIN_ROLE, admin.address)).to.be.false;
+    expect(await vetra.minterAllowance(minter.address)).to.equal(0);
+
+    await migrate();
+
+    expect(await vetra.hasRole(MINTER_ADMIN_ROLE, admin.address)).to.be.true;
+    expect(await vetra.minterAllowance(minter.address)).to.equal(
+      MINTER_ALLOWANCE
+    );
+  });
+
+  it("Should NOT seed minters that already have an allowance", async function () {
+    await migrate();
+    await vetra.connect(admin).configureMinter(minter.address, 5);
+
+    const [, minters] = await loadRoleHolders(vetra, 0);
+    expect(
+      await planAllowanceSeeds(vetra, minters.holders, MINTER_ALLOWANCE)
+    ).to.have.length(0);
+  });
+
+  it("Should let the migrated admin pause and upgrade", async function () {
+    await migrate();
+
+    await vetra.connect(admin).pause();
+    expect(await vetra.paused()).to.be.true;
+    await vetra.connect(admin).unpause();
+
+    const upgraded = await upgrades.upgradeProxy(
+      await vetra.getAddress(),
+      (await getVetraFactory("VetraV2")).connect(admin),
+      { kind: "uups", unsafeAllowLinkedLibraries: true }
+    );
+    expect(await upgraded.getAddress()).to.equal(await vetra.getAddress());
+  });
+
+  it("Should resume a partial migration", async function () {
+    await vetra.connect(admin).initializeCompliance(compliance.address);
+
+    const planned = await planMigrations(vetra, {
+      complianceAdmin: compliance.address,
+      otherAdmins: [],
+    });
+    expect(planned.map(({ step }) => step.version)).to.deep.equal([
+      3, 4, 5, 6,
+    ]);
+
+    await migrate();
+    expect(await vetra.defaultAdmin()).to.equal(admin.address);
+  });
+
+  it("Should NOT run a step before the ones it follows", async function () {
+    await expect(vetra.connect(admin).initializeRoles())
+      .to.be.revertedWithCustomError(vetra, "MigrationOutOfOrder")
+      .withArgs(4, 1);
+
+    await vetra.connect(admin).initializeCompliance(compliance.address);
+    await expect(vetra.connect(admin).initializeMinterAdmin())
+      .to.be.revertedWithCustomError(vetra, "MigrationOutOfOrder")
+      .withArgs(6, 2);
+    expect(await getInitializedVersion(vetra)).to.equal(2);
+  });
+
+  it("Should NOT let a non-admin migrate", async function () {
+    await expect(
+      vetra.connect(user).initializeCompliance(user.address)
+    ).to.be.revertedWithCustomError(vetra, "AccessControlUnauthorizedAccount");
+  });
+
+  it("Should have nothing to migrate on a fresh deployment", async function () {
+    const fresh = (await upgrades.deployProxy(
+      await getVetraFactory(),
+      [
+        admin.address,
+        minter.address,
+        burner.address,
+        RESERVE_TTL,
+        functionsRouter.address,
+        DON_ID,
+        SUBSCRIPTION_ID,
+        GAS_LIMIT,
+      ],
+      {
+        initializer: "initialize",
+        kind: "uups",
+        unsafeAllowLinkedLibraries: true,
+      }
+    )) as unknown as Vetra;
+
+    expect(
+      await planMigrations(fresh, {
+        complianceAdmin: compliance.address,
+        otherAdmins: [],
+      })
+    ).to.have.length(0);
+    await expect(
+      fresh.connect(admin).initializeDefaultAdmin([])
+    ).to.be.revertedWithCustomError(fresh, "InvalidInitialization");
+  });
+});
@@ -0,0 +1,287 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import {
+  Vetra,
+  VetraMintApprovals,
+  MockFunctionsRouter,
+} from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { getVetraFactory, setReserve } from "./helpers";
+
+describe("Vetra - Mint Approvals", function () {
+  let vetra: Vetra;
+  let approvals: VetraMintApprovals;
+  let admin: SignerWithAddress;
+  let minter: SignerWithAddress;
+  let burner: SignerWithAddress;
+  let approver: SignerWithAddress;
+  let user: SignerWithAddress;
+  let functionsRouter: MockFunctionsRouter;
+
+  const RESERVE_TTL = 900; // 15 minutes
+  const DON_ID = ethers.encodeBytes32String("fun-polygon-amoy-1");
+  const SUBSCRIPTION_ID = 1;
+  const GAS_LIMIT = 300000;
+
+  const PROPOSAL_TTL = 86400; // 24 hours
+  const FUNDING_REF = ethers.encodeBytes32String("wire-0001");
+  const tokens = (amount: string) => ethers.parseEther(amount);
+  const THRESHOLD = tokens("10000");
+
+  async function increaseChainTime(seconds: number) {
+    await ethers.provider.send("evm_increaseTime", [seconds]);
+    await ethers.provider.send("evm_mine", []);
+  }
+
+  async function propose(amount: bigint): Promise<bigint> {
+    const id = await approvals.nextProposalId();
+    await approvals
+      .connect(minter)
+      .proposeMint(user.address, amount, FUNDING_REF);
+    return id;
+  }
+
+  beforeEach(async function () {
+    [admin, minter, burner, approver, user] = await ethers.getSigners();
+
+    const RouterFactory = await ethers.getContractFactory("MockFunctionsRouter");
+    functionsRouter =
+      (await RouterFactory.deploy()) as unknown as MockFunctionsRouter;
+    await functionsRouter.waitForDeployment();
+
+    const VetraFactory = await getVetraFactory();
+    vetra = (await upgrades.deployProxy(
+      VetraFactory,
+      [
+        admin.address,
+        minter.address,
+        burner.address,
+        RESERVE_TTL,
+        await functionsRouter.getAddress(),
+        DON_ID,
+        SUBSCRIPTION_ID,
+        GAS_LIMIT,
+      ],
+      {
+        initializer: "initialize",
+        kind: "uups",
+        unsafeAllowLinkedLibraries: true,
+      }
+    )) as unknown as Vetra;
+
+    await vetra.waitForDeployment();
+
+    const ApprovalsFactory = await ethers.getContractFactory(
+      "VetraMintApprovals"
+    );
+    approvals = (await ApprovalsFactory.deploy(
+      await vetra.getAddress(),
+      PROPOSAL_TTL
+    )) as unknown as VetraMintApprovals;
+    await approvals.waitForDeployment();
+    const approvalsAddress = await approvals.getAddress();
+
+    await vetra
+      .connect(admin)
+      .configureMinter(minter.address, ethers.MaxUint256);
+    await vetra
+      .connect(admin)
+      .grantRole(await vetra.MINTER_ROLE(), approvalsAddress);
+    await vetra
+      .connect(admin)
+      .configureMinter(approvalsAddress, ethers.MaxUint256);
+    await vetra
+      .connect(admin)
+      .grantRole(await vetra.MINT_APPROVER_ROLE(), approver.address);
+    await vetra
+      .connect(admin)
+      .configureMintApprovals(approvalsAddress, THRESHOLD);
+    await setReserve(vetra, admin, functionsRouter);
+  });
+
+  describe("Threshold", function () {
+    it("Should block direct mints above the threshold", async function () {
+      await expect(
+        vetra.connect(minter).mint(user.address, THRESHOLD + 1n)
+      )
+        .to.be.revertedWithCustomError(vetra, "MintApprovalRequired")
+        .withArgs(THRESHOLD + 1n, THRESHOLD);
+
+      await vetra.connect(minter).mint(user.address, THRESHOLD);
+      expect(await vetra.balanceOf(user.address)).to.equal(THRESHOLD);
+    });
+
+    it("Should allow any direct mint when the threshold is 0", async function () {
+      await expect(
+        vetra
+          .connect(admin)
+          .configureMintApprovals(await approvals.getAddress(), 0)
+      )
+        .to.emit(vetra, "MintApprovalsConfigured")
+        .withArgs(await approvals.getAddress(), 0);
+
+      await vetra.connect(minter).mint(user.address, tokens("50000"));
+      expect(await vetra.balanceOf(user.address)).to.equal(tokens("50000"));
+    });
+
+    it("Should NOT accept a threshold without an approvals contract", async function () {
+      await expect(
+        vetra.connect(admin).configureMintApprovals(ethers.ZeroAddress, 1)
+      ).to.be.revertedWithCustomError(vetra, "InvalidConfiguration");
+      await expect(
+        vetra
+          .connect(minter)
+          .configureMintApprovals(await approvals.getAddress(), 1)
+      ).to.be.revertedWithCustomError(
+        vetra,
+        "AccessControlUnauthorizedAccount"
+      );
+    });
+  });
+
+  describe("Proposing", function () {
+    it("Should record a pending proposal with an expiry", async function () {
+      const tx = await approvals
+        .connect(minter)
+        .proposeMint(user.address, tokens("50000"), FUNDING_REF);
+      const block = await ethers.provider.getBlock(tx.blockNumber!);
+      const expiresAt = BigInt(block!.timestamp + PROPOSAL_TTL);
+
+      await expect(tx)
+        .to.emit(approvals, "MintProposed")
+        .withArgs(
+          1,
+          minter.address,
+          user.address,
+          tokens("50000"),
+          FUNDING_REF,
+          expiresAt
+        );
+
+      const proposal = await approvals.proposals(1);
+      expect(proposal.expiresAt).to.equal(expiresAt);
+      expect(proposal.proposer).to.equal(minter.address);
+      expect(proposal.status).to.equal(1); // Pending
+      expect(await approvals.getPendingProposalIds(0, 10)).to.deep.equal([1n]);
+      expect(
+        await approvals.getPendingProposalIds(0, ethers.MaxUint256)
+      ).to.deep.equal([1n]);
+      expect(await vetra.totalSupply()).to.equal(0);
+    });
+
+    it("Should only accept proposals from minters", async function () {
+      const MINTER_ROLE = await vetra.MINTER_ROLE();
+      await expect(
+        approvals
+          .connect(approver)
+          .proposeMint(user.address, tokens("1"), FUNDING_REF)
+      )
+        .to.be.revertedWithCustomError(
+          approvals,
+          "AccessControlUnauthorizedAccount"
+        )
+        .withArgs(approver.address, MINTER_ROLE);
+      await expect(
+        approvals
+          .connect(minter)
+          .proposeMint(ethers.ZeroAddress, tokens("1"), FUNDING_REF)
+      ).to.be.revertedWithCustomError(approvals, "InvalidAddress");
+      await expect(
+        approvals.connect(minter).proposeMint(user.address, 0, FUNDING_REF)
+      ).to.be.revertedWithCustomError(approvals, "InvalidAmount");
+    });
+  });
+
+  describe("Approving", function () {
+    it("Should mint above the threshold once approved", async function () {
+      const id = await propose(tokens("50000"));
+
+      await expect(approvals.connect(approver).approveMint(id))
+        .to.emit(approvals, "MintProposalApproved")
+        .withArgs(id, approver.address, user.address, tokens("50000"))
+        .and.to.emit(vetra, "TokensMinted");
+
+      expect(await vetra.balanceOf(user.address)).to.equal(tokens("50000"));
+      expect((await approvals.proposals(id)).status).to.equal(2); // Executed
+      expect(await approvals.pendingProposalCount()).to.equal(0);
+
+      await expect(approvals.connect(approver).approveMint(id))
+        .to.be.revertedWithCustomError(approvals, "ProposalNotPending")
+        .withArgs(id);
+    });
+
+    it("Should NOT let the proposer approve their own proposal", async function () {
+      await vetra
+        .connect(admin)
+        .grantRole(await vetra.MINT_APPROVER_ROLE(), minter.address);
+      const id = await propose(tokens("50000"));
+
+      await expect(approvals.connect(minter).approveMint(id))
+        .to.be.revertedWithCustomError(approvals, "SelfApproval")
+        .withArgs(id);
+      await expect(
+        approvals.connect(user).approveMint(id)
+      ).to.be.revertedWithCustomError(
+        approvals,
+        "AccessControlUnauthorizedAccount"
+      );
+    });
+
+    it("Should NOT approve an expired proposal", async function () {
+      const id = await propose(tokens("50000"));
+      const { expiresAt } = await approvals.proposals(id);
+      await increaseChainTime(PROPOSAL_TTL + 1);
+
+      expect(await approvals.isApprovable(id)).to.equal(false);
+      await expect(approvals.connect(approver).approveMint(id))
+        .to.be.revertedWithCustomError(approvals, "ProposalExpired")
+        .withArgs(id, expiresAt);
+    });
+
+    it("Should still enforce the reserve and allowlist checks", async function () {
+      const id = await propose(tokens("50000"));
+
+      await vetra.connect(admin).setAllowlistEnabled(true);
+      await expect(
+        approvals.connect(approver).approveMint(id)
+      ).to.be.revertedWithCustomError(vetra, "RecipientNotAllowed");
+      await vetra.connect(admin).setAllowlistEnabled(false);
+
+      await increaseChainTime(RESERVE_TTL + 1);
+      await expect(
+        approvals.connect(approver).approveMint(id)
+      ).to.be.revertedWithCustomError(vetra, "ReserveStale");
+
+      // A failed approval leaves the proposal pending
+      expect(await approvals.isApprovable(id)).to.equal(true);
+    });
+  });
+
+  describe("Cancelling", function () {
+    it("Should let the proposer or an approver cancel", async function () {
+      const first = await propose(tokens("50000"));
+      const second = await propose(tokens("60000"));
+
+      await expect(approvals.connect(minter).cancelMintProposal(first))
+        .to.emit(approvals, "MintProposalCancelled")
+        .withArgs(first, minter.address);
+      await approvals.connect(approver).cancelMintProposal(second);
+
+      expect((await approvals.proposals(first)).status).to.equal(3); // Cancelled
+      expect(await approvals.pendingProposalCount()).to.equal(0);
+      await expect(
+        approvals.connect(approver).approveMint(first)
+      ).to.be.revertedWithCustomError(approvals, "ProposalNotPending");
+    });
+
+    it("Should NOT let anyone else cancel", async function () {
+      const id = await propose(tokens("50000"));
+      await expect(
+        approvals.connect(user).cancelMintProposal(id)
+      ).to.be.revertedWithCustomError(
+        approvals,
+        "AccessControlUnauthorizedAccount"
+      );
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { Vetra, MockFunctionsRouter } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { parseAmountRows, parseCsv } from "../scripts/lib/csv";
+import { checkMints } from "../scripts/lib/mints";
+import { getVetraFactory, setReserve } from "./helpers";
+
+describe("Vetra - Mint Pre-flight", function () {
+  let vetra: Vetra;
+  let admin: SignerWithAddress;
+  let minter: SignerWithAddress;
+  let burner: SignerWithAddress;
+  let alice: SignerWithAddress;
+  let bob: SignerWithAddress;
+  let functionsRouter: MockFunctionsRouter;
+
+  const RESERVE_TTL = 900; // 15 minutes
+  const DON_ID = ethers.encodeBytes32String("fun-polygon-amoy-1");
+  const SUBSCRIPTION_ID = 1;
+  const GAS_LIMIT = 300000;
+  const tokens = (amount: string) => ethers.parseEther(amount);
+
+  function mints(csv: string) {
+    return parseAmountRows(parseCsv(csv, "recipient"));
+  }
+
+  beforeEach(async function () {
+    [admin, minter, burner, alice, bob] = await ethers.getSigners();
+
+    const RouterFactory = await ethers.getContractFactory("MockFunctionsRouter");
+    functionsRouter =
+      (await RouterFactory.deploy()) as unknown as MockFunctionsRouter;
+    await functionsRouter.waitForDeployment();
+
+    const VetraFactory = await getVetraFactory();
+    vetra = (await upgrades.deployProxy(
+      VetraFactory,
+      [
+        admin.address,
+        minter.address,
+        burner.address,
+        RESERVE_TTL,
+        await functionsRouter.getAddress(),
+        DON_ID,
+        SUBSCRIPTION_ID,
+        GAS_LIMIT,
+      ],
+      {
+        initializer: "initialize",
+        kind: "uups",
+        unsafeAllowLinkedLibraries: true,
+      }
+    )) as unknown as Vetra;
+    await vetra.waitForDeployment();
+
+    await vetra
+      .connect(admin)
+      .configureMinter(minter.address, tokens("500000"));
+    await setReserve(vetra, admin, functionsRouter);
+  });
+
+  it("Should parse recipient,amount rows", async function () {
+    const csv =
+      `recipient,amount\n` +
+      `${alice.address.toLowerCase()},1500.25\n` +
+      `${bob.address},7`;
+    expect(mints(csv)).to.deep.equal([
+      { account: alice.address, amount: tokens("1500.25"), line: 2 },
+      { account: bob.address, amount: tokens("7"), line: 3 },
+    ]);
+
+    expect(() => mints(`${alice.address},0`)).to.throw(
+      "Line 1: amount must be greater than 0"
+    );
+    expect(() => mints(`${alice.address},1,000`)).to.throw(
+      'Line 1: expected "address,amount"'
+    );
+    expect(() => mints(`${alice.address},ten`)).to.throw(
+      'Line 1: invalid amount "ten"'
+    );
+  });
+
+  it("Should pass mints within every limit", async function () {
+    const batch = mints(`${alice.address},100000\n${bob.address},200000`);
+    expect(await checkMints(vetra, minter.address, batch)).to.deep.equal([]);
+  });
+
+  it("Should check the total against capacity and the minter allowance", async function () {
+    const batch = mints(`${alice.address},400000\n${bob.address},700000`);
+    expect(await checkMints(vetra, minter.address, batch)).to.deep.equal([
+      "Total 1100000.0 VTR exceeds the available mint capacity of 1000000.0 VTR",
+      "Total 1100000.0 VTR exceeds the minter allowance of 500000.0 VTR",
+    ]);
+  });
+
+  it("Should check each mint against the per-tx limit and the allowlist", async function () {
+    await vetra.connect(admin).setMintPerTxLimit(tokens("50000"));
+    await vetra.connect(admin).setAllowlistEnabled(true);
+    await vetra.connect(admin).setAllowlistAddress(alice.address, true);
+
+    const batch = mints(`${alice.address},60000\n${bob.address},1000`);
+    expect(await checkMints(vetra, minter.address, batch)).to.deep.equal([
+      `Line 1 (${alice.address}): 60000.0 VTR exceeds the per-transaction limit of 50000.0 VTR`,
+      `Line 2 (${bob.address}): recipient is not on the allowlist`,
+    ]);
+  });
+
+  it("Should report a paused contract, a stale reserve and a missing role", async function () {
+    await vetra.connect(admin).pause();
+    await ethers.provider.send("evm_increaseTime", [RESERVE_TTL + 1]);
+    await ethers.provider.send("evm_mine", []);
+
+    const batch = mints(`${alice.address},1`);
+    const problems = await checkMints(vetra, alice.address, batch);
+    expect(problems[0]).to.equal(`${alice.address} does not have MINTER_ROLE`);
+    expect(problems[1]).to.equal("Vetra is paused");
+    expect(problems[2]).to.match(/^The reserve is stale \(\d+s old, TTL 900s\)$/);
+  });
+});
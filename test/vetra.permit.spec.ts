@@ -0,0 +1,399 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { Vetra, VetraV1, MockERC1271Wallet } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { buildPermit, signPermit } from "../scripts/lib/permit";
+import { getVetraFactory } from "./helpers";
+
+describe("Vetra - Permit", function () {
+  let vetraV1: VetraV1;
+  let vetra: Vetra;
+  let admin: SignerWithAddress;
+  let minter: SignerWithAddress;
+  let burner: SignerWithAddress;
+  let owner: SignerWithAddress;
+  let spender: SignerWithAddress;
+  let attacker: SignerWithAddress;
+  let functionsRouter: SignerWithAddress;
+
+  const RESERVE_TTL = 900;
+  const DON_ID = ethers.encodeBytes32String("fun-polygon-amoy-1");
+  const SUBSCRIPTION_ID = 1;
+  const GAS_LIMIT = 300000;
+
+  const tokens = (amount: string) => ethers.parseEther(amount);
+
+  const PERMIT_VRS =
+    "permit(address,address,uint256,uint256,uint8,bytes32,bytes32)";
+  const PERMIT_BYTES = "permit(address,address,uint256,uint256,bytes)";
+
+  async function deadlineIn(seconds: number): Promise<bigint> {
+    const latest = (await ethers.provider.getBlock("latest"))!.timestamp;
+    return BigInt(latest + seconds);
+  }
+
+  beforeEach(async function () {
+    [admin, minter, burner, owner, spender, attacker, functionsRouter] =
+      await ethers.getSigners();
+
+    // Deploy the originally deployed implementation with a balance on it
+    const VetraV1Factory = await ethers.getContractFactory("VetraV1");
+    vetraV1 = (await upgrades.deployProxy(
+      VetraV1Factory,
+      [
+        admin.address,
+        minter.address,
+        burner.address,
+        RESERVE_TTL,
+        functionsRouter.address,
+        DON_ID,
+        SUBSCRIPTION_ID,
+        GAS_LIMIT,
+      ],
+      {
+        initializer: "initialize",
+        kind: "uups",
+      }
+    )) as unknown as VetraV1;
+
+    await vetraV1.waitForDeployment();
+    await vetraV1
+      .connect(functionsRouter)
+      .handleOracleFulfillment(
+        ethers.id("v1-request"),
+        ethers.AbiCoder.defaultAbiCoder().encode(
+          ["uint256", "uint256"],
+          [1_000_000n * 10n ** 8n, 1n]
+        ),
+        "0x"
+      );
+    await vetraV1.connect(minter).mint(owner.address, tokens("1000"));
+
+    // Upgrade, then run the migrations in order
+    const VetraFactory = await getVetraFactory();
+    vetra = (await upgrades.upgradeProxy(
+      await vetraV1.getAddress(),
+      VetraFactory,
+      {
+        kind: "uups",
+        unsafeAllowLinkedLibraries: true,
+        call: { fn: "initializeCompliance", args: [admin.address] },
+      }
+    )) as unknown as Vetra;
+  });
+
+  describe("Upgrade", function () {
+    it("Should set the EIP-712 domain through the migration", async function () {
+      await vetra.connect(admin).initializePermit();
+
+      const domain = await vetra.eip712Domain();
+      const { chainId } = await ethers.provider.getNetwork();
+      expect(domain.name).to.equal("Vetra");
+      expect(domain.version).to.equal("1");
+      expect(domain.chainId).to.equal(chainId);
+      expect(domain.verifyingContract).to.equal(await vetra.getAddress());
+      expect(await vetra.DOMAIN_SEPARATOR()).to.equal(
+        ethers.TypedDataEncoder.hashDomain({
+          name: "Vetra",
+          version: "1",
+          chainId,
+          verifyingContract: await vetra.getAddress(),
+        })
+      );
+    });
+
+    it("Should preserve balances and start nonces at zero", async function () {
+      await vetra.connect(admin).initializePermit();
+
+      expect(await vetra.balanceOf(owner.address)).to.equal(tokens("1000"));
+      expect(await vetra.totalSupply()).to.equal(tokens("1000"));
+      expect(await vetra.nonces(owner.address)).to.equal(0);
+    });
+
+    it("Should NOT allow running the migration twice", async function () {
+      await vetra.connect(admin).initializePermit();
+
+      await expect(
+        vetra.connect(admin).initializePermit()
+      ).to.be.revertedWithCustomError(vetra, "InvalidInitialization");
+    });
+
+    it("Should NOT allow non-admin to run the migration", async function () {
+      await expect(
+        vetra.connect(attacker).initializePermit()
+      ).to.be.revertedWithCustomError(vetra, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should set the domain on new deployments", async function () {
+      const VetraFactory = await getVetraFactory();
+      const fresh = (await upgrades.deployProxy(
+        VetraFactory,
+        [
+          admin.address,
+          minter.address,
+          burner.address,
+          RESERVE_TTL,
+          functionsRouter.address,
+          DON_ID,
+          SUBSCRIPTION_ID,
+          GAS_LIMIT,
+        ],
+        {
+          initializer: "initialize",
+          kind: "uups",
+          unsafeAllowLinkedLibraries: true,
+        }
+      )) as unknown as Vetra;
+
+      const domain = await fresh.eip712Domain();
+      expect(domain.name).to.equal("Vetra");
+      expect(domain.version).to.equal("1");
+    });
+  });
+
+  describe("EOA Permits", function () {
+    beforeEach(async function () {
+      await vetra.connect(admin).initializePermit();
+    });
+
+    it("Should approve with a v/r/s signature", async function () {
+      const permit = await signPermit(owner, vetra, {
+        spender: spender.address,
+        value: tokens("100"),
+        deadline: await deadlineIn(3600),
+      });
+
+      await expect(
+        vetra[PERMIT_VRS](
+          permit.owner,
+          permit.spender,
+          permit.value,
+          permit.deadline,
+          permit.v,
+          permit.r,
+          permit.s
+        )
+      )
+        .to.emit(vetra, "Approval")
+        .withArgs(owner.address, spender.address, tokens("100"));
+
+      expect(await vetra.allowance(owner.address, spender.address)).to.equal(
+        tokens("100")
+      );
+      expect(await vetra.nonces(owner.address)).to.equal(1);
+
+      await vetra
+        .connect(spender)
+        .transferFrom(owner.address, spender.address, tokens("100"));
+      expect(await vetra.balanceOf(spender.address)).to.equal(tokens("100"));
+    });
+
+    it("Should approve with a packed signature", async function () {
+      const permit = await signPermit(owner, vetra, {
+        spender: spender.address,
+        value: tokens("50"),
+        deadline: await deadlineIn(3600),
+      });
+
+      await vetra[PERMIT_BYTES](
+        permit.owner,
+        permit.spender,
+        permit.value,
+        permit.deadline,
+        permit.signature
+      );
+
+      expect(await vetra.allowance(owner.address, spender.address)).to.equal(
+        tokens("50")
+      );
+    });
+
+    it("Should NOT accept an expired permit", async function () {
+      const deadline = await deadlineIn(60);
+      const permit = await signPermit(owner, vetra, {
+        spender: spender.address,
+        value: tokens("100"),
+        deadline,
+      });
+
+      await ethers.provider.send("evm_increaseTime", [61]);
+      await ethers.provider.send("evm_mine", []);
+
+      await expect(
+        vetra[PERMIT_BYTES](
+          permit.owner,
+          permit.spender,
+          permit.value,
+          permit.deadline,
+          permit.signature
+        )
+      )
+        .to.be.revertedWithCustomError(vetra, "PermitExpired")
+        .withArgs(deadline);
+    });
+
+    it("Should NOT accept a replayed permit", async function () {
+      const permit = await signPermit(owner, vetra, {
+        spender: spender.address,
+        value: tokens("100"),
+        deadline: await deadlineIn(3600),
+      });
+      const args = [
+        permit.owner,
+        permit.spender,
+        permit.value,
+        permit.deadline,
+        permit.signature,
+      ] as const;
+
+      await vetra[PERMIT_BYTES](...args);
+      await expect(vetra[PERMIT_BYTES](...args))
+        .to.be.revertedWithCustomError(vetra, "InvalidPermitSignature")
+        .withArgs(owner.address);
+    });
+
+    it("Should NOT accept a signature from someone else", async function () {
+      const permit = await signPermit(attacker, vetra, {
+        owner: owner.address,
+        spender: attacker.address,
+        value: tokens("1000"),
+        deadline: await deadlineIn(3600),
+      });
+
+      await expect(
+        vetra[PERMIT_BYTES](
+          permit.owner,
+          permit.spender,
+          permit.value,
+          permit.deadline,
+          permit.signature
+        )
+      )
+        .to.be.revertedWithCustomError(vetra, "InvalidPermitSignature")
+        .withArgs(owner.address);
+    });
+
+    it("Should NOT accept a tampered value", async function () {
+      const permit = await signPermit(owner, vetra, {
+        spender: spender.address,
+        value: tokens("1"),
+        deadline: await deadlineIn(3600),
+      });
+
+      await expect(
+        vetra[PERMIT_BYTES](
+          permit.owner,
+          permit.spender,
+          tokens("1000"),
+          permit.deadline,
+          permit.signature
+        )
+      ).to.be.revertedWithCustomError(vetra, "InvalidPermitSignature");
+    });
+
+    it("Should build payloads against the on-chain domain", async function () {
+      const payload = await buildPermit(vetra, owner.address, {
+        spender: spender.address,
+        value: 1n,
+        deadline: 1n,
+      });
+
+      expect(ethers.TypedDataEncoder.hashDomain(payload.domain)).to.equal(
+        await vetra.DOMAIN_SEPARATOR()
+      );
+      expect(payload.message.nonce).to.equal(0);
+    });
+  });
+
+  describe("ERC-1271 Permits", function () {
+    let wallet: MockERC1271Wallet;
+
+    beforeEach(async function () {
+      await vetra.connect(admin).initializePermit();
+
+      const WalletFactory = await ethers.getContractFactory("MockERC1271Wallet");
+      wallet = (await WalletFactory.deploy(
+        owner.address
+      )) as unknown as MockERC1271Wallet;
+      await wallet.waitForDeployment();
+
+      await vetra
+        .connect(owner)
+        .transfer(await wallet.getAddress(), tokens("500"));
+    });
+
+    it("Should approve for a contract wallet", async function () {
+      const walletAddress = await wallet.getAddress();
+      const permit = await signPermit(owner, vetra, {
+        owner: walletAddress,
+        spender: spender.address,
+        value: tokens("200"),
+        deadline: await deadlineIn(3600),
+      });
+
+      await vetra[PERMIT_BYTES](
+        permit.owner,
+        permit.spender,
+        permit.value,
+        permit.deadline,
+        permit.signature
+      );
+
+      expect(await vetra.allowance(walletAddress, spender.address)).to.equal(
+        tokens("200")
+      );
+      expect(await vetra.nonces(walletAddress)).to.equal(1);
+
+      await vetra
+        .connect(spender)
+        .transferFrom(walletAddress, spender.address, tokens("200"));
+      expect(await vetra.balanceOf(walletAddress)).to.equal(tokens("300"));
+    });
+
+    it("Should accept the v/r/s form for a contract wallet", async function () {
+      const walletAddress = await wallet.getAddress();
+      const permit = await signPermit(owner, vetra, {
+        owner: walletAddress,
+        spender: spender.address,
+        value: tokens("200"),
+        deadline: await deadlineIn(3600),
+      });
+
+      await vetra[PERMIT_VRS](
+        permit.owner,
+        permit.spender,
+        permit.value,
+        permit.deadline,
+        permit.v,
+        permit.r,
+        permit.s
+      );
+
+      expect(await vetra.allowance(walletAddress, spender.address)).to.equal(
+        tokens("200")
+      );
+    });
+
+    it("Should NOT accept a signature the wallet rejects", async function () {
+      const walletAddress = await wallet.getAddress();
+      const permit = await signPermit(attacker, vetra, {
+        owner: walletAddress,
+        spender: attacker.address,
+        value: tokens("500"),
+        deadline: await deadlineIn(3600),
+      });
+
+      await expect(
+        vetra[PERMIT_BYTES](
+          permit.owner,
+          permit.spender,
+          permit.value,
+          permit.deadline,
+          permit.signature
+        )
+      )
+        .to.be.revertedWithCustomError(vetra, "InvalidPermitSignature")
+        .withArgs(walletAddress);
+    });
+  });
+});
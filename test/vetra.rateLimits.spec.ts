@@ -0,0 +1,229 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { Vetra, MockFunctionsRouter } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { getVetraFactory, setReserve } from "./helpers";
+
+describe("Vetra - Mint Rate Limits", function () {
+  let vetra: Vetra;
+  let admin: SignerWithAddress;
+  let minter: SignerWithAddress;
+  let burner: SignerWithAddress;
+  let minter2: SignerWithAddress;
+  let user: SignerWithAddress;
+  let functionsRouter: MockFunctionsRouter;
+
+  const RESERVE_TTL = 7 * 24 * 3600; // Long TTL so time jumps keep the reserve fresh
+  const DON_ID = ethers.encodeBytes32String("fun-polygon-amoy-1");
+  const SUBSCRIPTION_ID = 1;
+  const GAS_LIMIT = 300000;
+
+  const WINDOW = 24 * 3600;
+  const MAX_UINT256 = 2n ** 256n - 1n;
+  const tokens = (amount: string) => ethers.parseEther(amount);
+
+  // Moves the next block to `offset` seconds into a fresh window
+  async function startOfNextWindow(offset = 0): Promise<number> {
+    const latest = (await ethers.provider.getBlock("latest"))!.timestamp;
+    const start = latest - (latest % WINDOW) + WINDOW;
+    await ethers.provider.send("evm_setNextBlockTimestamp", [start + offset]);
+    return start;
+  }
+
+  async function setNextTimestamp(timestamp: number) {
+    await ethers.provider.send("evm_setNextBlockTimestamp", [timestamp]);
+    await ethers.provider.send("evm_mine", []);
+  }
+
+  beforeEach(async function () {
+    [admin, minter, burner, minter2, user] = await ethers.getSigners();
+
+    const RouterFactory = await ethers.getContractFactory("MockFunctionsRouter");
+    functionsRouter =
+      (await RouterFactory.deploy()) as unknown as MockFunctionsRouter;
+    await functionsRouter.waitForDeployment();
+
+    const VetraFactory = await getVetraFactory();
+    vetra = (await upgrades.deployProxy(
+      VetraFactory,
+      [
+        admin.address,
+        minter.address,
+        burner.address,
+        RESERVE_TTL,
+        await functionsRouter.getAddress(),
+        DON_ID,
+        SUBSCRIPTION_ID,
+        GAS_LIMIT,
+      ],
+      {
+        initializer: "initialize",
+        kind: "uups",
+        unsafeAllowLinkedLibraries: true,
+      }
+    )) as unknown as Vetra;
+
+    await vetra.waitForDeployment();
+    await setReserve(vetra, admin, functionsRouter);
+    await vetra
+      .connect(admin)
+      .grantRole(await vetra.MINTER_ROLE(), minter2.address);
+    for (const account of [minter, minter2]) {
+      await vetra
+        .connect(admin)
+        .configureMinter(account.address, ethers.MaxUint256);
+    }
+  });
+
+  describe("Configuration", function () {
+    it("Should start with rate limits disabled", async function () {
+      expect(await vetra.mintRateWindow()).to.equal(0);
+      expect(await vetra.globalMintRateLimit()).to.equal(0);
+      expect(await vetra.minterMintRateLimit()).to.equal(0);
+      expect(await vetra.globalMintRateRemaining()).to.equal(MAX_UINT256);
+      expect(await vetra.minterMintRateRemaining(minter.address)).to.equal(
+        MAX_UINT256
+      );
+    });
+
+    it("Should allow admin to set the window and limits", async function () {
+      await expect(vetra.connect(admin).setMintRateWindow(WINDOW))
+        .to.emit(vetra, "MintRateWindowUpdated")
+        .withArgs(0, WINDOW);
+      await expect(vetra.connect(admin).setGlobalMintRateLimit(tokens("1000")))
+        .to.emit(vetra, "GlobalMintRateLimitUpdated")
+        .withArgs(0, tokens("1000"));
+      await expect(vetra.connect(admin).setMinterMintRateLimit(tokens("400")))
+        .to.emit(vetra, "MinterMintRateLimitUpdated")
+        .withArgs(0, tokens("400"));
+
+      expect(await vetra.globalMintRateRemaining()).to.equal(tokens("1000"));
+      expect(await vetra.minterMintRateRemaining(minter.address)).to.equal(
+        tokens("400")
+      );
+    });
+
+    it("Should NOT allow limits without a window", async function () {
+      await expect(
+        vetra.connect(admin).setGlobalMintRateLimit(tokens("1000"))
+      ).to.be.revertedWithCustomError(vetra, "InvalidConfiguration");
+      await expect(
+        vetra.connect(admin).setMinterMintRateLimit(tokens("1000"))
+      ).to.be.revertedWithCustomError(vetra, "InvalidConfiguration");
+    });
+
+    it("Should NOT allow clearing the window while a limit is set", async function () {
+      await vetra.connect(admin).setMintRateWindow(WINDOW);
+      await vetra.connect(admin).setGlobalMintRateLimit(tokens("1000"));
+
+      await expect(
+        vetra.connect(admin).setMintRateWindow(0)
+      ).to.be.revertedWithCustomError(vetra, "InvalidConfiguration");
+    });
+
+    it("Should NOT allow non-admin to configure rate limits", async function () {
+      await expect(
+        vetra.connect(minter).setMintRateWindow(WINDOW)
+      ).to.be.revertedWithCustomError(vetra, "AccessControlUnauthorizedAccount");
+      await expect(
+        vetra.connect(minter).setGlobalMintRateLimit(0)
+      ).to.be.revertedWithCustomError(vetra, "AccessControlUnauthorizedAccount");
+      await expect(
+        vetra.connect(minter).setMinterMintRateLimit(0)
+      ).to.be.revertedWithCustomError(vetra, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Enforcement", function () {
+    beforeEach(async function () {
+      await vetra.connect(admin).setMintRateWindow(WINDOW);
+    });
+
+    it("Should cap all minters together at the global limit", async function () {
+      await vetra.connect(admin).setGlobalMintRateLimit(tokens("1000"));
+      await startOfNextWindow();
+
+      await vetra.connect(minter).mint(user.address, tokens("600"));
+      await vetra.connect(minter2).mint(user.address, tokens("300"));
+      expect(await vetra.globalMintRateRemaining()).to.equal(tokens("100"));
+
+      await expect(vetra.connect(minter2).mint(user.address, tokens("101")))
+        .to.be.revertedWithCustomError(vetra, "MintRateLimitExceeded")
+        .withArgs(ethers.ZeroAddress, tokens("101"), tokens("100"));
+
+      await vetra.connect(minter2).mint(user.address, tokens("100"));
+      expect(await vetra.globalMintRateRemaining()).to.equal(0);
+    });
+
+    it("Should cap each minter at the per-minter limit", async function () {
+      await vetra.connect(admin).setMinterMintRateLimit(tokens("500"));
+      await startOfNextWindow();
+
+      await vetra.connect(minter).mint(user.address, tokens("500"));
+
+      await expect(vetra.connect(minter).mint(user.address, 1n))
+        .to.be.revertedWithCustomError(vetra, "MintRateLimitExceeded")
+        .withArgs(minter.address, 1n, 0n);
+
+      // Another minter has its own budget
+      await vetra.connect(minter2).mint(user.address, tokens("500"));
+      expect(await vetra.minterMintRateRemaining(minter.address)).to.equal(0);
+      expect(await vetra.minterMintRateRemaining(minter2.address)).to.equal(0);
+      expect(await vetra.minterMintRateRemaining(user.address)).to.equal(
+        tokens("500")
+      );
+    });
+
+    it("Should NOT let a loop of small mints exceed the window", async function () {
+      await vetra.connect(admin).setMinterMintRateLimit(tokens("100"));
+      await startOfNextWindow();
+
+      for (let i = 0; i < 10; i++) {
+        await vetra.connect(minter).mint(user.address, tokens("10"));
+      }
+      await expect(
+        vetra.connect(minter).mint(user.address, tokens("10"))
+      ).to.be.revertedWithCustomError(vetra, "MintRateLimitExceeded");
+    });
+
+    it("Should keep counting the previous window while it overlaps", async function () {
+      await vetra.connect(admin).setGlobalMintRateLimit(tokens("1000"));
+      const start = await startOfNextWindow(WINDOW - 60);
+
+      // Mint the full limit just before the window boundary
+      await vetra.connect(minter).mint(user.address, tokens("1000"));
+
+      // A quarter into the next window, 3/4 of the previous mint still counts
+      await setNextTimestamp(start + WINDOW + WINDOW / 4);
+      expect(await vetra.globalMintRateRemaining()).to.equal(tokens("250"));
+
+      await expect(
+        vetra.connect(minter).mint(user.address, tokens("300"))
+      ).to.be.revertedWithCustomError(vetra, "MintRateLimitExceeded");
+
+      // Two windows later nothing counts any more
+      await setNextTimestamp(start + 3 * WINDOW);
+      expect(await vetra.globalMintRateRemaining()).to.equal(tokens("1000"));
+      await vetra.connect(minter).mint(user.address, tokens("1000"));
+    });
+
+    it("Should count mints made before a limit was enabled", async function () {
+      await startOfNextWindow();
+      await vetra.connect(minter).mint(user.address, tokens("700"));
+
+      await vetra.connect(admin).setGlobalMintRateLimit(tokens("1000"));
+
+      expect(await vetra.globalMintRateRemaining()).to.equal(tokens("300"));
+    });
+
+    it("Should apply alongside the per-transaction limit", async function () {
+      await vetra.connect(admin).setMinterMintRateLimit(tokens("1000"));
+      await vetra.connect(admin).setMintPerTxLimit(tokens("100"));
+
+      await expect(
+        vetra.connect(minter).mint(user.address, tokens("200"))
+      ).to.be.revertedWithCustomError(vetra, "MintLimitExceeded");
+      await vetra.connect(minter).mint(user.address, tokens("100"));
+    });
+  });
+});
@@ -0,0 +1,277 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import {
+  Vetra,
+  VetraRedemptionQueue,
+  MockFunctionsRouter,
+} from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { getVetraFactory, setReserve } from "./helpers";
+
+describe("Vetra - Redemption Queue", function () {
+  let vetra: Vetra;
+  let queue: VetraRedemptionQueue;
+  let admin: SignerWithAddress;
+  let minter: SignerWithAddress;
+  let burner: SignerWithAddress;
+  let user: SignerWithAddress;
+  let user2: SignerWithAddress;
+  let functionsRouter: MockFunctionsRouter;
+
+  const RESERVE_TTL = 900; // 15 minutes
+  const DON_ID = ethers.encodeBytes32String("fun-polygon-amoy-1");
+  const SUBSCRIPTION_ID = 1;
+  const GAS_LIMIT = 300000;
+
+  const PAYOUT_REF = ethers.id("wire:acct-0001");
+  const tokens = (amount: string) => ethers.parseEther(amount);
+
+  async function request(
+    signer: SignerWithAddress,
+    amount: bigint
+  ): Promise<bigint> {
+    await vetra.connect(signer).approve(await queue.getAddress(), amount);
+    const id = await queue.nextRedemptionId();
+    await queue.connect(signer).requestRedemption(amount, PAYOUT_REF);
+    return id;
+  }
+
+  beforeEach(async function () {
+    [admin, minter, burner, user, user2] = await ethers.getSigners();
+
+    const RouterFactory = await ethers.getContractFactory("MockFunctionsRouter");
+    functionsRouter =
+      (await RouterFactory.deploy()) as unknown as MockFunctionsRouter;
+    await functionsRouter.waitForDeployment();
+
+    const VetraFactory = await getVetraFactory();
+    vetra = (await upgrades.deployProxy(
+      VetraFactory,
+      [
+        admin.address,
+        minter.address,
+        burner.address,
+        RESERVE_TTL,
+        await functionsRouter.getAddress(),
+        DON_ID,
+        SUBSCRIPTION_ID,
+        GAS_LIMIT,
+      ],
+      {
+        initializer: "initialize",
+        kind: "uups",
+        unsafeAllowLinkedLibraries: true,
+      }
+    )) as unknown as Vetra;
+
+    await vetra.waitForDeployment();
+    await vetra
+      .connect(admin)
+      .configureMinter(minter.address, ethers.MaxUint256);
+    await setReserve(vetra, admin, functionsRouter);
+    await vetra.connect(minter).mint(user.address, tokens("1000"));
+    await vetra.connect(minter).mint(user2.address, tokens("500"));
+
+    const QueueFactory = await ethers.getContractFactory("VetraRedemptionQueue");
+    queue = (await QueueFactory.deploy(
+      await vetra.getAddress()
+    )) as unknown as VetraRedemptionQueue;
+    await queue.waitForDeployment();
+  });
+
+  describe("Requesting", function () {
+    it("Should escrow tokens and assign sequential IDs", async function () {
+      await vetra.connect(user).approve(await queue.getAddress(), tokens("300"));
+
+      await expect(
+        queue.connect(user).requestRedemption(tokens("300"), PAYOUT_REF)
+      )
+        .to.emit(queue, "RedemptionRequested")
+        .withArgs(1, user.address, tokens("300"), PAYOUT_REF);
+
+      expect(await vetra.balanceOf(user.address)).to.equal(tokens("700"));
+      expect(await vetra.balanceOf(await queue.getAddress())).to.equal(
+        tokens("300")
+      );
+      expect(await queue.totalEscrowed()).to.equal(tokens("300"));
+
+      const redemption = await queue.redemptions(1);
+      expect(redemption.account).to.equal(user.address);
+      expect(redemption.amount).to.equal(tokens("300"));
+      expect(redemption.payoutRef).to.equal(PAYOUT_REF);
+      expect(redemption.status).to.equal(1); // Pending
+
+      expect(await request(user2, tokens("100"))).to.equal(2);
+    });
+
+    it("Should NOT accept zero amounts or empty payout refs", async function () {
+      await expect(
+        queue.connect(user).requestRedemption(0, PAYOUT_REF)
+      ).to.be.revertedWithCustomError(queue, "InvalidAmount");
+      await expect(
+        queue.connect(user).requestRedemption(tokens("1"), ethers.ZeroHash)
+      ).to.be.revertedWithCustomError(queue, "InvalidPayoutRef");
+    });
+
+    it("Should NOT escrow without an allowance", async function () {
+      await expect(
+        queue.connect(user).requestRedemption(tokens("1"), PAYOUT_REF)
+      ).to.be.revertedWithCustomError(vetra, "ERC20InsufficientAllowance");
+    });
+
+    it("Should list pending requests", async function () {
+      await request(user, tokens("100"));
+      await request(user2, tokens("200"));
+      await request(user, tokens("300"));
+
+      expect(await queue.pendingRedemptionCount()).to.equal(3);
+      expect(await queue.getPendingRedemptionIds(0, 10)).to.deep.equal([
+        1n,
+        2n,
+        3n,
+      ]);
+      expect(await queue.getPendingRedemptionIds(1, 1)).to.deep.equal([2n]);
+      expect(
+        await queue.getPendingRedemptionIds(1, ethers.MaxUint256)
+      ).to.deep.equal([2n, 3n]);
+      expect(await queue.getPendingRedemptionIds(5, 10)).to.deep.equal([]);
+    });
+  });
+
+  describe("Settling", function () {
+    it("Should burn the escrow and reduce totalSupply", async function () {
+      const id = await request(user, tokens("300"));
+
+      await expect(queue.connect(burner).settleRedemption(id))
+        .to.emit(queue, "RedemptionSettled")
+        .withArgs(id, user.address, tokens("300"), PAYOUT_REF, burner.address)
+        .and.to.emit(vetra, "TokensBurned");
+
+      expect(await vetra.totalSupply()).to.equal(tokens("1200"));
+      expect(await vetra.balanceOf(await queue.getAddress())).to.equal(0);
+      expect(await queue.totalEscrowed()).to.equal(0);
+      expect((await queue.redemptions(id)).status).to.equal(2); // Settled
+      expect(await queue.pendingRedemptionCount()).to.equal(0);
+    });
+
+    it("Should settle a batch and keep the rest pending", async function () {
+      await request(user, tokens("100"));
+      await request(user2, tokens("200"));
+      await request(user, tokens("300"));
+
+      await queue.connect(burner).settleRedemptions([1, 3]);
+
+      expect(await vetra.totalSupply()).to.equal(tokens("1100"));
+      expect(await queue.getPendingRedemptionIds(0, 10)).to.deep.equal([2n]);
+      expect(await queue.totalEscrowed()).to.equal(tokens("200"));
+    });
+
+    it("Should NOT settle twice", async function () {
+      const id = await request(user, tokens("100"));
+      await queue.connect(burner).settleRedemption(id);
+
+      await expect(queue.connect(burner).settleRedemption(id))
+        .to.be.revertedWithCustomError(queue, "RedemptionNotPending")
+        .withArgs(id);
+      await expect(
+        queue.connect(burner).settleRedemption(99)
+      ).to.be.revertedWithCustomError(queue, "RedemptionNotPending");
+    });
+
+    it("Should NOT settle for an account blocked after requesting", async function () {
+      const id = await request(user, tokens("100"));
+      await vetra.connect(admin).setBlocklistAddress(user.address, true);
+
+      await expect(queue.connect(burner).settleRedemption(id))
+        .to.be.revertedWithCustomError(queue, "AccountBlocked")
+        .withArgs(user.address);
+    });
+
+    it("Should NOT allow non-burners to settle or reject", async function () {
+      const id = await request(user, tokens("100"));
+      const BURNER_ROLE = await vetra.BURNER_ROLE();
+
+      for (const signer of [admin, minter, user]) {
+        await expect(queue.connect(signer).settleRedemption(id))
+          .to.be.revertedWithCustomError(
+            queue,
+            "AccessControlUnauthorizedAccount"
+          )
+          .withArgs(signer.address, BURNER_ROLE);
+        await expect(
+          queue.connect(signer).rejectRedemption(id)
+        ).to.be.revertedWithCustomError(
+          queue,
+          "AccessControlUnauthorizedAccount"
+        );
+      }
+    });
+  });
+
+  describe("Rejecting", function () {
+    it("Should return the escrow to the account", async function () {
+      const id = await request(user, tokens("300"));
+
+      await expect(queue.connect(burner).rejectRedemption(id))
+        .to.emit(queue, "RedemptionRejected")
+        .withArgs(id, user.address, tokens("300"), burner.address);
+
+      expect(await vetra.balanceOf(user.address)).to.equal(tokens("1000"));
+      expect(await vetra.totalSupply()).to.equal(tokens("1500"));
+      expect((await queue.redemptions(id)).status).to.equal(3); // Rejected
+      expect(await queue.pendingRedemptionCount()).to.equal(0);
+
+      await expect(
+        queue.connect(burner).settleRedemption(id)
+      ).to.be.revertedWithCustomError(queue, "RedemptionNotPending");
+    });
+  });
+
+  describe("Wiping", function () {
+    it("Should burn the escrow of a blocked account", async function () {
+      const id = await request(user, tokens("300"));
+      await request(user2, tokens("50"));
+      await vetra.connect(admin).setBlocklistAddress(user.address, true);
+
+      // Neither paid out nor returned while blocked
+      await expect(
+        queue.connect(burner).rejectRedemption(id)
+      ).to.be.revertedWithCustomError(vetra, "AccountBlocked");
+
+      await expect(queue.connect(admin).wipeBlockedRedemption(id))
+        .to.emit(queue, "RedemptionWiped")
+        .withArgs(id, user.address, tokens("300"), admin.address);
+
+      expect(await queue.totalEscrowed()).to.equal(tokens("50"));
+      expect(await vetra.balanceOf(await queue.getAddress())).to.equal(
+        tokens("50")
+      );
+      expect(await vetra.totalSupply()).to.equal(tokens("1200"));
+      expect((await queue.redemptions(id)).status).to.equal(4); // Wiped
+      expect(await queue.pendingRedemptionCount()).to.equal(1);
+    });
+
+    it("Should NOT wipe the escrow of an account that is not blocked", async function () {
+      const id = await request(user, tokens("100"));
+
+      await expect(queue.connect(admin).wipeBlockedRedemption(id))
+        .to.be.revertedWithCustomError(queue, "AccountNotBlocked")
+        .withArgs(user.address);
+    });
+
+    it("Should NOT allow non-compliance accounts to wipe", async function () {
+      const id = await request(user, tokens("100"));
+      await vetra.connect(admin).setBlocklistAddress(user.address, true);
+      const COMPLIANCE_ROLE = await vetra.COMPLIANCE_ROLE();
+
+      for (const signer of [burner, minter, user2]) {
+        await expect(queue.connect(signer).wipeBlockedRedemption(id))
+          .to.be.revertedWithCustomError(
+            queue,
+            "AccessControlUnauthorizedAccount"
+          )
+          .withArgs(signer.address, COMPLIANCE_ROLE);
+      }
+    });
+  });
+});
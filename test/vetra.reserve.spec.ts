@@ -1,7 +1,8 @@
 import { expect } from "chai";
 import { ethers, upgrades } from "hardhat";
-import { Vetra } from "../typechain-types";
+import { Vetra, MockFunctionsRouter } from "../typechain-types";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { getVetraFactory } from "./helpers";
 
 describe("Vetra - Reserve Management & TTL", function () {
   let vetra: Vetra;
@@ -9,17 +10,62 @@ describe("Vetra - Reserve Management & TTL", function () {
   let minter: SignerWithAddress;
   let burner: SignerWithAddress;
   let user: SignerWithAddress;
-  let functionsRouter: SignerWithAddress;
+  let functionsRouter: MockFunctionsRouter;
 
   const RESERVE_TTL = 900; // 15 minutes
   const DON_ID = ethers.encodeBytes32String("fun-polygon-amoy-1");
   const SUBSCRIPTION_ID = 1;
   const GAS_LIMIT = 300000;
+  const SOURCE_CODE = "return Functions.encodeUint256(100);";
+
+  async function approveSource(sourceCode: string, version = 1) {
+    await vetra
+      .connect(admin)
+      .setApprovedSource(ethers.id(sourceCode), version, "");
+  }
+
+  async function requestUpdate(): Promise<string> {
+    const tx = await vetra
+      .connect(admin)
+      .requestReserveUpdate(SOURCE_CODE, []);
+    const receipt = await tx.wait();
+    for (const log of receipt?.logs ?? []) {
+      try {
+        const parsed = vetra.interface.parseLog(log);
+        if (parsed?.name === "ReserveUpdateRequested") return parsed.args[0];
+      } catch {
+        // Router logs
+      }
+    }
+    throw new Error("ReserveUpdateRequested not emitted");
+  }
+
+  // Call the callback directly as the router
+  async function impersonateRouter(): Promise<SignerWithAddress> {
+    const routerAddress = await functionsRouter.getAddress();
+    await ethers.provider.send("hardhat_impersonateAccount", [routerAddress]);
+    await ethers.provider.send("hardhat_setBalance", [
+      routerAddress,
+      "0xde0b6b3a7640000",
+    ]);
+    return ethers.getSigner(routerAddress);
+  }
+
+  async function stopImpersonatingRouter() {
+    await ethers.provider.send("hardhat_stopImpersonatingAccount", [
+      await functionsRouter.getAddress(),
+    ]);
+  }
 
   beforeEach(async function () {
-    [admin, minter, burner, user, functionsRouter] = await ethers.getSigners();
+    [admin, minter, burner, user] = await ethers.getSigners();
 
-    const VetraFactory = await ethers.getContractFactory("Vetra");
+    const RouterFactory = await ethers.getContractFactory("MockFunctionsRouter");
+    functionsRouter =
+      (await RouterFactory.deploy()) as unknown as MockFunctionsRouter;
+    await functionsRouter.waitForDeployment();
+
+    const VetraFactory = await getVetraFactory();
     vetra = (await upgrades.deployProxy(
       VetraFactory,
       [
@@ -27,7 +73,7 @@ describe("Vetra - Reserve Management & TTL", function () {
         minter.address,
         burner.address,
         RESERVE_TTL,
-        functionsRouter.address,
+        await functionsRouter.getAddress(),
         DON_ID,
         SUBSCRIPTION_ID,
         GAS_LIMIT,
@@ -35,56 +81,114 @@ describe("Vetra - Reserve Management & TTL", function () {
       {
         initializer: "initialize",
         kind: "uups",
+        unsafeAllowLinkedLibraries: true,
       }
     )) as unknown as Vetra;
 
     await vetra.waitForDeployment();
+    await vetra
+      .connect(admin)
+      .configureMinter(minter.address, ethers.MaxUint256);
   });
 
-  /**
-   * Helper function to simulate Chainlink Functions fulfillment
-   * Since we can't easily call the internal fulfillRequest, we'll need to
-   * test the public interface and state checks
-   */
-  async function simulateReserveFulfillment(
-    usdAmount: bigint,
-    nonce: number
-  ): Promise<void> {
-    // To properly test this, we'd need to either:
-    // 1. Deploy a mock FunctionsRouter that can call fulfillRequest
-    // 2. Use a test contract that exposes the internal function
-    // For now, we'll document this limitation and test what we can
-    // In a real deployment, this would be tested via integration tests
-  }
-
   describe("Reserve Update Request", function () {
+    beforeEach(async function () {
+      await approveSource(SOURCE_CODE);
+    });
+
     it("Should allow admin to request reserve update", async function () {
-      const sourceCode = `
-        const apiUrl = args[0];
-        const response = await Functions.makeHttpRequest({ url: apiUrl });
-        const usd = response.data.balance * 100000000; // Convert to 8 decimals
-        const nonce = Date.now();
-        return Functions.encodeUint256(usd) + Functions.encodeUint256(nonce);
-      `;
       const args = [
         "https://my.ftassetmanagement.com/api/bcl.asp?KeyCodeGUID=xxx",
       ];
 
-      await expect(vetra.connect(admin).requestReserveUpdate(sourceCode, args))
+      await expect(vetra.connect(admin).requestReserveUpdate(SOURCE_CODE, args))
         .to.emit(vetra, "ReserveUpdateRequested");
     });
 
-    it("Should store source code after request", async function () {
-      const sourceCode = "return Functions.encodeUint256(100);";
-      await vetra.connect(admin).requestReserveUpdate(sourceCode, []);
+    it("Should NOT allow non-admin to request update", async function () {
+      await expect(vetra.connect(user).requestReserveUpdate(SOURCE_CODE, [])).to
+        .be.reverted;
+    });
+  });
 
-      expect(await vetra.sourceCode()).to.equal(sourceCode);
+  describe("Approved Source", function () {
+    it("Should reject requests before any source is approved", async function () {
+      expect(await vetra.approvedSourceHash()).to.equal(ethers.ZeroHash);
+
+      await expect(vetra.connect(admin).requestReserveUpdate(SOURCE_CODE, []))
+        .to.be.revertedWithCustomError(vetra, "SourceNotApproved")
+        .withArgs(ethers.id(SOURCE_CODE));
     });
 
-    it("Should NOT allow non-admin to request update", async function () {
-      const sourceCode = "return Functions.encodeUint256(100);";
-      await expect(vetra.connect(user).requestReserveUpdate(sourceCode, [])).to
-        .be.reverted;
+    it("Should allow admin to approve a source hash and version", async function () {
+      const hash = ethers.id(SOURCE_CODE);
+
+      await expect(
+        vetra
+          .connect(admin)
+          .setApprovedSource(hash, 1, "ipfs://reserve.v1.js")
+      )
+        .to.emit(vetra, "ApprovedSourceUpdated")
+        .withArgs(hash, 1, "ipfs://reserve.v1.js");
+
+      expect(await vetra.approvedSourceHash()).to.equal(hash);
+      expect(await vetra.approvedSourceVersion()).to.equal(1);
+    });
+
+    it("Should reject a source that does not match the approved hash", async function () {
+      await approveSource(SOURCE_CODE);
+      const tampered = SOURCE_CODE + " ";
+
+      await expect(vetra.connect(admin).requestReserveUpdate(tampered, []))
+        .to.be.revertedWithCustomError(vetra, "SourceNotApproved")
+        .withArgs(ethers.id(tampered));
+    });
+
+    it("Should only accept the latest approved source", async function () {
+      const v2 = "return Functions.encodeUint256(200);";
+      await approveSource(SOURCE_CODE, 1);
+      await approveSource(v2, 2);
+
+      await expect(
+        vetra.connect(admin).requestReserveUpdate(SOURCE_CODE, [])
+      ).to.be.revertedWithCustomError(vetra, "SourceNotApproved");
+      await expect(vetra.connect(admin).requestReserveUpdate(v2, [])).to.emit(
+        vetra,
+        "ReserveUpdateRequested"
+      );
+      expect(await vetra.approvedSourceVersion()).to.equal(2);
+    });
+
+    it("Should NOT store the source code on request", async function () {
+      await approveSource(SOURCE_CODE);
+      const before = await ethers.provider.getStorage(
+        await vetra.getAddress(),
+        7
+      );
+
+      await vetra.connect(admin).requestReserveUpdate(SOURCE_CODE, []);
+
+      expect(
+        await ethers.provider.getStorage(await vetra.getAddress(), 7)
+      ).to.equal(before);
+    });
+
+    it("Should NOT allow a zero hash or version", async function () {
+      await expect(
+        vetra.connect(admin).setApprovedSource(ethers.ZeroHash, 1, "")
+      ).to.be.revertedWithCustomError(vetra, "InvalidConfiguration");
+      await expect(
+        vetra.connect(admin).setApprovedSource(ethers.id(SOURCE_CODE), 0, "")
+      ).to.be.revertedWithCustomError(vetra, "InvalidConfiguration");
+    });
+
+    it("Should NOT allow non-admin to approve a source", async function () {
+      await expect(
+        vetra.connect(user).setApprovedSource(ethers.id(SOURCE_CODE), 1, "")
+      ).to.be.revertedWithCustomError(
+        vetra,
+        "AccessControlUnauthorizedAccount"
+      );
     });
   });
 
@@ -236,10 +340,10 @@ describe("Vetra - Reserve Management & TTL", function () {
 
   describe("Request Metadata Storage", function () {
     it("Should store request metadata on reserve update request", async function () {
-      const sourceCode = "return Functions.encodeUint256(100);";
+      await approveSource(SOURCE_CODE);
       const tx = await vetra
         .connect(admin)
-        .requestReserveUpdate(sourceCode, []);
+        .requestReserveUpdate(SOURCE_CODE, []);
       const receipt = await tx.wait();
 
       // Extract requestId from event
@@ -262,4 +366,274 @@ describe("Vetra - Reserve Management & TTL", function () {
       }
     });
   });
+
+  describe("Oracle Fulfillment Validation", function () {
+    let routerSigner: SignerWithAddress;
+
+    beforeEach(async function () {
+      await approveSource(SOURCE_CODE);
+      routerSigner = await impersonateRouter();
+    });
+
+    afterEach(async function () {
+      await stopImpersonatingRouter();
+    });
+
+    it("Should NOT accept fulfillment from non-router", async function () {
+      const requestId = await requestUpdate();
+
+      await expect(
+        vetra.connect(user).handleOracleFulfillment(requestId, "0x", "0x")
+      ).to.be.revertedWithCustomError(vetra, "InvalidAddress");
+    });
+
+    it("Should reject unknown request IDs", async function () {
+      const unknownId = ethers.id("not-a-request");
+
+      await expect(
+        vetra
+          .connect(routerSigner)
+          .handleOracleFulfillment(unknownId, "0x", "0x")
+      )
+        .to.be.revertedWithCustomError(vetra, "UnknownRequest")
+        .withArgs(unknownId);
+
+      const request = await vetra.requests(unknownId);
+      expect(request.fulfilled).to.be.false;
+    });
+
+    it("Should reject duplicate fulfillments", async function () {
+      const requestId = await requestUpdate();
+      const response = ethers.AbiCoder.defaultAbiCoder().encode(
+        ["uint256", "uint256"],
+        [100000000n, 1n]
+      );
+
+      await vetra
+        .connect(routerSigner)
+        .handleOracleFulfillment(requestId, response, "0x");
+
+      await expect(
+        vetra
+          .connect(routerSigner)
+          .handleOracleFulfillment(requestId, response, "0x")
+      )
+        .to.be.revertedWithCustomError(vetra, "RequestAlreadyFulfilled")
+        .withArgs(requestId);
+    });
+
+    it("Should record DON errors and emit ReserveUpdateFailed", async function () {
+      const requestId = await requestUpdate();
+      const err = ethers.toUtf8Bytes("API request failed");
+
+      await expect(
+        vetra.connect(routerSigner).handleOracleFulfillment(requestId, "0x", err)
+      )
+        .to.emit(vetra, "ReserveUpdateFailed")
+        .withArgs(requestId, ethers.hexlify(err));
+
+      const request = await vetra.requests(requestId);
+      expect(request.fulfilled).to.be.true;
+      expect(request.failureReason).to.equal(ethers.hexlify(err));
+      expect(await vetra.lastReserveUsd()).to.equal(0);
+    });
+
+    it("Should record undecodable responses instead of reverting", async function () {
+      const requestId = await requestUpdate();
+      const reason = ethers.hexlify(ethers.toUtf8Bytes("Invalid response length"));
+
+      await expect(
+        vetra
+          .connect(routerSigner)
+          .handleOracleFulfillment(requestId, "0x1234", "0x")
+      )
+        .to.emit(vetra, "ReserveUpdateFailed")
+        .withArgs(requestId, reason);
+
+      const request = await vetra.requests(requestId);
+      expect(request.fulfilled).to.be.true;
+      expect(request.failureReason).to.equal(reason);
+      expect(await vetra.lastReserveTimestamp()).to.equal(0);
+    });
+
+    it("Should leave the failure reason empty on success", async function () {
+      const requestId = await requestUpdate();
+      const response = ethers.AbiCoder.defaultAbiCoder().encode(
+        ["uint256", "uint256"],
+        [100000000n, 1n]
+      );
+
+      await expect(
+        vetra
+          .connect(routerSigner)
+          .handleOracleFulfillment(requestId, response, "0x")
+      ).to.emit(vetra, "ReserveUpdated");
+
+      const request = await vetra.requests(requestId);
+      expect(request.fulfilled).to.be.true;
+      expect(request.failureReason).to.equal("0x");
+    });
+  });
+
+  describe("Reserve Deviation Circuit Breaker", function () {
+    let routerSigner: SignerWithAddress;
+    let nonce: bigint;
+
+    const MAX_DEVIATION_BPS = 1000; // 10%
+    const BASE_RESERVE_USD = 1000n * 10n ** 8n; // $1,000
+
+    async function fulfillReserve(usdAmount: bigint) {
+      const requestId = await requestUpdate();
+      const response = ethers.AbiCoder.defaultAbiCoder().encode(
+        ["uint256", "uint256"],
+        [usdAmount, ++nonce]
+      );
+      const tx = vetra
+        .connect(routerSigner)
+        .handleOracleFulfillment(requestId, response, "0x");
+      return { requestId, tx };
+    }
+
+    beforeEach(async function () {
+      await approveSource(SOURCE_CODE);
+      routerSigner = await impersonateRouter();
+      nonce = 0n;
+
+      await vetra.connect(admin).setMaxReserveDeviationBps(MAX_DEVIATION_BPS);
+      await (await fulfillReserve(BASE_RESERVE_USD)).tx;
+    });
+
+    afterEach(async function () {
+      await stopImpersonatingRouter();
+    });
+
+    it("Should apply updates within the limit", async function () {
+      const { tx } = await fulfillReserve(1100n * 10n ** 8n);
+
+      await expect(tx).to.emit(vetra, "ReserveUpdated");
+      expect(await vetra.lastReserveUsd()).to.equal(1100n * 10n ** 8n);
+      expect(await vetra.hasQuarantinedReserve()).to.be.false;
+    });
+
+    it("Should quarantine a jump beyond the limit", async function () {
+      const { requestId, tx } = await fulfillReserve(5000n * 10n ** 8n);
+
+      await expect(tx)
+        .to.emit(vetra, "ReserveQuarantined")
+        .withArgs(requestId, 5000n * 10n ** 8n, 2n, BASE_RESERVE_USD, 40000n)
+        .and.not.to.emit(vetra, "ReserveUpdated");
+
+      expect(await vetra.lastReserveUsd()).to.equal(BASE_RESERVE_USD);
+      expect(await vetra.lastReserveNonce()).to.equal(1);
+      expect(await vetra.hasQuarantinedReserve()).to.be.true;
+
+      const quarantined = await vetra.quarantinedReserve();
+      expect(quarantined.requestId).to.equal(requestId);
+      expect(quarantined.usdAmount).to.equal(5000n * 10n ** 8n);
+      expect((await vetra.requests(requestId)).fulfilled).to.be.true;
+    });
+
+    it("Should quarantine a drop to zero", async function () {
+      const { requestId, tx } = await fulfillReserve(0n);
+
+      await expect(tx)
+        .to.emit(vetra, "ReserveQuarantined")
+        .withArgs(requestId, 0n, 2n, BASE_RESERVE_USD, 10000n);
+      expect(await vetra.lastReserveUsd()).to.equal(BASE_RESERVE_USD);
+    });
+
+    it("Should block minting while an update is quarantined", async function () {
+      const { requestId, tx } = await fulfillReserve(5000n * 10n ** 8n);
+      await tx;
+
+      await expect(
+        vetra.connect(minter).mint(user.address, ethers.parseEther("1"))
+      )
+        .to.be.revertedWithCustomError(vetra, "ReserveQuarantineActive")
+        .withArgs(requestId);
+      expect(await vetra.availableMintCapacity()).to.equal(0);
+    });
+
+    it("Should apply the quarantined value when an admin confirms it", async function () {
+      const { requestId, tx } = await fulfillReserve(5000n * 10n ** 8n);
+      await tx;
+      const { timestamp } = await vetra.quarantinedReserve();
+
+      await expect(vetra.connect(admin).confirmQuarantinedReserve())
+        .to.emit(vetra, "QuarantinedReserveResolved")
+        .withArgs(requestId, true, admin.address)
+        .and.to.emit(vetra, "ReserveUpdated")
+        .withArgs(5000n * 10n ** 8n, 2n, timestamp, requestId);
+
+      expect(await vetra.lastReserveUsd()).to.equal(5000n * 10n ** 8n);
+      expect(await vetra.lastReserveNonce()).to.equal(2);
+      expect(await vetra.lastReserveTimestamp()).to.equal(timestamp);
+      expect(await vetra.hasQuarantinedReserve()).to.be.false;
+
+      await vetra.connect(minter).mint(user.address, ethers.parseEther("4000"));
+      expect(await vetra.balanceOf(user.address)).to.equal(
+        ethers.parseEther("4000")
+      );
+    });
+
+    it("Should keep the last reserve when an admin rejects it", async function () {
+      const { requestId, tx } = await fulfillReserve(5000n * 10n ** 8n);
+      await tx;
+
+      await expect(vetra.connect(admin).rejectQuarantinedReserve())
+        .to.emit(vetra, "QuarantinedReserveResolved")
+        .withArgs(requestId, false, admin.address);
+
+      expect(await vetra.lastReserveUsd()).to.equal(BASE_RESERVE_USD);
+      expect(await vetra.lastReserveNonce()).to.equal(1);
+      expect(await vetra.hasQuarantinedReserve()).to.be.false;
+
+      await vetra.connect(minter).mint(user.address, ethers.parseEther("1000"));
+      await expect(
+        vetra.connect(minter).mint(user.address, 1n)
+      ).to.be.revertedWithCustomError(vetra, "ReserveInsufficient");
+    });
+
+    it("Should NOT confirm a quarantined value older than the applied reserve", async function () {
+      await (await fulfillReserve(5000n * 10n ** 8n)).tx;
+      await (await fulfillReserve(1050n * 10n ** 8n)).tx;
+
+      await expect(
+        vetra.connect(admin).confirmQuarantinedReserve()
+      ).to.be.revertedWithCustomError(vetra, "NonceNotMonotonic");
+    });
+
+    it("Should revert resolving when nothing is quarantined", async function () {
+      await expect(
+        vetra.connect(admin).confirmQuarantinedReserve()
+      ).to.be.revertedWithCustomError(vetra, "NoQuarantinedReserve");
+      await expect(
+        vetra.connect(admin).rejectQuarantinedReserve()
+      ).to.be.revertedWithCustomError(vetra, "NoQuarantinedReserve");
+    });
+
+    it("Should NOT allow non-admin to resolve or configure", async function () {
+      await (await fulfillReserve(5000n * 10n ** 8n)).tx;
+
+      await expect(
+        vetra.connect(user).confirmQuarantinedReserve()
+      ).to.be.revertedWithCustomError(vetra, "AccessControlUnauthorizedAccount");
+      await expect(
+        vetra.connect(user).rejectQuarantinedReserve()
+      ).to.be.revertedWithCustomError(vetra, "AccessControlUnauthorizedAccount");
+      await expect(
+        vetra.connect(user).setMaxReserveDeviationBps(0)
+      ).to.be.revertedWithCustomError(vetra, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should apply any change when the breaker is disabled", async function () {
+      await expect(vetra.connect(admin).setMaxReserveDeviationBps(0))
+        .to.emit(vetra, "MaxReserveDeviationUpdated")
+        .withArgs(MAX_DEVIATION_BPS, 0);
+
+      const { tx } = await fulfillReserve(0n);
+      await expect(tx).to.emit(vetra, "ReserveUpdated");
+      expect(await vetra.lastReserveUsd()).to.equal(0);
+    });
+  });
 });
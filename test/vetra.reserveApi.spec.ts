@@ -0,0 +1,215 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { Vetra, MockFunctionsRouter } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { FunctionsSimulator } from "../scripts/lib/functionsSimulator";
+import { ReserveApiServer, SCENARIO_PATH } from "../scripts/lib/reserveApiServer";
+import {
+  RESERVE_SOURCE_CODE,
+  buildReserveArgs,
+  loadReserveSource,
+} from "../scripts/lib/reserveSource";
+import { getVetraFactory } from "./helpers";
+
+describe("Vetra - Local Reserve API Scenarios", function () {
+  let vetra: Vetra;
+  let router: MockFunctionsRouter;
+  let simulator: FunctionsSimulator;
+  let server: ReserveApiServer;
+  let apiUrl: string;
+  let admin: SignerWithAddress;
+  let minter: SignerWithAddress;
+  let burner: SignerWithAddress;
+
+  const RESERVE_TTL = 900; // 15 minutes
+  const DON_ID = ethers.encodeBytes32String("fun-polygon-amoy-1");
+  const SUBSCRIPTION_ID = 1;
+  const GAS_LIMIT = 300000;
+
+  async function requestAndFulfill() {
+    const tx = await vetra
+      .connect(admin)
+      .requestReserveUpdate(
+        RESERVE_SOURCE_CODE,
+        buildReserveArgs(apiUrl + "api/bcl.asp?KeyCodeGUID=test")
+      );
+    const [result] = await simulator.fulfillFromReceipt(await tx.wait());
+    return result;
+  }
+
+  before(async function () {
+    server = new ReserveApiServer();
+    apiUrl = await server.start();
+  });
+
+  after(async function () {
+    await server.stop();
+  });
+
+  beforeEach(async function () {
+    [admin, minter, burner] = await ethers.getSigners();
+
+    const RouterFactory = await ethers.getContractFactory("MockFunctionsRouter");
+    router = (await RouterFactory.deploy()) as unknown as MockFunctionsRouter;
+    await router.waitForDeployment();
+
+    const VetraFactory = await getVetraFactory();
+    vetra = (await upgrades.deployProxy(
+      VetraFactory,
+      [
+        admin.address,
+        minter.address,
+        burner.address,
+        RESERVE_TTL,
+        await router.getAddress(),
+        DON_ID,
+        SUBSCRIPTION_ID,
+        GAS_LIMIT,
+      ],
+      {
+        initializer: "initialize",
+        kind: "uups",
+        unsafeAllowLinkedLibraries: true,
+      }
+    )) as unknown as Vetra;
+
+    await vetra.waitForDeployment();
+
+    const source = loadReserveSource();
+    await vetra
+      .connect(admin)
+      .setApprovedSource(source.hash, source.version, "");
+
+    // Real HTTP through fetch; short timeout cap keeps the slow scenario quick
+    simulator = new FunctionsSimulator(router, { maxHttpTimeoutMs: 200 });
+  });
+
+  describe("Balance Scenarios", function () {
+    it("Should serve a fixed balance", async function () {
+      server.setScenario({ kind: "fixed", balance: "1234.56" });
+
+      const result = await requestAndFulfill();
+
+      expect(result.errorMessage).to.be.undefined;
+      expect(await vetra.lastReserveUsd()).to.equal(123456000000n);
+      expect(server.requestCount).to.equal(1);
+    });
+
+    it("Should ramp the balance on each request", async function () {
+      server.setScenario({ kind: "ramp", start: "1000.00", step: "250.50" });
+
+      await requestAndFulfill();
+      expect(await vetra.lastReserveUsd()).to.equal(100000000000n);
+
+      await requestAndFulfill();
+      expect(await vetra.lastReserveUsd()).to.equal(125050000000n);
+
+      await requestAndFulfill();
+      expect(await vetra.lastReserveUsd()).to.equal(150100000000n);
+    });
+
+    it("Should play a scenario script in order and repeat the last entry", async function () {
+      server.setScenario([
+        { kind: "fixed", balance: "500.00" },
+        { kind: "serverError" },
+      ]);
+
+      expect((await requestAndFulfill()).errorMessage).to.be.undefined;
+      expect((await requestAndFulfill()).errorMessage).to.contain(
+        "API request failed"
+      );
+      expect((await requestAndFulfill()).errorMessage).to.contain(
+        "API request failed"
+      );
+      expect(await vetra.lastReserveUsd()).to.equal(50000000000n);
+    });
+  });
+
+  describe("Error Scenarios", function () {
+    it("Should fail on a malformed payload", async function () {
+      server.setScenario({ kind: "malformed" });
+
+      const result = await requestAndFulfill();
+
+      expect(result.errorMessage).to.equal(
+        "Invalid API response: expected object"
+      );
+      expect(await vetra.lastReserveUsd()).to.equal(0);
+    });
+
+    it("Should fail when StatementSummary is missing", async function () {
+      server.setScenario({ kind: "missingSummary" });
+
+      const result = await requestAndFulfill();
+
+      expect(result.errorMessage).to.equal(
+        "Invalid API response: missing StatementSummary"
+      );
+    });
+
+    it("Should fail on a negative balance", async function () {
+      server.setScenario({ kind: "negative", balance: "-42.00" });
+
+      const result = await requestAndFulfill();
+
+      expect(result.errorMessage).to.equal("Invalid balance value: -42.00");
+    });
+
+    it("Should fail when the API responds too slowly", async function () {
+      server.setScenario({ kind: "slow", balance: "1000.00", delayMs: 1000 });
+
+      const result = await requestAndFulfill();
+
+      expect(result.errorMessage).to.contain("API request failed");
+      expect(await vetra.lastReserveUsd()).to.equal(0);
+    });
+
+    it("Should succeed when a slow response is within the timeout", async function () {
+      server.setScenario({ kind: "slow", balance: "1000.00", delayMs: 50 });
+
+      const result = await requestAndFulfill();
+
+      expect(result.errorMessage).to.be.undefined;
+      expect(await vetra.lastReserveUsd()).to.equal(100000000000n);
+    });
+
+    it("Should fail on HTTP 500", async function () {
+      server.setScenario({ kind: "serverError" });
+
+      const result = await requestAndFulfill();
+
+      expect(result.errorMessage).to.contain("API request failed");
+      expect((await vetra.requests(result.requestId)).fulfilled).to.be.true;
+    });
+  });
+
+  describe("Scenario Control Endpoint", function () {
+    it("Should switch scenario over HTTP", async function () {
+      const res = await fetch(new URL(SCENARIO_PATH, apiUrl), {
+        method: "PUT",
+        body: JSON.stringify({ kind: "fixed", balance: "77.00" }),
+      });
+      expect(res.status).to.equal(200);
+
+      await requestAndFulfill();
+      expect(await vetra.lastReserveUsd()).to.equal(7700000000n);
+    });
+
+    it("Should reject an unknown scenario", async function () {
+      const res = await fetch(new URL(SCENARIO_PATH, apiUrl), {
+        method: "PUT",
+        body: JSON.stringify({ kind: "bogus" }),
+      });
+      expect(res.status).to.equal(400);
+    });
+
+    it("Should reject invalid scenario parameters", async function () {
+      expect(() =>
+        server.setScenario({ kind: "fixed", balance: "lots" })
+      ).to.throw("Invalid USD amount");
+      expect(() =>
+        server.setScenario({ kind: "negative", balance: "10.00" })
+      ).to.throw("negative scenario requires a negative balance");
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { Vetra } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  VETRA_ROLES,
+  findRoleDrift,
+  getRoleId,
+  loadRoleHolders,
+  withCompanionHolders,
+} from "../scripts/lib/roles";
+import { getVetraFactory } from "./helpers";
+
+describe("Vetra - Role Holder Audit", function () {
+  let vetra: Vetra;
+  let admin: SignerWithAddress;
+  let minter: SignerWithAddress;
+  let burner: SignerWithAddress;
+  let user: SignerWithAddress;
+  let functionsRouter: SignerWithAddress;
+  let deployBlock: number;
+
+  const RESERVE_TTL = 900;
+  const DON_ID = ethers.encodeBytes32String("fun-polygon-amoy-1");
+  const SUBSCRIPTION_ID = 1;
+  const GAS_LIMIT = 300000;
+
+  beforeEach(async function () {
+    [admin, minter, burner, user, functionsRouter] = await ethers.getSigners();
+    deployBlock = await ethers.provider.getBlockNumber();
+
+    const VetraFactory = await getVetraFactory();
+    vetra = (await upgrades.deployProxy(
+      VetraFactory,
+      [
+        admin.address,
+        minter.address,
+        burner.address,
+        RESERVE_TTL,
+        functionsRouter.address,
+        DON_ID,
+        SUBSCRIPTION_ID,
+        GAS_LIMIT,
+      ],
+      {
+        initializer: "initialize",
+        kind: "uups",
+        unsafeAllowLinkedLibraries: true,
+      }
+    )) as unknown as Vetra;
+
+    await vetra.waitForDeployment();
+  });
+
+  function configured() {
+    return {
+      DEFAULT_ADMIN_ROLE: [admin.address],
+      MINTER_ROLE: [minter.address],
+      BURNER_ROLE: [burner.address],
+    };
+  }
+
+  it("Should match the contract's role IDs", async function () {
+    for (const name of VETRA_ROLES) {
+      expect(getRoleId(name), name).to.equal(await vetra.getFunction(name)());
+    }
+  });
+
+  it("Should rebuild holders from the deployment", async function () {
+    const roles = await loadRoleHolders(vetra, deployBlock);
+    const byName = Object.fromEntries(roles.map((r) => [r.name, r.holders]));
+
+    expect(byName.DEFAULT_ADMIN_ROLE).to.deep.equal([admin.address]);
+    expect(byName.MINTER_ROLE).to.deep.equal([minter.address]);
+    expect(byName.BURNER_ROLE).to.deep.equal([burner.address]);
+    expect(byName.PAUSER_ROLE).to.deep.equal([admin.address]);
+    expect(byName.MINT_APPROVER_ROLE).to.deep.equal([]);
+
+    expect(findRoleDrift(roles, configured())).to.deep.equal([]);
+  });
+
+  it("Should flag unexpected and missing holders", async function () {
+    const MINTER_ROLE = await vetra.MINTER_ROLE();
+    const BURNER_ROLE = await vetra.BURNER_ROLE();
+    await vetra.connect(admin).grantRole(MINTER_ROLE, user.address);
+    await vetra.connect(admin).revokeRole(BURNER_ROLE, burner.address);
+
+    // Granted and revoked again: not a holder
+    await vetra.connect(admin).grantRole(BURNER_ROLE, user.address);
+    await vetra.connect(admin).revokeRole(BURNER_ROLE, user.address);
+
+    const roles = await loadRoleHolders(vetra, deployBlock);
+    expect(findRoleDrift(roles, configured())).to.deep.equal([
+      { name: "MINTER_ROLE", account: user.address, kind: "unexpected" },
+      { name: "BURNER_ROLE", account: burner.address, kind: "missing" },
+    ]);
+  });
+
+  it("Should flag unexpected minter-admin, compliance and approver holders", async function () {
+    await vetra
+      .connect(admin)
+      .grantRole(await vetra.COMPLIANCE_ROLE(), user.address);
+    await vetra
+      .connect(admin)
+      .grantRole(await vetra.MINT_APPROVER_ROLE(), user.address);
+
+    const roles = await loadRoleHolders(vetra, deployBlock);
+    expect(
+      findRoleDrift(roles, {
+        MINTER_ADMIN_ROLE: [admin.address],
+        COMPLIANCE_ROLE: [admin.address],
+        // No approvers configured: any holder is unexpected
+        MINT_APPROVER_ROLE: [],
+      })
+    ).to.deep.equal([
+      { name: "COMPLIANCE_ROLE", account: user.address, kind: "unexpected" },
+      { name: "MINT_APPROVER_ROLE", account: user.address, kind: "unexpected" },
+    ]);
+  });
+
+  it("Should follow the admin role through a transfer", async function () {
+    await vetra.connect(admin).beginDefaultAdminTransfer(user.address);
+    await ethers.provider.send("evm_increaseTime", [2 * 24 * 60 * 60]);
+    await ethers.provider.send("evm_mine", []);
+    await vetra.connect(user).acceptDefaultAdminTransfer();
+
+    const roles = await loadRoleHolders(vetra, deployBlock);
+    expect(findRoleDrift(roles, configured())).to.deep.equal([
+      { name: "DEFAULT_ADMIN_ROLE", account: user.address, kind: "unexpected" },
+      { name: "DEFAULT_ADMIN_ROLE", account: admin.address, kind: "missing" },
+    ]);
+  });
+
+  it("Should page the event queries in bounded block ranges", async function () {
+    const MINTER_ROLE = await vetra.MINTER_ROLE();
+    await vetra.connect(admin).grantRole(MINTER_ROLE, user.address);
+
+    const ranges: [number, number][] = [];
+    const queryFilter = vetra.queryFilter.bind(vetra);
+    const spied = Object.assign(Object.create(vetra), {
+      queryFilter: (event: any, from: number, to: number) => {
+        ranges.push([from, to]);
+        return queryFilter(event, from, to);
+      },
+    }) as Vetra;
+
+    // From genesis, as for a registry without a recorded deployBlock
+    const roles = await loadRoleHolders(spied, 0, 2);
+    expect(roles).to.deep.equal(await loadRoleHolders(vetra, deployBlock));
+    for (const [from, to] of ranges) {
+      expect(to - from).to.be.lessThan(2);
+    }
+    expect(ranges[ranges.length - 1][1]).to.equal(
+      await ethers.provider.getBlockNumber()
+    );
+  });
+
+  it("Should expect the recorded companion contracts as holders", async function () {
+    const record = (address: string) => ({
+      address,
+      contractName: "",
+      deployer: admin.address,
+      blockNumber: null,
+      txHash: null,
+      timestamp: "",
+    });
+
+    const expected = withCompanionHolders(configured(), {
+      contracts: {
+        VetraMintApprovals: record(user.address),
+        VetraAllowlistBatcher: record(functionsRouter.address),
+      },
+    });
+    expect(expected.MINTER_ROLE).to.deep.equal([minter.address, user.address]);
+    expect(expected.POLICY_ADMIN_ROLE).to.deep.equal([functionsRouter.address]);
+    expect(configured().MINTER_ROLE).to.deep.equal([minter.address]);
+
+    expect(withCompanionHolders(configured(), {})).to.deep.equal(configured());
+  });
+});
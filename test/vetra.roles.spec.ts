@@ -1,7 +1,8 @@
 import { expect } from "chai";
 import { ethers, upgrades } from "hardhat";
-import { Vetra } from "../typechain-types";
+import { Vetra, VetraV1, MockFunctionsRouter } from "../typechain-types";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { getVetraFactory } from "./helpers";
 
 describe("Vetra - Roles & Access Control", function () {
   let vetra: Vetra;
@@ -10,19 +11,37 @@ describe("Vetra - Roles & Access Control", function () {
   let burner: SignerWithAddress;
   let user: SignerWithAddress;
   let attacker: SignerWithAddress;
-  let functionsRouter: SignerWithAddress; // Mock router for testing
+  let functionsRouter: MockFunctionsRouter;
 
   const RESERVE_TTL = 900; // 15 minutes
   const DON_ID = ethers.encodeBytes32String("fun-polygon-amoy-1");
   const SUBSCRIPTION_ID = 1;
   const GAS_LIMIT = 300000;
 
+  const OPERATIONAL_ROLES = [
+    "PAUSER_ROLE",
+    "RESERVE_UPDATER_ROLE",
+    "POLICY_ADMIN_ROLE",
+    "ORACLE_ADMIN_ROLE",
+    "UPGRADER_ROLE",
+  ] as const;
+
+  // Moves a role from admin to user, so admin no longer holds it
+  async function moveRoleToUser(role: string) {
+    await vetra.connect(admin).grantRole(role, user.address);
+    await vetra.connect(admin).revokeRole(role, admin.address);
+  }
+
   beforeEach(async function () {
-    [admin, minter, burner, user, attacker, functionsRouter] =
-      await ethers.getSigners();
+    [admin, minter, burner, user, attacker] = await ethers.getSigners();
+
+    const RouterFactory = await ethers.getContractFactory("MockFunctionsRouter");
+    functionsRouter =
+      (await RouterFactory.deploy()) as unknown as MockFunctionsRouter;
+    await functionsRouter.waitForDeployment();
 
     // Deploy Vetra as upgradeable proxy
-    const VetraFactory = await ethers.getContractFactory("Vetra");
+    const VetraFactory = await getVetraFactory();
     vetra = (await upgrades.deployProxy(
       VetraFactory,
       [
@@ -30,7 +49,7 @@ describe("Vetra - Roles & Access Control", function () {
         minter.address,
         burner.address,
         RESERVE_TTL,
-        functionsRouter.address,
+        await functionsRouter.getAddress(),
         DON_ID,
         SUBSCRIPTION_ID,
         GAS_LIMIT,
@@ -38,6 +57,7 @@ describe("Vetra - Roles & Access Control", function () {
       {
         initializer: "initialize",
         kind: "uups",
+        unsafeAllowLinkedLibraries: true,
       }
     )) as unknown as Vetra;
 
@@ -60,6 +80,13 @@ describe("Vetra - Roles & Access Control", function () {
       expect(await vetra.hasRole(BURNER_ROLE, burner.address)).to.be.true;
     });
 
+    it("Should assign the operational roles to admin", async function () {
+      for (const name of OPERATIONAL_ROLES) {
+        const role = await vetra[name]();
+        expect(await vetra.hasRole(role, admin.address), name).to.be.true;
+      }
+    });
+
     it("Should NOT assign any role to regular user", async function () {
       const DEFAULT_ADMIN_ROLE = await vetra.DEFAULT_ADMIN_ROLE();
       const MINTER_ROLE = await vetra.MINTER_ROLE();
@@ -163,6 +190,14 @@ describe("Vetra - Roles & Access Control", function () {
       expect(await vetra.gasLimit()).to.equal(newGasLimit);
     });
 
+    it("Should NOT allow non-admin to approve a Functions source", async function () {
+      await expect(
+        vetra
+          .connect(attacker)
+          .setApprovedSource(ethers.id("return 1;"), 1, "")
+      ).to.be.reverted;
+    });
+
     it("Should NOT allow non-admin to update Chainlink config", async function () {
       await expect(
         vetra
@@ -179,6 +214,9 @@ describe("Vetra - Roles & Access Control", function () {
     it("Should allow admin to request reserve update", async function () {
       const sourceCode = "return Functions.encodeUint256(100);";
       const args: string[] = [];
+      await vetra
+        .connect(admin)
+        .setApprovedSource(ethers.id(sourceCode), 1, "");
 
       await expect(vetra.connect(admin).requestReserveUpdate(sourceCode, args))
         .to.emit(vetra, "ReserveUpdateRequested");
@@ -187,6 +225,9 @@ describe("Vetra - Roles & Access Control", function () {
     it("Should NOT allow non-admin to request reserve update", async function () {
       const sourceCode = "return Functions.encodeUint256(100);";
       const args: string[] = [];
+      await vetra
+        .connect(admin)
+        .setApprovedSource(ethers.id(sourceCode), 1, "");
 
       await expect(
         vetra.connect(attacker).requestReserveUpdate(sourceCode, args)
@@ -194,6 +235,229 @@ describe("Vetra - Roles & Access Control", function () {
     });
   });
 
+  describe("Operational Roles", function () {
+    it("Should require PAUSER_ROLE to pause and unpause", async function () {
+      const PAUSER_ROLE = await vetra.PAUSER_ROLE();
+      await moveRoleToUser(PAUSER_ROLE);
+
+      await expect(vetra.connect(admin).pause())
+        .to.be.revertedWithCustomError(vetra, "AccessControlUnauthorizedAccount")
+        .withArgs(admin.address, PAUSER_ROLE);
+
+      await vetra.connect(user).pause();
+      expect(await vetra.paused()).to.be.true;
+      await vetra.connect(user).unpause();
+      expect(await vetra.paused()).to.be.false;
+    });
+
+    it("Should require RESERVE_UPDATER_ROLE to request reserve updates", async function () {
+      const RESERVE_UPDATER_ROLE = await vetra.RESERVE_UPDATER_ROLE();
+      const sourceCode = "return Functions.encodeUint256(100);";
+      await vetra
+        .connect(admin)
+        .setApprovedSource(ethers.id(sourceCode), 1, "");
+      await moveRoleToUser(RESERVE_UPDATER_ROLE);
+
+      await expect(vetra.connect(admin).requestReserveUpdate(sourceCode, []))
+        .to.be.revertedWithCustomError(vetra, "AccessControlUnauthorizedAccount")
+        .withArgs(admin.address, RESERVE_UPDATER_ROLE);
+      await expect(
+        vetra.connect(user).requestReserveUpdate(sourceCode, [])
+      ).to.emit(vetra, "ReserveUpdateRequested");
+    });
+
+    it("Should NOT let the reserve updater change policy, oracle config or upgrade", async function () {
+      await moveRoleToUser(await vetra.RESERVE_UPDATER_ROLE());
+
+      const VetraV2Factory = await getVetraFactory("VetraV2");
+      const v2 = await VetraV2Factory.deploy();
+      await v2.waitForDeployment();
+
+      const calls = [
+        vetra.connect(user).pause(),
+        vetra.connect(user).setMintPerTxLimit(1),
+        vetra.connect(user).setApprovedSource(ethers.id("return 1;"), 2, ""),
+        vetra
+          .connect(user)
+          .updateChainlinkConfig(user.address, DON_ID, 2, GAS_LIMIT),
+        vetra.connect(user).upgradeToAndCall(await v2.getAddress(), "0x"),
+      ];
+      for (const call of calls) {
+        await expect(call).to.be.revertedWithCustomError(
+          vetra,
+          "AccessControlUnauthorizedAccount"
+        );
+      }
+    });
+
+    it("Should require POLICY_ADMIN_ROLE for mint and allowlist policy", async function () {
+      const POLICY_ADMIN_ROLE = await vetra.POLICY_ADMIN_ROLE();
+      await moveRoleToUser(POLICY_ADMIN_ROLE);
+
+      await expect(vetra.connect(admin).setReserveTTL(1800))
+        .to.be.revertedWithCustomError(vetra, "AccessControlUnauthorizedAccount")
+        .withArgs(admin.address, POLICY_ADMIN_ROLE);
+      await expect(
+        vetra.connect(admin).setAllowlistAddress(attacker.address, true)
+      ).to.be.revertedWithCustomError(vetra, "AccessControlUnauthorizedAccount");
+
+      await vetra.connect(user).setReserveTTL(1800);
+      await vetra.connect(user).setMintPerTxLimit(ethers.parseEther("1000"));
+      await vetra.connect(user).setMintRateWindow(3600);
+      await vetra.connect(user).setAllowlistEnabled(true);
+      await vetra.connect(user).setAllowlistAddress(attacker.address, true);
+
+      expect(await vetra.reserveTTL()).to.equal(1800);
+      expect(await vetra.mintPerTxLimit()).to.equal(ethers.parseEther("1000"));
+      expect(await vetra.allowlist(attacker.address)).to.be.true;
+
+      // Policy admins cannot touch the oracle
+      await expect(
+        vetra.connect(user).setMaxReserveDeviationBps(500)
+      ).to.be.revertedWithCustomError(vetra, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should require ORACLE_ADMIN_ROLE for sources and Chainlink config", async function () {
+      const ORACLE_ADMIN_ROLE = await vetra.ORACLE_ADMIN_ROLE();
+      await moveRoleToUser(ORACLE_ADMIN_ROLE);
+
+      await expect(
+        vetra.connect(admin).setApprovedSource(ethers.id("return 1;"), 1, "")
+      )
+        .to.be.revertedWithCustomError(vetra, "AccessControlUnauthorizedAccount")
+        .withArgs(admin.address, ORACLE_ADMIN_ROLE);
+      await expect(
+        vetra.connect(admin).rejectQuarantinedReserve()
+      ).to.be.revertedWithCustomError(vetra, "AccessControlUnauthorizedAccount");
+
+      await vetra
+        .connect(user)
+        .setApprovedSource(ethers.id("return 1;"), 1, "");
+      await vetra.connect(user).setMaxReserveDeviationBps(500);
+      await vetra
+        .connect(user)
+        .updateChainlinkConfig(attacker.address, DON_ID, 2, GAS_LIMIT);
+
+      expect(await vetra.approvedSourceVersion()).to.equal(1);
+      expect(await vetra.maxReserveDeviationBps()).to.equal(500);
+      expect(await vetra.functionsRouter()).to.equal(attacker.address);
+    });
+
+    it("Should require UPGRADER_ROLE to upgrade", async function () {
+      const UPGRADER_ROLE = await vetra.UPGRADER_ROLE();
+      await moveRoleToUser(UPGRADER_ROLE);
+
+      const VetraV2Factory = await getVetraFactory("VetraV2");
+      const v2 = await VetraV2Factory.deploy();
+      await v2.waitForDeployment();
+      const v2Address = await v2.getAddress();
+
+      await expect(vetra.connect(admin).upgradeToAndCall(v2Address, "0x"))
+        .to.be.revertedWithCustomError(vetra, "AccessControlUnauthorizedAccount")
+        .withArgs(admin.address, UPGRADER_ROLE);
+
+      await vetra.connect(user).upgradeToAndCall(v2Address, "0x");
+      expect(
+        await upgrades.erc1967.getImplementationAddress(
+          await vetra.getAddress()
+        )
+      ).to.equal(v2Address);
+    });
+
+    it("Should keep role management with DEFAULT_ADMIN_ROLE", async function () {
+      for (const name of OPERATIONAL_ROLES) {
+        const role = await vetra[name]();
+        expect(await vetra.getRoleAdmin(role), name).to.equal(
+          await vetra.DEFAULT_ADMIN_ROLE()
+        );
+      }
+
+      // Holding every operational role does not allow granting them
+      for (const name of OPERATIONAL_ROLES) {
+        await vetra.connect(admin).grantRole(await vetra[name](), user.address);
+      }
+      await expect(
+        vetra
+          .connect(user)
+          .grantRole(await vetra.PAUSER_ROLE(), attacker.address)
+      ).to.be.revertedWithCustomError(vetra, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Role Migration", function () {
+    let vetraV1: VetraV1;
+
+    beforeEach(async function () {
+      const VetraV1Factory = await ethers.getContractFactory("VetraV1");
+      vetraV1 = (await upgrades.deployProxy(
+        VetraV1Factory,
+        [
+          admin.address,
+          minter.address,
+          burner.address,
+          RESERVE_TTL,
+          await functionsRouter.getAddress(),
+          DON_ID,
+          SUBSCRIPTION_ID,
+          GAS_LIMIT,
+        ],
+        {
+          initializer: "initialize",
+          kind: "uups",
+        }
+      )) as unknown as VetraV1;
+      await vetraV1.waitForDeployment();
+
+      // Upgrade, then run the migrations in order
+      const VetraFactory = await getVetraFactory();
+      vetra = (await upgrades.upgradeProxy(
+        await vetraV1.getAddress(),
+        VetraFactory,
+        {
+          kind: "uups",
+          unsafeAllowLinkedLibraries: true,
+          call: { fn: "initializeCompliance", args: [admin.address] },
+        }
+      )) as unknown as Vetra;
+      await vetra.connect(admin).initializePermit();
+    });
+
+    it("Should assign the operational roles to the current admin", async function () {
+      for (const name of OPERATIONAL_ROLES) {
+        const role = await vetra[name]();
+        expect(await vetra.hasRole(role, admin.address), name).to.be.false;
+      }
+
+      await vetra.connect(admin).initializeRoles();
+
+      for (const name of OPERATIONAL_ROLES) {
+        const role = await vetra[name]();
+        expect(await vetra.hasRole(role, admin.address), name).to.be.true;
+      }
+      const DEFAULT_ADMIN_ROLE = await vetra.DEFAULT_ADMIN_ROLE();
+      expect(await vetra.hasRole(DEFAULT_ADMIN_ROLE, admin.address)).to.be.true;
+      expect(
+        await vetra.hasRole(await vetra.MINTER_ROLE(), minter.address)
+      ).to.be.true;
+
+      await vetra.connect(admin).pause();
+      expect(await vetra.paused()).to.be.true;
+    });
+
+    it("Should NOT allow running the migration twice", async function () {
+      await vetra.connect(admin).initializeRoles();
+      await expect(
+        vetra.connect(admin).initializeRoles()
+      ).to.be.revertedWithCustomError(vetra, "InvalidInitialization");
+    });
+
+    it("Should NOT allow non-admin to run the migration", async function () {
+      await expect(
+        vetra.connect(attacker).initializeRoles()
+      ).to.be.revertedWithCustomError(vetra, "AccessControlUnauthorizedAccount");
+    });
+  });
+
   describe("Minter Role", function () {
     it("Should allow admin to grant MINTER_ROLE", async function () {
       const MINTER_ROLE = await vetra.MINTER_ROLE();
@@ -234,6 +498,64 @@ describe("Vetra - Roles & Access Control", function () {
     });
   });
 
+  describe("Role Rotation", function () {
+    it("Should move a role in one transaction", async function () {
+      const MINTER_ROLE = await vetra.MINTER_ROLE();
+
+      await expect(
+        vetra
+          .connect(admin)
+          .rotateRole(MINTER_ROLE, minter.address, user.address)
+      )
+        .to.emit(vetra, "RoleGranted")
+        .withArgs(MINTER_ROLE, user.address, admin.address)
+        .and.to.emit(vetra, "RoleRevoked")
+        .withArgs(MINTER_ROLE, minter.address, admin.address);
+
+      expect(await vetra.hasRole(MINTER_ROLE, user.address)).to.be.true;
+      expect(await vetra.hasRole(MINTER_ROLE, minter.address)).to.be.false;
+    });
+
+    it("Should leave the old holder unchanged when the rotation fails", async function () {
+      const BURNER_ROLE = await vetra.BURNER_ROLE();
+
+      // The old key does not hold the role: nothing is granted either
+      await expect(
+        vetra
+          .connect(admin)
+          .rotateRole(BURNER_ROLE, user.address, attacker.address)
+      )
+        .to.be.revertedWithCustomError(vetra, "RoleNotHeld")
+        .withArgs(BURNER_ROLE, user.address);
+      expect(await vetra.hasRole(BURNER_ROLE, attacker.address)).to.be.false;
+
+      for (const to of [ethers.ZeroAddress, burner.address]) {
+        await expect(
+          vetra.connect(admin).rotateRole(BURNER_ROLE, burner.address, to)
+        ).to.be.revertedWithCustomError(vetra, "InvalidAddress");
+      }
+      await expect(
+        vetra
+          .connect(attacker)
+          .rotateRole(BURNER_ROLE, burner.address, attacker.address)
+      ).to.be.revertedWithCustomError(vetra, "AccessControlUnauthorizedAccount");
+
+      expect(await vetra.hasRole(BURNER_ROLE, burner.address)).to.be.true;
+      expect(await vetra.hasRole(BURNER_ROLE, attacker.address)).to.be.false;
+    });
+
+    it("Should NOT rotate DEFAULT_ADMIN_ROLE", async function () {
+      const DEFAULT_ADMIN_ROLE = await vetra.DEFAULT_ADMIN_ROLE();
+
+      await expect(
+        vetra
+          .connect(admin)
+          .rotateRole(DEFAULT_ADMIN_ROLE, admin.address, user.address)
+      ).to.be.revertedWithCustomError(vetra, "DefaultAdminRulesEnforced");
+      expect(await vetra.defaultAdmin()).to.equal(admin.address);
+    });
+  });
+
   describe("Pausable Behavior", function () {
     it("Should prevent minting when paused", async function () {
       await vetra.connect(admin).pause();
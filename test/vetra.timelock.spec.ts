@@ -0,0 +1,347 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { Vetra } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { getVetraFactory } from "./helpers";
+import { loadScheduledOperations } from "../scripts/lib/timelock";
+
+describe("Vetra - Timelock", function () {
+  let vetra: Vetra;
+  let admin: SignerWithAddress;
+  let minter: SignerWithAddress;
+  let burner: SignerWithAddress;
+  let attacker: SignerWithAddress;
+  let functionsRouter: SignerWithAddress;
+
+  const RESERVE_TTL = 900;
+  const DON_ID = ethers.encodeBytes32String("fun-polygon-amoy-1");
+  const SUBSCRIPTION_ID = 1;
+  const GAS_LIMIT = 300000;
+
+  const DELAY = 2 * 24 * 60 * 60; // 2 days
+
+  async function increaseChainTime(seconds: number) {
+    await ethers.provider.send("evm_increaseTime", [seconds]);
+    await ethers.provider.send("evm_mine", []);
+  }
+
+  // Schedules a call and returns its calldata and operation ID
+  async function schedule(data: string) {
+    await vetra.connect(admin).scheduleOperation(data);
+    return { data, operationId: ethers.keccak256(data) };
+  }
+
+  function execute(data: string) {
+    return admin.sendTransaction({ to: vetra.getAddress(), data });
+  }
+
+  beforeEach(async function () {
+    [admin, minter, burner, attacker, functionsRouter] =
+      await ethers.getSigners();
+
+    const VetraFactory = await getVetraFactory();
+    vetra = (await upgrades.deployProxy(
+      VetraFactory,
+      [
+        admin.address,
+        minter.address,
+        burner.address,
+        RESERVE_TTL,
+        functionsRouter.address,
+        DON_ID,
+        SUBSCRIPTION_ID,
+        GAS_LIMIT,
+      ],
+      {
+        initializer: "initialize",
+        kind: "uups",
+        unsafeAllowLinkedLibraries: true,
+      }
+    )) as unknown as Vetra;
+
+    await vetra.waitForDeployment();
+    await vetra.connect(admin).setTimelockDelay(DELAY);
+  });
+
+  describe("Delay", function () {
+    it("Should turn on immediately from 0 and stay off by default", async function () {
+      expect(await vetra.timelockDelay()).to.equal(DELAY);
+
+      const VetraFactory = await getVetraFactory();
+      const fresh = (await upgrades.deployProxy(
+        VetraFactory,
+        [
+          admin.address,
+          minter.address,
+          burner.address,
+          RESERVE_TTL,
+          functionsRouter.address,
+          DON_ID,
+          SUBSCRIPTION_ID,
+          GAS_LIMIT,
+        ],
+        {
+          initializer: "initialize",
+          kind: "uups",
+          unsafeAllowLinkedLibraries: true,
+        }
+      )) as unknown as Vetra;
+
+      expect(await fresh.timelockDelay()).to.equal(0);
+      await fresh.connect(admin).setReserveTTL(1800);
+      await expect(fresh.connect(admin).setTimelockDelay(DELAY))
+        .to.emit(fresh, "TimelockDelayUpdated")
+        .withArgs(0, DELAY);
+    });
+
+    it("Should timelock changes to the delay itself", async function () {
+      await expect(
+        vetra.connect(admin).setTimelockDelay(0)
+      ).to.be.revertedWithCustomError(vetra, "OperationNotScheduled");
+
+      const { data } = await schedule(
+        vetra.interface.encodeFunctionData("setTimelockDelay", [0])
+      );
+      await increaseChainTime(DELAY);
+      await vetra.connect(admin).setTimelockDelay(0);
+      expect(await vetra.timelockDelay()).to.equal(0);
+
+      // With the timelock off, the calldata no longer needs scheduling
+      await execute(data);
+    });
+  });
+
+  describe("Scheduling and Execution", function () {
+    it("Should NOT run timelocked calls that were not scheduled", async function () {
+      const calls = [
+        vetra.interface.encodeFunctionData("setReserveTTL", [1800]),
+        vetra.interface.encodeFunctionData("setMintPerTxLimit", [1]),
+        vetra.interface.encodeFunctionData("setAllowlistEnabled", [true]),
+        vetra.interface.encodeFunctionData("updateChainlinkConfig", [
+          attacker.address,
+          DON_ID,
+          2,
+          GAS_LIMIT,
+        ]),
+        vetra.interface.encodeFunctionData("setMintRateWindow", [3600]),
+        vetra.interface.encodeFunctionData("setGlobalMintRateLimit", [0]),
+        vetra.interface.encodeFunctionData("setMinterMintRateLimit", [0]),
+        vetra.interface.encodeFunctionData("configureMintApprovals", [
+          attacker.address,
+          1,
+        ]),
+        vetra.interface.encodeFunctionData("setApprovedSource", [
+          ethers.id("source"),
+          2,
+          "",
+        ]),
+        vetra.interface.encodeFunctionData("setMaxReserveDeviationBps", [0]),
+      ];
+
+      for (const data of calls) {
+        await expect(execute(data))
+          .to.be.revertedWithCustomError(vetra, "OperationNotScheduled")
+          .withArgs(ethers.keccak256(data));
+      }
+    });
+
+    it("Should announce, wait for and execute a scheduled change", async function () {
+      const data = vetra.interface.encodeFunctionData("setReserveTTL", [1800]);
+      const operationId = ethers.keccak256(data);
+
+      const tx = await vetra.connect(admin).scheduleOperation(data);
+      const block = await ethers.provider.getBlock(tx.blockNumber!);
+      const readyAt = BigInt(block!.timestamp + DELAY);
+
+      await expect(tx)
+        .to.emit(vetra, "OperationScheduled")
+        .withArgs(operationId, data, readyAt, admin.address);
+      expect(await vetra.timelockReadyAt(operationId)).to.equal(readyAt);
+
+      await expect(vetra.connect(admin).setReserveTTL(1800))
+        .to.be.revertedWithCustomError(vetra, "OperationNotReady")
+        .withArgs(operationId, readyAt);
+
+      await increaseChainTime(DELAY);
+      await expect(vetra.connect(admin).setReserveTTL(1800))
+        .to.emit(vetra, "OperationExecuted")
+        .withArgs(operationId)
+        .and.to.emit(vetra, "ReserveTTLUpdated")
+        .withArgs(RESERVE_TTL, 1800);
+
+      expect(await vetra.reserveTTL()).to.equal(1800);
+      expect(await vetra.timelockReadyAt(operationId)).to.equal(0);
+
+      // An operation runs once
+      await expect(
+        vetra.connect(admin).setReserveTTL(1800)
+      ).to.be.revertedWithCustomError(vetra, "OperationNotScheduled");
+    });
+
+    it("Should execute scheduled mint policy and oracle changes", async function () {
+      const calls = [
+        vetra.interface.encodeFunctionData("setMintRateWindow", [3600]),
+        vetra.interface.encodeFunctionData("setGlobalMintRateLimit", [1000]),
+        vetra.interface.encodeFunctionData("configureMintApprovals", [
+          attacker.address,
+          1,
+        ]),
+        vetra.interface.encodeFunctionData("setMaxReserveDeviationBps", [500]),
+      ];
+      for (const data of calls) {
+        await schedule(data);
+      }
+      await increaseChainTime(DELAY);
+
+      // In order: the global limit needs the window
+      for (const data of calls) {
+        await expect(execute(data)).to.emit(vetra, "OperationExecuted");
+      }
+      expect(await vetra.mintRateWindow()).to.equal(3600);
+      expect(await vetra.globalMintRateLimit()).to.equal(1000);
+      expect(await vetra.mintApprovals()).to.equal(attacker.address);
+      expect(await vetra.maxReserveDeviationBps()).to.equal(500);
+    });
+
+    it("Should only execute the exact call that was scheduled", async function () {
+      await schedule(
+        vetra.interface.encodeFunctionData("setMintPerTxLimit", [1000])
+      );
+      await increaseChainTime(DELAY);
+
+      await expect(
+        vetra.connect(admin).setMintPerTxLimit(2000)
+      ).to.be.revertedWithCustomError(vetra, "OperationNotScheduled");
+      await vetra.connect(admin).setMintPerTxLimit(1000);
+      expect(await vetra.mintPerTxLimit()).to.equal(1000);
+    });
+
+    it("Should NOT schedule the same call twice", async function () {
+      const data = vetra.interface.encodeFunctionData("setAllowlistEnabled", [
+        true,
+      ]);
+      await schedule(data);
+      await expect(vetra.connect(admin).scheduleOperation(data))
+        .to.be.revertedWithCustomError(vetra, "OperationAlreadyScheduled")
+        .withArgs(ethers.keccak256(data));
+    });
+
+    it("Should list scheduled operations from paged log queries", async function () {
+      await schedule(
+        vetra.interface.encodeFunctionData("setMintPerTxLimit", [1000])
+      );
+      const cancelled = await schedule(
+        vetra.interface.encodeFunctionData("setAllowlistEnabled", [true])
+      );
+      await vetra.connect(admin).cancelOperation(cancelled.operationId);
+
+      const ranges: [number, number][] = [];
+      const queryFilter = vetra.queryFilter.bind(vetra);
+      const spied = Object.assign(Object.create(vetra), {
+        queryFilter: (event: any, from: number, to: number) => {
+          ranges.push([from, to]);
+          return queryFilter(event, from, to);
+        },
+      }) as Vetra;
+
+      const scheduled = await loadScheduledOperations(spied, 0, 2);
+      expect(scheduled.map((op) => op.description)).to.deep.equal([
+        "setMintPerTxLimit(1000)",
+      ]);
+      for (const [from, to] of ranges) {
+        expect(to - from).to.be.lessThan(2);
+      }
+      expect(ranges[ranges.length - 1][1]).to.equal(
+        await ethers.provider.getBlockNumber()
+      );
+    });
+
+    it("Should still require the admin role when executing", async function () {
+      const data = vetra.interface.encodeFunctionData("setAllowlistEnabled", [
+        true,
+      ]);
+      await schedule(data);
+      await increaseChainTime(DELAY);
+
+      await expect(
+        vetra.connect(attacker).setAllowlistEnabled(true)
+      ).to.be.revertedWithCustomError(
+        vetra,
+        "AccessControlUnauthorizedAccount"
+      );
+      await expect(
+        vetra.connect(attacker).scheduleOperation(data)
+      ).to.be.revertedWithCustomError(
+        vetra,
+        "AccessControlUnauthorizedAccount"
+      );
+    });
+  });
+
+  describe("Cancellation", function () {
+    it("Should cancel a scheduled operation", async function () {
+      const { data, operationId } = await schedule(
+        vetra.interface.encodeFunctionData("setAllowlistEnabled", [true])
+      );
+
+      await expect(
+        vetra.connect(attacker).cancelOperation(operationId)
+      ).to.be.revertedWithCustomError(
+        vetra,
+        "AccessControlUnauthorizedAccount"
+      );
+      await expect(vetra.connect(admin).cancelOperation(operationId))
+        .to.emit(vetra, "OperationCancelled")
+        .withArgs(operationId, admin.address);
+
+      await increaseChainTime(DELAY);
+      await expect(execute(data)).to.be.revertedWithCustomError(
+        vetra,
+        "OperationNotScheduled"
+      );
+      await expect(vetra.connect(admin).cancelOperation(operationId))
+        .to.be.revertedWithCustomError(vetra, "OperationNotScheduled")
+        .withArgs(operationId);
+    });
+  });
+
+  describe("Upgrades and Pause", function () {
+    it("Should timelock upgrades", async function () {
+      const VetraV2Factory = await getVetraFactory("VetraV2");
+      const v2 = await VetraV2Factory.deploy();
+      await v2.waitForDeployment();
+      const v2Address = await v2.getAddress();
+
+      await expect(
+        vetra.connect(admin).upgradeToAndCall(v2Address, "0x")
+      ).to.be.revertedWithCustomError(vetra, "OperationNotScheduled");
+
+      await schedule(
+        vetra.interface.encodeFunctionData("upgradeToAndCall", [
+          v2Address,
+          "0x",
+        ])
+      );
+      await increaseChainTime(DELAY);
+      await vetra.connect(admin).upgradeToAndCall(v2Address, "0x");
+
+      expect(
+        await upgrades.erc1967.getImplementationAddress(
+          await vetra.getAddress()
+        )
+      ).to.equal(v2Address);
+    });
+
+    it("Should update allowlist entries immediately", async function () {
+      await vetra.connect(admin).setAllowlistAddress(attacker.address, true);
+      expect(await vetra.allowlist(attacker.address)).to.equal(true);
+    });
+
+    it("Should pause and unpause immediately", async function () {
+      await vetra.connect(admin).pause();
+      expect(await vetra.paused()).to.equal(true);
+      await vetra.connect(admin).unpause();
+      expect(await vetra.paused()).to.equal(false);
+    });
+  });
+});
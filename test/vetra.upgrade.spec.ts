@@ -2,6 +2,7 @@ import { expect } from "chai";
 import { ethers, upgrades } from "hardhat";
 import { Vetra, VetraV2 } from "../typechain-types";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { getVetraFactory } from "./helpers";
 
 describe("Vetra - Upgradeability", function () {
   let vetra: Vetra;
@@ -23,7 +24,7 @@ describe("Vetra - Upgradeability", function () {
       await ethers.getSigners();
 
     // Deploy V1
-    const VetraFactory = await ethers.getContractFactory("Vetra");
+    const VetraFactory = await getVetraFactory();
     vetra = (await upgrades.deployProxy(
       VetraFactory,
       [
@@ -39,6 +40,7 @@ describe("Vetra - Upgradeability", function () {
       {
         initializer: "initialize",
         kind: "uups",
+        unsafeAllowLinkedLibraries: true,
       }
     )) as unknown as Vetra;
 
@@ -47,13 +49,14 @@ describe("Vetra - Upgradeability", function () {
 
   describe("Upgrade Authorization", function () {
     it("Should allow admin to upgrade", async function () {
-      const VetraV2Factory = await ethers.getContractFactory("VetraV2");
+      const VetraV2Factory = await getVetraFactory("VetraV2");
       const proxyAddress = await vetra.getAddress();
 
       // Upgrade should succeed
       vetraV2 = (await upgrades.upgradeProxy(
         proxyAddress,
-        VetraV2Factory
+        VetraV2Factory,
+        { unsafeAllowLinkedLibraries: true }
       )) as unknown as VetraV2;
 
       expect(await vetraV2.getAddress()).to.equal(proxyAddress);
@@ -61,7 +64,7 @@ describe("Vetra - Upgradeability", function () {
 
     it("Should NOT allow non-admin to upgrade", async function () {
       // Non-admin cannot call upgradeToAndCall directly
-      const VetraV2Factory = await ethers.getContractFactory("VetraV2");
+      const VetraV2Factory = await getVetraFactory("VetraV2");
       const v2Implementation = await VetraV2Factory.deploy();
       await v2Implementation.waitForDeployment();
 
@@ -80,11 +83,12 @@ describe("Vetra - Upgradeability", function () {
       const BURNER_ROLE = await vetra.BURNER_ROLE();
 
       // Upgrade
-      const VetraV2Factory = await ethers.getContractFactory("VetraV2");
+      const VetraV2Factory = await getVetraFactory("VetraV2");
       const proxyAddress = await vetra.getAddress();
       vetraV2 = (await upgrades.upgradeProxy(
         proxyAddress,
-        VetraV2Factory
+        VetraV2Factory,
+        { unsafeAllowLinkedLibraries: true }
       )) as unknown as VetraV2;
 
       // Check roles are preserved
@@ -96,11 +100,12 @@ describe("Vetra - Upgradeability", function () {
 
     it("Should preserve configuration after upgrade", async function () {
       // Upgrade
-      const VetraV2Factory = await ethers.getContractFactory("VetraV2");
+      const VetraV2Factory = await getVetraFactory("VetraV2");
       const proxyAddress = await vetra.getAddress();
       vetraV2 = (await upgrades.upgradeProxy(
         proxyAddress,
-        VetraV2Factory
+        VetraV2Factory,
+        { unsafeAllowLinkedLibraries: true }
       )) as unknown as VetraV2;
 
       // Check config is preserved
@@ -112,11 +117,12 @@ describe("Vetra - Upgradeability", function () {
 
     it("Should preserve token metadata after upgrade", async function () {
       // Upgrade
-      const VetraV2Factory = await ethers.getContractFactory("VetraV2");
+      const VetraV2Factory = await getVetraFactory("VetraV2");
       const proxyAddress = await vetra.getAddress();
       vetraV2 = (await upgrades.upgradeProxy(
         proxyAddress,
-        VetraV2Factory
+        VetraV2Factory,
+        { unsafeAllowLinkedLibraries: true }
       )) as unknown as VetraV2;
 
       // Check token metadata is preserved
@@ -129,11 +135,12 @@ describe("Vetra - Upgradeability", function () {
       const initialSupply = await vetra.totalSupply();
 
       // Upgrade
-      const VetraV2Factory = await ethers.getContractFactory("VetraV2");
+      const VetraV2Factory = await getVetraFactory("VetraV2");
       const proxyAddress = await vetra.getAddress();
       vetraV2 = (await upgrades.upgradeProxy(
         proxyAddress,
-        VetraV2Factory
+        VetraV2Factory,
+        { unsafeAllowLinkedLibraries: true }
       )) as unknown as VetraV2;
 
       expect(await vetraV2.totalSupply()).to.equal(initialSupply);
@@ -143,11 +150,12 @@ describe("Vetra - Upgradeability", function () {
   describe("New Functionality", function () {
     beforeEach(async function () {
       // Upgrade to V2
-      const VetraV2Factory = await ethers.getContractFactory("VetraV2");
+      const VetraV2Factory = await getVetraFactory("VetraV2");
       const proxyAddress = await vetra.getAddress();
       vetraV2 = (await upgrades.upgradeProxy(
         proxyAddress,
-        VetraV2Factory
+        VetraV2Factory,
+        { unsafeAllowLinkedLibraries: true }
       )) as unknown as VetraV2;
     });
 
@@ -172,10 +180,11 @@ describe("Vetra - Upgradeability", function () {
     it("Should maintain same proxy address after upgrade", async function () {
       const v1Address = await vetra.getAddress();
 
-      const VetraV2Factory = await ethers.getContractFactory("VetraV2");
+      const VetraV2Factory = await getVetraFactory("VetraV2");
       vetraV2 = (await upgrades.upgradeProxy(
         v1Address,
-        VetraV2Factory
+        VetraV2Factory,
+        { unsafeAllowLinkedLibraries: true }
       )) as unknown as VetraV2;
 
       const v2Address = await vetraV2.getAddress();
@@ -189,10 +198,11 @@ describe("Vetra - Upgradeability", function () {
         v1Address
       );
 
-      const VetraV2Factory = await ethers.getContractFactory("VetraV2");
+      const VetraV2Factory = await getVetraFactory("VetraV2");
       vetraV2 = (await upgrades.upgradeProxy(
         v1Address,
-        VetraV2Factory
+        VetraV2Factory,
+        { unsafeAllowLinkedLibraries: true }
       )) as unknown as VetraV2;
 
       const v2ImplAddress = await upgrades.erc1967.getImplementationAddress(
@@ -205,12 +215,14 @@ describe("Vetra - Upgradeability", function () {
 
   describe("Upgrade Event", function () {
     it("Should emit Upgraded event", async function () {
-      const VetraV2Factory = await ethers.getContractFactory("VetraV2");
+      const VetraV2Factory = await getVetraFactory("VetraV2");
       const proxyAddress = await vetra.getAddress();
 
       // The upgrade itself happens inside the upgrades.upgradeProxy
       // We can check the event was emitted by querying past events
-      await upgrades.upgradeProxy(proxyAddress, VetraV2Factory);
+      await upgrades.upgradeProxy(proxyAddress, VetraV2Factory, {
+        unsafeAllowLinkedLibraries: true,
+      });
 
       // Get upgrade events
       const filter = vetra.filters.Upgraded();